@@ -0,0 +1,3 @@
+-- Provedor de assinatura eletrônica por cidade (plugsign ou besign)
+ALTER TABLE cities ADD COLUMN IF NOT EXISTS signature_provider TEXT NOT NULL DEFAULT 'plugsign';
+ALTER TABLE cities ADD COLUMN IF NOT EXISTS besign_token TEXT;
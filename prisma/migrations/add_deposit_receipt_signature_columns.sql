@@ -0,0 +1,4 @@
+-- Colunas de assinatura eletrônica do comprovante de caução
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS document_key TEXT;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS signed_at TIMESTAMP(3);
+CREATE INDEX IF NOT EXISTS deposit_receipts_signature_request_id_idx ON deposit_receipts(signature_request_id);
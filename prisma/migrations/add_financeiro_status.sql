@@ -0,0 +1,10 @@
+-- =============================================
+-- SITUAÇÃO DOS LANÇAMENTOS FINANCEIROS
+-- Lançamentos de cobranças canceladas (fim da locação), renegociadas ou
+-- suspensas (pausa) não são mais excluídos: ficam no histórico com a
+-- situação correspondente e saem dos totais e das listagens padrão
+-- =============================================
+
+ALTER TABLE financeiro ADD COLUMN IF NOT EXISTS status VARCHAR NOT NULL DEFAULT 'ativo';
+
+CREATE INDEX IF NOT EXISTS financeiro_status_idx ON financeiro(status);
@@ -0,0 +1,9 @@
+-- =============================================
+-- CONFIGURAÇÃO DA EVOLUTION POR CIDADE
+-- ia_agendamento_config passa a ter uma configuração por cidade; a linha sem
+-- cidade continua sendo o padrão para as cidades sem configuração própria
+-- =============================================
+
+ALTER TABLE ia_agendamento_config ADD COLUMN IF NOT EXISTS city_id UUID REFERENCES cities(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ia_agendamento_config_city_id_key ON ia_agendamento_config(city_id);
@@ -0,0 +1,8 @@
+-- =============================================
+-- MÁQUINA DE ESTADOS DO STATUS DA MOTO
+-- Origem da mudança (tela de motos ou fluxo do sistema) e comprovante
+-- exigido em algumas transições (ex.: boletim de ocorrência)
+-- =============================================
+
+ALTER TABLE motorcycle_movements ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE motorcycle_movements ADD COLUMN IF NOT EXISTS evidence_url TEXT;
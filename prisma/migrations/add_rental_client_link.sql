@@ -0,0 +1,11 @@
+-- =============================================
+-- VÍNCULO LOCAÇÃO -> CLIENTE
+-- Locações passam a referenciar o cadastro de clientes (client_id) e guardam
+-- os dados do cliente na assinatura (client_snapshot). Locações antigas são
+-- vinculadas por CPF/CNPJ normalizado via POST /api/rentals/client-links/backfill
+-- =============================================
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES clients(id);
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS client_snapshot JSONB;
+
+CREATE INDEX IF NOT EXISTS rentals_client_id_idx ON rentals(client_id);
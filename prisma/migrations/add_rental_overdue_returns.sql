@@ -0,0 +1,12 @@
+-- =============================================
+-- DEVOLUÇÕES EM ATRASO
+-- Locações com end_date vencido (ou moto não devolvida) e multa diária acumulada
+-- =============================================
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS return_overdue_since DATE;
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS return_overdue_reason TEXT;
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS late_fee_days INTEGER;
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10, 2);
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS overdue_notified_at TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS rentals_return_overdue_since_idx ON rentals(return_overdue_since);
@@ -0,0 +1,20 @@
+-- =============================================
+-- CICLO DE VIDA DOS PLANOS DE LOCAÇÃO
+-- Vigência, arquivamento, variantes promocionais e snapshot do plano na locação
+-- =============================================
+
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS promo_weekly_rate DECIMAL(10, 2);
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS promo_weeks INTEGER;
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS valid_from DATE;
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS valid_until DATE;
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS parent_plan_id UUID REFERENCES rental_plans(id);
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP(3);
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS created_by UUID;
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS plan_snapshot JSONB;
+
+-- Locações existentes passam a usar as condições atuais do plano como snapshot
+UPDATE rentals r
+SET plan_snapshot = to_jsonb(p) || jsonb_build_object('captured_at', NOW())
+FROM rental_plans p
+WHERE r.plan_id = p.id AND r.plan_snapshot IS NULL;
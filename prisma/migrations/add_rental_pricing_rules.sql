@@ -0,0 +1,11 @@
+-- =============================================
+-- MOTOR DE PRECIFICAÇÃO
+-- Regras de km excedente e devolução antecipada/atrasada no plano + detalhamento na locação
+-- =============================================
+
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS km_allowance_per_day INTEGER;
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS km_overage_rate DECIMAL(10, 2);
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS early_return_fee_percentage DECIMAL(5, 2);
+ALTER TABLE rental_plans ADD COLUMN IF NOT EXISTS late_return_daily_rate DECIMAL(10, 2);
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS pricing_breakdown JSONB;
@@ -0,0 +1,20 @@
+-- =============================================
+-- ARQUIVAMENTO DE LOCAÇÕES (SOFT DELETE)
+-- Locações excluídas são arquivadas com deleted_at/deleted_by junto com
+-- vistorias, distratos e veículos secundários; a exclusão definitiva só
+-- ocorre pelo expurgo manual após RENTAL_ARCHIVE_RETENTION_DAYS
+-- =============================================
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP(3);
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+ALTER TABLE vistorias ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP(3);
+ALTER TABLE vistorias ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+ALTER TABLE distratos_locacoes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP(3);
+ALTER TABLE distratos_locacoes ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+ALTER TABLE rental_secondary_vehicles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP(3);
+ALTER TABLE rental_secondary_vehicles ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+CREATE INDEX IF NOT EXISTS rentals_deleted_at_idx ON rentals(deleted_at);
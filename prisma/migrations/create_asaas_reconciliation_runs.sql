@@ -0,0 +1,19 @@
+-- =============================================
+-- CONCILIAÇÃO DE PAGAMENTOS ASAAS
+-- Histórico das execuções (manuais e agendadas) com relatório de divergências
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS asaas_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trigger TEXT NOT NULL DEFAULT 'manual',
+    dry_run BOOLEAN NOT NULL DEFAULT false,
+    checked INTEGER NOT NULL DEFAULT 0,
+    updated INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,
+    report JSONB,
+    started_by UUID,
+    started_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP(3)
+);
+
+CREATE INDEX IF NOT EXISTS asaas_reconciliation_runs_started_at_idx ON asaas_reconciliation_runs(started_at);
@@ -0,0 +1,58 @@
+-- =============================================
+-- VERSIONAMENTO DE TEMPLATES DE CONTRATO
+-- Versões publicadas são snapshots imutáveis (conteúdo + variáveis + cláusulas)
+-- =============================================
+
+ALTER TABLE contract_templates ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft';
+
+CREATE TABLE IF NOT EXISTS contract_template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES contract_templates(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content JSONB NOT NULL,
+    variables JSONB NOT NULL DEFAULT '[]',
+    clauses JSONB NOT NULL DEFAULT '[]',
+    notes TEXT,
+    published_by UUID,
+    published_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS contract_template_versions_template_id_idx ON contract_template_versions(template_id);
+
+-- Contrato gerado aponta para o snapshot exato utilizado
+ALTER TABLE generated_contracts ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES contract_template_versions(id);
+CREATE INDEX IF NOT EXISTS generated_contracts_template_version_id_idx ON generated_contracts(template_version_id);
+
+-- =============================================
+-- BACKFILL: publicar a versão 1 dos templates existentes
+-- (contratos já gerados continuam sem versão, pois o texto pode ter mudado desde então)
+-- =============================================
+INSERT INTO contract_template_versions (template_id, version_number, title, content, variables, clauses, notes)
+SELECT
+    t.id,
+    1,
+    t.title,
+    t.content,
+    t.variables,
+    COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+            'clause_number', c.clause_number,
+            'title', c.title,
+            'content', c.content,
+            'order_index', c.order_index,
+            'is_required', c.is_required,
+            'variables', c.variables
+        ) ORDER BY c.order_index)
+        FROM contract_clauses c
+        WHERE c.template_id = t.id
+    ), '[]'::jsonb),
+    'Versão inicial (migração)'
+FROM contract_templates t
+WHERE NOT EXISTS (
+    SELECT 1 FROM contract_template_versions v WHERE v.template_id = t.id
+);
+
+UPDATE contract_templates SET status = 'published', version = '1'
+WHERE id IN (SELECT template_id FROM contract_template_versions);
@@ -0,0 +1,70 @@
+-- =============================================
+-- CRM: LEADS, FUNIL DE VENDAS E ATIVIDADES
+-- Atribuição de leads, etapas do funil por cidade, histórico de interações
+-- e conversão de oportunidades em cliente + locação
+-- =============================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES clients(id);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS last_contact_at TIMESTAMP(3);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS converted_at TIMESTAMP(3);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS lost_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS leads_assigned_to_idx ON leads(assigned_to);
+CREATE INDEX IF NOT EXISTS leads_status_idx ON leads(status);
+CREATE INDEX IF NOT EXISTS leads_source_idx ON leads(source);
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES clients(id);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS rental_id UUID REFERENCES rentals(id);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS stage_changed_at TIMESTAMP(3);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS won_at TIMESTAMP(3);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS lost_at TIMESTAMP(3);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS lost_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS deals_lead_id_idx ON deals(lead_id);
+CREATE INDEX IF NOT EXISTS deals_stage_idx ON deals(stage);
+
+CREATE TABLE IF NOT EXISTS deal_stages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    city_id UUID REFERENCES cities(id),
+    key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    probability INTEGER NOT NULL DEFAULT 0,
+    is_won BOOLEAN NOT NULL DEFAULT false,
+    is_lost BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (city_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS deal_stages_city_id_idx ON deal_stages(city_id);
+-- UNIQUE não se aplica a city_id nulo: garantir uma única etapa padrão por chave
+CREATE UNIQUE INDEX IF NOT EXISTS deal_stages_default_key_idx ON deal_stages(key) WHERE city_id IS NULL;
+
+-- Etapas padrão (usadas pelas cidades sem funil próprio)
+INSERT INTO deal_stages (city_id, key, name, order_index, probability, is_won, is_lost)
+VALUES
+    (NULL, 'prospecting', 'Prospecção', 1, 10, false, false),
+    (NULL, 'qualification', 'Qualificação', 2, 30, false, false),
+    (NULL, 'proposal', 'Proposta', 3, 60, false, false),
+    (NULL, 'negotiation', 'Negociação', 4, 80, false, false),
+    (NULL, 'won', 'Ganho', 5, 100, true, false),
+    (NULL, 'lost', 'Perdido', 6, 0, false, true)
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS crm_activities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_id UUID REFERENCES leads(id),
+    deal_id UUID REFERENCES deals(id),
+    type TEXT NOT NULL,
+    description TEXT,
+    metadata JSONB,
+    occurred_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    franchisee_id UUID,
+    city_id UUID,
+    created_by UUID REFERENCES app_users(id),
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS crm_activities_lead_id_occurred_at_idx ON crm_activities(lead_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS crm_activities_deal_id_occurred_at_idx ON crm_activities(deal_id, occurred_at DESC);
@@ -0,0 +1,43 @@
+-- =============================================
+-- MOTOR DE INADIMPLÊNCIA
+-- Regras por cidade, estado de inadimplência da locação e renegociações
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS delinquency_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    city_id UUID NOT NULL UNIQUE REFERENCES cities(id),
+    grace_days INTEGER NOT NULL DEFAULT 3,
+    min_overdue_installments INTEGER NOT NULL DEFAULT 1,
+    min_overdue_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    include_financeiro BOOLEAN NOT NULL DEFAULT true,
+    block_motorcycle BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS delinquent_since TIMESTAMP(3);
+
+CREATE TABLE IF NOT EXISTS rental_renegotiations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rental_id UUID NOT NULL REFERENCES rentals(id),
+    franchisee_id UUID,
+    city_id UUID,
+    original_debt DECIMAL(10, 2) NOT NULL,
+    discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    down_payment DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(10, 2) NOT NULL,
+    installments_count INTEGER NOT NULL,
+    interval_days INTEGER NOT NULL DEFAULT 7,
+    first_due_date DATE NOT NULL,
+    schedule JSONB NOT NULL,
+    renegotiated_items JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    notes TEXT,
+    created_by UUID,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS rental_renegotiations_rental_id_idx ON rental_renegotiations(rental_id);
+CREATE INDEX IF NOT EXISTS rental_renegotiations_status_idx ON rental_renegotiations(status);
@@ -0,0 +1,44 @@
+-- =============================================
+-- MÓDULO DE CAUÇÃO
+-- Comprovantes vinculados à locação, numeração por cidade e devolução
+-- =============================================
+
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS city_id UUID REFERENCES cities(id);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS franchisee_id UUID REFERENCES franchisees(id);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS received_at DATE;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS sequence INTEGER;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS refund_reason TEXT;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS distrato_id UUID REFERENCES distratos(id);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS damage_deduction DECIMAL(10, 2);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS debt_deduction DECIMAL(10, 2);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS refund_details JSONB;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP(3);
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS refunded_by UUID;
+ALTER TABLE deposit_receipts ADD COLUMN IF NOT EXISTS created_by UUID;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE table_name = 'deposit_receipts' AND constraint_name = 'deposit_receipts_rental_id_fkey'
+    ) THEN
+        ALTER TABLE deposit_receipts
+            ADD CONSTRAINT deposit_receipts_rental_id_fkey FOREIGN KEY (rental_id) REFERENCES rentals(id);
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS deposit_receipts_city_id_sequence_key ON deposit_receipts(city_id, sequence);
+CREATE INDEX IF NOT EXISTS deposit_receipts_franchisee_id_idx ON deposit_receipts(franchisee_id);
+
+-- Contador de numeração por cidade
+CREATE TABLE IF NOT EXISTS deposit_receipt_counters (
+    city_id UUID PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Avarias constatadas na vistoria (descontadas da caução na devolução)
+ALTER TABLE vistorias ADD COLUMN IF NOT EXISTS damage_description TEXT;
+ALTER TABLE vistorias ADD COLUMN IF NOT EXISTS damage_amount DECIMAL(10, 2);
@@ -0,0 +1,15 @@
+-- =============================================
+-- LOCKS DE EXECUÇÃO DAS TAREFAS EM SEGUNDO PLANO
+-- Um lease por tarefa (geração de cobranças por locação, conciliação com o Asaas):
+-- renovado enquanto a tarefa roda e expirado sozinho se o processo cair
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS job_locks (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    locked_until TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS job_locks_locked_until_idx ON job_locks(locked_until);
@@ -0,0 +1,23 @@
+-- =============================================
+-- DOCUMENTOS DO VEÍCULO
+-- Licenciamento, IPVA, DPVAT, seguro e vistoria com datas de emissão e
+-- validade; renovações entram como novos registros do mesmo tipo
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS motorcycle_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    motorcycle_id UUID NOT NULL REFERENCES motorcycles(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    number TEXT,
+    issue_date DATE,
+    expiry_date DATE,
+    file_url TEXT,
+    notes TEXT,
+    expiry_reminder_sent_at TIMESTAMP(3),
+    created_by UUID,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS motorcycle_documents_motorcycle_id_type_idx ON motorcycle_documents(motorcycle_id, type);
+CREATE INDEX IF NOT EXISTS motorcycle_documents_expiry_date_idx ON motorcycle_documents(expiry_date);
@@ -0,0 +1,155 @@
+-- =============================================
+-- CADASTRO ÚNICO DE MOTOS
+-- Uma linha por veículo em motorcycles (placa e chassi únicos). Os registros
+-- extras por placa criados como "movimento" (distrato, veículo reserva) são
+-- consolidados na moto original e viram histórico em motorcycle_movements
+-- =============================================
+
+BEGIN;
+
+-- 1. Placa em maiúsculas sem hífen/espaços; chassi em maiúsculas sem espaços, pontos e hífens
+--    (mesma regra de normalizeChassi, para que as duplicatas abaixo sejam encontradas); chassi vazio vira NULL
+UPDATE motorcycles
+SET placa = upper(regexp_replace(placa, '[^A-Za-z0-9]', '', 'g'))
+WHERE placa <> upper(regexp_replace(placa, '[^A-Za-z0-9]', '', 'g'));
+
+UPDATE motorcycles
+SET chassi = NULLIF(upper(regexp_replace(chassi, '[\s.-]', '', 'g')), '')
+WHERE chassi IS NOT NULL;
+
+-- 2. Moto canônica por placa: o cadastro mais antigo (created_at)
+CREATE TEMP TABLE motorcycle_merge ON COMMIT DROP AS
+SELECT
+    m.id,
+    first_value(m.id) OVER (PARTITION BY m.placa ORDER BY m.created_at, m.id) AS canonical_id
+FROM motorcycles m;
+
+-- Placas diferentes com o mesmo chassi (troca de placa) também são o mesmo veículo
+CREATE TEMP TABLE motorcycle_chassi_merge ON COMMIT DROP AS
+SELECT
+    m.id,
+    first_value(m.id) OVER (PARTITION BY m.chassi ORDER BY m.created_at, m.id) AS canonical_id
+FROM motorcycles m
+WHERE m.chassi IS NOT NULL
+  AND m.id IN (SELECT canonical_id FROM motorcycle_merge);
+
+UPDATE motorcycle_merge mm
+SET canonical_id = cm.canonical_id
+FROM motorcycle_chassi_merge cm
+WHERE mm.canonical_id = cm.id
+  AND cm.id <> cm.canonical_id;
+
+-- 3. Histórico: cada registro extra vira um movimento da moto canônica
+INSERT INTO motorcycle_movements (motorcycle_id, previous_status, new_status, reason, created_at)
+SELECT
+    h.canonical_id,
+    h.previous_status,
+    h.status,
+    COALESCE(NULLIF(h.observacoes, ''), 'Movimento consolidado no cadastro único'),
+    h.moved_at
+FROM (
+    SELECT
+        mm.id,
+        mm.canonical_id,
+        m.status,
+        m.observacoes,
+        COALESCE(m.data_ultima_mov, m.created_at) AS moved_at,
+        lag(m.status) OVER (
+            PARTITION BY mm.canonical_id
+            ORDER BY COALESCE(m.data_ultima_mov, m.created_at), m.created_at
+        ) AS previous_status
+    FROM motorcycle_merge mm
+    JOIN motorcycles m ON m.id = mm.id
+) h
+WHERE h.id <> h.canonical_id
+  AND h.previous_status IS DISTINCT FROM h.status;
+
+-- 4. Estado atual (registro mais recente do veículo) e dados cadastrais na moto canônica
+UPDATE motorcycles c
+SET
+    placa = l.placa,
+    chassi = COALESCE(c.chassi, l.chassi),
+    renavam = COALESCE(l.renavam, c.renavam),
+    modelo = l.modelo,
+    marca = COALESCE(l.marca, c.marca),
+    ano = COALESCE(l.ano, c.ano),
+    cor = COALESCE(l.cor, c.cor),
+    quilometragem = l.max_quilometragem,
+    status = l.status,
+    codigo_cs = COALESCE(l.codigo_cs, c.codigo_cs),
+    tipo = COALESCE(l.tipo, c.tipo),
+    valor_semanal = COALESCE(l.valor_semanal, c.valor_semanal),
+    city_id = l.city_id,
+    franchisee_id = l.franchisee_id,
+    doc_moto = COALESCE(l.doc_moto, c.doc_moto),
+    doc_taxa_intermediacao = COALESCE(l.doc_taxa_intermediacao, c.doc_taxa_intermediacao),
+    data_ultima_mov = l.data_ultima_mov,
+    data_criacao = COALESCE(c.data_criacao, c.created_at),
+    updated_at = CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON (mm.canonical_id)
+        mm.canonical_id,
+        m.*,
+        max(m.quilometragem) OVER (PARTITION BY mm.canonical_id) AS max_quilometragem
+    FROM motorcycle_merge mm
+    JOIN motorcycles m ON m.id = mm.id
+    WHERE mm.canonical_id IN (SELECT canonical_id FROM motorcycle_merge WHERE id <> canonical_id)
+    ORDER BY mm.canonical_id, COALESCE(m.data_ultima_mov, m.created_at) DESC, m.created_at DESC
+) l
+WHERE c.id = l.canonical_id;
+
+-- 5. Referências dos registros extras passam para a moto canônica
+UPDATE rentals t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE rental_secondary_vehicles t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE financeiro t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE lancamentos_recorrentes t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE vistorias t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE manutencoes t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE ordens_servico t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+UPDATE motorcycle_movements t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+-- Beemon: um veículo por assinatura (mantém o vínculo mais antigo)
+DELETE FROM beemon_vehicles b
+USING (
+    SELECT
+        bv.id,
+        row_number() OVER (
+            PARTITION BY bv.subscription_id, COALESCE(mm.canonical_id, bv.motorcycle_id)
+            ORDER BY bv.created_at, bv.id
+        ) AS rn
+    FROM beemon_vehicles bv
+    LEFT JOIN motorcycle_merge mm ON mm.id = bv.motorcycle_id
+) d
+WHERE b.id = d.id
+  AND d.rn > 1;
+
+UPDATE beemon_vehicles t SET motorcycle_id = mm.canonical_id
+FROM motorcycle_merge mm WHERE t.motorcycle_id = mm.id AND mm.id <> mm.canonical_id;
+
+-- 6. Remover os registros extras
+DELETE FROM motorcycles m
+USING motorcycle_merge mm
+WHERE m.id = mm.id
+  AND mm.id <> mm.canonical_id;
+
+-- 7. Placa e chassi únicos
+DROP INDEX IF EXISTS motorcycles_placa_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS motorcycles_placa_key ON motorcycles(placa);
+CREATE UNIQUE INDEX IF NOT EXISTS motorcycles_chassi_key ON motorcycles(chassi);
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- =============================================
+-- PAUSA DE LOCAÇÕES
+-- Suspensão de cobranças e recorrentes durante a pausa e extensão do prazo na retomada
+-- =============================================
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS paused_days INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS rental_pauses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rental_id UUID NOT NULL REFERENCES rentals(id),
+    franchisee_id UUID,
+    city_id UUID,
+    reason TEXT NOT NULL,
+    paused_at DATE NOT NULL,
+    expected_return_date DATE NOT NULL,
+    resumed_at DATE,
+    paused_days INTEGER,
+    previous_motorcycle_status TEXT,
+    suspended_payments JSONB NOT NULL DEFAULT '[]',
+    suspended_recorrentes JSONB NOT NULL DEFAULT '[]',
+    reissued_payments JSONB,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_by UUID,
+    resumed_by UUID,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS rental_pauses_rental_id_idx ON rental_pauses(rental_id);
+CREATE INDEX IF NOT EXISTS rental_pauses_status_idx ON rental_pauses(status);
+
+-- Apenas uma pausa ativa por locação
+CREATE UNIQUE INDEX IF NOT EXISTS rental_pauses_active_rental_idx ON rental_pauses(rental_id) WHERE status = 'active';
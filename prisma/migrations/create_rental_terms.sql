@@ -0,0 +1,35 @@
+-- =============================================
+-- PRORROGAÇÃO E RENOVAÇÃO DE LOCAÇÕES
+-- Histórico versionado dos prazos, aditivos e lembretes de renovação
+-- =============================================
+
+ALTER TABLE rentals ADD COLUMN IF NOT EXISTS renewal_reminder_sent_at TIMESTAMP(3);
+
+CREATE TABLE IF NOT EXISTS rental_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rental_id UUID NOT NULL REFERENCES rentals(id),
+    version INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE,
+    total_days INTEGER,
+    daily_rate DECIMAL(10, 2) NOT NULL,
+    plan_id UUID,
+    plan_snapshot JSONB,
+    amount DECIMAL(10, 2),
+    pricing_breakdown JSONB,
+    charges JSONB,
+    contract_id UUID REFERENCES generated_contracts(id),
+    notes TEXT,
+    created_by UUID,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (rental_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS rental_terms_rental_id_idx ON rental_terms(rental_id);
+
+-- Locações existentes recebem o termo original (versão 1) com as condições atuais
+INSERT INTO rental_terms (rental_id, version, type, start_date, end_date, total_days, daily_rate, plan_id, plan_snapshot, amount, created_by, created_at)
+SELECT r.id, 1, 'original', r.start_date, r.end_date, r.total_days, r.daily_rate, r.plan_id, r.plan_snapshot, r.total_amount, r.created_by, r.created_at
+FROM rentals r
+WHERE NOT EXISTS (SELECT 1 FROM rental_terms t WHERE t.rental_id = r.id);
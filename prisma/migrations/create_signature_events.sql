@@ -0,0 +1,24 @@
+-- =============================================
+-- EVENTOS DO WEBHOOK DE ASSINATURA
+-- Registro de todos os eventos recebidos (idempotência e reprocessamento)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS signature_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    document_key TEXT,
+    entity_type TEXT,
+    entity_id UUID,
+    event_data JSONB,
+    event_timestamp TIMESTAMP(3),
+    processed BOOLEAN NOT NULL DEFAULT false,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    processed_at TIMESTAMP(3),
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS signature_events_document_key_idx ON signature_events(document_key);
+CREATE INDEX IF NOT EXISTS signature_events_processed_idx ON signature_events(processed);
+
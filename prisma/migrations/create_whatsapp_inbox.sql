@@ -0,0 +1,44 @@
+-- =============================================
+-- CAIXA DE ENTRADA DO WHATSAPP
+-- Conversas por instância Evolution + telefone do contato e mensagens
+-- recebidas pelo webhook, vinculadas a clientes e leads
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS whatsapp_conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    instance_id UUID NOT NULL REFERENCES evolution_instances(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    contact_name TEXT,
+    client_id UUID REFERENCES clients(id),
+    lead_id UUID REFERENCES leads(id),
+    franchisee_id UUID,
+    city_id UUID,
+    last_message_at TIMESTAMP(3),
+    last_message_preview TEXT,
+    unread_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (instance_id, phone)
+);
+
+CREATE INDEX IF NOT EXISTS whatsapp_conversations_client_id_idx ON whatsapp_conversations(client_id);
+CREATE INDEX IF NOT EXISTS whatsapp_conversations_lead_id_idx ON whatsapp_conversations(lead_id);
+CREATE INDEX IF NOT EXISTS whatsapp_conversations_city_id_last_message_at_idx ON whatsapp_conversations(city_id, last_message_at DESC);
+
+CREATE TABLE IF NOT EXISTS whatsapp_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES whatsapp_conversations(id) ON DELETE CASCADE,
+    instance_id UUID NOT NULL REFERENCES evolution_instances(id) ON DELETE CASCADE,
+    external_id TEXT,
+    direction TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'text',
+    body TEXT,
+    media_url TEXT,
+    media_mimetype TEXT,
+    status TEXT NOT NULL DEFAULT 'received',
+    sent_at TIMESTAMP(3) NOT NULL,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (instance_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS whatsapp_messages_conversation_id_sent_at_idx ON whatsapp_messages(conversation_id, sent_at DESC);
@@ -0,0 +1,48 @@
+-- =============================================
+-- ENVIO DE MENSAGENS PELO WHATSAPP
+-- Modelos de mensagem por cidade e fila de envios (WhatsApp via Evolution
+-- ou email de fallback) com status de entrega
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS whatsapp_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    city_id UUID NOT NULL REFERENCES cities(id),
+    key TEXT NOT NULL,
+    body TEXT NOT NULL,
+    updated_by UUID,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (city_id, key)
+);
+
+CREATE TABLE IF NOT EXISTS outbound_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    template TEXT,
+    recipient_name TEXT,
+    recipient_phone TEXT,
+    recipient_email TEXT,
+    subject TEXT,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    instance_id UUID REFERENCES evolution_instances(id) ON DELETE SET NULL,
+    external_id TEXT,
+    whatsapp_message_id UUID UNIQUE REFERENCES whatsapp_messages(id) ON DELETE SET NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    entity_type TEXT,
+    entity_id UUID,
+    franchisee_id UUID,
+    city_id UUID,
+    created_by UUID,
+    sent_at TIMESTAMP(3),
+    delivered_at TIMESTAMP(3),
+    read_at TIMESTAMP(3),
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS outbound_messages_status_created_at_idx ON outbound_messages(status, created_at);
+CREATE INDEX IF NOT EXISTS outbound_messages_instance_id_external_id_idx ON outbound_messages(instance_id, external_id);
+CREATE INDEX IF NOT EXISTS outbound_messages_entity_type_entity_id_idx ON outbound_messages(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS outbound_messages_city_id_created_at_idx ON outbound_messages(city_id, created_at DESC);
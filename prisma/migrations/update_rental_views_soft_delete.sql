@@ -0,0 +1,62 @@
+-- =============================================
+-- VIEWS DA GESTÃO À VISTA SEM LOCAÇÕES ARQUIVADAS
+-- Locações arquivadas (deleted_at) deixam de contar na receita mensal,
+-- no ranking de consultores e nos movimentos do dia
+-- =============================================
+
+CREATE OR REPLACE VIEW vw_top_consultores_mes AS
+SELECT
+  r.attendant_id,
+  u.name AS nome,
+  c.name AS cidade,
+  COUNT(*) AS locacoes,
+  ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC) AS posicao
+FROM rentals r
+JOIN app_users u ON u.id = r.attendant_id
+LEFT JOIN cities c ON c.id = u.city_id
+WHERE r.attendant_id IS NOT NULL
+  AND r.deleted_at IS NULL
+  AND r.created_at >= DATE_TRUNC('month', CURRENT_DATE)
+  AND u.name IS NOT NULL
+  AND TRIM(u.name) != ''
+  AND u.name != 'Sem nome'
+GROUP BY r.attendant_id, u.name, c.name
+ORDER BY locacoes DESC;
+
+
+CREATE OR REPLACE VIEW vw_receita_mensal AS
+SELECT
+  r.city_id,
+  r.franchisee_id,
+  r.attendant_id,
+  r.start_date,
+  r.status,
+  r.total_amount,
+  r.created_at
+FROM rentals r
+WHERE r.created_at >= DATE_TRUNC('month', CURRENT_DATE)
+  AND r.deleted_at IS NULL;
+
+
+CREATE OR REPLACE VIEW vw_movimentos_hoje AS
+SELECT
+  'alugadas' AS tipo,
+  r.city_id,
+  r.franchisee_id,
+  COUNT(*) AS quantidade
+FROM rentals r
+WHERE r.start_date = CURRENT_DATE
+  AND r.deleted_at IS NULL
+GROUP BY r.city_id, r.franchisee_id
+
+UNION ALL
+
+SELECT
+  'recolhidas' AS tipo,
+  m.city_id,
+  m.franchisee_id,
+  COUNT(DISTINCT TRIM(m.placa)) AS quantidade
+FROM motorcycles m
+WHERE m.status = 'recolhida'
+  AND DATE(m.data_ultima_mov) = CURRENT_DATE
+GROUP BY m.city_id, m.franchisee_id;
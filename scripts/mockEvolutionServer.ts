@@ -0,0 +1,85 @@
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+
+/**
+ * Servidor Evolution API falso para testar o envio pelo WhatsApp localmente
+ *
+ * - POST /message/sendText/:instance responde como a Evolution (key.id gerado)
+ * - Com WEBHOOK_URL, envia messages.update (DELIVERY_ACK e READ) para a API após o envio,
+ *   com o apikey recebido no envio (o webhook exige o apikey cadastrado da instância)
+ * - Com FAIL_INSTANCES=nome1,nome2, responde erro 500 para essas instâncias
+ *
+ * Uso: configure evolution_url da IA Agendamento para http://localhost:8089
+ *   MOCK_EVOLUTION_PORT=8089 WEBHOOK_URL=http://localhost:3000/api/webhooks/evolution npm run mock:evolution
+ */
+
+const port = Number(process.env.MOCK_EVOLUTION_PORT || 8089);
+const webhookUrl = process.env.WEBHOOK_URL;
+const failInstances = (process.env.FAIL_INSTANCES || '').split(',').filter(Boolean);
+const ackDelayMs = Number(process.env.ACK_DELAY_MS || 1000);
+
+async function sendStatus(instance: string, apikey: string | undefined, keyId: string, remoteJid: string, status: string) {
+  if (!webhookUrl) return;
+
+  try {
+    const res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        event: 'messages.update',
+        instance,
+        apikey,
+        data: { keyId, remoteJid, fromMe: true, status },
+      }),
+    });
+    console.log(`↩️  messages.update ${status} (${keyId}) -> ${res.status}`);
+  } catch (error: any) {
+    console.error(`❌ Erro ao enviar webhook: ${error.message}`);
+  }
+}
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const match = req.url?.match(/^\/message\/sendText\/([^/?]+)/);
+
+    if (req.method !== 'POST' || !match) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 404, error: 'Not Found' }));
+      return;
+    }
+
+    const instance = decodeURIComponent(match[1]);
+    const body = raw ? JSON.parse(raw) : {};
+    console.log(`📨 [${instance}] apikey=${req.headers.apikey || '-'} para ${body.number}: ${body.text}`);
+
+    if (failInstances.includes(instance)) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 500, error: 'Internal Server Error', response: { message: 'Connection Closed' } }));
+      return;
+    }
+
+    const keyId = randomUUID().replace(/-/g, '').slice(0, 20).toUpperCase();
+    const remoteJid = `${body.number}@s.whatsapp.net`;
+
+    res.writeHead(201, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      key: { remoteJid, fromMe: true, id: keyId },
+      message: { extendedTextMessage: { text: body.text } },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+      status: 'PENDING',
+    }));
+
+    const apikey = req.headers.apikey as string | undefined;
+    setTimeout(() => sendStatus(instance, apikey, keyId, remoteJid, 'DELIVERY_ACK'), ackDelayMs);
+    setTimeout(() => sendStatus(instance, apikey, keyId, remoteJid, 'READ'), ackDelayMs * 2);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🚀 Mock da Evolution API em http://localhost:${port}`);
+  if (webhookUrl) {
+    console.log(`🔔 Status de entrega enviados para ${webhookUrl}`);
+  }
+});
@@ -8,7 +8,7 @@ import swaggerUi from '@fastify/swagger-ui';
 import { env } from './config/env.js';
 import { prisma } from './config/database.js';
 import { logger } from './utils/logger.js';
-import { AppError, ValidationError } from './utils/errors.js';
+import { AppError, InvalidStatusTransitionError, ValidationError } from './utils/errors.js';
 import { apiKeyMiddleware } from './middleware/apiKey.js';
 
 // Routes
@@ -25,6 +25,10 @@ import franchiseesRoutes from './routes/franchisees.js';
 import clientsRoutes from './routes/clients.js';
 import templatesRoutes from './routes/templates.js';
 import contractsRoutes from './routes/contracts.js';
+import depositReceiptsRoutes from './routes/deposit-receipts.js';
+import delinquencyRoutes from './routes/delinquency.js';
+import crmRoutes from './routes/crm.js';
+import whatsappRoutes from './routes/whatsapp.js';
 import rentalPlansRoutes from './routes/rental-plans.js';
 import vistoriasRoutes from './routes/vistorias.js';
 import satisfactionSurveysRoutes from './routes/satisfaction-surveys.js';
@@ -33,6 +37,7 @@ import suggestionsRoutes from './routes/suggestions.js';
 import motorcycleModelsRoutes from './routes/motorcycle-models.js';
 import distratosRoutes from './routes/distratos.js';
 import rentalSecondaryVehiclesRoutes from './routes/rental-secondary-vehicles.js';
+import motorcycleDocumentsRoutes from './routes/motorcycle-documents.js';
 import rolePermissionsRoutes from './routes/role-permissions.js';
 import screensRoutes from './routes/screens.js';
 import driversRoutes from './routes/drivers.js';
@@ -53,6 +58,7 @@ import multasRoutes from './routes/multas.js';
 import marketplaceRoutes from './routes/marketplace.js';
 import dashboardRoutes from './routes/dashboard.js';
 import iaAgendamentoRoutes from './routes/ia-agendamento.js';
+import dataQualityRoutes from './routes/data-quality.js';
 
 // Adicionar Prisma à declaração do Fastify
 declare module 'fastify' {
@@ -220,6 +226,7 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(driversRoutes, { prefix: '/api/drivers' });
   await app.register(templatesRoutes, { prefix: '/api/templates' });
   await app.register(contractsRoutes, { prefix: '/api/contracts' });
+  await app.register(depositReceiptsRoutes, { prefix: '/api/deposit-receipts' });
   await app.register(rentalPlansRoutes, { prefix: '/api/rental-plans' });
   await app.register(vistoriasRoutes, { prefix: '/api/vistorias' });
   await app.register(satisfactionSurveysRoutes, { prefix: '/api/satisfaction-surveys' });
@@ -228,6 +235,7 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(motorcycleModelsRoutes, { prefix: '/api/motorcycle-models' });
   await app.register(distratosRoutes, { prefix: '/api/distratos' });
   await app.register(rentalSecondaryVehiclesRoutes, { prefix: '/api/rentals' });
+  await app.register(motorcycleDocumentsRoutes, { prefix: '/api/motorcycles' });
   await app.register(rolePermissionsRoutes, { prefix: '/api/role-permissions' });
   await app.register(screensRoutes, { prefix: '/api/screens' });
   await app.register(vendasRoutes, { prefix: '/api/vendas' });
@@ -241,12 +249,16 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(asaasConfigRoutes, { prefix: '/api/asaas-config' });
   await app.register(smtpConfigRoutes, { prefix: '/api/smtp-config' });
   await app.register(asaasPaymentsRoutes, { prefix: '/api/asaas-payments' });
+  await app.register(delinquencyRoutes, { prefix: '/api/delinquency' });
+  await app.register(crmRoutes, { prefix: '/api/crm' });
+  await app.register(whatsappRoutes, { prefix: '/api/whatsapp' });
   await app.register(recorrentesRoutes, { prefix: '/api/financeiro/recorrentes' });
   await app.register(auditLogsRoutes, { prefix: '/api/audit-logs' });
   await app.register(multasRoutes, { prefix: '/api/multas' });
   await app.register(marketplaceRoutes, { prefix: '/api/marketplace' });
   await app.register(dashboardRoutes, { prefix: '/api/dashboard' });
   await app.register(iaAgendamentoRoutes, { prefix: '/api/ia-agendamento' });
+  await app.register(dataQualityRoutes, { prefix: '/api/data-quality' });
 
   // Error handler global
   app.setErrorHandler((error, request, reply) => {
@@ -275,6 +287,16 @@ export async function buildApp(): Promise<FastifyInstance> {
       });
     }
 
+    // Transição de status não permitida (inclui os destinos válidos)
+    if (error instanceof InvalidStatusTransitionError) {
+      return reply.status(409).send({
+        success: false,
+        error: error.message,
+        code: error.code,
+        details: { from: error.from, to: error.to, allowed: error.allowed },
+      });
+    }
+
     // Erro operacional (AppError) - verificar por propriedades
     if ((error as any).isOperational && (error as any).statusCode) {
       return reply.status((error as any).statusCode).send({
@@ -38,6 +38,10 @@ const envSchema = z.object({
 
   // Webhook
   WEBHOOK_SECRET: z.string().optional(),
+  // Janela aceita entre o timestamp do evento e o recebimento (proteção contra replay)
+  SIGNATURE_WEBHOOK_TOLERANCE_SECONDS: z.coerce.number().default(300),
+  // Segredo alternativo do webhook da Evolution (header x-webhook-secret); sem ele vale só o apikey da instância
+  EVOLUTION_WEBHOOK_SECRET: z.string().optional(),
 
   // Beemon - Gestão de Multas
   BEEMON_API_URL: z.string().url().optional(),
@@ -47,6 +51,27 @@ const envSchema = z.object({
   // Asaas - Gateway de Pagamentos
   ASAAS_API_URL: z.string().url().optional(),
   ASAAS_API_KEY: z.string().optional(),
+  // Tempo máximo de cada chamada à API do Asaas
+  ASAAS_REQUEST_TIMEOUT_MS: z.coerce.number().min(1000).default(15000),
+  // Intervalo da geração das cobranças pendentes das locações recentes (0 = desativada)
+  ASAAS_CHARGE_GENERATION_INTERVAL_MINUTES: z.coerce.number().min(0).default(5),
+  // Intervalo da conciliação automática de pagamentos (0 = desativada)
+  ASAAS_RECONCILIATION_INTERVAL_MINUTES: z.coerce.number().min(0).default(60),
+  // Intervalo da verificação automática de inadimplência (0 = desativada)
+  DELINQUENCY_CHECK_INTERVAL_MINUTES: z.coerce.number().min(0).default(360),
+  // Lembretes de renovação: antecedência em dias e intervalo da verificação (0 = desativada)
+  RENTAL_RENEWAL_REMINDER_DAYS: z.coerce.number().min(0).default(7),
+  RENTAL_RENEWAL_REMINDER_INTERVAL_MINUTES: z.coerce.number().min(0).default(360),
+  // Intervalo da verificação de devoluções em atraso (0 = desativada)
+  OVERDUE_RETURN_CHECK_INTERVAL_MINUTES: z.coerce.number().min(0).default(60),
+  // Prazo em dias para restaurar locações arquivadas (depois disso podem ser expurgadas)
+  RENTAL_ARCHIVE_RETENTION_DAYS: z.coerce.number().min(1).default(180),
+  // WhatsApp (Evolution): limite de envios por instância a cada minuto e intervalo da fila de envios (0 = desativada)
+  WHATSAPP_RATE_LIMIT_PER_MINUTE: z.coerce.number().min(1).default(20),
+  WHATSAPP_QUEUE_INTERVAL_MINUTES: z.coerce.number().min(0).default(1),
+  // Documentos das motos: antecedência em dias do lembrete de vencimento e intervalo da verificação (0 = desativada)
+  VEHICLE_DOCUMENT_REMINDER_DAYS: z.coerce.number().min(0).default(30),
+  VEHICLE_DOCUMENT_CHECK_INTERVAL_MINUTES: z.coerce.number().min(0).default(720),
 
   // URL base do sistema (usada para links em emails e webhooks)
   VITE_SYSTEM_BASE_URL: z.string().url().optional(),
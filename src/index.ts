@@ -5,6 +5,13 @@ import { env } from './config/env.js';
 import { connectDatabase, disconnectDatabase } from './config/database.js';
 import { initializeRealtime } from './websocket/index.js';
 import { logger } from './utils/logger.js';
+import { rentalChargeService } from './services/rentalChargeService.js';
+import { asaasReconciliationService } from './services/asaasReconciliationService.js';
+import { delinquencyService } from './services/delinquencyService.js';
+import { rentalRenewalService } from './services/rentalRenewalService.js';
+import { overdueReturnService } from './services/overdueReturnService.js';
+import { whatsappService } from './services/whatsappService.js';
+import { motorcycleDocumentService } from './services/motorcycleDocumentService.js';
 
 // Inicializar Sentry antes de tudo
 Sentry.init({
@@ -38,6 +45,27 @@ async function main() {
     logger.info(`Environment: ${env.NODE_ENV}`);
     logger.info(`Documentation: http://${env.HOST}:${env.PORT}/docs`);
 
+    // Cobranças Asaas das locações criadas (geradas fora da requisição) e as que falharam
+    rentalChargeService.startSchedule(env.ASAAS_CHARGE_GENERATION_INTERVAL_MINUTES);
+
+    // Conciliação periódica dos pagamentos com o Asaas
+    asaasReconciliationService.startSchedule(env.ASAAS_RECONCILIATION_INTERVAL_MINUTES);
+
+    // Verificação periódica de inadimplência das locações ativas
+    delinquencyService.startSchedule(env.DELINQUENCY_CHECK_INTERVAL_MINUTES);
+
+    // Lembretes de renovação das locações próximas do término
+    rentalRenewalService.startSchedule(env.RENTAL_RENEWAL_REMINDER_INTERVAL_MINUTES);
+
+    // Devoluções em atraso (end_date vencido ou moto não devolvida) e multa diária
+    overdueReturnService.startSchedule(env.OVERDUE_RETURN_CHECK_INTERVAL_MINUTES);
+
+    // Fila de envios do WhatsApp (mensagens acima do limite por minuto da instância)
+    whatsappService.startSchedule(env.WHATSAPP_QUEUE_INTERVAL_MINUTES);
+
+    // Vencimento dos documentos das motos (lembretes e bloqueio por documento vencido)
+    motorcycleDocumentService.startSchedule(env.VEHICLE_DOCUMENT_CHECK_INTERVAL_MINUTES);
+
     // Graceful shutdown
     const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
 
@@ -46,6 +74,13 @@ async function main() {
         logger.info(`Received ${signal}, shutting down gracefully...`);
 
         try {
+          rentalChargeService.stopSchedule();
+          asaasReconciliationService.stopSchedule();
+          delinquencyService.stopSchedule();
+          rentalRenewalService.stopSchedule();
+          overdueReturnService.stopSchedule();
+          whatsappService.stopSchedule();
+          motorcycleDocumentService.stopSchedule();
           await Sentry.flush(2000);
           await app.close();
           await disconnectDatabase();
@@ -185,17 +185,55 @@ export const AuditActions = {
   RENTAL_DELETE: 'RENTAL_DELETE',
   RENTAL_COMPLETE: 'RENTAL_COMPLETE',
   RENTAL_CANCEL: 'RENTAL_CANCEL',
+  RENTAL_DELINQUENT: 'RENTAL_DELINQUENT',
+  RENTAL_REGULARIZED: 'RENTAL_REGULARIZED',
+  RENTAL_RENEGOTIATE: 'RENTAL_RENEGOTIATE',
+  RENTAL_PAUSE: 'RENTAL_PAUSE',
+  RENTAL_RESUME: 'RENTAL_RESUME',
+  RENTAL_EXTEND: 'RENTAL_EXTEND',
+  RENTAL_RESTORE: 'RENTAL_RESTORE',
+  RENTAL_PURGE: 'RENTAL_PURGE',
+  RENTAL_CLIENT_BACKFILL: 'RENTAL_CLIENT_BACKFILL',
+  DELINQUENCY_RULE_UPDATE: 'DELINQUENCY_RULE_UPDATE',
+
+  // Rental plan
+  RENTAL_PLAN_CREATE: 'RENTAL_PLAN_CREATE',
+  RENTAL_PLAN_UPDATE: 'RENTAL_PLAN_UPDATE',
+  RENTAL_PLAN_ARCHIVE: 'RENTAL_PLAN_ARCHIVE',
+  RENTAL_PLAN_RESTORE: 'RENTAL_PLAN_RESTORE',
+  RENTAL_PLAN_DELETE: 'RENTAL_PLAN_DELETE',
+
+  // CRM
+  LEAD_CREATE: 'LEAD_CREATE',
+  LEAD_UPDATE: 'LEAD_UPDATE',
+  LEAD_ASSIGN: 'LEAD_ASSIGN',
+  LEAD_DELETE: 'LEAD_DELETE',
+  DEAL_CREATE: 'DEAL_CREATE',
+  DEAL_UPDATE: 'DEAL_UPDATE',
+  DEAL_STAGE_CHANGE: 'DEAL_STAGE_CHANGE',
+  DEAL_CONVERT: 'DEAL_CONVERT',
+  DEAL_STAGES_UPDATE: 'DEAL_STAGES_UPDATE',
 
   // Motorcycle
   MOTORCYCLE_CREATE: 'MOTORCYCLE_CREATE',
   MOTORCYCLE_UPDATE: 'MOTORCYCLE_UPDATE',
   MOTORCYCLE_STATUS_CHANGE: 'MOTORCYCLE_STATUS_CHANGE',
+  MOTORCYCLE_DOCUMENT_CREATE: 'MOTORCYCLE_DOCUMENT_CREATE',
+  MOTORCYCLE_DOCUMENT_UPDATE: 'MOTORCYCLE_DOCUMENT_UPDATE',
+  MOTORCYCLE_DOCUMENT_DELETE: 'MOTORCYCLE_DOCUMENT_DELETE',
 
   // Contract
   CONTRACT_GENERATE: 'CONTRACT_GENERATE',
   CONTRACT_SEND: 'CONTRACT_SEND',
   CONTRACT_SIGN: 'CONTRACT_SIGN',
   CONTRACT_CANCEL: 'CONTRACT_CANCEL',
+  TEMPLATE_PUBLISH: 'TEMPLATE_PUBLISH',
+
+  // Deposit (caução)
+  DEPOSIT_CREATE: 'DEPOSIT_CREATE',
+  DEPOSIT_UPDATE: 'DEPOSIT_UPDATE',
+  DEPOSIT_DELETE: 'DEPOSIT_DELETE',
+  DEPOSIT_REFUND: 'DEPOSIT_REFUND',
 
   // Finance
   FINANCE_CREATE: 'FINANCE_CREATE',
@@ -206,6 +244,9 @@ export const AuditActions = {
   PLUGSIGN_API_CALL: 'PLUGSIGN_API_CALL',
   BESIGN_API_CALL: 'BESIGN_API_CALL',
   EVOLUTION_WEBHOOK: 'EVOLUTION_WEBHOOK',
+  WHATSAPP_CONVERSATION_LINK: 'WHATSAPP_CONVERSATION_LINK',
+  WHATSAPP_MESSAGE_SEND: 'WHATSAPP_MESSAGE_SEND',
+  WHATSAPP_TEMPLATE_UPDATE: 'WHATSAPP_TEMPLATE_UPDATE',
   SIGNATURE_WEBHOOK: 'SIGNATURE_WEBHOOK',
 
   // Upload
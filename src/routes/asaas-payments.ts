@@ -3,6 +3,9 @@ import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { getContext } from '../utils/context.js';
+import { NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { rentalChargeService } from '../services/rentalChargeService.js';
+import { asaasReconciliationService } from '../services/asaasReconciliationService.js';
 
 const asaasPaymentsRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -210,6 +213,158 @@ const asaasPaymentsRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * POST /api/asaas-payments/rental/:rentalId/generate
+   * Gerar (ou completar) as cobranças semanais da locação no Asaas
+   */
+  app.post('/rental/:rentalId/generate', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Gerar cobranças semanais (boleto + PIX) da locação no Asaas com split de royalties',
+      tags: ['Asaas Payments'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { rentalId } = request.params as { rentalId: string };
+    const ctx = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      select: { franchisee_id: true, city_id: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (ctx.isFranchisee() && rental.franchisee_id !== ctx.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+    if (ctx.isRegional() && rental.city_id !== ctx.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+
+    const result = await rentalChargeService.generateForRental(rentalId, ctx.userId);
+
+    return reply.status(200).send({
+      success: result.errors.length === 0,
+      data: result,
+    });
+  });
+
+  /**
+   * POST /api/asaas-payments/reconcile
+   * Conciliar pagamentos não finalizados com o status atual no Asaas
+   */
+  app.post('/reconcile', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Conciliar status dos pagamentos com o Asaas e gerar relatório de divergências',
+      tags: ['Asaas Payments'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          franchisee_id: { type: 'string', format: 'uuid' },
+          dry_run: { type: 'boolean', default: false },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { franchisee_id, dry_run } = request.query as { franchisee_id?: string; dry_run?: boolean };
+    const ctx = getContext(request);
+
+    const report = await asaasReconciliationService.reconcile({
+      franchiseeId: franchisee_id,
+      dryRun: dry_run,
+      trigger: 'manual',
+      userId: ctx.userId,
+    });
+
+    return reply.status(200).send({
+      success: report.errors === 0,
+      data: report,
+    });
+  });
+
+  /**
+   * GET /api/asaas-payments/reconcile/runs
+   * Listar execuções da conciliação (manuais e agendadas)
+   */
+  app.get('/reconcile/runs', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Listar execuções da conciliação com o Asaas',
+      tags: ['Asaas Payments'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { page = 1, limit = 20 } = request.query as { page?: number; limit?: number };
+
+    const [runs, total] = await Promise.all([
+      prisma.asaasReconciliationRun.findMany({
+        select: {
+          id: true,
+          trigger: true,
+          dry_run: true,
+          checked: true,
+          updated: true,
+          errors: true,
+          started_by: true,
+          started_at: true,
+          finished_at: true,
+        },
+        orderBy: { started_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.asaasReconciliationRun.count(),
+    ]);
+
+    return reply.status(200).send({
+      success: true,
+      data: runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/asaas-payments/reconcile/runs/:id
+   * Relatório de divergências de uma execução da conciliação
+   */
+  app.get('/reconcile/runs/:id', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Buscar relatório de divergências de uma execução da conciliação',
+      tags: ['Asaas Payments'],
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const run = await prisma.asaasReconciliationRun.findUnique({ where: { id } });
+
+    if (!run) {
+      throw new NotFoundError('Execução da conciliação não encontrada');
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: run,
+    });
+  });
+
   /**
    * GET /api/asaas-payments/pending
    * Buscar pagamentos pendentes com vencimento até uma data
@@ -27,6 +27,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
                   name: { type: 'string' },
                   slug: { type: 'string' },
                   plugsign_token: { type: 'string', nullable: true },
+                  besign_token: { type: 'string', nullable: true },
+                  signature_provider: { type: 'string' },
                   asaas_wallet_id: { type: 'string', nullable: true },
                   created_at: { type: 'string' },
                 },
@@ -43,6 +45,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
         name: true,
         slug: true,
         plugsign_token: true,
+        besign_token: true,
+        signature_provider: true,
         asaas_wallet_id: true,
         created_at: true,
       },
@@ -167,6 +171,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
         name: true,
         slug: true,
         plugsign_token: true,
+        besign_token: true,
+        signature_provider: true,
         asaas_wallet_id: true,
         created_at: true,
       },
@@ -202,6 +208,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
           name: { type: 'string' },
           slug: { type: 'string' },
           plugsign_token: { type: 'string', nullable: true },
+          besign_token: { type: 'string', nullable: true },
+          signature_provider: { type: 'string', enum: ['plugsign', 'besign'] },
           asaas_wallet_id: { type: 'string', nullable: true },
         },
       },
@@ -217,6 +225,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
                 name: { type: 'string' },
                 slug: { type: 'string' },
                 plugsign_token: { type: 'string', nullable: true },
+                besign_token: { type: 'string', nullable: true },
+                signature_provider: { type: 'string' },
                 asaas_wallet_id: { type: 'string', nullable: true },
                 created_at: { type: 'string' },
               },
@@ -226,13 +236,15 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
       },
     },
   }, async (request, reply) => {
-    const { name, slug, plugsign_token, asaas_wallet_id } = request.body as { name: string; slug: string; plugsign_token?: string; asaas_wallet_id?: string };
+    const { name, slug, plugsign_token, besign_token, signature_provider, asaas_wallet_id } = request.body as { name: string; slug: string; plugsign_token?: string; besign_token?: string; signature_provider?: string; asaas_wallet_id?: string };
 
     const city = await prisma.city.create({
       data: {
         name,
         slug,
         plugsign_token: plugsign_token || null,
+        besign_token: besign_token || null,
+        signature_provider: signature_provider || 'plugsign',
         asaas_wallet_id: asaas_wallet_id || null,
       },
     });
@@ -266,6 +278,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
           name: { type: 'string' },
           slug: { type: 'string' },
           plugsign_token: { type: 'string', nullable: true },
+          besign_token: { type: 'string', nullable: true },
+          signature_provider: { type: 'string', enum: ['plugsign', 'besign'] },
           asaas_wallet_id: { type: 'string', nullable: true },
         },
       },
@@ -281,6 +295,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
                 name: { type: 'string' },
                 slug: { type: 'string' },
                 plugsign_token: { type: 'string', nullable: true },
+                besign_token: { type: 'string', nullable: true },
+                signature_provider: { type: 'string' },
                 asaas_wallet_id: { type: 'string', nullable: true },
                 created_at: { type: 'string' },
               },
@@ -291,7 +307,7 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     const { id } = request.params;
-    const { name, slug, plugsign_token, asaas_wallet_id } = request.body as { name?: string; slug?: string; plugsign_token?: string; asaas_wallet_id?: string };
+    const { name, slug, plugsign_token, besign_token, signature_provider, asaas_wallet_id } = request.body as { name?: string; slug?: string; plugsign_token?: string; besign_token?: string; signature_provider?: string; asaas_wallet_id?: string };
 
     const existingCity = await prisma.city.findUnique({ where: { id } });
     if (!existingCity) {
@@ -307,6 +323,8 @@ const citiesRoutes: FastifyPluginAsync = async (app) => {
         ...(name && { name }),
         ...(slug && { slug }),
         plugsign_token: plugsign_token !== undefined ? (plugsign_token || null) : existingCity.plugsign_token,
+        besign_token: besign_token !== undefined ? (besign_token || null) : existingCity.besign_token,
+        ...(signature_provider && { signature_provider }),
         asaas_wallet_id: asaas_wallet_id !== undefined ? (asaas_wallet_id || null) : existingCity.asaas_wallet_id,
       },
     });
@@ -2,7 +2,9 @@ import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
-import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { whatsappInboxService } from '../services/whatsappInboxService.js';
+import { NotFoundError, BadRequestError, ForbiddenError } from '../utils/errors.js';
+import { normalizeCpfCnpj, parseIdentifier } from '../utils/identifiers.js';
 
 const errorResponseSchema = {
   type: 'object',
@@ -173,16 +175,8 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
   }, async (request, reply) => {
     const data = request.body as any;
 
-    // Sanitizar CPF: apenas dígitos, deve ter 11 caracteres ou ser null
-    let cpf: string | null = null;
-    if (data.cpf) {
-      const cpfClean = data.cpf.replace(/\D/g, '');
-      if (cpfClean.length === 11) {
-        cpf = cpfClean;
-      } else if (cpfClean.length > 0) {
-        throw new BadRequestError('CPF deve ter 11 dígitos');
-      }
-    }
+    // CPF/CNPJ gravados apenas com dígitos e validados pelos dígitos verificadores
+    const cpf = parseIdentifier('cpf', data.cpf);
 
     // Verificar se já existe cliente com o mesmo CPF (se CPF foi informado)
     if (cpf) {
@@ -195,16 +189,7 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    // Sanitizar CNPJ: apenas dígitos, deve ter 14 caracteres ou ser null
-    let cnpj: string | null = null;
-    if (data.cnpj) {
-      const cnpjClean = data.cnpj.replace(/\D/g, '');
-      if (cnpjClean.length === 14) {
-        cnpj = cnpjClean;
-      } else if (cnpjClean.length > 0) {
-        throw new BadRequestError('CNPJ deve ter 14 dígitos');
-      }
-    }
+    const cnpj = parseIdentifier('cnpj', data.cnpj);
 
     // Verificar se já existe cliente com o mesmo CNPJ (se CNPJ foi informado)
     if (cnpj) {
@@ -217,16 +202,7 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    // Sanitizar CPF responsável: apenas dígitos, deve ter 11 caracteres ou ser null
-    let cpfResponsavel: string | null = null;
-    if (data.cpf_responsavel) {
-      const cpfClean = data.cpf_responsavel.replace(/\D/g, '');
-      if (cpfClean.length === 11) {
-        cpfResponsavel = cpfClean;
-      } else if (cpfClean.length > 0) {
-        throw new BadRequestError('CPF do responsável deve ter 11 dígitos');
-      }
-    }
+    const cpfResponsavel = parseIdentifier('cpf', data.cpf_responsavel, 'CPF do responsável');
 
     const client = await prisma.client.create({
       data: {
@@ -343,25 +319,17 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
 
     if (data.full_name !== undefined) updateData.full_name = data.full_name;
     if (data.cpf !== undefined) {
-      if (data.cpf) {
-        const cpfClean = data.cpf.replace(/\D/g, '');
-        if (cpfClean.length === 11) {
-          // Verificar duplicidade (excluindo o próprio cliente)
-          const duplicateClient = await prisma.client.findFirst({
-            where: { cpf: cpfClean, id: { not: id } },
-          });
-          if (duplicateClient) {
-            throw new BadRequestError('Já existe um cliente cadastrado com este CPF');
-          }
-          updateData.cpf = cpfClean;
-        } else if (cpfClean.length > 0) {
-          throw new BadRequestError('CPF deve ter 11 dígitos');
-        } else {
-          updateData.cpf = '';
+      const cpf = parseIdentifier('cpf', data.cpf);
+      if (cpf) {
+        // Verificar duplicidade (excluindo o próprio cliente)
+        const duplicateClient = await prisma.client.findFirst({
+          where: { cpf, id: { not: id } },
+        });
+        if (duplicateClient) {
+          throw new BadRequestError('Já existe um cliente cadastrado com este CPF');
         }
-      } else {
-        updateData.cpf = '';
       }
+      updateData.cpf = cpf || '';
     }
     if (data.rg !== undefined) updateData.rg = data.rg;
     if (data.birth_date !== undefined) updateData.birth_date = data.birth_date ? new Date(data.birth_date) : null;
@@ -383,33 +351,20 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
     if (data.residence_proof_url !== undefined) updateData.residence_proof_url = data.residence_proof_url;
     if (data.is_pj !== undefined) updateData.is_pj = data.is_pj;
     if (data.cnpj !== undefined) {
-      if (data.cnpj) {
-        const cnpjClean = data.cnpj.replace(/\D/g, '');
-        if (cnpjClean.length === 14) {
-          updateData.cnpj = cnpjClean;
-        } else if (cnpjClean.length > 0) {
-          throw new BadRequestError('CNPJ deve ter 14 dígitos');
-        } else {
-          updateData.cnpj = null;
+      const cnpj = parseIdentifier('cnpj', data.cnpj);
+      if (cnpj) {
+        const duplicateClient = await prisma.client.findFirst({
+          where: { cnpj, id: { not: id } },
+        });
+        if (duplicateClient) {
+          throw new BadRequestError('Já existe um cliente com este CNPJ');
         }
-      } else {
-        updateData.cnpj = null;
       }
+      updateData.cnpj = cnpj;
     }
     if (data.razao_social !== undefined) updateData.razao_social = data.razao_social;
     if (data.cpf_responsavel !== undefined) {
-      if (data.cpf_responsavel) {
-        const cpfClean = data.cpf_responsavel.replace(/\D/g, '');
-        if (cpfClean.length === 11) {
-          updateData.cpf_responsavel = cpfClean;
-        } else if (cpfClean.length > 0) {
-          throw new BadRequestError('CPF do responsável deve ter 11 dígitos');
-        } else {
-          updateData.cpf_responsavel = null;
-        }
-      } else {
-        updateData.cpf_responsavel = null;
-      }
+      updateData.cpf_responsavel = parseIdentifier('cpf', data.cpf_responsavel, 'CPF do responsável');
     }
     if (data.status !== undefined) updateData.status = data.status;
     if (data.franchisee_id !== undefined) updateData.franchisee_id = data.franchisee_id;
@@ -465,16 +420,106 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
       throw new NotFoundError('Cliente não encontrado');
     }
 
-    await prisma.client.delete({
-      where: { id },
+    // Locações vinculadas mantêm o histórico do cliente
+    const linkedRentals = await prisma.rental.count({
+      where: { client_id: id },
     });
 
+    if (linkedRentals > 0) {
+      throw new BadRequestError('Cliente possui locações vinculadas e não pode ser excluído');
+    }
+
+    // Conversas do WhatsApp e registros do CRM continuam, sem o vínculo com o cliente
+    await prisma.$transaction([
+      prisma.whatsappConversation.updateMany({ where: { client_id: id }, data: { client_id: null } }),
+      prisma.lead.updateMany({ where: { client_id: id }, data: { client_id: null } }),
+      prisma.deal.updateMany({ where: { client_id: id }, data: { client_id: null } }),
+      prisma.client.delete({ where: { id } }),
+    ]);
+
     return reply.send({
       success: true,
       message: 'Cliente excluído com sucesso',
     });
   });
 
+  /**
+   * GET /api/clients/:id/whatsapp
+   * Histórico de mensagens do WhatsApp do cliente
+   */
+  app.get('/:id/whatsapp', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Histórico de mensagens do WhatsApp do cliente (todas as conversas vinculadas)',
+      tags: ['Clientes'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                totalPages: { type: 'number' },
+              },
+            },
+          },
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { page = 1, limit = 50 } = request.query as { page?: number; limit?: number };
+    const user = request.user!;
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, city_id: true },
+    });
+
+    if (!client) {
+      throw new NotFoundError('Cliente não encontrado');
+    }
+
+    if (!['master_br', 'admin'].includes(user.role) && client.city_id && client.city_id !== user.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar este cliente');
+    }
+
+    const result = await whatsappInboxService.listClientMessages(id, { page, limit });
+
+    return reply.send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
   /**
    * GET /api/clients/by-document/:document
    * Buscar cliente por CPF ou CNPJ
@@ -509,8 +554,8 @@ const clientsRoutes: FastifyPluginAsync = async (app) => {
   }, async (request, reply) => {
     const { document } = request.params as { document: string };
 
-    // Limpar documento (remover caracteres não numéricos)
-    const cleanDocument = document.replace(/\D/g, '');
+    // Documento no formato gravado (CPF só dígitos; CNPJ sem pontuação)
+    const cleanDocument = normalizeCpfCnpj(document);
 
     // Buscar cliente por CPF ou CNPJ usando query raw para evitar problemas de schema
     const clients = await prisma.$queryRaw<any[]>`
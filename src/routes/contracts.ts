@@ -2,8 +2,86 @@ import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { contractService } from '../services/contractService.js';
+import { signatureService, SignatureSigner } from '../services/signature/index.js';
+import { realtimeService } from '../websocket/index.js';
+import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 
-import { NotFoundError } from '../utils/errors.js';
+// Body comum para envio de documentos para assinatura
+const signatureRequestBodySchema = {
+  type: 'object',
+  required: ['signers'],
+  properties: {
+    signers: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'email'],
+        properties: {
+          name: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          cpf: { type: 'string' },
+          phone: { type: 'string' },
+          sign_as: { type: 'string', enum: ['party', 'witness', 'approver'] },
+        },
+      },
+    },
+    message: { type: 'string' },
+    deadline_at: { type: 'string' },
+  },
+};
+
+interface SignatureRequestBody {
+  signers: SignatureSigner[];
+  message?: string;
+  deadline_at?: string;
+}
+
+/**
+ * Buscar contrato verificando se o usuário tem acesso à locação
+ */
+async function findContractForUser(id: string, context: AuthContext) {
+  const contract = await prisma.generatedContract.findUnique({
+    where: { id },
+    include: {
+      rental: {
+        select: { id: true, franchisee_id: true, city_id: true, client_name: true, motorcycle_plate: true },
+      },
+    },
+  });
+
+  if (!contract) {
+    throw new NotFoundError('Contrato não encontrado');
+  }
+
+  if (context.isFranchisee() && contract.rental?.franchisee_id !== context.franchiseeId) {
+    throw new ForbiddenError('Sem permissão para acessar este contrato');
+  }
+  if (context.isRegional() && (contract.city_id || contract.rental?.city_id) !== context.cityId) {
+    throw new ForbiddenError('Sem permissão para acessar este contrato');
+  }
+
+  return contract;
+}
+
+/**
+ * Emitir alteração de contrato via realtime
+ */
+function emitContractUpdate(franchiseeId: string | null | undefined, data: unknown) {
+  if (realtimeService && franchiseeId) {
+    realtimeService.emitContractChange(franchiseeId, {
+      type: 'UPDATE',
+      table: 'generated_contracts',
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
 
 const contractsRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -204,12 +282,12 @@ const contractsRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * POST /api/contracts/generate
-   * Gerar um novo contrato
+   * Gerar um novo contrato (mescla template + cláusulas + dados da locação e gera o PDF)
    */
   app.post('/generate', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Gerar um novo contrato',
+      description: 'Gerar um novo contrato com PDF renderizado no servidor',
       tags: ['Contratos'],
       security: [{ bearerAuth: [] }],
       body: {
@@ -218,9 +296,10 @@ const contractsRoutes: FastifyPluginAsync = async (app) => {
           template_id: { type: 'string', description: 'ID do template' },
           rental_id: { type: 'string', description: 'ID da locação' },
           city_id: { type: 'string', description: 'ID da cidade' },
-          contract_data: { type: 'object', additionalProperties: true, description: 'Dados do contrato' },
+          template_version: { type: 'integer', minimum: 1, description: 'Versão publicada do template (padrão: última publicada)' },
+          contract_data: { type: 'object', additionalProperties: true, description: 'Dados adicionais do contrato (sobrescrevem os dados da locação)' },
         },
-        required: ['template_id', 'rental_id', 'city_id', 'contract_data'],
+        required: ['template_id', 'rental_id', 'city_id'],
       },
       response: {
         200: {
@@ -236,37 +315,570 @@ const contractsRoutes: FastifyPluginAsync = async (app) => {
       },
     },
   }, async (request, reply) => {
-    const { template_id, rental_id, city_id, contract_data } = request.body as {
+    const { template_id, rental_id, city_id, template_version, contract_data } = request.body as {
       template_id: string;
       rental_id: string;
       city_id: string;
-      contract_data: any;
+      template_version?: number;
+      contract_data?: Record<string, any>;
+    };
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: rental_id, deleted_at: null },
+      select: { id: true, franchisee_id: true, city_id: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    // Verificar permissao
+    if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para gerar contrato desta locação');
+    }
+    if (context.isRegional() && rental.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para gerar contrato desta locação');
+    }
+
+    const contract = await contractService.generate({
+      templateId: template_id,
+      rentalId: rental_id,
+      cityId: city_id || rental.city_id,
+      templateVersionNumber: template_version,
+      contractData: contract_data,
+      userId: context.userId,
+    });
+
+    return reply.send({
+      success: true,
+      data: contract,
+    });
+  });
+
+  /**
+   * POST /api/contracts/batch/send-for-signature
+   * Enviar contratos de uma locação para assinatura em lote (mesmo batch_id)
+   */
+  app.post('/batch/send-for-signature', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Enviar em lote os contratos gerados de uma locação para assinatura',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        ...signatureRequestBodySchema,
+        properties: {
+          ...signatureRequestBodySchema.properties,
+          rental_id: { type: 'string', description: 'Enviar todos os contratos gerados da locação' },
+          contract_ids: { type: 'array', items: { type: 'string' }, description: 'Ou enviar contratos específicos' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                batch_id: { type: 'string' },
+                sent: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                failed: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { rental_id, contract_ids, signers, message, deadline_at } = request.body as SignatureRequestBody & {
+      rental_id?: string;
+      contract_ids?: string[];
     };
+    const context = getContext(request);
+
+    if (!rental_id && (!contract_ids || contract_ids.length === 0)) {
+      throw new BadRequestError('Informe rental_id ou contract_ids');
+    }
+
+    const candidates = await prisma.generatedContract.findMany({
+      where: contract_ids && contract_ids.length > 0
+        ? { id: { in: contract_ids } }
+        : { rental_id, status: 'generated' },
+      select: { id: true },
+      orderBy: { created_at: 'asc' },
+    });
+
+    if (candidates.length === 0) {
+      throw new BadRequestError('Nenhum contrato gerado disponível para envio');
+    }
+
+    const batchId = `BATCH-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+    const sent: any[] = [];
+    const failed: any[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        const contract = await findContractForUser(candidate.id, context);
 
-    const user = (request as any).user;
+        if (!contract.pdf_url) {
+          throw new BadRequestError('Contrato sem PDF gerado');
+        }
+        if (contract.signature_request_id && contract.status === 'sent') {
+          throw new BadRequestError('Contrato já enviado para assinatura');
+        }
+        if (contract.status === 'signed') {
+          throw new BadRequestError('Contrato já assinado');
+        }
 
-    // Gerar número do contrato
-    const contract_number = `CT-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+        const result = await signatureService.sendStoredPdf({
+          cityId: contract.city_id || contract.rental?.city_id,
+          userId: context.userId,
+          pdfUrl: contract.pdf_url,
+          filename: `contrato_${contract.contract_number}.pdf`,
+          name: `Contrato ${contract.contract_number}`,
+          signers,
+          message: message || `Por favor, assine o contrato de locação ${contract.contract_number}.`,
+          deadlineAt: deadline_at,
+        });
 
-    const contract = await prisma.generatedContract.create({
+        const updated = await prisma.generatedContract.update({
+          where: { id: contract.id },
+          data: {
+            signature_request_id: result.requestId,
+            document_key: result.documentKey,
+            batch_id: batchId,
+            status: 'sent',
+            expires_at: deadline_at ? new Date(deadline_at) : undefined,
+          },
+        });
+
+        sent.push({ id: updated.id, contract_number: updated.contract_number, signature_request_id: result.requestId });
+        emitContractUpdate(contract.rental?.franchisee_id, updated);
+      } catch (error: any) {
+        logger.warn({ contractId: candidate.id, batchId, error: error.message }, 'Falha ao enviar contrato do lote para assinatura');
+        failed.push({ id: candidate.id, error: error.message });
+      }
+    }
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.CONTRACT_SEND,
+      'generated_contract_batch',
+      undefined,
+      null,
+      { batch_id: batchId, sent: sent.map(c => c.id), failed: failed.map(c => c.id) }
+    );
+
+    return reply.send({
+      success: true,
+      data: { batch_id: batchId, sent, failed },
+      message: `${sent.length} contrato(s) enviado(s) para assinatura${failed.length ? `, ${failed.length} com falha` : ''}`,
+    });
+  });
+
+  /**
+   * GET /api/contracts/batch/:batchId
+   * Status dos contratos de um lote
+   */
+  app.get('/batch/:batchId', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Status de assinatura dos contratos de um lote',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          batchId: { type: 'string', description: 'ID do lote (batch_id)' },
+        },
+        required: ['batchId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                batch_id: { type: 'string' },
+                all_signed: { type: 'boolean' },
+                contracts: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { batchId } = request.params as { batchId: string };
+    const context = getContext(request);
+
+    const contracts = await prisma.generatedContract.findMany({
+      where: { batch_id: batchId },
+      select: {
+        id: true,
+        contract_number: true,
+        rental_id: true,
+        city_id: true,
+        status: true,
+        signature_request_id: true,
+        signed_at: true,
+        rental: { select: { franchisee_id: true, city_id: true } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    const visible = contracts.filter((contract) => {
+      if (context.isFranchisee()) return contract.rental?.franchisee_id === context.franchiseeId;
+      if (context.isRegional()) return (contract.city_id || contract.rental?.city_id) === context.cityId;
+      return true;
+    });
+
+    if (visible.length === 0) {
+      throw new NotFoundError('Lote não encontrado');
+    }
+
+    return reply.send({
+      success: true,
       data: {
-        template_id,
-        rental_id,
-        city_id,
-        contract_number,
-        contract_data: contract_data as any,
-        status: 'draft',
-        created_by: user?.id || null,
+        batch_id: batchId,
+        all_signed: visible.every(contract => contract.status === 'signed'),
+        contracts: visible.map(({ rental, ...contract }) => contract),
       },
-      include: {
-        template: true,
+    });
+  });
+
+  /**
+   * POST /api/contracts/:id/send-for-signature
+   * Enviar contrato gerado para assinatura
+   */
+  app.post('/:id/send-for-signature', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Enviar contrato gerado para assinatura (PlugSign ou BeSign, conforme a cidade)',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do contrato' },
+        },
+        required: ['id'],
+      },
+      body: signatureRequestBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+            message: { type: 'string' },
+          },
+        },
       },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { signers, message, deadline_at } = request.body as SignatureRequestBody;
+    const context = getContext(request);
+
+    const contract = await findContractForUser(id, context);
+
+    if (!contract.pdf_url) {
+      throw new BadRequestError('O contrato precisa ter um PDF gerado antes de enviar para assinatura');
+    }
+    if (contract.signature_request_id && contract.status === 'sent') {
+      throw new BadRequestError('Este contrato já foi enviado para assinatura. Use o reenvio. ID: ' + contract.signature_request_id);
+    }
+    if (contract.status === 'signed') {
+      throw new BadRequestError('Este contrato já foi assinado');
+    }
+
+    const result = await signatureService.sendStoredPdf({
+      cityId: contract.city_id || contract.rental?.city_id,
+      userId: context.userId,
+      pdfUrl: contract.pdf_url,
+      filename: `contrato_${contract.contract_number}.pdf`,
+      name: `Contrato ${contract.contract_number}`,
+      signers,
+      message: message || `Por favor, assine o contrato de locação ${contract.contract_number}.`,
+      deadlineAt: deadline_at,
     });
 
+    const updated = await prisma.generatedContract.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        status: 'sent',
+        expires_at: deadline_at ? new Date(deadline_at) : undefined,
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.CONTRACT_SEND,
+      'generated_contract',
+      id,
+      { status: contract.status },
+      { status: 'sent', signature_request_id: result.requestId, provider: result.provider }
+    );
+
+    emitContractUpdate(contract.rental?.franchisee_id, updated);
+
     return reply.send({
       success: true,
-      data: contract,
+      data: updated,
+      message: 'Contrato enviado para assinatura com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/contracts/:id/resend
+   * Reenviar contrato para assinatura (cancela a solicitação anterior)
+   */
+  app.post('/:id/resend', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Reenviar contrato para assinatura (cancela a solicitação anterior no provedor)',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do contrato' },
+        },
+        required: ['id'],
+      },
+      body: signatureRequestBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { signers, message, deadline_at } = request.body as SignatureRequestBody;
+    const context = getContext(request);
+
+    const contract = await findContractForUser(id, context);
+
+    if (!contract.pdf_url) {
+      throw new BadRequestError('O contrato precisa ter um PDF gerado antes de enviar para assinatura');
+    }
+    if (contract.status === 'signed') {
+      throw new BadRequestError('Este contrato já foi assinado');
+    }
+
+    const cityId = contract.city_id || contract.rental?.city_id;
+
+    // Cancelar solicitação anterior (se existir) antes de reenviar
+    if (contract.signature_request_id) {
+      try {
+        const provider = await signatureService.getProvider({ cityId, userId: context.userId });
+        await provider.cancel(contract.signature_request_id);
+      } catch (error: any) {
+        logger.warn({ contractId: id, error: error.message }, 'Nao foi possivel cancelar a solicitacao anterior, reenviando mesmo assim');
+      }
+    }
+
+    const result = await signatureService.sendStoredPdf({
+      cityId,
+      userId: context.userId,
+      pdfUrl: contract.pdf_url,
+      filename: `contrato_${contract.contract_number}.pdf`,
+      name: `Contrato ${contract.contract_number}`,
+      signers,
+      message: message || `Por favor, assine o contrato de locação ${contract.contract_number}.`,
+      deadlineAt: deadline_at,
+    });
+
+    const updated = await prisma.generatedContract.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        status: 'sent',
+        expires_at: deadline_at ? new Date(deadline_at) : undefined,
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.CONTRACT_SEND,
+      'generated_contract',
+      id,
+      { signature_request_id: contract.signature_request_id },
+      { signature_request_id: result.requestId, resend: true, provider: result.provider }
+    );
+
+    emitContractUpdate(contract.rental?.franchisee_id, updated);
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Contrato reenviado para assinatura com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/contracts/:id/cancel-signature
+   * Cancelar solicitação de assinatura do contrato
+   */
+  app.post('/:id/cancel-signature', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Cancelar solicitação de assinatura do contrato (volta para gerado)',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do contrato' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const contract = await findContractForUser(id, context);
+
+    if (!contract.signature_request_id) {
+      throw new BadRequestError('Este contrato não foi enviado para assinatura');
+    }
+    if (contract.status === 'signed') {
+      throw new BadRequestError('Não é possível cancelar um contrato já assinado');
+    }
+
+    const provider = await signatureService.getProvider({
+      cityId: contract.city_id || contract.rental?.city_id,
+      userId: context.userId,
     });
+    await provider.cancel(contract.signature_request_id);
+
+    const updated = await prisma.generatedContract.update({
+      where: { id },
+      data: {
+        signature_request_id: null,
+        document_key: null,
+        batch_id: null,
+        expires_at: null,
+        status: 'generated',
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.CONTRACT_CANCEL,
+      'generated_contract',
+      id,
+      { status: contract.status, signature_request_id: contract.signature_request_id },
+      { status: 'generated' }
+    );
+
+    emitContractUpdate(contract.rental?.franchisee_id, updated);
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Solicitação de assinatura cancelada',
+    });
+  });
+
+  /**
+   * GET /api/contracts/:id/download-signed
+   * Baixar contrato assinado do provedor de assinatura
+   */
+  app.get('/:id/download-signed', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Baixar contrato assinado do provedor de assinatura',
+      tags: ['Contratos'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do contrato' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'string',
+          format: 'binary',
+          description: 'PDF do documento assinado',
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const contract = await findContractForUser(id, context);
+
+    if (!contract.signature_request_id) {
+      throw new BadRequestError('Este contrato ainda não foi enviado para assinatura');
+    }
+
+    const provider = await signatureService.getProvider({
+      cityId: contract.city_id || contract.rental?.city_id,
+      userId: context.userId,
+    });
+
+    const { buffer, documentKey, status } = await provider.downloadSigned({
+      requestId: contract.signature_request_id,
+      documentKey: contract.document_key,
+      searchHints: [contract.contract_number],
+    });
+
+    // Sincronizar document_key e status caso o webhook não tenha chegado
+    const updateData: Record<string, unknown> = {};
+    if (documentKey && documentKey !== contract.document_key) {
+      updateData.document_key = documentKey;
+    }
+    if (status === 'signed' && contract.status !== 'signed') {
+      updateData.status = 'signed';
+      updateData.signed_at = new Date();
+    }
+    if (Object.keys(updateData).length > 0) {
+      await prisma.generatedContract.update({ where: { id }, data: updateData });
+    }
+
+    reply.header('Content-Type', 'application/pdf');
+    reply.header('Content-Disposition', `attachment; filename="contrato_assinado_${contract.contract_number}.pdf"`);
+
+    return reply.send(buffer);
   });
 
   /**
@@ -373,6 +985,7 @@ const contractsRoutes: FastifyPluginAsync = async (app) => {
       where: { id },
       include: {
         template: true,
+        template_version: true,
         rental: true,
         city: true,
       },
@@ -0,0 +1,1410 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { crmService, LEAD_SOURCES, MANUAL_ACTIVITY_TYPES, OPEN_LEAD_STATUSES } from '../services/crmService.js';
+import { realtimeService } from '../websocket/index.js';
+import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, ConflictError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
+
+const dataResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'object', additionalProperties: true },
+    message: { type: 'string' },
+  },
+};
+
+const listResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+  },
+};
+
+const paginationSchema = {
+  type: 'object',
+  properties: {
+    total: { type: 'number' },
+    page: { type: 'number' },
+    limit: { type: 'number' },
+    totalPages: { type: 'number' },
+  },
+};
+
+const paginatedResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    pagination: paginationSchema,
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+};
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const leadStatuses = ['new', 'contacted', 'qualified', 'converted', 'lost'] as const;
+
+// Schemas de validação
+const createLeadSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter no mínimo 2 caracteres'),
+  phone: z.string().min(8, 'Telefone inválido'),
+  email: z.string().email('Email inválido').optional().nullable(),
+  source: z.enum(LEAD_SOURCES as [string, ...string[]]).optional().nullable(),
+  notes: z.string().optional().nullable(),
+  franchisee_id: z.string().uuid().optional().nullable(),
+  city_id: z.string().uuid().optional().nullable(),
+  assigned_to: z.string().uuid().optional().nullable(),
+});
+
+const updateLeadSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter no mínimo 2 caracteres').optional(),
+  phone: z.string().min(8, 'Telefone inválido').optional(),
+  email: z.string().email('Email inválido').optional().nullable(),
+  source: z.enum(LEAD_SOURCES as [string, ...string[]]).optional().nullable(),
+  status: z.enum(['new', 'contacted', 'qualified', 'lost']).optional(),
+  lost_reason: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+const assignLeadSchema = z.object({
+  assigned_to: z.string().uuid('Atendente inválido'),
+});
+
+const leadQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(leadStatuses).optional(),
+  source: z.enum(LEAD_SOURCES as [string, ...string[]]).optional(),
+  assigned_to: z.string().uuid().optional(),
+  unassigned: z.coerce.boolean().optional(),
+  search: z.string().optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+const activitySchema = z.object({
+  lead_id: z.string().uuid().optional().nullable(),
+  deal_id: z.string().uuid().optional().nullable(),
+  type: z.enum(MANUAL_ACTIVITY_TYPES),
+  description: z.string().min(1, 'Descrição é obrigatória'),
+  occurred_at: z.string().datetime({ offset: true }).optional(),
+  metadata: z.record(z.unknown()).optional().nullable(),
+}).refine(data => data.lead_id || data.deal_id, {
+  message: 'Informe o lead ou a oportunidade',
+});
+
+const activityQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  lead_id: z.string().uuid().optional(),
+  deal_id: z.string().uuid().optional(),
+  type: z.string().optional(),
+});
+
+const stagesSchema = z.object({
+  city_id: z.string().uuid().optional(),
+  stages: z.array(z.object({
+    key: z.string().min(1).max(50),
+    name: z.string().min(1),
+    probability: z.number().int().min(0).max(100),
+    is_won: z.boolean().optional(),
+    is_lost: z.boolean().optional(),
+  })).min(2, 'Informe ao menos duas etapas'),
+});
+
+const createDealSchema = z.object({
+  lead_id: z.string().uuid().optional().nullable(),
+  title: z.string().min(2, 'Título deve ter no mínimo 2 caracteres'),
+  value: z.number().min(0).optional().nullable(),
+  stage: z.string().optional(),
+  expected_close: z.string().regex(dateRegex, 'expected_close deve estar no formato YYYY-MM-DD').optional().nullable(),
+  notes: z.string().optional().nullable(),
+  franchisee_id: z.string().uuid().optional().nullable(),
+  city_id: z.string().uuid().optional().nullable(),
+  assigned_to: z.string().uuid().optional().nullable(),
+});
+
+const updateDealSchema = z.object({
+  title: z.string().min(2, 'Título deve ter no mínimo 2 caracteres').optional(),
+  value: z.number().min(0).optional().nullable(),
+  probability: z.number().int().min(0).max(100).optional().nullable(),
+  expected_close: z.string().regex(dateRegex, 'expected_close deve estar no formato YYYY-MM-DD').optional().nullable(),
+  notes: z.string().optional().nullable(),
+  assigned_to: z.string().uuid().optional().nullable(),
+});
+
+const moveStageSchema = z.object({
+  stage: z.string().min(1, 'Etapa é obrigatória'),
+  probability: z.number().int().min(0).max(100).optional().nullable(),
+  lost_reason: z.string().optional().nullable(),
+});
+
+const convertDealSchema = z.object({
+  client_id: z.string().uuid().optional().nullable(),
+  client: z.object({
+    full_name: z.string().min(2).optional(),
+    cpf: optionalIdentifierSchema('cpf'),
+    cnpj: optionalIdentifierSchema('cnpj'),
+    is_pj: z.boolean().optional(),
+    razao_social: z.string().optional().nullable(),
+    rg: z.string().optional().nullable(),
+    phone: z.string().optional(),
+    email: z.string().email('Email inválido').optional().nullable(),
+    address: z.string().optional().nullable(),
+    number: z.string().optional().nullable(),
+    city: z.string().optional().nullable(),
+    state: z.string().optional().nullable(),
+    zip_code: z.string().optional().nullable(),
+    cnh_number: z.string().optional().nullable(),
+  }).optional(),
+  motorcycle_id: z.string().uuid('Moto inválida'),
+  plan_id: z.string().uuid().optional().nullable(),
+  start_date: z.string().regex(dateRegex, 'start_date deve estar no formato YYYY-MM-DD'),
+  end_date: z.string().regex(dateRegex, 'end_date deve estar no formato YYYY-MM-DD').optional().nullable(),
+  daily_rate: z.number().positive('Diária deve ser maior que zero'),
+  deposit_amount: z.number().min(0).optional().nullable(),
+  km_inicial: z.number().int().min(0).optional().nullable(),
+  notes: z.string().optional().nullable(),
+}).refine(data => data.client_id || data.client, {
+  message: 'Informe o cliente (client_id) ou os dados para o cadastro (client)',
+});
+
+const dealQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  stage: z.string().optional(),
+  status: z.enum(['open', 'won', 'lost']).optional(),
+  lead_id: z.string().uuid().optional(),
+  assigned_to: z.string().uuid().optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+const funnelQuerySchema = z.object({
+  city_id: z.string().uuid().optional(),
+  franchisee_id: z.string().uuid().optional(),
+  from: z.string().regex(dateRegex, 'from deve estar no formato YYYY-MM-DD').optional(),
+  to: z.string().regex(dateRegex, 'to deve estar no formato YYYY-MM-DD').optional(),
+});
+
+const formatDeal = <T extends { value: unknown }>(deal: T) => ({
+  ...deal,
+  value: deal.value !== null && deal.value !== undefined ? Number(deal.value) : null,
+});
+
+/**
+ * Verificar se o usuário tem acesso ao registro do CRM (lead/oportunidade)
+ */
+function assertCrmAccess(
+  record: { franchisee_id: string | null; city_id: string | null },
+  context: AuthContext,
+  message: string
+) {
+  if (context.isFranchisee() && record.franchisee_id !== context.franchiseeId) {
+    throw new ForbiddenError(message);
+  }
+  if (context.isRegional() && record.city_id !== context.cityId) {
+    throw new ForbiddenError(message);
+  }
+}
+
+/**
+ * Buscar lead verificando se o usuário tem acesso
+ */
+async function findLeadForUser(leadId: string, context: AuthContext) {
+  const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+
+  if (!lead) {
+    throw new NotFoundError('Lead não encontrado');
+  }
+  assertCrmAccess(lead, context, 'Sem permissão para acessar este lead');
+
+  return lead;
+}
+
+/**
+ * Buscar oportunidade verificando se o usuário tem acesso
+ */
+async function findDealForUser(dealId: string, context: AuthContext) {
+  const deal = await prisma.deal.findUnique({ where: { id: dealId } });
+
+  if (!deal) {
+    throw new NotFoundError('Oportunidade não encontrada');
+  }
+  assertCrmAccess(deal, context, 'Sem permissão para acessar esta oportunidade');
+
+  return deal;
+}
+
+/**
+ * Franqueado/cidade do novo registro: o do usuário ou o informado por master/admin/regional
+ */
+async function resolveOwnership(
+  input: { franchisee_id?: string | null; city_id?: string | null },
+  context: AuthContext
+) {
+  if (context.isFranchisee()) {
+    return { franchisee_id: context.franchiseeId || null, city_id: context.cityId || null };
+  }
+
+  let cityId = context.isRegional() ? context.cityId : input.city_id || null;
+  const franchiseeId = input.franchisee_id || null;
+
+  if (franchiseeId) {
+    const franchisee = await prisma.franchisee.findUnique({
+      where: { id: franchiseeId },
+      select: { id: true, city_id: true },
+    });
+    if (!franchisee) {
+      throw new NotFoundError('Franqueado não encontrado');
+    }
+    if (context.isRegional() && franchisee.city_id !== context.cityId) {
+      throw new ForbiddenError('Franqueado não pertence à sua cidade');
+    }
+    cityId = cityId || franchisee.city_id;
+  }
+
+  return { franchisee_id: franchiseeId, city_id: cityId || null };
+}
+
+function emitCrm(
+  record: { franchisee_id: string | null; city_id: string | null },
+  type: 'INSERT' | 'UPDATE' | 'DELETE',
+  table: string,
+  data: any
+) {
+  if (!realtimeService) {
+    return;
+  }
+
+  realtimeService.emitCrmChange(record.franchisee_id, record.city_id, {
+    type,
+    table,
+    data,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+const crmRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/crm/leads
+   * Listar leads com filtros e paginação
+   */
+  app.get('/leads', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar leads com filtros e paginação',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          status: { type: 'string', enum: [...leadStatuses] },
+          source: { type: 'string', enum: LEAD_SOURCES },
+          assigned_to: { type: 'string', format: 'uuid' },
+          unassigned: { type: 'boolean', description: 'Apenas leads sem atendente' },
+          search: { type: 'string', description: 'Busca por nome, telefone ou email' },
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = leadQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, status, source, assigned_to, unassigned, search, city_id } = query.data;
+    const context = getContext(request);
+
+    const where: any = { ...context.getFranchiseeFilter() };
+    if (context.isMasterOrAdmin() && city_id) {
+      where.city_id = city_id;
+    }
+    if (status) where.status = status;
+    if (source) where.source = source;
+    if (assigned_to) where.assigned_to = assigned_to;
+    if (unassigned) where.assigned_to = null;
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [leads, total] = await Promise.all([
+      prisma.lead.findMany({
+        where,
+        include: {
+          assignee: { select: { id: true, name: true, email: true } },
+          _count: { select: { deals: true, activities: true } },
+        },
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.lead.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: leads,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/crm/leads/:id
+   * Buscar lead com oportunidades e histórico de atividades
+   */
+  app.get('/leads/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Buscar lead com oportunidades e histórico de atividades',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: dataResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    await findLeadForUser(id, context);
+
+    const lead = await prisma.lead.findUnique({
+      where: { id },
+      include: {
+        assignee: { select: { id: true, name: true, email: true } },
+        client: { select: { id: true, full_name: true, cpf: true, cnpj: true, phone: true } },
+        deals: { orderBy: { created_at: 'desc' } },
+        activities: {
+          include: { creator: { select: { id: true, name: true } } },
+          orderBy: { occurred_at: 'desc' },
+          take: 100,
+        },
+      },
+    });
+
+    return reply.send({
+      success: true,
+      data: { ...lead, deals: lead!.deals.map(formatDeal) },
+    });
+  });
+
+  /**
+   * POST /api/crm/leads
+   * Cadastrar lead (sem atendente informado, distribui para o atendente com menos leads em aberto)
+   */
+  app.post('/leads', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Cadastrar lead (sem atendente informado, distribui automaticamente)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'phone'],
+        properties: {
+          name: { type: 'string', minLength: 2 },
+          phone: { type: 'string' },
+          email: { type: ['string', 'null'] },
+          source: { type: ['string', 'null'], enum: [...LEAD_SOURCES, null], description: 'Origem do lead' },
+          notes: { type: ['string', 'null'] },
+          franchisee_id: { type: ['string', 'null'], format: 'uuid' },
+          city_id: { type: ['string', 'null'], format: 'uuid' },
+          assigned_to: { type: ['string', 'null'], format: 'uuid' },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = createLeadSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { assigned_to, franchisee_id, city_id, ...data } = body.data;
+    const ownership = await resolveOwnership({ franchisee_id, city_id }, context);
+
+    let assigneeId = assigned_to || null;
+    if (assigneeId) {
+      await crmService.assertAssignee(assigneeId, ownership.city_id);
+    } else {
+      assigneeId = await crmService.pickAssignee(ownership.franchisee_id, ownership.city_id);
+    }
+
+    const lead = await prisma.lead.create({
+      data: {
+        name: data.name,
+        phone: data.phone,
+        email: data.email || null,
+        source: data.source || null,
+        notes: data.notes || null,
+        ...ownership,
+        assigned_to: assigneeId,
+      },
+      include: { assignee: { select: { id: true, name: true, email: true } } },
+    });
+
+    if (assigneeId) {
+      await crmService.logActivity({
+        lead_id: lead.id,
+        type: 'assignment',
+        description: `Lead atribuído a ${lead.assignee?.name || 'atendente'}${assigned_to ? '' : ' (distribuição automática)'}`,
+        metadata: { assigned_to: assigneeId, automatic: !assigned_to },
+        franchisee_id: lead.franchisee_id,
+        city_id: lead.city_id,
+        created_by: context.userId,
+      });
+      if (assigneeId !== context.userId) {
+        crmService.notifyAssignee(assigneeId, lead);
+      }
+    }
+
+    await auditService.logFromRequest(request, AuditActions.LEAD_CREATE, 'lead', lead.id, null, lead);
+    emitCrm(lead, 'INSERT', 'leads', lead);
+
+    return reply.status(201).send({
+      success: true,
+      data: lead,
+      message: 'Lead cadastrado com sucesso',
+    });
+  });
+
+  /**
+   * PUT /api/crm/leads/:id
+   * Atualizar lead
+   */
+  app.put('/leads/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Atualizar dados e status do lead (conversão apenas pela oportunidade)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 2 },
+          phone: { type: 'string' },
+          email: { type: ['string', 'null'] },
+          source: { type: ['string', 'null'], enum: [...LEAD_SOURCES, null] },
+          status: { type: 'string', enum: ['new', 'contacted', 'qualified', 'lost'] },
+          lost_reason: { type: ['string', 'null'] },
+          notes: { type: ['string', 'null'] },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updateLeadSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findLeadForUser(id, context);
+
+    if (existing.status === 'converted' && body.data.status) {
+      throw new BadRequestError('Lead convertido não pode mudar de status');
+    }
+    if (body.data.status === 'lost' && !body.data.lost_reason && !existing.lost_reason) {
+      throw new BadRequestError('Informe o motivo da perda');
+    }
+
+    const lead = await prisma.lead.update({
+      where: { id },
+      data: {
+        ...body.data,
+        ...(body.data.status && body.data.status !== 'lost' ? { lost_reason: null } : {}),
+      },
+    });
+
+    await auditService.logFromRequest(request, AuditActions.LEAD_UPDATE, 'lead', id, existing, lead);
+    emitCrm(lead, 'UPDATE', 'leads', lead);
+
+    return reply.send({
+      success: true,
+      data: lead,
+      message: 'Lead atualizado com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/crm/leads/:id/assign
+   * Atribuir lead a um atendente
+   */
+  app.post('/leads/:id/assign', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Atribuir lead a um atendente (notifica o atendente)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['assigned_to'],
+        properties: {
+          assigned_to: { type: 'string', format: 'uuid', description: 'ID do atendente' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = assignLeadSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findLeadForUser(id, context);
+
+    const lead = await crmService.assignLead(id, body.data.assigned_to, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.LEAD_ASSIGN,
+      'lead',
+      id,
+      { assigned_to: existing.assigned_to },
+      { assigned_to: lead.assigned_to }
+    );
+    emitCrm(lead, 'UPDATE', 'leads', lead);
+
+    return reply.send({
+      success: true,
+      data: lead,
+      message: 'Lead atribuído com sucesso',
+    });
+  });
+
+  /**
+   * DELETE /api/crm/leads/:id
+   * Excluir lead (apenas sem oportunidades)
+   */
+  app.delete('/leads/:id', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Excluir lead e seu histórico de atividades (apenas sem oportunidades; conversas do WhatsApp são mantidas)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: dataResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    const existing = await findLeadForUser(id, context);
+
+    const deals = await prisma.deal.count({ where: { lead_id: id } });
+    if (deals > 0) {
+      throw new ConflictError('Lead possui oportunidades e não pode ser excluído');
+    }
+
+    await prisma.$transaction([
+      prisma.crmActivity.deleteMany({ where: { lead_id: id } }),
+      prisma.whatsappConversation.updateMany({ where: { lead_id: id }, data: { lead_id: null } }),
+      prisma.lead.delete({ where: { id } }),
+    ]);
+
+    await auditService.logFromRequest(request, AuditActions.LEAD_DELETE, 'lead', id, existing, null);
+    emitCrm(existing, 'DELETE', 'leads', { id });
+
+    return reply.send({
+      success: true,
+      message: 'Lead excluído com sucesso',
+    });
+  });
+
+  /**
+   * GET /api/crm/activities
+   * Histórico de atividades de um lead ou oportunidade
+   */
+  app.get('/activities', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Histórico de atividades (ligações, WhatsApp, visitas) de um lead ou oportunidade',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
+          lead_id: { type: 'string', format: 'uuid' },
+          deal_id: { type: 'string', format: 'uuid' },
+          type: { type: 'string' },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = activityQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, lead_id, deal_id, type } = query.data;
+    const context = getContext(request);
+
+    if (lead_id) await findLeadForUser(lead_id, context);
+    if (deal_id) await findDealForUser(deal_id, context);
+
+    const where: any = { ...context.getFranchiseeFilter() };
+    if (lead_id) where.lead_id = lead_id;
+    if (deal_id) where.deal_id = deal_id;
+    if (type) where.type = type;
+
+    const [activities, total] = await Promise.all([
+      prisma.crmActivity.findMany({
+        where,
+        include: { creator: { select: { id: true, name: true } } },
+        orderBy: { occurred_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.crmActivity.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: activities,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/crm/activities
+   * Registrar atividade (ligação, WhatsApp, visita, email ou anotação)
+   */
+  app.post('/activities', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Registrar atividade de um lead ou oportunidade',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['type', 'description'],
+        properties: {
+          lead_id: { type: ['string', 'null'], format: 'uuid' },
+          deal_id: { type: ['string', 'null'], format: 'uuid' },
+          type: { type: 'string', enum: [...MANUAL_ACTIVITY_TYPES] },
+          description: { type: 'string' },
+          occurred_at: { type: 'string', format: 'date-time', description: 'Data da interação (padrão: agora)' },
+          metadata: { type: ['object', 'null'], additionalProperties: true },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = activitySchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const deal = body.data.deal_id ? await findDealForUser(body.data.deal_id, context) : null;
+    const leadId = body.data.lead_id || deal?.lead_id || null;
+    const lead = leadId ? await findLeadForUser(leadId, context) : null;
+
+    if (deal && lead && deal.lead_id && deal.lead_id !== lead.id) {
+      throw new BadRequestError('Oportunidade não pertence ao lead informado');
+    }
+
+    const owner = deal || lead!;
+    const activity = await crmService.logActivity({
+      lead_id: lead?.id,
+      deal_id: deal?.id,
+      type: body.data.type,
+      description: body.data.description,
+      metadata: body.data.metadata,
+      occurred_at: body.data.occurred_at ? new Date(body.data.occurred_at) : undefined,
+      franchisee_id: owner.franchisee_id,
+      city_id: owner.city_id,
+      created_by: context.userId,
+    });
+
+    emitCrm(owner, 'INSERT', 'crm_activities', activity);
+
+    return reply.status(201).send({
+      success: true,
+      data: activity,
+      message: 'Atividade registrada com sucesso',
+    });
+  });
+
+  /**
+   * GET /api/crm/stages
+   * Etapas do funil da cidade (padrão quando a cidade não configurou)
+   */
+  app.get('/stages', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Etapas do funil de vendas da cidade (etapas padrão quando a cidade não configurou)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: listResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { city_id } = request.query as { city_id?: string };
+    const context = getContext(request);
+
+    const stages = await crmService.getStages(context.isMasterOrAdmin() ? city_id : context.cityId);
+
+    return reply.send({ success: true, data: stages });
+  });
+
+  /**
+   * PUT /api/crm/stages
+   * Configurar as etapas do funil da cidade
+   */
+  app.put('/stages', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Configurar as etapas do funil da cidade (ordem da lista; uma etapa de ganho e ao menos uma de perda)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['stages'],
+        properties: {
+          city_id: { type: 'string', format: 'uuid', description: 'Obrigatório para master/admin' },
+          stages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['key', 'name', 'probability'],
+              properties: {
+                key: { type: 'string' },
+                name: { type: 'string' },
+                probability: { type: 'integer', minimum: 0, maximum: 100 },
+                is_won: { type: 'boolean' },
+                is_lost: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+      response: {
+        200: listResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = stagesSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const cityId = context.isRegional() ? context.cityId : body.data.city_id;
+    if (!cityId) {
+      throw new BadRequestError('city_id é obrigatório');
+    }
+
+    const previous = await crmService.getStages(cityId);
+    const stages = await crmService.setStages(cityId, body.data.stages as any);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEAL_STAGES_UPDATE,
+      'deal_stage',
+      cityId,
+      previous,
+      stages
+    );
+    emitCrm({ franchisee_id: null, city_id: cityId }, 'UPDATE', 'deal_stages', stages);
+
+    return reply.send({ success: true, data: stages });
+  });
+
+  /**
+   * GET /api/crm/deals
+   * Listar oportunidades com filtros e paginação
+   */
+  app.get('/deals', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar oportunidades com filtros e paginação',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          stage: { type: 'string' },
+          status: { type: 'string', enum: ['open', 'won', 'lost'] },
+          lead_id: { type: 'string', format: 'uuid' },
+          assigned_to: { type: 'string', format: 'uuid' },
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = dealQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, stage, status, lead_id, assigned_to, city_id } = query.data;
+    const context = getContext(request);
+
+    const where: any = { ...context.getFranchiseeFilter() };
+    if (context.isMasterOrAdmin() && city_id) {
+      where.city_id = city_id;
+    }
+    if (stage) where.stage = stage;
+    if (lead_id) where.lead_id = lead_id;
+    if (assigned_to) where.assigned_to = assigned_to;
+    if (status === 'open') {
+      where.won_at = null;
+      where.lost_at = null;
+    } else if (status === 'won') {
+      where.won_at = { not: null };
+    } else if (status === 'lost') {
+      where.lost_at = { not: null };
+    }
+
+    const [deals, total] = await Promise.all([
+      prisma.deal.findMany({
+        where,
+        include: {
+          lead: { select: { id: true, name: true, phone: true, source: true } },
+          assignee: { select: { id: true, name: true } },
+        },
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.deal.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: deals.map(formatDeal),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/crm/deals/pipeline
+   * Oportunidades agrupadas pelas etapas do funil
+   */
+  app.get('/deals/pipeline', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Oportunidades agrupadas pelas etapas do funil, com valor total e ponderado por etapa',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+          assigned_to: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: listResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { city_id, assigned_to } = request.query as { city_id?: string; assigned_to?: string };
+    const context = getContext(request);
+    const cityId = context.isMasterOrAdmin() ? city_id : context.cityId;
+
+    const stages = await crmService.getStages(cityId);
+
+    const deals = await prisma.deal.findMany({
+      where: {
+        ...context.getFranchiseeFilter(),
+        ...(cityId ? { city_id: cityId } : {}),
+        ...(assigned_to ? { assigned_to } : {}),
+        stage: { in: stages.map(stage => stage.key) },
+      },
+      include: {
+        lead: { select: { id: true, name: true, phone: true, source: true } },
+        assignee: { select: { id: true, name: true } },
+      },
+      orderBy: { stage_changed_at: { sort: 'desc', nulls: 'last' } },
+    });
+
+    const data = stages.map(stage => {
+      const stageDeals = deals.filter(deal => deal.stage === stage.key).map(formatDeal);
+      const totalValue = stageDeals.reduce((sum, deal) => sum + (deal.value || 0), 0);
+      const weightedValue = stageDeals.reduce(
+        (sum, deal) => sum + (deal.value || 0) * (deal.probability ?? stage.probability) / 100,
+        0
+      );
+
+      return {
+        ...stage,
+        count: stageDeals.length,
+        total_value: Math.round(totalValue * 100) / 100,
+        weighted_value: Math.round(weightedValue * 100) / 100,
+        deals: stageDeals,
+      };
+    });
+
+    return reply.send({ success: true, data });
+  });
+
+  /**
+   * POST /api/crm/deals
+   * Criar oportunidade (a partir de um lead ou avulsa)
+   */
+  app.post('/deals', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Criar oportunidade (herda franqueado, cidade e atendente do lead)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['title'],
+        properties: {
+          lead_id: { type: ['string', 'null'], format: 'uuid' },
+          title: { type: 'string', minLength: 2 },
+          value: { type: ['number', 'null'], minimum: 0 },
+          stage: { type: 'string', description: 'Etapa inicial (padrão: primeira etapa do funil)' },
+          expected_close: { type: ['string', 'null'], format: 'date' },
+          notes: { type: ['string', 'null'] },
+          franchisee_id: { type: ['string', 'null'], format: 'uuid' },
+          city_id: { type: ['string', 'null'], format: 'uuid' },
+          assigned_to: { type: ['string', 'null'], format: 'uuid' },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = createDealSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { lead_id, franchisee_id, city_id, assigned_to, stage: stageKey, ...data } = body.data;
+
+    const lead = lead_id ? await findLeadForUser(lead_id, context) : null;
+    if (lead && ['converted', 'lost'].includes(lead.status)) {
+      throw new BadRequestError(`Lead com status "${lead.status}" não aceita novas oportunidades`);
+    }
+
+    const ownership = lead
+      ? { franchisee_id: lead.franchisee_id, city_id: lead.city_id }
+      : await resolveOwnership({ franchisee_id, city_id }, context);
+
+    const assigneeId = assigned_to || lead?.assigned_to || null;
+    if (assigned_to) {
+      await crmService.assertAssignee(assigned_to, ownership.city_id);
+    }
+
+    const stages = await crmService.getStages(ownership.city_id);
+    const stage = stageKey
+      ? await crmService.getStage(ownership.city_id, stageKey)
+      : stages.find(item => !item.is_won && !item.is_lost);
+    if (!stage) {
+      throw new BadRequestError('Funil sem etapa inicial configurada');
+    }
+    if (stage.is_won || stage.is_lost) {
+      throw new BadRequestError('Oportunidade não pode ser criada em etapa de ganho ou perda');
+    }
+
+    const deal = await prisma.deal.create({
+      data: {
+        title: data.title,
+        value: data.value ?? null,
+        notes: data.notes || null,
+        expected_close: data.expected_close ? new Date(data.expected_close) : null,
+        lead_id: lead?.id || null,
+        client_id: lead?.client_id || null,
+        stage: stage.key,
+        probability: stage.probability,
+        stage_changed_at: new Date(),
+        ...ownership,
+        assigned_to: assigneeId,
+      },
+    });
+
+    if (lead && OPEN_LEAD_STATUSES.includes(lead.status) && lead.status !== 'qualified') {
+      await prisma.lead.update({ where: { id: lead.id }, data: { status: 'qualified' } });
+    }
+
+    await auditService.logFromRequest(request, AuditActions.DEAL_CREATE, 'deal', deal.id, null, deal);
+    emitCrm(deal, 'INSERT', 'deals', formatDeal(deal));
+
+    return reply.status(201).send({
+      success: true,
+      data: formatDeal(deal),
+      message: 'Oportunidade criada com sucesso',
+    });
+  });
+
+  /**
+   * PUT /api/crm/deals/:id
+   * Atualizar oportunidade (etapa apenas por PATCH /deals/:id/stage)
+   */
+  app.put('/deals/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Atualizar oportunidade (a etapa é alterada por PATCH /deals/:id/stage)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 2 },
+          value: { type: ['number', 'null'], minimum: 0 },
+          probability: { type: ['integer', 'null'], minimum: 0, maximum: 100 },
+          expected_close: { type: ['string', 'null'], format: 'date' },
+          notes: { type: ['string', 'null'] },
+          assigned_to: { type: ['string', 'null'], format: 'uuid' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updateDealSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findDealForUser(id, context);
+
+    if (body.data.assigned_to && body.data.assigned_to !== existing.assigned_to) {
+      await crmService.assertAssignee(body.data.assigned_to, existing.city_id);
+    }
+
+    const { expected_close, ...data } = body.data;
+    const deal = await prisma.deal.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(expected_close !== undefined ? { expected_close: expected_close ? new Date(expected_close) : null } : {}),
+      },
+    });
+
+    await auditService.logFromRequest(request, AuditActions.DEAL_UPDATE, 'deal', id, existing, deal);
+    emitCrm(deal, 'UPDATE', 'deals', formatDeal(deal));
+
+    return reply.send({
+      success: true,
+      data: formatDeal(deal),
+      message: 'Oportunidade atualizada com sucesso',
+    });
+  });
+
+  /**
+   * PATCH /api/crm/deals/:id/stage
+   * Mover oportunidade de etapa
+   */
+  app.patch('/deals/:id/stage', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Mover oportunidade de etapa (etapa de perda exige motivo)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['stage'],
+        properties: {
+          stage: { type: 'string', description: 'Chave da etapa' },
+          probability: { type: ['integer', 'null'], minimum: 0, maximum: 100, description: 'Padrão: probabilidade da etapa' },
+          lost_reason: { type: ['string', 'null'] },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = moveStageSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findDealForUser(id, context);
+
+    const deal = await crmService.moveDealStage(id, body.data as any, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEAL_STAGE_CHANGE,
+      'deal',
+      id,
+      { stage: existing.stage, probability: existing.probability },
+      { stage: deal.stage, probability: deal.probability, lost_reason: deal.lost_reason }
+    );
+    emitCrm(deal, 'UPDATE', 'deals', formatDeal(deal));
+
+    return reply.send({
+      success: true,
+      data: formatDeal(deal),
+      message: 'Etapa atualizada com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/crm/deals/:id/convert
+   * Converter oportunidade ganha em cliente + locação
+   */
+  app.post('/deals/:id/convert', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Converter oportunidade em cliente + locação (lead_source preenchido pela origem do lead)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['motorcycle_id', 'start_date', 'daily_rate'],
+        properties: {
+          client_id: { type: ['string', 'null'], format: 'uuid', description: 'Cliente já cadastrado' },
+          client: {
+            type: 'object',
+            description: 'Dados do cliente (nome, telefone e email do lead quando omitidos)',
+            properties: {
+              full_name: { type: 'string' },
+              cpf: { type: ['string', 'null'] },
+              cnpj: { type: ['string', 'null'] },
+              is_pj: { type: 'boolean' },
+              razao_social: { type: ['string', 'null'] },
+              rg: { type: ['string', 'null'] },
+              phone: { type: 'string' },
+              email: { type: ['string', 'null'] },
+              address: { type: ['string', 'null'] },
+              number: { type: ['string', 'null'] },
+              city: { type: ['string', 'null'] },
+              state: { type: ['string', 'null'] },
+              zip_code: { type: ['string', 'null'] },
+              cnh_number: { type: ['string', 'null'] },
+            },
+          },
+          motorcycle_id: { type: 'string', format: 'uuid' },
+          plan_id: { type: ['string', 'null'], format: 'uuid' },
+          start_date: { type: 'string', format: 'date' },
+          end_date: { type: ['string', 'null'], format: 'date' },
+          daily_rate: { type: 'number' },
+          deposit_amount: { type: ['number', 'null'] },
+          km_inicial: { type: ['integer', 'null'] },
+          notes: { type: ['string', 'null'] },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = convertDealSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findDealForUser(id, context);
+
+    const result = await crmService.convertDeal(id, body.data as any, context);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEAL_CONVERT,
+      'deal',
+      id,
+      existing,
+      { deal: result.deal, client_id: result.client.id, client_created: result.client_created, rental_id: result.rental.id }
+    );
+    emitCrm(result.deal, 'UPDATE', 'deals', formatDeal(result.deal));
+    if (realtimeService) {
+      realtimeService.emitRentalChange(result.rental.franchisee_id, result.rental.city_id, {
+        type: 'INSERT',
+        table: 'rentals',
+        data: result.rental,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return reply.status(201).send({
+      success: true,
+      data: {
+        deal: formatDeal(result.deal),
+        client: result.client,
+        client_created: result.client_created,
+        rental: result.rental,
+        charges: result.charges,
+      },
+      message: 'Oportunidade convertida em locação com sucesso',
+    });
+  });
+
+  /**
+   * GET /api/crm/reports/funnel
+   * Funil de conversão por origem do lead
+   */
+  app.get('/reports/funnel', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Funil de conversão por origem do lead (leads criados no período)',
+      tags: ['CRM'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+          franchisee_id: { type: 'string', format: 'uuid' },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = funnelQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    let { city_id, franchisee_id } = query.data;
+
+    if (context.isRegional()) {
+      city_id = context.cityId;
+    } else if (context.isFranchisee()) {
+      city_id = undefined;
+      franchisee_id = context.franchiseeId;
+    }
+
+    const report = await crmService.funnelReport({
+      cityId: city_id,
+      franchiseeId: franchisee_id,
+      from: query.data.from ? new Date(`${query.data.from}T00:00:00`) : undefined,
+      to: query.data.to ? new Date(`${query.data.to}T23:59:59.999`) : undefined,
+    });
+
+    return reply.send({ success: true, data: report });
+  });
+};
+
+export default crmRoutes;
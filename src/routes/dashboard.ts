@@ -235,6 +235,7 @@ const dashboardRoutes: FastifyPluginAsync = async (app) => {
           LEFT JOIN cities c ON c.id = r.city_id
           WHERE r.start_date >= DATE_TRUNC('month', CURRENT_DATE)
             AND r.city_id IS NOT NULL
+            AND r.deleted_at IS NULL
           ${franchiseeId ? `AND r.franchisee_id = '${franchiseeId}'` : ''}
           ${effectiveCityId ? `AND r.city_id = '${effectiveCityId}'` : ''}
           GROUP BY r.city_id, c.name, c.slug
@@ -514,6 +515,7 @@ const dashboardRoutes: FastifyPluginAsync = async (app) => {
           COALESCE(COUNT(*)::numeric / 3, 0) AS media_mensal
         FROM rentals
         WHERE start_date >= CURRENT_DATE - INTERVAL '90 days'
+          AND deleted_at IS NULL
         ${franchiseeId ? `AND franchisee_id = '${franchiseeId}'` : ''}
         ${effectiveCityId ? `AND city_id = '${effectiveCityId}'` : ''}
       `);
@@ -0,0 +1,107 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { BadRequestError } from '../utils/errors.js';
+import { getContext } from '../utils/context.js';
+import { dataQualityService, DataQualityEntity } from '../services/dataQualityService.js';
+
+const ENTITIES = ['motorcycle', 'client', 'client_driver', 'franchisee', 'venda', 'rastreador'];
+const ISSUE_TYPES = ['invalid', 'not_normalized', 'duplicate', 'check_digit'];
+
+// Schemas de validação
+const identifiersQuerySchema = z.object({
+  entity: z.enum(ENTITIES as [string, ...string[]]).optional(),
+  issue: z.enum(ISSUE_TYPES as [string, ...string[]]).optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+// Swagger Schemas
+const issueResponseSchema = {
+  type: 'object',
+  properties: {
+    entity: { type: 'string', enum: ENTITIES },
+    id: { type: 'string' },
+    label: { type: 'string' },
+    field: { type: 'string' },
+    value: { type: 'string' },
+    normalized: { type: 'string' },
+    issue: { type: 'string', enum: ISSUE_TYPES },
+    duplicate_ids: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+const dataQualityRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/data-quality/identifiers
+   * Relatório de placas, chassis, RENAVAM, CPF e CNPJ inválidos, fora do padrão ou duplicados
+   */
+  app.get('/identifiers', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Relatório de qualidade dos identificadores gravados (inválidos, não normalizados, duplicados e VIN com dígito verificador divergente)',
+      tags: ['Qualidade de Dados'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          entity: { type: 'string', enum: ENTITIES },
+          issue: { type: 'string', enum: ISSUE_TYPES },
+          city_id: { type: 'string', format: 'uuid', description: 'Ignorado para regional (sempre a sua cidade)' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                generated_at: { type: 'string', format: 'date-time' },
+                summary: { type: 'object', additionalProperties: true },
+                issues: { type: 'array', items: issueResponseSchema },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = identifiersQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { entity, issue, city_id } = query.data;
+
+    // Regional vê só a sua cidade (rastreadores, sem cidade, ficam de fora)
+    const report = await dataQualityService.identifierReport({
+      cityId: context.isRegional() ? context.cityId : city_id,
+      entity: entity as DataQualityEntity,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        ...report,
+        issues: issue ? report.issues.filter(i => i.issue === issue) : report.issues,
+      },
+    });
+  });
+};
+
+export default dataQualityRoutes;
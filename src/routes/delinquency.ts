@@ -0,0 +1,518 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { delinquencyService, DEFAULT_DELINQUENCY_RULE } from '../services/delinquencyService.js';
+import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+
+const dataResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'object', additionalProperties: true },
+    message: { type: 'string' },
+  },
+};
+
+const paginationSchema = {
+  type: 'object',
+  properties: {
+    total: { type: 'number' },
+    page: { type: 'number' },
+    limit: { type: 'number' },
+    totalPages: { type: 'number' },
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+const rentalParamsSchema = {
+  type: 'object',
+  properties: {
+    rentalId: { type: 'string', format: 'uuid', description: 'ID da locação' },
+  },
+  required: ['rentalId'],
+};
+
+// Schemas de validação
+const ruleSchema = z.object({
+  grace_days: z.number().int().min(0).max(90).optional(),
+  min_overdue_installments: z.number().int().min(1).max(52).optional(),
+  min_overdue_amount: z.number().min(0).optional(),
+  include_financeiro: z.boolean().optional(),
+  block_motorcycle: z.boolean().optional(),
+  is_active: z.boolean().optional(),
+});
+
+const evaluateSchema = z.object({
+  city_id: z.string().uuid().optional(),
+  franchisee_id: z.string().uuid().optional(),
+});
+
+const renegotiateSchema = z.object({
+  installments: z.number().int().min(1).max(52),
+  first_due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'first_due_date deve estar no formato YYYY-MM-DD'),
+  interval_days: z.number().int().min(1).max(31).optional(),
+  down_payment: z.number().min(0).optional(),
+  discount: z.number().min(0).optional(),
+  notes: z.string().optional().nullable(),
+});
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  payment_status: z.enum(['inadimplente', 'renegociado', 'all']).optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+/**
+ * Buscar locação verificando se o usuário tem acesso
+ */
+async function findRentalForUser(rentalId: string, context: AuthContext) {
+  const rental = await prisma.rental.findUnique({
+    where: { id: rentalId, deleted_at: null },
+    select: {
+      id: true,
+      franchisee_id: true,
+      city_id: true,
+      motorcycle_id: true,
+      motorcycle_plate: true,
+      client_name: true,
+      start_date: true,
+      status: true,
+      payment_status: true,
+      delinquent_since: true,
+    },
+  });
+
+  if (!rental) {
+    throw new NotFoundError('Locação não encontrada');
+  }
+  if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+    throw new ForbiddenError('Sem permissão para acessar esta locação');
+  }
+  if (context.isRegional() && rental.city_id !== context.cityId) {
+    throw new ForbiddenError('Sem permissão para acessar esta locação');
+  }
+
+  return rental;
+}
+
+const delinquencyRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/delinquency/rules
+   * Listar regras de inadimplência por cidade
+   */
+  app.get('/rules', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Listar regras de inadimplência por cidade (cidades sem regra usam a regra padrão)',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            default_rule: { type: 'object', additionalProperties: true },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const context = getContext(request);
+
+    const rules = await prisma.delinquencyRule.findMany({
+      where: context.isRegional() ? { city_id: context.cityId } : {},
+      include: { city: { select: { id: true, name: true } } },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return reply.send({
+      success: true,
+      data: rules.map(rule => ({ ...rule, min_overdue_amount: Number(rule.min_overdue_amount) })),
+      default_rule: DEFAULT_DELINQUENCY_RULE,
+    });
+  });
+
+  /**
+   * PUT /api/delinquency/rules/:cityId
+   * Criar ou atualizar a regra de inadimplência da cidade
+   */
+  app.put('/rules/:cityId', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Criar ou atualizar a regra de inadimplência da cidade (carência e limites)',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          cityId: { type: 'string', format: 'uuid', description: 'ID da cidade' },
+        },
+        required: ['cityId'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          grace_days: { type: 'integer', minimum: 0, description: 'Dias de carência após o vencimento' },
+          min_overdue_installments: { type: 'integer', minimum: 1, description: 'Mínimo de débitos em atraso' },
+          min_overdue_amount: { type: 'number', minimum: 0, description: 'Valor mínimo em atraso' },
+          include_financeiro: { type: 'boolean', description: 'Considerar entradas não pagas do Financeiro' },
+          block_motorcycle: { type: 'boolean', description: 'Mover a moto para inadimplente' },
+          is_active: { type: 'boolean' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { cityId } = request.params as { cityId: string };
+    const body = ruleSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    if (context.isRegional() && cityId !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para alterar regras desta cidade');
+    }
+
+    const city = await prisma.city.findUnique({ where: { id: cityId }, select: { id: true } });
+    if (!city) {
+      throw new NotFoundError('Cidade não encontrada');
+    }
+
+    const existing = await prisma.delinquencyRule.findUnique({ where: { city_id: cityId } });
+
+    const rule = await prisma.delinquencyRule.upsert({
+      where: { city_id: cityId },
+      create: { ...DEFAULT_DELINQUENCY_RULE, ...body.data, city_id: cityId },
+      update: body.data,
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DELINQUENCY_RULE_UPDATE,
+      'delinquency_rule',
+      rule.id,
+      existing,
+      rule
+    );
+
+    return reply.send({
+      success: true,
+      data: { ...rule, min_overdue_amount: Number(rule.min_overdue_amount) },
+      message: 'Regra de inadimplência salva com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/delinquency/evaluate
+   * Executar o motor de inadimplência sob demanda
+   * - Regional: apenas a sua cidade / Franqueado: apenas as suas locações
+   */
+  app.post('/evaluate', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Avaliar locações ativas e aplicar o estado de inadimplência',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+          franchisee_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = evaluateSchema.safeParse(request.body || {});
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    let { city_id, franchisee_id } = body.data;
+
+    if (context.isRegional()) {
+      city_id = context.cityId;
+    } else if (context.isFranchisee()) {
+      franchisee_id = context.franchiseeId;
+    }
+
+    const result = await delinquencyService.evaluate({
+      cityId: city_id,
+      franchiseeId: franchisee_id,
+      userId: context.userId,
+    });
+
+    return reply.send({
+      success: result.errors.length === 0,
+      data: result,
+    });
+  });
+
+  /**
+   * GET /api/delinquency/rentals
+   * Listar locações inadimplentes ou renegociadas
+   */
+  app.get('/rentals', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar locações inadimplentes ou renegociadas',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          payment_status: { type: 'string', enum: ['inadimplente', 'renegociado', 'all'] },
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: paginationSchema,
+          },
+        },
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = querySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, payment_status, city_id } = query.data;
+    const context = getContext(request);
+    const where: any = {
+      status: 'active',
+      deleted_at: null,
+      payment_status: payment_status && payment_status !== 'all'
+        ? payment_status
+        : { in: ['inadimplente', 'renegociado'] },
+    };
+
+    // Aplicar filtro baseado no role
+    if (context.isRegional()) {
+      where.city_id = context.cityId;
+    } else if (context.isFranchisee()) {
+      where.franchisee_id = context.franchiseeId;
+    } else if (context.isMasterOrAdmin() && city_id) {
+      where.city_id = city_id;
+    }
+
+    const [rentals, total] = await Promise.all([
+      prisma.rental.findMany({
+        where,
+        select: {
+          id: true,
+          client_name: true,
+          client_phone: true,
+          motorcycle_id: true,
+          motorcycle_plate: true,
+          franchisee_id: true,
+          city_id: true,
+          start_date: true,
+          payment_status: true,
+          delinquent_since: true,
+          franchisee: { select: { fantasy_name: true, company_name: true } },
+        },
+        orderBy: [{ delinquent_since: 'asc' }, { start_date: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.rental.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: rentals,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/delinquency/rentals/:rentalId/debt
+   * Débitos vencidos da locação e situação pela regra da cidade
+   */
+  app.get('/rentals/:rentalId/debt', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Débitos vencidos da locação (cobranças Asaas e entradas do Financeiro) e situação de inadimplência',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      params: rentalParamsSchema,
+      response: {
+        200: dataResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { rentalId } = request.params as { rentalId: string };
+    const context = getContext(request);
+    const rental = await findRentalForUser(rentalId, context);
+
+    const rule = await delinquencyService.getRule(rental.city_id);
+    const debt = await delinquencyService.getRentalDebt(rental, rule);
+
+    return reply.send({
+      success: true,
+      data: {
+        rental_id: rental.id,
+        payment_status: rental.payment_status,
+        delinquent_since: rental.delinquent_since,
+        is_delinquent: delinquencyService.isDelinquent(debt, rule),
+        rule,
+        ...debt,
+      },
+    });
+  });
+
+  /**
+   * POST /api/delinquency/rentals/:rentalId/renegotiate
+   * Renegociar os débitos vencidos da locação em um novo cronograma de parcelas
+   */
+  app.post('/rentals/:rentalId/renegotiate', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Renegociar débitos vencidos: gera novo cronograma de parcelas e move a moto para renegociado',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      params: rentalParamsSchema,
+      body: {
+        type: 'object',
+        required: ['installments', 'first_due_date'],
+        properties: {
+          installments: { type: 'integer', minimum: 1, maximum: 52, description: 'Quantidade de parcelas' },
+          first_due_date: { type: 'string', format: 'date', description: 'Vencimento da primeira parcela' },
+          interval_days: { type: 'integer', minimum: 1, maximum: 31, default: 7, description: 'Dias entre parcelas' },
+          down_payment: { type: 'number', minimum: 0, description: 'Entrada (vencimento hoje)' },
+          discount: { type: 'number', minimum: 0, description: 'Desconto sobre o débito' },
+          notes: { type: 'string' },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { rentalId } = request.params as { rentalId: string };
+    const body = renegotiateSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const rental = await findRentalForUser(rentalId, context);
+
+    const renegotiation = await delinquencyService.renegotiate(rentalId, {
+      installments: body.data.installments,
+      first_due_date: body.data.first_due_date,
+      interval_days: body.data.interval_days,
+      down_payment: body.data.down_payment,
+      discount: body.data.discount,
+      notes: body.data.notes,
+    }, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_RENEGOTIATE,
+      'rental',
+      rentalId,
+      { payment_status: rental.payment_status },
+      {
+        payment_status: 'renegociado',
+        renegotiation_id: renegotiation.id,
+        original_debt: Number(renegotiation.original_debt),
+        total_amount: Number(renegotiation.total_amount),
+        installments: renegotiation.installments_count,
+      }
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: renegotiation,
+      message: 'Débitos renegociados com sucesso',
+    });
+  });
+
+  /**
+   * GET /api/delinquency/rentals/:rentalId/renegotiations
+   * Histórico de renegociações da locação
+   */
+  app.get('/rentals/:rentalId/renegotiations', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Histórico de renegociações da locação',
+      tags: ['Inadimplência'],
+      security: [{ bearerAuth: [] }],
+      params: rentalParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { rentalId } = request.params as { rentalId: string };
+    const context = getContext(request);
+    await findRentalForUser(rentalId, context);
+
+    const renegotiations = await prisma.rentalRenegotiation.findMany({
+      where: { rental_id: rentalId },
+      orderBy: { created_at: 'desc' },
+    });
+
+    return reply.send({
+      success: true,
+      data: renegotiations,
+    });
+  });
+};
+
+export default delinquencyRoutes;
@@ -0,0 +1,906 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { depositReceiptService } from '../services/depositReceiptService.js';
+import { signatureService, SignatureSigner } from '../services/signature/index.js';
+import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+
+// Body comum para envio de documentos para assinatura
+const signatureRequestBodySchema = {
+  type: 'object',
+  required: ['signers'],
+  properties: {
+    signers: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['name', 'email'],
+        properties: {
+          name: { type: 'string' },
+          email: { type: 'string', format: 'email' },
+          cpf: { type: 'string' },
+          phone: { type: 'string' },
+          sign_as: { type: 'string', enum: ['party', 'witness', 'approver'] },
+        },
+      },
+    },
+    message: { type: 'string' },
+    deadline_at: { type: 'string' },
+  },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'ID do comprovante de caução' },
+  },
+  required: ['id'],
+};
+
+const receiptResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      additionalProperties: true,
+    },
+    message: { type: 'string' },
+  },
+};
+
+const paginationSchema = {
+  type: 'object',
+  properties: {
+    total: { type: 'number' },
+    page: { type: 'number' },
+    limit: { type: 'number' },
+    totalPages: { type: 'number' },
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+// Schemas de validação
+const createReceiptSchema = z.object({
+  rental_id: z.string().uuid(),
+  amount: z.number().positive().optional(),
+  payment_method: z.string().optional().nullable(),
+  received_at: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+const updateReceiptSchema = z.object({
+  amount: z.number().positive().optional(),
+  payment_method: z.string().optional().nullable(),
+  received_at: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+const refundSchema = z.object({
+  reason: z.enum(['rental_completion', 'distrato']),
+  distrato_id: z.string().uuid().optional().nullable(),
+});
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  status: z.enum(['draft', 'sent', 'signed', 'expired', 'refunded', 'cancelled', 'all']).optional(),
+  city_id: z.string().uuid().optional(),
+  rental_id: z.string().uuid().optional(),
+});
+
+interface SignatureRequestBody {
+  signers: SignatureSigner[];
+  message?: string;
+  deadline_at?: string;
+}
+
+/**
+ * Buscar comprovante verificando se o usuário tem acesso à locação
+ */
+async function findReceiptForUser(id: string, context: AuthContext) {
+  const receipt = await prisma.depositReceipt.findUnique({
+    where: { id },
+  });
+
+  if (!receipt) {
+    throw new NotFoundError('Comprovante de caução não encontrado');
+  }
+
+  const rental = receipt.rental_id
+    ? await prisma.rental.findUnique({
+        where: { id: receipt.rental_id },
+        select: { franchisee_id: true, city_id: true },
+      })
+    : null;
+
+  if (context.isFranchisee() && rental?.franchisee_id !== context.franchiseeId) {
+    throw new ForbiddenError('Sem permissão para acessar este comprovante');
+  }
+  if (context.isRegional() && rental?.city_id !== context.cityId) {
+    throw new ForbiddenError('Sem permissão para acessar este comprovante');
+  }
+
+  return { receipt, cityId: rental?.city_id || null };
+}
+
+const depositReceiptsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/deposit-receipts
+   * Listar comprovantes de caução com filtros e paginação
+   */
+  app.get('/', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar comprovantes de caução com filtros e paginação',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          search: { type: 'string', description: 'Busca por número, nome ou CPF do locatário' },
+          status: { type: 'string', enum: ['draft', 'sent', 'signed', 'expired', 'refunded', 'cancelled', 'all'] },
+          city_id: { type: 'string', format: 'uuid' },
+          rental_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: paginationSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = querySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, search, status, city_id, rental_id } = query.data;
+    const context = getContext(request);
+    const where: any = {};
+
+    // Aplicar filtro baseado no role
+    if (context.isRegional()) {
+      where.city_id = context.cityId;
+    } else if (context.isFranchisee()) {
+      where.franchisee_id = context.franchiseeId;
+    } else if (context.isMasterOrAdmin() && city_id) {
+      where.city_id = city_id;
+    }
+
+    if (search) {
+      where.OR = [
+        { receipt_number: { contains: search, mode: 'insensitive' } },
+        { client_name: { contains: search, mode: 'insensitive' } },
+        { client_cpf: { contains: search.replace(/\D/g, '') || search } },
+      ];
+    }
+
+    if (status && status !== 'all') {
+      where.status = status;
+    }
+
+    if (rental_id) {
+      where.rental_id = rental_id;
+    }
+
+    const [receipts, total] = await Promise.all([
+      prisma.depositReceipt.findMany({
+        where,
+        include: {
+          rental: {
+            select: { motorcycle_plate: true, status: true, start_date: true, end_date: true },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+      }),
+      prisma.depositReceipt.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: receipts,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/deposit-receipts/by-rental/:rentalId
+   * Comprovantes de caução de uma locação
+   */
+  app.get('/by-rental/:rentalId', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar comprovantes de caução de uma locação',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['rentalId'],
+        properties: {
+          rentalId: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+        401: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { rentalId } = request.params as { rentalId: string };
+    const context = getContext(request);
+    const where: any = { rental_id: rentalId };
+
+    if (context.isRegional()) {
+      where.city_id = context.cityId;
+    } else if (context.isFranchisee()) {
+      where.franchisee_id = context.franchiseeId;
+    }
+
+    const receipts = await prisma.depositReceipt.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+    });
+
+    return reply.send({
+      success: true,
+      data: receipts,
+    });
+  });
+
+  /**
+   * GET /api/deposit-receipts/:id
+   * Buscar comprovante de caução por ID
+   */
+  app.get('/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Buscar comprovante de caução por ID',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: receiptResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    await findReceiptForUser(id, context);
+
+    const receipt = await prisma.depositReceipt.findUnique({
+      where: { id },
+      include: {
+        rental: {
+          select: { client_name: true, motorcycle_plate: true, status: true, start_date: true, end_date: true },
+        },
+        distrato: {
+          select: { id: true, data_distrato: true, status: true },
+        },
+      },
+    });
+
+    return reply.send({
+      success: true,
+      data: receipt,
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts
+   * Criar comprovante de caução (numeração automática por cidade + PDF)
+   */
+  app.post('/', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Criar comprovante de caução para uma locação (numeração automática por cidade e PDF)',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['rental_id'],
+        properties: {
+          rental_id: { type: 'string', format: 'uuid' },
+          amount: { type: 'number', description: 'Valor da caução (padrão: deposit_amount da locação)' },
+          payment_method: { type: 'string', description: 'Forma de pagamento (pix, dinheiro, cartao...)' },
+          received_at: { type: 'string', format: 'date', description: 'Data do recebimento (padrão: hoje)' },
+          notes: { type: 'string' },
+        },
+      },
+      response: {
+        201: receiptResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = createReceiptSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const data = body.data;
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: data.rental_id, deleted_at: null },
+      select: { franchisee_id: true, city_id: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+    if (context.isRegional() && rental.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+
+    const receipt = await depositReceiptService.create({
+      rentalId: data.rental_id,
+      amount: data.amount,
+      paymentMethod: data.payment_method,
+      receivedAt: data.received_at,
+      notes: data.notes,
+      userId: context.userId,
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEPOSIT_CREATE,
+      'deposit_receipt',
+      receipt.id,
+      null,
+      { receipt_number: receipt.receipt_number, amount: receipt.amount, rental_id: receipt.rental_id }
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: receipt,
+      message: 'Comprovante de caução criado com sucesso',
+    });
+  });
+
+  /**
+   * PUT /api/deposit-receipts/:id
+   * Atualizar comprovante (somente rascunho) e regerar o PDF
+   */
+  app.put('/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Atualizar comprovante de caução em rascunho (o PDF é gerado novamente)',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          amount: { type: 'number' },
+          payment_method: { type: 'string' },
+          received_at: { type: 'string', format: 'date' },
+          notes: { type: 'string' },
+        },
+      },
+      response: {
+        200: receiptResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updateReceiptSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { receipt } = await findReceiptForUser(id, context);
+
+    if (receipt.status !== 'draft') {
+      throw new BadRequestError('Somente comprovantes em rascunho podem ser alterados');
+    }
+
+    const data = body.data;
+    await prisma.depositReceipt.update({
+      where: { id },
+      data: {
+        amount: data.amount,
+        payment_method: data.payment_method,
+        received_at: data.received_at ? new Date(data.received_at) : undefined,
+        notes: data.notes,
+      },
+    });
+
+    const updated = await depositReceiptService.generatePdf(id);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEPOSIT_UPDATE,
+      'deposit_receipt',
+      id,
+      { amount: receipt.amount, payment_method: receipt.payment_method, notes: receipt.notes },
+      data
+    );
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Comprovante atualizado com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts/:id/generate-pdf
+   * Gerar novamente o PDF do comprovante
+   */
+  app.post('/:id/generate-pdf', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Gerar novamente o PDF do comprovante de caução',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: receiptResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const { receipt } = await findReceiptForUser(id, context);
+
+    if (receipt.status !== 'draft') {
+      throw new BadRequestError('O PDF só pode ser gerado novamente enquanto o comprovante estiver em rascunho');
+    }
+
+    const updated = await depositReceiptService.generatePdf(id);
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'PDF gerado com sucesso',
+    });
+  });
+
+  /**
+   * GET /api/deposit-receipts/:id/refund-preview
+   * Simular a devolução da caução (avarias da vistoria de saída + débitos em aberto)
+   */
+  app.get('/:id/refund-preview', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Simular a devolução da caução descontando avarias da vistoria de saída e débitos em aberto',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          distrato_id: { type: 'string', format: 'uuid', description: 'Considerar também vistorias do distrato' },
+        },
+      },
+      response: {
+        200: receiptResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { distrato_id } = request.query as { distrato_id?: string };
+    const context = getContext(request);
+
+    await findReceiptForUser(id, context);
+
+    const breakdown = await depositReceiptService.calculateRefund(id, distrato_id);
+
+    return reply.send({
+      success: true,
+      data: breakdown,
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts/:id/refund
+   * Devolver a caução no fim da locação ou no distrato
+   */
+  app.post('/:id/refund', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Devolver a caução (fim da locação ou distrato), baixando os débitos descontados no Financeiro',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+          reason: { type: 'string', enum: ['rental_completion', 'distrato'] },
+          distrato_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: receiptResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = refundSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { receipt } = await findReceiptForUser(id, context);
+
+    const result = await depositReceiptService.refund(id, {
+      reason: body.data.reason,
+      distratoId: body.data.distrato_id,
+      userId: context.userId,
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEPOSIT_REFUND,
+      'deposit_receipt',
+      id,
+      { status: receipt.status },
+      {
+        status: 'refunded',
+        reason: body.data.reason,
+        refunded_amount: result.breakdown.refund_amount,
+        damage_deduction: result.breakdown.damage_deduction,
+        debt_deduction: result.breakdown.debt_deduction,
+      }
+    );
+
+    return reply.send({
+      success: true,
+      data: { ...result.receipt, breakdown: result.breakdown },
+      message: 'Caução devolvida com sucesso',
+    });
+  });
+
+  /**
+   * DELETE /api/deposit-receipts/:id
+   * Excluir comprovante em rascunho ou cancelar comprovante emitido
+   */
+  app.delete('/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Excluir comprovante em rascunho (comprovantes emitidos são cancelados)',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const { receipt } = await findReceiptForUser(id, context);
+
+    if (receipt.status === 'refunded') {
+      throw new BadRequestError('Não é possível excluir um comprovante com caução já devolvida');
+    }
+
+    // Rascunhos são excluídos; comprovantes emitidos mantêm a numeração e ficam cancelados
+    if (receipt.status === 'draft') {
+      await prisma.depositReceipt.delete({ where: { id } });
+    } else {
+      await prisma.depositReceipt.update({ where: { id }, data: { status: 'cancelled' } });
+    }
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.DEPOSIT_DELETE,
+      'deposit_receipt',
+      id,
+      { status: receipt.status, receipt_number: receipt.receipt_number },
+      null
+    );
+
+    return reply.send({
+      success: true,
+      message: receipt.status === 'draft' ? 'Comprovante excluído com sucesso' : 'Comprovante cancelado com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts/:id/send-for-signature
+   * Enviar comprovante de caução para assinatura
+   */
+  app.post('/:id/send-for-signature', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Enviar comprovante de caução para assinatura (PlugSign ou BeSign, conforme a cidade)',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: signatureRequestBodySchema,
+      response: {
+        200: receiptResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { signers, message, deadline_at } = request.body as SignatureRequestBody;
+    const context = getContext(request);
+
+    const { receipt, cityId } = await findReceiptForUser(id, context);
+
+    if (!receipt.pdf_url) {
+      throw new BadRequestError('O comprovante precisa ter um PDF gerado antes de enviar para assinatura');
+    }
+    if (receipt.signature_request_id && receipt.status === 'sent') {
+      throw new BadRequestError('Este comprovante já foi enviado para assinatura. Use o reenvio. ID: ' + receipt.signature_request_id);
+    }
+    if (receipt.status === 'signed') {
+      throw new BadRequestError('Este comprovante já foi assinado');
+    }
+
+    const label = receipt.receipt_number || receipt.id.slice(0, 8);
+    const result = await signatureService.sendStoredPdf({
+      cityId,
+      userId: context.userId,
+      pdfUrl: receipt.pdf_url,
+      filename: `caucao_${label}.pdf`,
+      name: `Comprovante de Caução ${label} - ${receipt.client_name}`,
+      signers,
+      message: message || 'Por favor, assine o comprovante de caução.',
+      deadlineAt: deadline_at,
+    });
+
+    const updated = await prisma.depositReceipt.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        status: 'sent',
+      },
+    });
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Comprovante enviado para assinatura com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts/:id/resend
+   * Reenviar comprovante para assinatura (cancela a solicitação anterior)
+   */
+  app.post('/:id/resend', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Reenviar comprovante de caução para assinatura (cancela a solicitação anterior no provedor)',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: signatureRequestBodySchema,
+      response: {
+        200: receiptResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { signers, message, deadline_at } = request.body as SignatureRequestBody;
+    const context = getContext(request);
+
+    const { receipt, cityId } = await findReceiptForUser(id, context);
+
+    if (!receipt.pdf_url) {
+      throw new BadRequestError('O comprovante precisa ter um PDF gerado antes de enviar para assinatura');
+    }
+    if (receipt.status === 'signed') {
+      throw new BadRequestError('Este comprovante já foi assinado');
+    }
+
+    // Cancelar solicitação anterior (se existir) antes de reenviar
+    if (receipt.signature_request_id) {
+      try {
+        const provider = await signatureService.getProvider({ cityId, userId: context.userId });
+        await provider.cancel(receipt.signature_request_id);
+      } catch (error: any) {
+        logger.warn({ receiptId: id, error: error.message }, 'Nao foi possivel cancelar a solicitacao anterior, reenviando mesmo assim');
+      }
+    }
+
+    const label = receipt.receipt_number || receipt.id.slice(0, 8);
+    const result = await signatureService.sendStoredPdf({
+      cityId,
+      userId: context.userId,
+      pdfUrl: receipt.pdf_url,
+      filename: `caucao_${label}.pdf`,
+      name: `Comprovante de Caução ${label} - ${receipt.client_name}`,
+      signers,
+      message: message || 'Por favor, assine o comprovante de caução.',
+      deadlineAt: deadline_at,
+    });
+
+    const updated = await prisma.depositReceipt.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        status: 'sent',
+      },
+    });
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Comprovante reenviado para assinatura com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/deposit-receipts/:id/cancel-signature
+   * Cancelar solicitação de assinatura do comprovante
+   */
+  app.post('/:id/cancel-signature', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Cancelar solicitação de assinatura do comprovante de caução',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: receiptResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const { receipt, cityId } = await findReceiptForUser(id, context);
+
+    if (!receipt.signature_request_id) {
+      throw new BadRequestError('Este comprovante não foi enviado para assinatura');
+    }
+    if (receipt.status === 'signed') {
+      throw new BadRequestError('Não é possível cancelar um comprovante já assinado');
+    }
+
+    const provider = await signatureService.getProvider({ cityId, userId: context.userId });
+    await provider.cancel(receipt.signature_request_id);
+
+    const updated = await prisma.depositReceipt.update({
+      where: { id },
+      data: {
+        signature_request_id: null,
+        document_key: null,
+        status: 'draft',
+      },
+    });
+
+    return reply.send({
+      success: true,
+      data: updated,
+      message: 'Solicitação de assinatura cancelada',
+    });
+  });
+
+  /**
+   * GET /api/deposit-receipts/:id/download-signed
+   * Baixar comprovante assinado do provedor de assinatura
+   */
+  app.get('/:id/download-signed', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Baixar comprovante de caução assinado do provedor de assinatura',
+      tags: ['Comprovantes de Caução'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: {
+          type: 'string',
+          format: 'binary',
+          description: 'PDF do documento assinado',
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const { receipt, cityId } = await findReceiptForUser(id, context);
+
+    if (!receipt.signature_request_id) {
+      throw new BadRequestError('Este comprovante ainda não foi enviado para assinatura');
+    }
+
+    const provider = await signatureService.getProvider({ cityId, userId: context.userId });
+
+    const { buffer, documentKey, status } = await provider.downloadSigned({
+      requestId: receipt.signature_request_id,
+      documentKey: receipt.document_key,
+      searchHints: [receipt.receipt_number, receipt.client_name].filter(Boolean),
+    });
+
+    // Sincronizar document_key e status caso o webhook não tenha chegado
+    const updateData: Record<string, unknown> = {};
+    if (documentKey && documentKey !== receipt.document_key) {
+      updateData.document_key = documentKey;
+    }
+    if (status === 'signed' && receipt.status !== 'signed') {
+      updateData.status = 'signed';
+      updateData.signed_at = new Date();
+    }
+    if (Object.keys(updateData).length > 0) {
+      await prisma.depositReceipt.update({ where: { id }, data: updateData });
+    }
+
+    const label = receipt.receipt_number || receipt.id.slice(0, 8);
+    reply.header('Content-Type', 'application/pdf');
+    reply.header('Content-Disposition', `attachment; filename="caucao_assinado_${label}.pdf"`);
+
+    return reply.send(buffer);
+  });
+};
+
+export default depositReceiptsRoutes;
@@ -1,17 +1,19 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import axios from 'axios';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
-import { BadRequestError, NotFoundError, ServiceUnavailableError } from '../utils/errors.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
+import { identifierSchema } from '../utils/identifiers.js';
 import { logger } from '../utils/logger.js';
-import { env } from '../config/env.js';
+import { signatureService } from '../services/signature/index.js';
+import { motorcycleRegistryService } from '../services/motorcycleRegistryService.js';
+import { motorcycleStatusService, RENTED_STATUSES, StatusNotification } from '../services/motorcycleStatusService.js';
 
 // Schemas de validacao
 const createDistratoSchema = z.object({
-  placa: z.string().min(1, 'Placa e obrigatoria'),
+  placa: identifierSchema('placa'),
   franqueado: z.string().min(1, 'Franqueado e obrigatorio'),
   inicio_ctt: z.string(),
   fim_ctt: z.string(),
@@ -27,7 +29,7 @@ const createDistratoSchema = z.object({
 });
 
 const updateDistratoSchema = z.object({
-  placa: z.string().min(1).optional(),
+  placa: identifierSchema('placa').optional(),
   franqueado: z.string().min(1).optional(),
   inicio_ctt: z.string().optional(),
   fim_ctt: z.string().optional(),
@@ -136,7 +138,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
 
     const { page, limit, city_id, franchisee_id, rental_id, placa } = query.data;
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { deleted_at: null };
 
     // Aplicar filtro baseado no role
     if (context.isFranchisee()) {
@@ -221,7 +223,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     const { id } = request.params as { id: string };
 
     const distrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         franchisee: {
           select: { id: true, fantasy_name: true },
@@ -299,7 +301,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     const { id } = request.params as { id: string };
 
     const distratoData = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         franchisee: {
           select: { id: true, fantasy_name: true, cnpj: true, endereco: true },
@@ -322,8 +324,8 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     // Buscar dados da moto pela placa
     let motorcycle = null;
     if (distratoData.placa) {
-      motorcycle = await prisma.motorcycle.findFirst({
-        where: { placa: distratoData.placa },
+      motorcycle = await prisma.motorcycle.findUnique({
+        where: { placa: motorcycleRegistryService.normalizePlate(distratoData.placa) },
         select: {
           id: true,
           placa: true,
@@ -430,7 +432,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     }
 
     // Criar distrato e atualizar moto para recolhida em uma transação
-    const distrato = await prisma.$transaction(async (tx) => {
+    const { novoDistrato: distrato, notifications } = await prisma.$transaction(async (tx) => {
       // 1. Criar o distrato
       const novoDistrato = await tx.distrato.create({
         data: {
@@ -461,67 +463,28 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
         },
       });
 
-      // 2. Buscar a moto pela placa e CRIAR um novo registro com status recolhida
-      // Busca case-insensitive para garantir que encontre a moto
-      const placaBusca = data.placa.trim();
-      logger.info(`[Distrato] Buscando moto com placa: "${placaBusca}"`);
-
-      const moto = await tx.motorcycle.findFirst({
-        where: {
-          placa: {
-            equals: placaBusca,
-            mode: 'insensitive'
-          }
-        },
-        orderBy: {
-          created_at: 'desc'
-        }
-      });
-
-      logger.info(`[Distrato] Resultado da busca: ${moto ? `Encontrada ID ${moto.id}` : 'NÃO ENCONTRADA'}`);
+      // 2. Buscar a moto pela placa no cadastro e registrar o recolhimento (movimento)
+      const moto = await motorcycleRegistryService.findByPlate(data.placa, tx);
 
+      let notifications: StatusNotification[] = [];
       if (moto) {
-        // CRIAR um novo registro de movimento para aparecer na aba "Gestão de Motos"
-        // Estratégia: data_criacao é uma data antiga (para não ser o mais recente da placa)
-        // data_ultima_mov é a data atual (para ordenação correta)
-        // O registro existente NÃO é alterado
-        
-        // Usar data_criacao anterior ao data_ultima_mov da moto existente
-        // Isso garante que o registro NÃO será o mais recente da placa
-        const dataCriacaoAntiga = moto.data_ultima_mov
-          ? new Date(new Date(moto.data_ultima_mov).getTime() - 86400000) // 1 dia antes
-          : new Date(new Date().getTime() - 86400000); // 1 dia antes de hoje
-        
-        await tx.motorcycle.create({
-          data: {
-            placa: moto.placa,
-            chassi: moto.chassi,
-            renavam: moto.renavam,
-            modelo: moto.modelo,
-            marca: moto.marca,
-            ano: moto.ano,
-            cor: moto.cor,
-            quilometragem: moto.quilometragem,
-            status: 'recolhida',
-            codigo_cs: moto.codigo_cs,
-            tipo: moto.tipo,
-            valor_semanal: moto.valor_semanal,
-            data_ultima_mov: new Date(), // Data atual para ordenação
-            data_criacao: dataCriacaoAntiga, // Data antiga para não ser o mais recente da placa
-            city_id: moto.city_id,
-            franchisee_id: moto.franchisee_id,
-            observacoes: `Distrato - Causa: ${data.causa}. Motivo: ${data.motivo}`,
-          },
-        });
+        ({ notifications } = await motorcycleStatusService.transition(tx, moto.id, 'recolhida', {
+          reason: `Distrato - Causa: ${data.causa}. Motivo: ${data.motivo}`,
+          userId: context.userId,
+          source: 'distrato',
+          fromStatuses: [...RENTED_STATUSES, 'active'],
+        }));
 
-        logger.info(`[Distrato] Novo registro de movimento criado para moto ${moto.placa} com status 'recolhida' (apenas na aba Gestão de Motos).`);
+        logger.info(`[Distrato] Moto ${moto.placa} movida para 'recolhida'.`);
       } else {
-        logger.warn(`[Distrato] Moto com placa "${placaBusca}" não encontrada para criar movimento`);
+        logger.warn(`[Distrato] Moto com placa "${data.placa}" não encontrada para registrar o movimento`);
       }
 
-      return novoDistrato;
+      return { novoDistrato, notifications };
     });
 
+    await motorcycleStatusService.notifyRegional(notifications);
+
     return reply.status(201).send({
       success: true,
       data: distrato,
@@ -731,54 +694,32 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
         },
       });
 
-      // 3. Buscar dados completos da moto para criar o registro de movimento
+      // 3. Registrar o recolhimento da moto (movimento)
       const motoExistente = await tx.motorcycle.findUnique({
         where: { id: motorcycle_id },
+        select: { id: true, placa: true },
       });
 
+      let notifications: StatusNotification[] = [];
       if (motoExistente) {
-        // CRIAR um novo registro de movimento para aparecer na aba "Gestão de Motos"
-        // Estratégia: data_criacao é uma data antiga (para não ser o mais recente da placa)
-        // data_ultima_mov é a data atual (para ordenação correta)
-        // O registro existente NÃO é alterado
-        
-        // Usar data_criacao anterior ao data_ultima_mov da moto existente
-        // Isso garante que o registro NÃO será o mais recente da placa
-        const dataCriacaoAntiga = motoExistente.data_ultima_mov
-          ? new Date(new Date(motoExistente.data_ultima_mov).getTime() - 86400000) // 1 dia antes
-          : new Date(new Date().getTime() - 86400000); // 1 dia antes de hoje
-        
-        await tx.motorcycle.create({
-          data: {
-            placa: motoExistente.placa,
-            chassi: motoExistente.chassi,
-            renavam: motoExistente.renavam,
-            modelo: motoExistente.modelo,
-            marca: motoExistente.marca,
-            ano: motoExistente.ano,
-            cor: motoExistente.cor,
-            quilometragem: motoExistente.quilometragem,
-            status: 'recolhida',
-            codigo_cs: motoExistente.codigo_cs,
-            tipo: motoExistente.tipo,
-            valor_semanal: motoExistente.valor_semanal,
-            data_ultima_mov: new Date(), // Data atual para ordenação
-            data_criacao: dataCriacaoAntiga, // Data antiga para não ser o mais recente da placa
-            city_id: motoExistente.city_id,
-            franchisee_id: motoExistente.franchisee_id,
-            observacoes: `Distrato - Causa: ${causa}. Motivo: ${motivo}`,
-          },
-        });
+        ({ notifications } = await motorcycleStatusService.transition(tx, motoExistente.id, 'recolhida', {
+          reason: `Distrato - Causa: ${causa}. Motivo: ${motivo}`,
+          userId: context.userId,
+          source: 'distrato',
+          fromStatuses: [...RENTED_STATUSES, 'active'],
+        }));
 
-        logger.info(`[Distrato] Novo registro de movimento criado para moto ${motoExistente.placa} com status 'recolhida' via generate-term (apenas na aba Gestão de Motos).`);
+        logger.info(`[Distrato] Moto ${motoExistente.placa} movida para 'recolhida' via generate-term.`);
       }
 
-      return { distrato, vistoria };
+      return { distrato, vistoria, notifications };
     });
 
+    await motorcycleStatusService.notifyRegional(result.notifications);
+
     return reply.status(201).send({
       success: true,
-      data: result,
+      data: { distrato: result.distrato, vistoria: result.vistoria },
       message: 'Termo de encerramento gerado e vistoria de saida criada com sucesso.',
     });
   });
@@ -842,7 +783,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar o distrato existente
     const distrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         franchisee: {
           select: { id: true, fantasy_name: true },
@@ -875,9 +816,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     // Buscar motorcycle_id se nao foi fornecido (tentar pela placa)
     let finalMotorcycleId = motorcycle_id;
     if (!finalMotorcycleId && distrato.placa) {
-      const motorcycle = await prisma.motorcycle.findFirst({
-        where: { placa: distrato.placa },
-      });
+      const motorcycle = await motorcycleRegistryService.findByPlate(distrato.placa);
       if (motorcycle) {
         finalMotorcycleId = motorcycle.id;
       }
@@ -917,56 +856,34 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
         },
       });
 
-      // 2. Buscar dados completos da moto para criar o registro de movimento
+      // 2. Registrar o recolhimento da moto (movimento)
       const motoExistente = await tx.motorcycle.findUnique({
         where: { id: finalMotorcycleId },
+        select: { id: true, placa: true },
       });
 
+      let notifications: StatusNotification[] = [];
       if (motoExistente) {
-        // CRIAR um novo registro de movimento para aparecer na aba "Gestão de Motos"
-        // Estratégia: data_criacao é uma data antiga (para não ser o mais recente da placa)
-        // data_ultima_mov é a data atual (para ordenação correta)
-        // O registro existente NÃO é alterado
-        
-        // Usar data_criacao anterior ao data_ultima_mov da moto existente
-        // Isso garante que o registro NÃO será o mais recente da placa
-        const dataCriacaoAntiga = motoExistente.data_ultima_mov
-          ? new Date(new Date(motoExistente.data_ultima_mov).getTime() - 86400000) // 1 dia antes
-          : new Date(new Date().getTime() - 86400000); // 1 dia antes de hoje
-        
-        await tx.motorcycle.create({
-          data: {
-            placa: motoExistente.placa,
-            chassi: motoExistente.chassi,
-            renavam: motoExistente.renavam,
-            modelo: motoExistente.modelo,
-            marca: motoExistente.marca,
-            ano: motoExistente.ano,
-            cor: motoExistente.cor,
-            quilometragem: motoExistente.quilometragem,
-            status: 'recolhida',
-            codigo_cs: motoExistente.codigo_cs,
-            tipo: motoExistente.tipo,
-            valor_semanal: motoExistente.valor_semanal,
-            data_ultima_mov: new Date(), // Data atual para ordenação
-            data_criacao: dataCriacaoAntiga, // Data antiga para não ser o mais recente da placa
-            city_id: motoExistente.city_id,
-            franchisee_id: motoExistente.franchisee_id,
-            observacoes: `Distrato - Causa: ${distrato.causa}. Motivo: ${distrato.motivo}`,
-          },
-        });
+        ({ notifications } = await motorcycleStatusService.transition(tx, motoExistente.id, 'recolhida', {
+          reason: `Distrato - Causa: ${distrato.causa}. Motivo: ${distrato.motivo}`,
+          userId: context.userId,
+          source: 'distrato',
+          fromStatuses: [...RENTED_STATUSES, 'active'],
+        }));
 
-        logger.info(`[Distrato] Novo registro de movimento criado para moto ${motoExistente.placa} com status 'recolhida' via /:id/generate-term (apenas na aba Gestão de Motos).`);
+        logger.info(`[Distrato] Moto ${motoExistente.placa} movida para 'recolhida' via /:id/generate-term.`);
       }
 
-      return vistoria;
+      return { vistoria, notifications };
     });
 
+    await motorcycleStatusService.notifyRegional(result.notifications);
+
     return reply.status(200).send({
       success: true,
       data: {
         distrato,
-        vistoria: result,
+        vistoria: result.vistoria,
       },
       message: 'Vistoria de saida criada com sucesso.',
     });
@@ -1025,7 +942,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     }
 
     const existingDistrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
     });
 
     if (!existingDistrato) {
@@ -1092,7 +1009,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const distrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: { vistorias: true },
     });
 
@@ -1152,12 +1069,12 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * POST /api/distratos/:id/send-for-signature
-   * Enviar termo de encerramento para assinatura via PlugSign
+   * Enviar termo de encerramento para assinatura (PlugSign ou BeSign, conforme a cidade)
    */
   app.post('/:id/send-for-signature', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Enviar termo de encerramento para assinatura via PlugSign',
+      description: 'Enviar termo de encerramento para assinatura (PlugSign ou BeSign, conforme a cidade)',
       tags: ['Distratos'],
       security: [{ bearerAuth: [] }],
       params: {
@@ -1229,7 +1146,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar o distrato
     const distrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         franchisee: true,
         city: true,
@@ -1251,246 +1168,68 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
       throw new BadRequestError('Este termo de encerramento ja foi enviado para assinatura. ID: ' + distrato.signature_request_id);
     }
 
-    // Buscar token do PlugSign - usar token do .env primeiro (mais confiável)
-    let apiToken: string | null = null;
-
-    // Primeiro: token do .env
-    if (env.PLUGSIGN_API_KEY && env.PLUGSIGN_API_KEY.length >= 50) {
-      apiToken = env.PLUGSIGN_API_KEY;
-      logger.info('PlugSign (Distrato): usando token do .env');
-    }
-
-    // Fallback: tentar buscar token da cidade
-    if (!apiToken && distrato.city_id) {
-      const city = await prisma.city.findUnique({
-        where: { id: distrato.city_id },
-        select: { plugsign_token: true, name: true },
-      });
-
-      if (city?.plugsign_token && city.plugsign_token.length >= 50) {
-        apiToken = city.plugsign_token;
-        logger.info({ cidade: city.name }, 'PlugSign (Distrato): usando token da cidade');
-      }
-    }
-
-    // Fallback: tentar buscar token do usuário
-    if (!apiToken) {
-      const appUser = await prisma.appUser.findUnique({
-        where: { id: user.userId },
-        select: { city_id: true },
-      });
-
-      if (appUser?.city_id) {
-        const userCity = await prisma.city.findUnique({
-          where: { id: appUser.city_id },
-          select: { plugsign_token: true, name: true },
-        });
-
-        if (userCity?.plugsign_token && userCity.plugsign_token.length >= 50) {
-          apiToken = userCity.plugsign_token;
-          logger.info({ cidade: userCity.name }, 'PlugSign (Distrato): usando token da cidade do usuario');
-        }
-      }
-    }
-
-    if (!apiToken) {
-      throw new ServiceUnavailableError('Token PlugSign nao encontrado');
-    }
-
-    if (!env.PLUGSIGN_API_URL) {
-      throw new ServiceUnavailableError('PlugSign API URL nao configurada');
-    }
-
-    try {
-      // Baixar o PDF e converter para BASE64
-      logger.info({ pdfUrl }, 'Baixando PDF do termo de encerramento');
-
-      const pdfResponse = await axios.get(pdfUrl, {
-        responseType: 'arraybuffer',
-        timeout: 30000,
-      });
-
-      const pdfBase64 = Buffer.from(pdfResponse.data).toString('base64');
-
-      // Preparar payload para o PlugSign - endpoint files/upload/requests
-      // Formato correto baseado na documentação:
-      // - file: data:application/pdf;name=filename.pdf;base64,BASE64_CONTENT
-      // - name: nome do documento (string)
-      // - email: array de emails dos signatários
-      const filename = `termo_encerramento_${distrato.placa}.pdf`;
-      const plugSignPayload: Record<string, any> = {
-        file: `data:application/pdf;name=${filename};base64,${pdfBase64}`,
-        name: `Termo de Encerramento - ${distrato.placa}`,
-        email: signers.map(s => s.email),
-        message: message || `Por favor, assine o Termo de Encerramento do contrato de locação da moto ${distrato.placa}.`,
-      };
-
-      // Adicionar deadline se fornecido
-      if (deadline_at) {
-        plugSignPayload.deadline_at = deadline_at;
-      }
+    const provider = await signatureService.getProvider({
+      cityId: distrato.city_id,
+      userId: user.userId,
+    });
 
-      logger.info({ distratoId: id, signersCount: signers.length }, 'Enviando termo de encerramento para PlugSign');
-
-      // Fazer requisição para o PlugSign - endpoint correto: /api/files/upload/requests
-      // Construir URL base correta (adiciona /api se necessário)
-      const baseUrl = env.PLUGSIGN_API_URL!.endsWith('/api')
-        ? env.PLUGSIGN_API_URL
-        : `${env.PLUGSIGN_API_URL}/api`;
-      const uploadUrl = `${baseUrl}/files/upload/requests`;
-
-      logger.info({
-        url: uploadUrl,
-        tokenLength: apiToken?.length,
-        tokenPrefix: apiToken?.substring(0, 10),
-        payloadKeys: Object.keys(plugSignPayload),
-        fileSize: pdfBase64.length,
-      }, 'PlugSign: detalhes da requisicao');
-
-      const response = await axios.post(
-        uploadUrl,
-        plugSignPayload,
-        {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          timeout: 60000, // Timeout maior para upload de arquivo
-        }
-      );
-
-      const plugSignResponse = response.data;
-
-      // Log completo da resposta do PlugSign para debug
-      logger.info({
-        plugSignResponse: JSON.stringify(plugSignResponse),
-        dataKeys: plugSignResponse.data ? Object.keys(plugSignResponse.data) : [],
-        rootKeys: Object.keys(plugSignResponse),
-        // Log campos específicos para identificar o document_key
-        possibleDocKeys: {
-          'data.document': plugSignResponse.data?.document, // CAMPO PRINCIPAL!
-          'document': plugSignResponse.document,
-          'data.document_key': plugSignResponse.data?.document_key,
-          'data.file_key': plugSignResponse.data?.file_key,
-          'data.file?.key': plugSignResponse.data?.file?.key,
-          'data.file?.document_key': plugSignResponse.data?.file?.document_key,
-          'data.files[0]?.key': plugSignResponse.data?.files?.[0]?.key,
-          'data.files[0]?.document_key': plugSignResponse.data?.files?.[0]?.document_key,
-          'document_key': plugSignResponse.document_key,
-          'file_key': plugSignResponse.file_key,
-          'data.key': plugSignResponse.data?.key,
-          'data.id': plugSignResponse.data?.id,
-        }
-      }, 'PlugSign: resposta completa');
-
-      // Extrair IDs da resposta - PlugSign pode retornar em diferentes formatos
-      const requestId = plugSignResponse.data?.request_key ||
-                        plugSignResponse.data?.request_id ||
-                        plugSignResponse.data?.id ||
-                        plugSignResponse.request_key ||
-                        plugSignResponse.key ||
-                        plugSignResponse.id;
-
-      // A chave do documento para download - CRITICAL: buscar em todos os locais possíveis
-      // IMPORTANTE: O PlugSign usa o campo 'document' para a chave de download do arquivo!
-      const documentKey = plugSignResponse.data?.document || // Campo principal!
-                          plugSignResponse.document ||
-                          plugSignResponse.data?.document_key ||
-                          plugSignResponse.data?.file_key ||
-                          plugSignResponse.data?.file?.key ||
-                          plugSignResponse.data?.file?.document_key ||
-                          plugSignResponse.data?.files?.[0]?.key ||
-                          plugSignResponse.data?.files?.[0]?.document_key ||
-                          plugSignResponse.document_key ||
-                          plugSignResponse.file_key ||
-                          plugSignResponse.data?.key ||
-                          null; // NAO usar fallback para requestId - queremos saber se está undefined
-
-      if (!requestId) {
-        logger.error({ response: plugSignResponse }, 'PlugSign nao retornou um ID de documento');
-        throw new BadRequestError('PlugSign nao retornou um ID de documento valido');
-      }
+    // Baixar o PDF e enviar para o provedor de assinatura
+    logger.info({ pdfUrl, provider: provider.name }, 'Baixando PDF do termo de encerramento');
+    const pdf = await signatureService.fetchPdf(pdfUrl);
 
-      // Converter para string (PlugSign pode retornar número ou string)
-      const signatureRequestIdStr = String(requestId);
-      const documentKeyStr = documentKey ? String(documentKey) : signatureRequestIdStr;
-
-      // IMPORTANTE: Logar se não encontrou document_key separado
-      if (!documentKey) {
-        logger.warn({
-          requestId: signatureRequestIdStr,
-          message: 'PlugSign NAO retornou document_key separado! Usando requestId como fallback.',
-          response: JSON.stringify(plugSignResponse),
-        }, 'PlugSign: document_key nao encontrado na resposta');
-      }
+    logger.info({ distratoId: id, signersCount: signers.length }, 'Enviando termo de encerramento para assinatura');
 
-      logger.info({
-        requestId: signatureRequestIdStr,
-        documentKey: documentKeyStr,
-        documentKeyFound: !!documentKey,
-      }, 'PlugSign: IDs extraidos');
+    const result = await provider.sendDocument({
+      pdf,
+      filename: `termo_encerramento_${distrato.placa}.pdf`,
+      name: `Termo de Encerramento - ${distrato.placa}`,
+      signers,
+      message: message || `Por favor, assine o Termo de Encerramento do contrato de locação da moto ${distrato.placa}.`,
+      deadlineAt: deadline_at,
+    });
 
-      // Atualizar o distrato com o signature_request_id, document_key e status
-      const updatedDistrato = await prisma.distrato.update({
-        where: { id },
-        data: {
-          signature_request_id: signatureRequestIdStr,
-          document_key: documentKeyStr,
-          status: 'pending_signature',
+    // Atualizar o distrato com o signature_request_id, document_key e status
+    const updatedDistrato = await prisma.distrato.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        status: 'pending_signature',
+      },
+      include: {
+        franchisee: {
+          select: { id: true, fantasy_name: true },
         },
-        include: {
-          franchisee: {
-            select: { id: true, fantasy_name: true },
-          },
-          city: {
-            select: { id: true, name: true },
-          },
+        city: {
+          select: { id: true, name: true },
         },
-      });
-
-      logger.info({
-        distratoId: id,
-        signatureRequestId: signatureRequestIdStr,
-      }, 'Termo de encerramento enviado para assinatura com sucesso');
+      },
+    });
 
-      return reply.status(200).send({
-        success: true,
-        data: {
-          distrato: updatedDistrato,
-          signature_request_id: signatureRequestIdStr,
-          plugsign_response: plugSignResponse,
-        },
-        message: 'Termo de encerramento enviado para assinatura com sucesso',
-      });
-    } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        logger.error({
-          status: error.response?.status,
-          data: error.response?.data,
-          message: error.message,
-        }, 'Erro ao enviar termo de encerramento para PlugSign');
-
-        const errorMessage = error.response?.data?.message ||
-                            error.response?.data?.error ||
-                            'Erro ao comunicar com o PlugSign';
-
-        throw new BadRequestError(`Erro PlugSign: ${errorMessage}`);
-      }
+    logger.info({
+      distratoId: id,
+      signatureRequestId: result.requestId,
+    }, 'Termo de encerramento enviado para assinatura com sucesso');
 
-      logger.error({ error }, 'Erro inesperado ao enviar termo de encerramento para assinatura');
-      throw error;
-    }
+    return reply.status(200).send({
+      success: true,
+      data: {
+        distrato: updatedDistrato,
+        signature_request_id: result.requestId,
+        plugsign_response: result.raw as Record<string, unknown>,
+      },
+      message: 'Termo de encerramento enviado para assinatura com sucesso',
+    });
   });
 
   /**
    * GET /api/distratos/:id/download-signed
-   * Baixar o termo de encerramento assinado do PlugSign
+   * Baixar o termo de encerramento assinado do provedor de assinatura
    */
   app.get('/:id/download-signed', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Baixar o termo de encerramento assinado do PlugSign',
+      description: 'Baixar o termo de encerramento assinado do provedor de assinatura',
       tags: ['Distratos'],
       security: [{ bearerAuth: [] }],
       params: {
@@ -1517,7 +1256,7 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar o distrato
     const distrato = await prisma.distrato.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         city: true,
       },
@@ -1537,286 +1276,38 @@ const distratosRoutes: FastifyPluginAsync = async (app) => {
       return reply.redirect(distrato.signed_file_url);
     }
 
-    // Buscar token do PlugSign
-    let apiToken: string | null = null;
-
-    if (env.PLUGSIGN_API_KEY && env.PLUGSIGN_API_KEY.length >= 50) {
-      apiToken = env.PLUGSIGN_API_KEY;
-    } else if (distrato.city_id) {
-      const city = await prisma.city.findUnique({
-        where: { id: distrato.city_id },
-        select: { plugsign_token: true },
-      });
-      if (city?.plugsign_token && city.plugsign_token.length >= 50) {
-        apiToken = city.plugsign_token;
-      }
-    }
-
-    if (!apiToken) {
-      throw new ServiceUnavailableError('Token PlugSign nao encontrado');
-    }
+    const provider = await signatureService.getProvider({
+      cityId: distrato.city_id,
+      userId: user.userId,
+    });
 
-    const requestId = distrato.signature_request_id;
-    const documentKey = distrato.document_key || requestId;
+    const documentKey = distrato.document_key || distrato.signature_request_id;
 
     logger.info({
       distratoId: id,
-      requestId,
+      requestId: distrato.signature_request_id,
       documentKey,
+      provider: provider.name,
     }, 'Iniciando download do documento assinado');
 
-    // Lista de endpoints para tentar download
-    const downloadEndpoints: string[] = [];
-    let fileKeyFromList: string | null = null;
-
-    // ESTRATEGIA 1: Listar ARQUIVOS (files) para encontrar o document_key correto
-    try {
-      const filesUrl = 'https://app.plugsign.com.br/api/files';
-      logger.info({ filesUrl }, 'PlugSign: listando arquivos');
-
-      const filesResponse = await axios.get(filesUrl, {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Accept': 'application/json',
-        },
-        timeout: 30000,
-      });
-
-      const files = filesResponse.data?.data || filesResponse.data || [];
-
-      // Log detalhado da resposta para debug
-      logger.info({
-        totalFiles: files.length,
-        firstFewFiles: JSON.stringify(files.slice(0, 5)),
-        responseKeys: Object.keys(filesResponse.data || {}),
-      }, 'PlugSign: lista de arquivos obtida');
-
-      // Se ha arquivos, logar os campos disponiveis do primeiro
-      if (files.length > 0) {
-        logger.info({
-          sampleFileKeys: Object.keys(files[0] || {}),
-          sampleFile: JSON.stringify(files[0]),
-        }, 'PlugSign: exemplo de arquivo na lista');
-      }
-
-      // Procurar pelo arquivo correspondente ao documento
-      for (const file of files) {
-        const fileId = String(file.id || '');
-        const fileKey = file.key || file.document_key || file.file_key || '';
-        const fileName = file.name || file.document_name || file.file_name || '';
-        const fileRequestId = String(file.request_id || file.requestId || '');
-
-        // Verificar se e o arquivo correto (por request_id, nome ou placa)
-        if (fileRequestId === requestId ||
-            fileId === requestId ||
-            fileName.toLowerCase().includes(distrato.placa.toLowerCase()) ||
-            fileName.toLowerCase().includes('termo de encerramento') ||
-            fileName.toLowerCase().includes('termo_encerramento')) {
-
-          logger.info({
-            foundFile: JSON.stringify(file),
-            matchedBy: fileRequestId === requestId ? 'request_id' : fileName.toLowerCase().includes(distrato.placa.toLowerCase()) ? 'placa' : 'name',
-          }, 'PlugSign: arquivo encontrado na lista');
-
-          // Usar o document_key ou key do arquivo
-          if (fileKey) {
-            fileKeyFromList = String(fileKey);
-            // Adicionar no inicio da lista de endpoints (prioridade)
-            downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKeyFromList}`);
-            logger.info({ documentKey: fileKeyFromList }, 'PlugSign: document_key extraido do arquivo');
-          }
-
-          // Extrair URL de download se existir
-          const downloadUrl = file.download_url || file.signed_url || file.url;
-          if (downloadUrl) {
-            downloadEndpoints.unshift(downloadUrl);
-          }
-
-          break;
-        }
-      }
-
-      // Se nao encontrou, logar os nomes de todos os arquivos para debug
-      if (!fileKeyFromList && files.length > 0) {
-        const fileNames = files.map((f: any) => ({
-          id: f.id,
-          key: f.key || f.document_key,
-          name: f.name || f.document_name,
-          request_id: f.request_id,
-        }));
-        logger.info({ fileNames, searchingFor: { requestId, placa: distrato.placa } }, 'PlugSign: arquivos disponiveis (nenhum correspondente)');
-      }
-    } catch (filesError) {
-      logger.warn({ error: (filesError as any).message }, 'PlugSign: nao foi possivel listar arquivos');
-    }
-
-    // ESTRATEGIA 1b: Listar REQUESTS para encontrar o file_key
-    if (!fileKeyFromList) {
-      try {
-        const listUrl = 'https://app.plugsign.com.br/api/requests';
-        logger.info({ listUrl }, 'PlugSign: listando requests');
-
-        const listResponse = await axios.get(listUrl, {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Accept': 'application/json',
-          },
-          timeout: 30000,
-        });
-
-        const requests = listResponse.data?.data || listResponse.data || [];
-
-        logger.info({
-          totalRequests: requests.length,
-          firstFewRequests: JSON.stringify(requests.slice(0, 3)),
-        }, 'PlugSign: lista de requests obtida');
-
-        for (const req of requests) {
-          const reqId = String(req.id || req.key || req.request_key || '');
-          const reqName = req.name || req.document_name || '';
-
-          if (reqId === requestId ||
-              reqName.toLowerCase().includes(distrato.placa.toLowerCase())) {
-
-            logger.info({ foundRequest: JSON.stringify(req) }, 'PlugSign: request encontrado');
-
-            // IMPORTANTE: O campo 'document' contém a chave do arquivo para download!
-            // Também tentar file_key, document_key como fallbacks
-            const fk = req.document || req.file_key || req.document_key || req.files?.[0]?.key || req.files?.[0]?.document_key;
-            if (fk) {
-              fileKeyFromList = String(fk);
-              downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKeyFromList}`);
-              logger.info({ documentKey: fileKeyFromList }, 'PlugSign: document_key extraido do request (campo document)');
-
-              // Atualizar o document_key no banco para não precisar buscar na lista novamente
-              if (fileKeyFromList !== documentKey) {
-                await prisma.distrato.update({
-                  where: { id },
-                  data: { document_key: fileKeyFromList },
-                });
-                logger.info({ id, oldKey: documentKey, newKey: fileKeyFromList }, 'PlugSign: document_key atualizado no banco');
-              }
-            }
-            break;
-          }
-        }
-      } catch (listError) {
-        logger.warn({ error: (listError as any).message }, 'PlugSign: nao foi possivel listar requests');
-      }
-    }
+    const { buffer, documentKey: discoveredKey } = await provider.downloadSigned({
+      requestId: distrato.signature_request_id,
+      documentKey,
+      searchHints: [distrato.placa, 'termo de encerramento', 'termo_encerramento'],
+    });
 
-    // ESTRATEGIA 2: Adicionar endpoints padrao com o requestId e documentKey
-    downloadEndpoints.push(
-      `https://app.plugsign.com.br/api/requests/${requestId}/file/signed`,
-      `https://app.plugsign.com.br/api/requests/${requestId}/files/signed`,
-      `https://app.plugsign.com.br/api/requests/${requestId}/download`,
-      `https://app.plugsign.com.br/api/requests/${requestId}/pdf`,
-      `https://app.plugsign.com.br/api/files/download/${documentKey}`,
-      `https://app.plugsign.com.br/api/files/${documentKey}/download`,
-      `https://app.plugsign.com.br/api/files/${documentKey}/signed`,
-      `https://app.plugsign.com.br/api/documents/${requestId}/download`,
-      `https://app.plugsign.com.br/api/documents/${requestId}/pdf`,
-      // Tentar com sufixo -signed
-      `https://app.plugsign.com.br/api/files/download/${requestId}-signed`,
-      `https://app.plugsign.com.br/api/files/${requestId}-signed/download`,
-    );
-
-    // ESTRATEGIA 3: Tentar obter info do request especifico
-    try {
-      const infoUrl = `https://app.plugsign.com.br/api/requests/${requestId}`;
-      logger.info({ infoUrl }, 'Buscando informacoes do request no PlugSign');
-
-      const infoResponse = await axios.get(infoUrl, {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Accept': 'application/json',
-        },
-        timeout: 30000,
+    // Atualizar o document_key no banco para não precisar buscar na lista novamente
+    if (discoveredKey && discoveredKey !== distrato.document_key) {
+      await prisma.distrato.update({
+        where: { id },
+        data: { document_key: discoveredKey },
       });
-
-      logger.info({
-        response: JSON.stringify(infoResponse.data),
-      }, 'PlugSign: informacoes do request');
-
-      // Extrair URL de download da resposta se existir
-      const data = infoResponse.data?.data || infoResponse.data;
-      const signedFileUrl = data?.signed_file_url ||
-                            data?.signed_url ||
-                            data?.download_url ||
-                            data?.file_url;
-
-      if (signedFileUrl) {
-        logger.info({ signedFileUrl }, 'PlugSign: URL do arquivo assinado encontrada');
-        downloadEndpoints.unshift(signedFileUrl);
-      }
-
-      // Extrair file_key se existir
-      const fileKey = data?.file_key || data?.files?.[0]?.key || data?.files?.[0]?.file_key;
-      if (fileKey && fileKey !== documentKey) {
-        downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKey}`);
-        downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/${fileKey}/download`);
-      }
-    } catch (infoError) {
-      logger.warn({ error: (infoError as any).message }, 'Nao foi possivel obter informacoes do request, tentando download direto');
     }
 
-    // Tentar cada endpoint de download
-    for (const endpoint of downloadEndpoints) {
-      try {
-        logger.info({ endpoint }, 'PlugSign: tentando download');
-
-        const response = await axios.get(endpoint, {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Accept': 'application/pdf, application/octet-stream',
-          },
-          responseType: 'arraybuffer',
-          timeout: 60000,
-        });
-
-        // Verificar se e um PDF valido (comeca com %PDF)
-        const buffer = Buffer.from(response.data);
-        if (buffer.length > 4 && buffer.toString('utf8', 0, 4) === '%PDF') {
-          logger.info({ endpoint, size: buffer.length }, 'PlugSign: download bem-sucedido');
-
-          reply.header('Content-Type', 'application/pdf');
-          reply.header('Content-Disposition', `attachment; filename="termo_encerramento_assinado_${distrato.placa}.pdf"`);
-
-          return reply.send(buffer);
-        }
-
-        // Se nao e PDF, pode ser JSON com URL de download
-        try {
-          const jsonResponse = JSON.parse(buffer.toString());
-          const downloadUrl = jsonResponse.url || jsonResponse.download_url || jsonResponse.file_url;
-          if (downloadUrl) {
-            logger.info({ downloadUrl }, 'PlugSign: encontrou URL de download no JSON');
-            downloadEndpoints.push(downloadUrl);
-          }
-        } catch {
-          // Nao e JSON, ignorar
-        }
-
-        logger.warn({ endpoint }, 'PlugSign: resposta nao e um PDF valido');
-      } catch (error) {
-        const axiosError = error as any;
-        logger.info({
-          endpoint,
-          status: axiosError.response?.status,
-          message: axiosError.message,
-        }, 'PlugSign: endpoint falhou');
-      }
-    }
-
-    // Se chegou aqui, nenhum endpoint funcionou
-    logger.error({
-      distratoId: id,
-      requestId,
-      documentKey,
-      endpointsTriados: downloadEndpoints.length,
-    }, 'PlugSign: nao foi possivel baixar o documento assinado');
+    reply.header('Content-Type', 'application/pdf');
+    reply.header('Content-Disposition', `attachment; filename="termo_encerramento_assinado_${distrato.placa}.pdf"`);
 
-    throw new BadRequestError('Nao foi possivel baixar o documento assinado. Verifique se o documento foi assinado.');
+    return reply.send(buffer);
   });
 };
 
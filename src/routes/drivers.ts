@@ -3,6 +3,7 @@ import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { parseIdentifier } from '../utils/identifiers.js';
 
 const errorResponseSchema = {
   type: 'object',
@@ -187,8 +188,11 @@ const driversRoutes: FastifyPluginAsync = async (app) => {
       throw new BadRequestError('Cliente não encontrado');
     }
 
-    // Limpar CPF
-    const cleanCpf = data.cpf.replace(/\D/g, '');
+    // CPF apenas com dígitos (validado pelos dígitos verificadores)
+    const cleanCpf = parseIdentifier('cpf', data.cpf, 'CPF do condutor');
+    if (!cleanCpf) {
+      throw new BadRequestError('CPF do condutor é obrigatório');
+    }
 
     const driver = await prisma.clientDriver.create({
       data: {
@@ -286,8 +290,8 @@ const driversRoutes: FastifyPluginAsync = async (app) => {
       throw new NotFoundError('Condutor não encontrado');
     }
 
-    // Limpar CPF se fornecido
-    const cleanCpf = data.cpf ? data.cpf.replace(/\D/g, '') : undefined;
+    // Limpar e validar CPF se fornecido
+    const cleanCpf = data.cpf ? parseIdentifier('cpf', data.cpf, 'CPF do condutor') || undefined : undefined;
 
     const driver = await prisma.clientDriver.update({
       where: { id },
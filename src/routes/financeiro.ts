@@ -7,6 +7,10 @@ import { auditService, AuditActions } from '../middleware/audit.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { realtimeService } from '../websocket/index.js';
 import { getContext } from '../utils/context.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
+
+// Situação do lançamento: só os ativos entram nos totais e nas listagens padrão
+const FINANCEIRO_STATUSES = ['ativo', 'cancelado', 'renegociado', 'suspenso'];
 
 // Swagger Schemas
 const financeiroResponseSchema = {
@@ -18,6 +22,7 @@ const financeiroResponseSchema = {
     data: { type: 'string', format: 'date-time' },
     descricao: { type: 'string' },
     pago: { type: 'boolean' },
+    status: { type: 'string', enum: FINANCEIRO_STATUSES },
     placa: { type: 'string', nullable: true },
     locatario: { type: 'string', nullable: true },
     comprovante_url: { type: 'string', nullable: true },
@@ -69,7 +74,7 @@ const errorResponseSchema = {
 const createFinanceiroSchema = z.object({
   franchisee_id: z.string().uuid('ID do franqueado inválido'),
   tipo: z.enum(['entrada', 'saida']),
-  placa: z.string().optional().nullable(),
+  placa: optionalIdentifierSchema('placa'),
   motorcycle_id: z.string().uuid().optional().nullable(),
   categoria_id: z.string().uuid().optional().nullable(),
   locatario: z.string().optional().nullable(),
@@ -90,6 +95,7 @@ const querySchema = z.object({
   franchisee_id: z.string().uuid().optional(),
   categoria_id: z.string().uuid().optional(),
   pago: z.coerce.boolean().optional(),
+  status: z.enum(FINANCEIRO_STATUSES as [string, ...string[]]).default('ativo'),
   data_inicio: z.string().optional(),
   data_fim: z.string().optional(),
   placa: z.string().optional(),
@@ -117,6 +123,7 @@ const financeiroRoutes: FastifyPluginAsync = async (app) => {
           franchisee_id: { type: 'string', format: 'uuid', description: 'ID do franqueado' },
           categoria_id: { type: 'string', format: 'uuid', description: 'ID da categoria' },
           pago: { type: 'boolean', description: 'Status de pagamento' },
+          status: { type: 'string', enum: FINANCEIRO_STATUSES, default: 'ativo', description: 'Situação do lançamento (cancelados, renegociados e suspensos ficam no histórico)' },
           data_inicio: { type: 'string', format: 'date', description: 'Data inicial' },
           data_fim: { type: 'string', format: 'date', description: 'Data final' },
           placa: { type: 'string', description: 'Placa da motocicleta' },
@@ -145,7 +152,7 @@ const financeiroRoutes: FastifyPluginAsync = async (app) => {
 
     const {
       page, limit, tipo, franchisee_id, categoria_id,
-      pago, data_inicio, data_fim, placa, orderBy, orderDir
+      pago, status, data_inicio, data_fim, placa, orderBy, orderDir
     } = query.data;
 
     const context = getContext(request);
@@ -160,6 +167,7 @@ const financeiroRoutes: FastifyPluginAsync = async (app) => {
     if (franchisee_id) where.franchisee_id = franchisee_id;
     if (categoria_id) where.categoria_id = categoria_id;
     if (pago !== undefined) where.pago = pago;
+    where.status = status;
     if (placa) where.placa = { contains: placa, mode: 'insensitive' };
 
     if (data_inicio || data_fim) {
@@ -693,7 +701,7 @@ const financeiroRoutes: FastifyPluginAsync = async (app) => {
     };
 
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { status: 'ativo' };
 
     // Aplicar filtro baseado no role
     const roleFilter = context.getFranchiseeFilter();
@@ -781,7 +789,7 @@ const financeiroRoutes: FastifyPluginAsync = async (app) => {
     };
 
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { status: 'ativo' };
 
     const roleFilter = context.getFranchiseeFilter();
     Object.assign(where, roleFilter);
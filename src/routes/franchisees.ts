@@ -5,6 +5,7 @@ import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
 
 // Swagger Schemas
 const franchiseeResponseSchema = {
@@ -59,10 +60,10 @@ const errorResponseSchema = {
 
 // Schemas de validação
 const createFranchiseeSchema = z.object({
-  cnpj: z.string().optional().nullable(),
+  cnpj: optionalIdentifierSchema('cnpj'),
   company_name: z.string().optional().nullable(),
   fantasy_name: z.string().optional().nullable(),
-  cpf: z.string().optional().nullable(),
+  cpf: optionalIdentifierSchema('cpf'),
   nome_responsavel: z.string().optional().nullable(),
   endereco: z.string().optional().nullable(),
   email: z.string().email().optional().nullable(),
@@ -312,14 +313,11 @@ const franchiseesRoutes: FastifyPluginAsync = async (app) => {
       throw new NotFoundError('Franqueado não encontrado');
     }
 
-    // Buscar placas únicas (placa não vazia)
+    // Cadastro único: uma moto por placa
     const motorcycles = await prisma.motorcycle.findMany({
-      where: {
-        franchisee_id: id,
-        placa: { not: '' },
-      },
+      where: { franchisee_id: id },
       select: { placa: true },
-      distinct: ['placa'],
+      orderBy: { placa: 'asc' },
     });
 
     const plates = motorcycles.map(m => m.placa).filter(Boolean) as string[];
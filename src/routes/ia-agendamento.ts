@@ -3,6 +3,7 @@ import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { getContext } from '../utils/context.js';
+import { whatsappService } from '../services/whatsappService.js';
 
 const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
 
@@ -12,17 +13,28 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * GET /api/ia-agendamento/config
-   * Buscar configuração do IA Agendamento
+   * Buscar configuração do IA Agendamento (padrão ou da cidade)
    */
   app.get('/config', {
     preHandler: [authMiddleware, rbac({ allowedRoles: ['master_br', 'admin'] })],
     schema: {
-      description: 'Buscar configuração do IA Agendamento',
+      description: 'Buscar configuração do IA Agendamento (sem city_id, a configuração padrão)',
       tags: ['IA Agendamento'],
       security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
     },
   }, async (request, reply) => {
-    const config = await prisma.iaAgendamentoConfig.findFirst();
+    const { city_id } = request.query as { city_id?: string };
+
+    const config = await prisma.iaAgendamentoConfig.findFirst({
+      where: { city_id: city_id || null },
+      orderBy: { created_at: 'asc' },
+    });
 
     return reply.status(200).send({
       success: true,
@@ -32,7 +44,7 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * PUT /api/ia-agendamento/config
-   * Criar ou atualizar configuração
+   * Criar ou atualizar configuração (padrão ou da cidade)
    */
   app.put('/config', {
     preHandler: [authMiddleware, rbac({ allowedRoles: ['master_br', 'admin'] })],
@@ -52,6 +64,7 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
           agent_prompt: { type: 'string' },
           temperature: { type: 'number' },
           max_tokens: { type: 'number' },
+          city_id: { type: 'string', format: 'uuid', description: 'Cidade da configuração (sem cidade, a padrão)' },
         },
       },
     },
@@ -65,11 +78,15 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
       agent_prompt: string;
       temperature?: number;
       max_tokens?: number;
+      city_id?: string;
     };
 
     const context = getContext(request);
 
-    const existing = await prisma.iaAgendamentoConfig.findFirst();
+    const existing = await prisma.iaAgendamentoConfig.findFirst({
+      where: { city_id: body.city_id || null },
+      orderBy: { created_at: 'asc' },
+    });
 
     let config;
     if (existing) {
@@ -99,6 +116,7 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
           agent_prompt: body.agent_prompt,
           temperature: body.temperature ?? 0.7,
           max_tokens: body.max_tokens ?? 1000,
+          city_id: body.city_id || null,
           created_by: context.userId,
         },
       });
@@ -290,22 +308,26 @@ const iaAgendamentoRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /api/ia-agendamento/evolution-config
    * Buscar config da Evolution API (URL e token) para chamadas externas
+   * Regional recebe a configuração da sua cidade (ou a padrão)
    */
   app.get('/evolution-config', {
     preHandler: [authMiddleware, rbac({ allowedRoles: ['master_br', 'admin', 'regional'] })],
     schema: {
-      description: 'Buscar configuração da Evolution API (URL e token)',
+      description: 'Buscar configuração da Evolution API (URL e token) da cidade',
       tags: ['IA Agendamento'],
       security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid', description: 'Ignorado para regional (sempre a sua cidade)' },
+        },
+      },
     },
   }, async (request, reply) => {
-    const config = await prisma.iaAgendamentoConfig.findFirst({
-      select: {
-        evolution_url: true,
-        evolution_token: true,
-        production_url: true,
-      },
-    });
+    const context = getContext(request);
+    const { city_id } = request.query as { city_id?: string };
+
+    const config = await whatsappService.findEvolutionConfig(context.isRegional() ? context.cityId : city_id);
 
     if (!config) {
       return reply.status(404).send({
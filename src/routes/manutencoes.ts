@@ -3,6 +3,8 @@ import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { getContext } from '../utils/context.js';
+import { motorcycleRegistryService } from '../services/motorcycleRegistryService.js';
+import { motorcycleStatusService } from '../services/motorcycleStatusService.js';
 
 const manutencoesRoutes: FastifyPluginAsync = async (app) => {
 
@@ -35,6 +37,18 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
     return statusMapping[uiStatus] || 'agendado';
   };
 
+  // ========================================
+  // Helper: status da moto acompanha as OS (em andamento -> manutencao; sem OS aberta -> volta)
+  // ========================================
+  const syncMotorcycleStatus = async (motorcycleId: string | null | undefined, userId?: string | null) => {
+    if (!motorcycleId) return;
+    try {
+      await prisma.$transaction(tx => motorcycleStatusService.syncWithServiceOrders(tx, motorcycleId, userId));
+    } catch (error) {
+      app.log.error({ err: error, motorcycleId }, 'Erro ao sincronizar status da moto com a OS');
+    }
+  };
+
   /**
    * GET /api/manutencoes
    * Listar ordens de serviço + agendamentos IA com dados relacionais completos
@@ -188,6 +202,7 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
             `SELECT DISTINCT ON (motorcycle_id) motorcycle_id::text, client_name
              FROM rentals
              WHERE motorcycle_id = ANY($1::uuid[])
+               AND deleted_at IS NULL
              ORDER BY motorcycle_id, created_at DESC`,
             motorcycleIds
           )
@@ -340,14 +355,15 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
       const placasAgendamentos = agendamentos.map((a: any) => a.placa).filter(Boolean);
       let motosAgendMap = new Map<string, { modelo: string; franchisee_id: string | null }>();
       if (placasAgendamentos.length > 0) {
-        const motos = await prisma.$queryRawUnsafe<{ placa: string; modelo: string; franchisee_id: string | null }[]>(
-          `SELECT DISTINCT ON (placa) placa, modelo, franchisee_id::text
-           FROM motorcycles
-           WHERE placa = ANY($1::text[])
-           ORDER BY placa, data_ultima_mov DESC NULLS LAST`,
-          placasAgendamentos
-        );
-        motos.forEach(m => motosAgendMap.set(m.placa, { modelo: m.modelo, franchisee_id: m.franchisee_id }));
+        const motos = await prisma.motorcycle.findMany({
+          where: { placa: { in: placasAgendamentos.map((placa: string) => motorcycleRegistryService.normalizePlate(placa)) } },
+          select: { placa: true, modelo: true, franchisee_id: true },
+        });
+        const motosByPlate = new Map(motos.map(m => [m.placa, m]));
+        placasAgendamentos.forEach((placa: string) => {
+          const moto = motosByPlate.get(motorcycleRegistryService.normalizePlate(placa));
+          if (moto) motosAgendMap.set(placa, { modelo: moto.modelo, franchisee_id: moto.franchisee_id });
+        });
       }
 
       // Buscar franqueados das motos dos agendamentos
@@ -546,6 +562,8 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
         }
       }
 
+      await syncMotorcycleStatus(body.motorcycle_id, authContext.userId);
+
       return reply.status(201).send({
         success: true,
         data: { id: osId, numero_os, message: 'Ordem de serviço criada com sucesso' },
@@ -856,6 +874,7 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
       const rentals = await prisma.$queryRawUnsafe<{ id: string; client_name: string }[]>(
         `SELECT id::text, client_name FROM rentals
          WHERE motorcycle_plate = $1
+           AND deleted_at IS NULL
          ORDER BY created_at DESC LIMIT 1`,
         os.motorcycle.placa
       );
@@ -1177,6 +1196,10 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
         }
       }
 
+      if (body.status !== undefined) {
+        await syncMotorcycleStatus(updated.motorcycle_id, getContext(request).userId);
+      }
+
       return reply.status(200).send({
         success: true,
         data: { id: updated.id, message: 'Ordem de serviço atualizada com sucesso' },
@@ -1373,12 +1396,9 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
 
     try {
       // 1. Buscar moto pela placa
-      const motos = await prisma.$queryRawUnsafe<{ id: string }[]>(
-        `SELECT id::text FROM motorcycles WHERE placa = $1 ORDER BY data_ultima_mov DESC NULLS LAST LIMIT 1`,
-        body.placa
-      );
+      const moto = body.placa ? await motorcycleRegistryService.findByPlate(body.placa) : null;
 
-      if (!motos[0]) {
+      if (!moto) {
         return reply.status(404).send({
           success: false,
           error: 'Moto não encontrada com a placa informada',
@@ -1393,7 +1413,7 @@ const manutencoesRoutes: FastifyPluginAsync = async (app) => {
       const novaOS = await prisma.ordemServico.create({
         data: {
           numero_os: numeroOS,
-          motorcycle_id: motos[0].id,
+          motorcycle_id: moto.id,
           oficina_id: body.oficina_id || null,
           profissional_id: body.profissional_id || null,
           data_abertura: body.data_abertura ? new Date(body.data_abertura) : new Date(),
@@ -1,39 +1,9 @@
 import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../config/database.js';
-import { env } from '../config/env.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
-
-// ============================================================
-// Helper: chamadas à API do Asaas
-// ============================================================
-
-async function asaasFetch<T>(endpoint: string, method = 'GET', body?: unknown): Promise<T> {
-  if (!env.ASAAS_API_URL || !env.ASAAS_API_KEY) {
-    throw new Error('Configuração do Asaas não encontrada (ASAAS_API_URL / ASAAS_API_KEY)');
-  }
-
-  const url = `${env.ASAAS_API_URL}${endpoint}`;
-  const res = await fetch(url, {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-      access_token: env.ASAAS_API_KEY,
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-
-  const data = await res.json();
-
-  if (!res.ok) {
-    const errMsg =
-      (data as any)?.errors?.map((e: any) => e.description).join(', ') ||
-      'Erro desconhecido na API do Asaas';
-    throw new Error(errMsg);
-  }
-
-  return data as T;
-}
+import { asaasService } from '../services/asaasService.js';
+import { isValidCnpj, normalizeCnpj } from '../utils/identifiers.js';
 
 // ============================================================
 // Routes
@@ -183,7 +153,7 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
     // 1. Cancelar assinatura no Asaas
     if (subscription.asaas_subscription_id) {
       try {
-        await asaasFetch(`/subscriptions/${subscription.asaas_subscription_id}`, 'DELETE');
+        await asaasService.fetch(`/subscriptions/${subscription.asaas_subscription_id}`, 'DELETE');
       } catch (err: any) {
         warnings.push('Assinatura não foi cancelada no Asaas (cancele manualmente)');
       }
@@ -309,10 +279,10 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     const { cnpj, service_id } = request.body as { cnpj: string; service_id?: string };
-    const cleanCnpj = cnpj.replace(/\D/g, '');
+    const cleanCnpj = normalizeCnpj(cnpj);
 
-    if (cleanCnpj.length !== 14) {
-      return reply.status(400).send({ success: false, error: 'CNPJ inválido. Digite os 14 dígitos.' });
+    if (!isValidCnpj(cleanCnpj)) {
+      return reply.status(400).send({ success: false, error: 'CNPJ inválido' });
     }
 
     // Buscar franqueados ativos com esse CNPJ
@@ -327,7 +297,7 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
 
     // Filtrar pelo CNPJ (removendo formatação)
     const matched = franchisees.filter(
-      (f) => f.cnpj?.replace(/\D/g, '') === cleanCnpj
+      (f) => normalizeCnpj(f.cnpj) === cleanCnpj
     );
 
     if (matched.length === 0) {
@@ -441,7 +411,11 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
       remote_ip?: string;
     };
 
-    const cleanCnpj = body.cnpj.replace(/\D/g, '');
+    const cleanCnpj = normalizeCnpj(body.cnpj);
+    if (!isValidCnpj(cleanCnpj)) {
+      return reply.status(400).send({ success: false, error: 'CNPJ inválido' });
+    }
+
     const customerName = body.customer_name || body.company_name;
     const remoteIp = body.remote_ip || request.ip || '127.0.0.1';
 
@@ -449,13 +423,13 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
     let customerId: string;
 
     // Buscar existente
-    const searchRes = await asaasFetch<{ data: any[] }>(`/customers?cpfCnpj=${cleanCnpj}`);
+    const searchRes = await asaasService.fetch<{ data: any[] }>(`/customers?cpfCnpj=${cleanCnpj}`);
 
     if (searchRes.data && searchRes.data.length > 0) {
       customerId = searchRes.data[0].id;
       // Atualizar dados
       try {
-        await asaasFetch(`/customers/${customerId}`, 'PUT', {
+        await asaasService.fetch(`/customers/${customerId}`, 'PUT', {
           name: customerName,
           email: body.email,
           phone: body.phone.replace(/\D/g, ''),
@@ -467,7 +441,7 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
         // usa existente se falhar atualização
       }
     } else {
-      const newCustomer = await asaasFetch<{ id: string }>('/customers', 'POST', {
+      const newCustomer = await asaasService.fetch<{ id: string }>('/customers', 'POST', {
         name: customerName,
         email: body.email,
         cpfCnpj: cleanCnpj,
@@ -483,7 +457,7 @@ const marketplaceRoutes: FastifyPluginAsync = async (app) => {
     const nextDueDate = new Date().toISOString().split('T')[0];
     const description = `Monitoramento de Multas - ${body.motorcycle_count} placas - ${customerName}`;
 
-    const asaasSub = await asaasFetch<{ id: string; nextDueDate: string; creditCard?: { creditCardToken?: string } }>(
+    const asaasSub = await asaasService.fetch<{ id: string; nextDueDate: string; creditCard?: { creditCardToken?: string } }>(
       '/subscriptions',
       'POST',
       {
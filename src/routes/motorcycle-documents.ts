@@ -0,0 +1,487 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { getContext } from '../utils/context.js';
+import {
+  motorcycleDocumentService,
+  MOTORCYCLE_DOCUMENT_TYPES,
+  MOTORCYCLE_DOCUMENT_TYPE_KEYS,
+} from '../services/motorcycleDocumentService.js';
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+// Schemas de validação
+const documentTypeEnum = z.enum(MOTORCYCLE_DOCUMENT_TYPE_KEYS as [string, ...string[]], {
+  errorMap: () => ({ message: `type deve ser um de: ${MOTORCYCLE_DOCUMENT_TYPE_KEYS.join(', ')}` }),
+});
+
+const createDocumentSchema = z.object({
+  type: documentTypeEnum,
+  number: z.string().max(100).optional().nullable(),
+  issue_date: z.string().regex(dateRegex, 'issue_date deve estar no formato YYYY-MM-DD').optional().nullable(),
+  expiry_date: z.string().regex(dateRegex, 'expiry_date deve estar no formato YYYY-MM-DD').optional().nullable(),
+  file_url: z.string().url('file_url inválida').optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+const updateDocumentSchema = createDocumentSchema.partial();
+
+const expiringQuerySchema = z.object({
+  days: z.coerce.number().min(0).max(365).optional(),
+  city_id: z.string().uuid().optional(),
+  franchisee_id: z.string().uuid().optional(),
+  type: documentTypeEnum.optional(),
+  include_expired: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+// Swagger Schemas
+const documentResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    motorcycle_id: { type: 'string', format: 'uuid' },
+    type: { type: 'string' },
+    type_label: { type: 'string' },
+    mandatory: { type: 'boolean' },
+    number: { type: 'string', nullable: true },
+    issue_date: { type: 'string', format: 'date', nullable: true },
+    expiry_date: { type: 'string', format: 'date', nullable: true },
+    file_url: { type: 'string', nullable: true },
+    notes: { type: 'string', nullable: true },
+    situation: { type: 'string', enum: ['valid', 'expiring', 'expired', 'no_expiry'] },
+    current: { type: 'boolean' },
+    days_left: { type: 'number' },
+    expiry_reminder_sent_at: { type: 'string', format: 'date-time', nullable: true },
+    created_by: { type: 'string', nullable: true },
+    created_at: { type: 'string', format: 'date-time' },
+    updated_at: { type: 'string', format: 'date-time' },
+    motorcycle: { type: 'object', nullable: true, additionalProperties: true },
+  },
+};
+
+const documentBodySchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: MOTORCYCLE_DOCUMENT_TYPE_KEYS },
+    number: { type: 'string', nullable: true, description: 'Número do documento/apólice' },
+    issue_date: { type: 'string', format: 'date', nullable: true },
+    expiry_date: { type: 'string', format: 'date', nullable: true },
+    file_url: { type: 'string', nullable: true, description: 'URL do arquivo (POST /api/upload, pasta motorcycle-documents)' },
+    notes: { type: 'string', nullable: true },
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', format: 'uuid', description: 'ID da motocicleta' },
+  },
+};
+
+const documentParamsSchema = {
+  type: 'object',
+  required: ['id', 'documentId'],
+  properties: {
+    id: { type: 'string', format: 'uuid', description: 'ID da motocicleta' },
+    documentId: { type: 'string', format: 'uuid', description: 'ID do documento' },
+  },
+};
+
+/**
+ * Buscar a moto e verificar se o usuário pode acessá-la
+ */
+async function findAllowedMotorcycle(request: FastifyRequest, id: string) {
+  const context = getContext(request);
+
+  const motorcycle = await prisma.motorcycle.findUnique({
+    where: { id },
+    select: { id: true, placa: true, city_id: true, franchisee_id: true },
+  });
+
+  if (!motorcycle) {
+    throw new NotFoundError('Motocicleta não encontrada');
+  }
+
+  if (!context.isMasterOrAdmin()) {
+    if (context.isRegional() && motorcycle.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar esta motocicleta');
+    }
+    if (context.isFranchisee() && motorcycle.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para acessar esta motocicleta');
+    }
+  }
+
+  return motorcycle;
+}
+
+const motorcycleDocumentsRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/motorcycles/documents/types
+   * Tipos de documento do veículo
+   */
+  app.get('/documents/types', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar tipos de documento do veículo (obrigatórios bloqueiam locação quando vencidos)',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string' },
+                  label: { type: 'string' },
+                  mandatory: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+        401: errorResponseSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    return reply.status(200).send({
+      success: true,
+      data: MOTORCYCLE_DOCUMENT_TYPE_KEYS.map(type => ({ type, ...MOTORCYCLE_DOCUMENT_TYPES[type] })),
+    });
+  });
+
+  /**
+   * GET /api/motorcycles/documents/expiring
+   * Documentos vigentes a vencer (por cidade/franqueado)
+   */
+  app.get('/documents/expiring', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar documentos vigentes que vencem nos próximos dias (opcionalmente os já vencidos)',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          days: { type: 'number', minimum: 0, maximum: 365, description: 'Janela em dias (padrão VEHICLE_DOCUMENT_REMINDER_DAYS)' },
+          city_id: { type: 'string', format: 'uuid' },
+          franchisee_id: { type: 'string', format: 'uuid' },
+          type: { type: 'string', enum: MOTORCYCLE_DOCUMENT_TYPE_KEYS },
+          include_expired: { type: 'string', enum: ['true', 'false'] },
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: documentResponseSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                totalPages: { type: 'number' },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = expiringQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { days, city_id, franchisee_id, type, include_expired, page, limit } = query.data;
+
+    // Regional vê só a sua cidade e franqueado só as suas motos
+    const roleFilter = context.getFranchiseeFilter() as { city_id?: string; franchisee_id?: string };
+
+    const result = await motorcycleDocumentService.listExpiring({
+      days,
+      cityId: roleFilter.city_id || city_id,
+      franchiseeId: roleFilter.franchisee_id || franchisee_id,
+      type: type as keyof typeof MOTORCYCLE_DOCUMENT_TYPES,
+      includeExpired: include_expired === 'true',
+      page,
+      limit,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/motorcycles/documents/check
+   * Executar a verificação de vencimentos agora (lembretes e bloqueio)
+   */
+  app.post('/documents/check', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Enviar lembretes de vencimento e bloquear motos disponíveis com documento obrigatório vencido',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                checked: { type: 'number' },
+                reminders_sent: { type: 'number' },
+                blocked: { type: 'number' },
+                errors: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    const result = await motorcycleDocumentService.check();
+
+    return reply.status(200).send({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * GET /api/motorcycles/:id/documents
+   * Documentos da motocicleta
+   */
+  app.get('/:id/documents', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar documentos da motocicleta (o vigente de cada tipo vem com current = true)',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: documentResponseSchema },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    await findAllowedMotorcycle(request, id);
+
+    const documents = await motorcycleDocumentService.list(id);
+
+    return reply.status(200).send({
+      success: true,
+      data: documents,
+    });
+  });
+
+  /**
+   * POST /api/motorcycles/:id/documents
+   * Cadastrar documento (renovação = novo documento do mesmo tipo)
+   */
+  app.post('/:id/documents', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Cadastrar documento da motocicleta',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: { ...documentBodySchema, required: ['type'] },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: documentResponseSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = createDocumentSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    await findAllowedMotorcycle(request, id);
+
+    const document = await motorcycleDocumentService.create(id, body.data as any, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.MOTORCYCLE_DOCUMENT_CREATE,
+      'motorcycle_document',
+      document.id,
+      null,
+      document
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: document,
+    });
+  });
+
+  /**
+   * PUT /api/motorcycles/:id/documents/:documentId
+   * Atualizar documento
+   */
+  app.put('/:id/documents/:documentId', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Atualizar documento da motocicleta (nova validade reinicia o lembrete)',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      params: documentParamsSchema,
+      body: documentBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: documentResponseSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id, documentId } = request.params as { id: string; documentId: string };
+    const body = updateDocumentSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    await findAllowedMotorcycle(request, id);
+
+    const existing = await motorcycleDocumentService.findById(documentId);
+    if (existing.motorcycle_id !== id) {
+      throw new NotFoundError('Documento não encontrado');
+    }
+
+    const document = await motorcycleDocumentService.update(documentId, body.data as any, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.MOTORCYCLE_DOCUMENT_UPDATE,
+      'motorcycle_document',
+      documentId,
+      existing,
+      body.data
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: document,
+    });
+  });
+
+  /**
+   * DELETE /api/motorcycles/:id/documents/:documentId
+   * Excluir documento
+   */
+  app.delete('/:id/documents/:documentId', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Excluir documento da motocicleta',
+      tags: ['Documentos de Motos'],
+      security: [{ bearerAuth: [] }],
+      params: documentParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id, documentId } = request.params as { id: string; documentId: string };
+    const context = getContext(request);
+    await findAllowedMotorcycle(request, id);
+
+    const existing = await motorcycleDocumentService.findById(documentId);
+    if (existing.motorcycle_id !== id) {
+      throw new NotFoundError('Documento não encontrado');
+    }
+
+    await motorcycleDocumentService.remove(documentId, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.MOTORCYCLE_DOCUMENT_DELETE,
+      'motorcycle_document',
+      documentId,
+      existing,
+      null
+    );
+
+    return reply.status(200).send({
+      success: true,
+      message: 'Documento excluído com sucesso',
+    });
+  });
+};
+
+export default motorcycleDocumentsRoutes;
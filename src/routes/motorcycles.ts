@@ -4,9 +4,13 @@ import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { auditService, AuditActions } from '../middleware/audit.js';
-import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+import { BadRequestError, NotFoundError, ForbiddenError, ConflictError } from '../utils/errors.js';
 import { realtimeService } from '../websocket/index.js';
 import { getContext } from '../utils/context.js';
+import { identifierSchema, optionalIdentifierSchema, IdentifierKind, isValidIdentifier, normalizeIdentifier } from '../utils/identifiers.js';
+import { motorcycleRegistryService } from '../services/motorcycleRegistryService.js';
+import { motorcycleStatusService, MOTORCYCLE_STATUS_TRANSITIONS } from '../services/motorcycleStatusService.js';
+import { fleetAnalyticsService } from '../services/fleetAnalyticsService.js';
 
 // Helper: retorna a data se válida, ou null se inválida (evita RangeError no fast-json-stringify)
 function safeDate(date: any): Date | null {
@@ -89,11 +93,72 @@ const errorResponseSchema = {
   },
 };
 
+// Transição de status não permitida (destinos válidos em details.allowed)
+const transitionErrorResponseSchema = {
+  type: 'object',
+  properties: {
+    ...errorResponseSchema.properties,
+    details: {
+      type: 'object',
+      properties: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        allowed: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+};
+
+const fleetMetricsProperties = {
+  days_in_fleet: { type: 'number', description: 'Dias em que a moto estava na frota dentro do período' },
+  days: {
+    type: 'object',
+    properties: {
+      rented: { type: 'number' },
+      maintenance: { type: 'number' },
+      idle: { type: 'number' },
+      unavailable: { type: 'number' },
+    },
+  },
+  utilization_rate: { type: 'number', description: '% dos dias na frota em locação' },
+  revenue: {
+    type: 'object',
+    properties: {
+      rentals: { type: 'number', description: 'Diária × dias locados no período (sem pausas)' },
+      other: { type: 'number', description: 'Entradas do Financeiro da placa que não são cobranças de locação' },
+      total: { type: 'number' },
+    },
+  },
+  costs: {
+    type: 'object',
+    properties: {
+      maintenance: { type: 'number', description: 'Serviços das OS abertas no período' },
+      parts: { type: 'number', description: 'Peças das OS abertas no período' },
+      other: { type: 'number', description: 'Saídas do Financeiro da placa' },
+      total: { type: 'number' },
+    },
+  },
+  margin: { type: 'number' },
+  margin_rate: { type: 'number', nullable: true },
+  revenue_per_day: { type: 'number', description: 'Receita por dia na frota' },
+};
+
+const fleetGroupResponseSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', nullable: true },
+    name: { type: 'string' },
+    motorcycles: { type: 'number' },
+    margin_per_motorcycle: { type: 'number' },
+    ...fleetMetricsProperties,
+  },
+};
+
 // Schemas de validação
 const createMotorcycleSchema = z.object({
-  placa: z.string().min(7, 'Placa inválida').max(8),
-  chassi: z.string().optional().nullable(),
-  renavam: z.string().optional().nullable(),
+  placa: identifierSchema('placa'),
+  chassi: optionalIdentifierSchema('chassi'),
+  renavam: optionalIdentifierSchema('renavam'),
   modelo: z.string().min(1, 'Modelo é obrigatório'),
   marca: z.string().optional().nullable(),
   ano: z.number().int().min(1900).max(2100).optional().nullable(),
@@ -141,6 +206,15 @@ const querySchema = z.object({
   orderDir: z.enum(['asc', 'desc']).default('desc'),
 });
 
+const analyticsQuerySchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'start_date deve estar no formato YYYY-MM-DD').optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'end_date deve estar no formato YYYY-MM-DD').optional(),
+  franchisee_id: z.string().uuid().optional(),
+  city_id: z.string().uuid().optional(),
+  motorcycle_id: z.string().uuid().optional(),
+  modelo: z.string().optional(),
+});
+
 const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /api/motorcycles/models
@@ -186,6 +260,50 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * GET /api/motorcycles/status-transitions
+   * Grafo de transições de status da moto (destinos, origens e exigências)
+   */
+  app.get('/status-transitions', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Grafo de transições de status da moto',
+      tags: ['Motocicletas'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    to: { type: 'string' },
+                    sources: { type: 'array', items: { type: 'string' } },
+                    requiresReason: { type: 'boolean' },
+                    requiresEvidence: { type: 'boolean' },
+                    closeOpenOrders: { type: 'string' },
+                    notifyRegional: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        401: errorResponseSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    return reply.status(200).send({
+      success: true,
+      data: MOTORCYCLE_STATUS_TRANSITIONS,
+    });
+  });
+
   /**
    * GET /api/motorcycles
    * Listar motocicletas
@@ -348,6 +466,82 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * GET /api/motorcycles/:id/movements
+   * Histórico de status da motocicleta
+   */
+  app.get('/:id/movements', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Histórico de mudanças de status da motocicleta (mais recentes primeiro)',
+      tags: ['Motocicletas'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da motocicleta' },
+        },
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: paginationSchema,
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { page, limit } = request.query as { page?: number; limit?: number };
+    const context = getContext(request);
+
+    const motorcycle = await prisma.motorcycle.findUnique({
+      where: { id },
+      select: { id: true, city_id: true, franchisee_id: true },
+    });
+
+    if (!motorcycle) {
+      throw new NotFoundError('Motocicleta não encontrada');
+    }
+
+    // Verificar permissão
+    if (!context.isMasterOrAdmin()) {
+      if (context.isRegional() && motorcycle.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para acessar esta motocicleta');
+      }
+      if (context.isFranchisee() && motorcycle.franchisee_id !== context.franchiseeId) {
+        throw new ForbiddenError('Sem permissão para acessar esta motocicleta');
+      }
+    }
+
+    const result = await motorcycleRegistryService.listMovements(id, { page, limit });
+
+    return reply.status(200).send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
   /**
    * POST /api/motorcycles
    * Criar motocicleta
@@ -392,6 +586,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
         },
         400: errorResponseSchema,
         401: errorResponseSchema,
+        409: errorResponseSchema,
       },
     },
   }, async (request, reply) => {
@@ -409,13 +604,15 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       data.city_id = context.cityId;
     }
 
+    // Cadastro único: uma moto por placa/chassi
+    await motorcycleRegistryService.assertUnique(data);
+
     let motorcycle;
     try {
-      // Criar novo registro (permite placas duplicadas)
       motorcycle = await prisma.motorcycle.create({
         data: {
-          placa: data.placa.toUpperCase(),
-          chassi: data.chassi,
+          placa: motorcycleRegistryService.normalizePlate(data.placa),
+          chassi: motorcycleRegistryService.normalizeChassi(data.chassi),
           renavam: data.renavam,
           modelo: data.modelo,
           marca: data.marca,
@@ -443,6 +640,9 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     } catch (prismaError: any) {
       console.error('[POST /motorcycles] Erro Prisma:', prismaError);
       // Erros comuns do Prisma
+      if (prismaError.code === 'P2002') {
+        throw new ConflictError('Placa ou chassi já cadastrado');
+      }
       if (prismaError.code === 'P2003') {
         throw new BadRequestError(`Erro de referência: ${prismaError.meta?.field_name || 'cidade ou franqueado não existe'}`);
       }
@@ -517,6 +717,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
         401: errorResponseSchema,
         403: errorResponseSchema,
         404: errorResponseSchema,
+        409: transitionErrorResponseSchema,
       },
     },
   }, async (request, reply) => {
@@ -544,43 +745,51 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    const data = body.data;
+    const { status, ...data } = body.data;
+
+    // Placa/chassi não podem pertencer a outra moto do cadastro
+    await motorcycleRegistryService.assertUnique(data, id);
 
-    // Se estiver alterando placa, verificar unicidade
-    if (data.placa && data.placa.toUpperCase() !== existingMoto.placa) {
-      const placaExists = await prisma.motorcycle.findFirst({
-        where: { placa: data.placa.toUpperCase() },
+    const { motorcycle, notifications } = await prisma.$transaction(async (tx) => {
+      await tx.motorcycle.update({
+        where: { id },
+        data: {
+          ...data,
+          placa: data.placa ? motorcycleRegistryService.normalizePlate(data.placa) : undefined,
+          chassi: motorcycleRegistryService.normalizeChassi(data.chassi),
+          data_ultima_mov: undefined,
+        } as any,
       });
-      if (placaExists) {
-        throw new BadRequestError('Placa já cadastrada');
-      }
-    }
 
-    // Atualizar data_ultima_mov se status mudou
-    if (data.status && data.status !== existingMoto.status) {
-      (data as any).data_ultima_mov = new Date();
-    }
+      // Mudança de status fica registrada no histórico de movimentos
+      const change = status && status !== existingMoto.status
+        ? await motorcycleStatusService.transition(tx, id, status, {
+          reason: 'Alteração no cadastro da moto',
+          userId: context.userId,
+          source: 'manual',
+        })
+        : null;
+
+      const updated = await tx.motorcycle.findUnique({
+        where: { id },
+        include: {
+          city: true,
+          franchisee: true,
+        },
+      });
 
-    const motorcycle = await prisma.motorcycle.update({
-      where: { id },
-      data: {
-        ...data,
-        placa: data.placa?.toUpperCase(),
-        data_ultima_mov: data.status !== existingMoto.status ? new Date() : undefined,
-      },
-      include: {
-        city: true,
-        franchisee: true,
-      },
+      return { motorcycle: updated, notifications: change?.notifications };
     });
 
+    await motorcycleStatusService.notifyRegional(notifications);
+
     await auditService.logFromRequest(
       request,
       AuditActions.MOTORCYCLE_UPDATE,
       'motorcycle',
       id,
       existingMoto,
-      data
+      body.data
     );
 
     return reply.status(200).send({
@@ -612,6 +821,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
         properties: {
           status: { type: 'string', enum: motorcycleStatusEnum, description: 'Novo status da motocicleta' },
           reason: { type: 'string', description: 'Motivo da alteração de status' },
+          evidence_url: { type: 'string', format: 'uri', description: 'Comprovante (ex.: boletim de ocorrência em furto/roubo)' },
         },
       },
       response: {
@@ -632,11 +842,12 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
         401: errorResponseSchema,
         403: errorResponseSchema,
         404: errorResponseSchema,
+        409: transitionErrorResponseSchema,
       },
     },
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
-    const { status, reason } = request.body as { status: string; reason?: string };
+    const { status, reason, evidence_url } = request.body as { status: string; reason?: string; evidence_url?: string };
     const context = getContext(request);
 
     const validStatuses = [
@@ -664,18 +875,15 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    // Não permitir mudar para 'alugada' diretamente (deve ser via locação)
-    if (status === 'alugada' && motorcycle.status !== 'alugada') {
-      throw new BadRequestError('Status "alugada" só pode ser definido via criação de locação');
-    }
+    // Transição validada pela máquina de estados (alugada/inadimplente/renegociado só pelos fluxos de locação)
+    const { notifications } = await prisma.$transaction(tx => motorcycleStatusService.transition(tx, id, status, {
+      reason,
+      evidence_url,
+      userId: context.userId,
+      source: 'manual',
+    }));
 
-    await prisma.motorcycle.update({
-      where: { id },
-      data: {
-        status: status as any,
-        data_ultima_mov: new Date(),
-      },
-    });
+    await motorcycleStatusService.notifyRegional(notifications);
 
     await auditService.logFromRequest(
       request,
@@ -683,7 +891,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       'motorcycle',
       id,
       { status: motorcycle.status },
-      { status, reason }
+      { status, reason, evidence_url }
     );
 
     return reply.status(200).send({
@@ -709,7 +917,6 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
           search: { type: 'string', description: 'Busca por placa, modelo ou chassi' },
           status: { type: 'string', enum: motorcycleStatusEnum, description: 'Status da motocicleta' },
           modelo: { type: 'string', description: 'Filtro por modelo' },
-          onlyCadastro: { type: 'string', enum: ['true', 'false'], description: 'Se true, retorna apenas registros com data_criacao (cadastro original, não movimento)' },
         },
       },
       response: {
@@ -726,12 +933,11 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     try {
-      const { city_id, search, status, modelo, onlyCadastro } = request.query as {
+      const { city_id, search, status, modelo } = request.query as {
         city_id?: string;
         search?: string;
         status?: string;
         modelo?: string;
-        onlyCadastro?: string;
       };
       const context = getContext(request);
       const where: any = {};
@@ -745,11 +951,6 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
         where.city_id = city_id;
       }
 
-      // Filtrar apenas registros de cadastro (com data_criacao) - exclui registros de movimento
-      if (onlyCadastro === 'true') {
-        where.data_criacao = { not: null };
-      }
-
       // Filtros adicionais para exportação
       if (search) {
         where.OR = [
@@ -831,13 +1032,12 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * GET /api/motorcycles/consolidated
-   * Retorna motos consolidadas por placa (apenas o registro mais recente por placa)
-   * Usa DISTINCT ON do PostgreSQL para performance - elimina processamento client-side
+   * Retorna as motos do cadastro único (um registro por placa, com o status atual)
    */
   app.get('/consolidated', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Listar motocicletas consolidadas por placa (registro mais recente por placa)',
+      description: 'Listar motocicletas do cadastro único (um registro por placa, com o status atual)',
       tags: ['Motocicletas'],
       security: [{ bearerAuth: [] }],
       querystring: {
@@ -869,29 +1069,27 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       const params: any[] = [];
       let paramIndex = 1;
 
-      // Filtro de role (sem prefixo de alias - usado dentro da subquery)
+      // Filtro de role
       // scope=city: franqueado vê motos da cidade dele (mesma visão do regional)
       if (context.isFranchisee() && context.franchiseeId && scope !== 'city') {
-        conditions.push(`franchisee_id = $${paramIndex}::uuid`);
+        conditions.push(`m.franchisee_id = $${paramIndex}::uuid`);
         params.push(context.franchiseeId);
         paramIndex++;
       } else if ((context.isRegional() && context.cityId) || (context.isFranchisee() && scope === 'city' && context.cityId)) {
-        conditions.push(`city_id = $${paramIndex}::uuid`);
+        conditions.push(`m.city_id = $${paramIndex}::uuid`);
         params.push(context.cityId);
         paramIndex++;
       }
 
       // Filtro de cidade (para master_br que selecionou uma cidade)
       if (city_id) {
-        conditions.push(`city_id = $${paramIndex}::uuid`);
+        conditions.push(`m.city_id = $${paramIndex}::uuid`);
         params.push(city_id);
         paramIndex++;
       }
 
       const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-      // DISTINCT ON (placa) retorna apenas o registro mais recente por placa
-      // Prioriza data_ultima_mov, depois created_at (mesma lógica do frontend)
       const query = `
         SELECT
           m.id, m.placa, m.chassi, m.renavam, m.modelo, m.marca, m.ano, m.cor,
@@ -901,14 +1099,10 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
           m.created_at, m.updated_at,
           c.id as city_id_rel, c.name as city_name, c.slug as city_slug,
           f.id as franchisee_id_rel, f.fantasy_name, f.company_name, f.cnpj, f.city_id as franchisee_city_id
-        FROM (
-          SELECT DISTINCT ON (TRIM(placa)) *
-          FROM motorcycles
-          ${whereClause}
-          ORDER BY TRIM(placa), COALESCE(data_ultima_mov, created_at) DESC
-        ) m
+        FROM motorcycles m
         LEFT JOIN cities c ON m.city_id = c.id
         LEFT JOIN franchisees f ON m.franchisee_id = f.id
+        ${whereClause}
         ORDER BY m.created_at DESC
       `;
 
@@ -1021,6 +1215,108 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * GET /api/motorcycles/analytics
+   * Utilização e rentabilidade por moto no período, agregadas por modelo, franqueado e cidade
+   */
+  app.get('/analytics', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Dias locada/parada/em manutenção, receita, custos e margem por moto no período (padrão: últimos 30 dias)',
+      tags: ['Motocicletas'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          start_date: { type: 'string', format: 'date' },
+          end_date: { type: 'string', format: 'date', description: 'Limitada a hoje' },
+          franchisee_id: { type: 'string', format: 'uuid' },
+          city_id: { type: 'string', format: 'uuid' },
+          motorcycle_id: { type: 'string', format: 'uuid' },
+          modelo: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                period: {
+                  type: 'object',
+                  properties: {
+                    start_date: { type: 'string', format: 'date' },
+                    end_date: { type: 'string', format: 'date' },
+                    days: { type: 'number' },
+                  },
+                },
+                totals: {
+                  type: 'object',
+                  properties: {
+                    motorcycles: { type: 'number' },
+                    ...fleetMetricsProperties,
+                  },
+                },
+                motorcycles: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      motorcycle_id: { type: 'string', format: 'uuid' },
+                      placa: { type: 'string' },
+                      modelo: { type: 'string' },
+                      marca: { type: 'string', nullable: true },
+                      ano: { type: 'number', nullable: true },
+                      status: { type: 'string' },
+                      city_id: { type: 'string', nullable: true },
+                      city_name: { type: 'string', nullable: true },
+                      franchisee_id: { type: 'string', nullable: true },
+                      franchisee_name: { type: 'string', nullable: true },
+                      service_orders: { type: 'number' },
+                      ...fleetMetricsProperties,
+                    },
+                  },
+                },
+                by_model: { type: 'array', items: fleetGroupResponseSchema },
+                by_franchisee: { type: 'array', items: fleetGroupResponseSchema },
+                by_city: { type: 'array', items: fleetGroupResponseSchema },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = analyticsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { start_date, end_date, franchisee_id, city_id, motorcycle_id, modelo } = query.data;
+
+    // Regional vê só a sua cidade e franqueado só as suas motos
+    const roleFilter = context.getFranchiseeFilter() as { city_id?: string; franchisee_id?: string };
+
+    const analytics = await fleetAnalyticsService.getAnalytics({
+      startDate: start_date,
+      endDate: end_date,
+      cityId: roleFilter.city_id || city_id,
+      franchiseeId: roleFilter.franchisee_id || franchisee_id,
+      motorcycleId: motorcycle_id,
+      modelo,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: analytics,
+    });
+  });
+
   /**
    * GET /api/motorcycles/available
    * Listar motos disponíveis para locação
@@ -1105,7 +1401,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const where: any = {
-      placa: placa.toUpperCase(),
+      placa: motorcycleRegistryService.normalizePlate(placa),
     };
 
     // Aplicar filtro baseado no role
@@ -1117,6 +1413,7 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       where.city_id = city_id;
     }
 
+    // Placa é única no cadastro: no máximo um registro
     const motorcycle = await prisma.motorcycle.findFirst({
       where,
       include: {
@@ -1124,7 +1421,6 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
           select: { id: true, fantasy_name: true, company_name: true },
         },
       },
-      orderBy: { created_at: 'desc' },
     });
 
     if (!motorcycle) {
@@ -1366,7 +1662,20 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
               type: 'object',
               properties: {
                 created: { type: 'number' },
+                skipped: { type: 'number', description: 'Placas repetidas, já cadastradas ou inválidas' },
                 ids: { type: 'array', items: { type: 'string' } },
+                invalid: {
+                  type: 'array',
+                  description: 'Linhas não importadas por placa/chassi/RENAVAM inválido',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      index: { type: 'number' },
+                      placa: { type: 'string', nullable: true },
+                      fields: { type: 'array', items: { type: 'string' } },
+                    },
+                  },
+                },
               },
             },
           },
@@ -1382,19 +1691,43 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       throw new BadRequestError('Lista de motocicletas vazia');
     }
 
+    // Linhas com placa/chassi/RENAVAM inválidos não são importadas
+    const invalid: { index: number; placa: string | null; fields: string[] }[] = [];
+
+    // Cadastro único: placas repetidas no arquivo entram uma vez só (a primeira)
+    const byPlate = new Map<string, any>();
+    motorcycles.forEach((m, index) => {
+      const fields = (['placa', 'chassi', 'renavam'] as IdentifierKind[])
+        .filter(field => (field === 'placa' || m[field]) && !isValidIdentifier(field, m[field]));
+      if (fields.length > 0) {
+        invalid.push({ index, placa: m.placa || null, fields });
+        return;
+      }
+
+      const placa = motorcycleRegistryService.normalizePlate(m.placa);
+      if (!byPlate.has(placa)) {
+        byPlate.set(placa, {
+          ...m,
+          placa,
+          chassi: motorcycleRegistryService.normalizeChassi(m.chassi),
+          renavam: m.renavam ? normalizeIdentifier('renavam', m.renavam) : m.renavam,
+        });
+      }
+    });
+    const unique = [...byPlate.values()];
+
     // Criar em lotes para evitar timeout
     const batchSize = 500;
     const createdIds: string[] = [];
     let totalCreated = 0;
 
-    for (let i = 0; i < motorcycles.length; i += batchSize) {
-      const batch = motorcycles.slice(i, i + batchSize);
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const batch = unique.slice(i, i + batchSize);
 
-      // Inserir batch
+      // Inserir batch (placas/chassis já cadastrados são ignorados)
       const result = await prisma.motorcycle.createMany({
         data: batch.map(m => ({
           ...m,
-          placa: m.placa?.toUpperCase(),
           created_at: new Date(),
           updated_at: new Date(),
         })),
@@ -1408,7 +1741,9 @@ const motorcyclesRoutes: FastifyPluginAsync = async (app) => {
       success: true,
       data: {
         created: totalCreated,
+        skipped: motorcycles.length - totalCreated,
         ids: createdIds,
+        invalid,
       },
     });
   });
@@ -5,6 +5,7 @@ import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { NotFoundError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
 
 // Swagger Schemas
 const rastreadorResponseSchema = {
@@ -37,11 +38,11 @@ const errorResponseSchema = {
 
 // Schemas de validacao
 const createRastreadorSchema = z.object({
-  cnpj: z.string().optional().nullable(),
+  cnpj: optionalIdentifierSchema('cnpj'),
   empresa: z.string().optional().nullable(),
   franqueado: z.string().optional().nullable(),
-  chassi: z.string().optional().nullable(),
-  placa: z.string().optional().nullable(),
+  chassi: optionalIdentifierSchema('chassi'),
+  placa: optionalIdentifierSchema('placa'),
   rastreador: z.string().optional().nullable(),
   tipo: z.string().optional().nullable(),
   moto: z.string().optional().nullable(),
@@ -7,6 +7,7 @@ import { auditService, AuditActions } from '../middleware/audit.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { realtimeService } from '../websocket/index.js';
 import { getContext } from '../utils/context.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
 
 // Swagger Schemas
 const recorrenteResponseSchema = {
@@ -50,7 +51,7 @@ const errorResponseSchema = {
 const createRecorrenteSchema = z.object({
   franchisee_id: z.string().uuid('ID do franqueado invalido'),
   tipo: z.string().min(1, 'Tipo e obrigatorio'),
-  placa: z.string().optional().nullable(),
+  placa: optionalIdentifierSchema('placa'),
   motorcycle_id: z.string().uuid().optional().nullable(),
   categoria_id: z.string().uuid().optional().nullable(),
   locatario: z.string().optional().nullable(),
@@ -1,8 +1,14 @@
 import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { RentalPlan } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { rentalPlanService } from '../services/rentalPlanService.js';
 import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, NotFoundError, ForbiddenError, ConflictError } from '../utils/errors.js';
 
 const errorResponseSchema = {
   type: 'object',
@@ -24,14 +30,150 @@ const rentalPlanResponseSchema = {
     minimum_days: { type: 'number', nullable: true },
     maximum_days: { type: 'number', nullable: true },
     deposit_amount: { type: 'number', nullable: true },
+    km_allowance_per_day: { type: 'number', nullable: true },
+    km_overage_rate: { type: 'number', nullable: true },
+    early_return_fee_percentage: { type: 'number', nullable: true },
+    late_return_daily_rate: { type: 'number', nullable: true },
+    promo_weekly_rate: { type: 'number', nullable: true },
+    promo_weeks: { type: 'number', nullable: true },
+    valid_from: { type: 'string', format: 'date-time', nullable: true },
+    valid_until: { type: 'string', format: 'date-time', nullable: true },
+    parent_plan_id: { type: 'string', format: 'uuid', nullable: true },
     is_active: { type: 'boolean' },
     status: { type: 'string', nullable: true },
     city_id: { type: 'string', format: 'uuid', nullable: true },
+    archived_at: { type: 'string', format: 'date-time', nullable: true },
+    created_by: { type: 'string', format: 'uuid', nullable: true },
     created_at: { type: 'string', format: 'date-time' },
     updated_at: { type: 'string', format: 'date-time' },
   },
 };
 
+const planBodyProperties = {
+  name: { type: 'string', description: 'Nome do plano' },
+  description: { type: ['string', 'null'] },
+  daily_rate: { type: 'number', minimum: 0, description: 'Valor da diária' },
+  weekly_rate: { type: ['number', 'null'], minimum: 0 },
+  monthly_rate: { type: ['number', 'null'], minimum: 0 },
+  minimum_days: { type: ['integer', 'null'], minimum: 1 },
+  maximum_days: { type: ['integer', 'null'], minimum: 1 },
+  deposit_amount: { type: ['number', 'null'], minimum: 0 },
+  km_allowance_per_day: { type: ['integer', 'null'], minimum: 0, description: 'Franquia de km por dia' },
+  km_overage_rate: { type: ['number', 'null'], minimum: 0, description: 'Valor por km excedente' },
+  early_return_fee_percentage: { type: ['number', 'null'], minimum: 0, maximum: 100, description: 'Multa (%) sobre diárias não utilizadas' },
+  late_return_daily_rate: { type: ['number', 'null'], minimum: 0, description: 'Diária após a data prevista' },
+  promo_weekly_rate: { type: ['number', 'null'], minimum: 0, description: 'Valor semanal promocional' },
+  promo_weeks: { type: ['integer', 'null'], minimum: 1, description: 'Semanas com valor promocional' },
+  valid_from: { type: ['string', 'null'], format: 'date', description: 'Início da vigência' },
+  valid_until: { type: ['string', 'null'], format: 'date', description: 'Fim da vigência' },
+  city_id: { type: ['string', 'null'], format: 'uuid', description: 'Cidade (null = plano global, apenas master/admin)' },
+  is_active: { type: 'boolean' },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid', description: 'ID do plano' },
+  },
+  required: ['id'],
+};
+
+const planDataResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: rentalPlanResponseSchema,
+    message: { type: 'string' },
+  },
+};
+
+// Schemas de validação
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato YYYY-MM-DD');
+
+const planFieldsSchema = z.object({
+  name: z.string().min(1, 'Nome é obrigatório'),
+  description: z.string().optional().nullable(),
+  daily_rate: z.number().positive('Valor da diária deve ser positivo'),
+  weekly_rate: z.number().positive().optional().nullable(),
+  monthly_rate: z.number().positive().optional().nullable(),
+  minimum_days: z.number().int().min(1).optional().nullable(),
+  maximum_days: z.number().int().min(1).optional().nullable(),
+  deposit_amount: z.number().min(0).optional().nullable(),
+  km_allowance_per_day: z.number().int().min(0).optional().nullable(),
+  km_overage_rate: z.number().min(0).optional().nullable(),
+  early_return_fee_percentage: z.number().min(0).max(100).optional().nullable(),
+  late_return_daily_rate: z.number().positive().optional().nullable(),
+  promo_weekly_rate: z.number().positive().optional().nullable(),
+  promo_weeks: z.number().int().min(1).optional().nullable(),
+  valid_from: dateSchema.optional().nullable(),
+  valid_until: dateSchema.optional().nullable(),
+  city_id: z.string().uuid().optional().nullable(),
+  is_active: z.boolean().optional(),
+});
+
+const createPlanSchema = planFieldsSchema;
+const updatePlanSchema = planFieldsSchema.partial();
+const variantSchema = planFieldsSchema.omit({ city_id: true }).partial().extend({
+  name: z.string().min(1, 'Nome é obrigatório'),
+});
+
+type PlanFields = z.infer<typeof updatePlanSchema>;
+
+/**
+ * Validar consistência entre campos do plano (considerando os valores atuais na edição)
+ */
+function validatePlanFields(data: PlanFields, current?: RentalPlan) {
+  const merged = {
+    minimum_days: data.minimum_days !== undefined ? data.minimum_days : current?.minimum_days,
+    maximum_days: data.maximum_days !== undefined ? data.maximum_days : current?.maximum_days,
+    valid_from: data.valid_from !== undefined ? data.valid_from : current?.valid_from?.toISOString().split('T')[0],
+    valid_until: data.valid_until !== undefined ? data.valid_until : current?.valid_until?.toISOString().split('T')[0],
+    promo_weekly_rate: data.promo_weekly_rate !== undefined ? data.promo_weekly_rate : current?.promo_weekly_rate,
+    promo_weeks: data.promo_weeks !== undefined ? data.promo_weeks : current?.promo_weeks,
+  };
+
+  if (merged.minimum_days && merged.maximum_days && merged.maximum_days < merged.minimum_days) {
+    throw new BadRequestError('Máximo de dias deve ser maior ou igual ao mínimo de dias');
+  }
+  if (merged.valid_from && merged.valid_until && merged.valid_until < merged.valid_from) {
+    throw new BadRequestError('Fim da vigência deve ser posterior ao início');
+  }
+  if (!!merged.promo_weekly_rate !== !!merged.promo_weeks) {
+    throw new BadRequestError('Informe o valor semanal promocional e a quantidade de semanas');
+  }
+}
+
+/**
+ * Converter o body para dados do Prisma (datas de vigência como Date, sem campos não informados)
+ */
+function toPlanData(data: PlanFields) {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    result[key] = (key === 'valid_from' || key === 'valid_until') && value ? new Date(value as string) : value;
+  }
+
+  return result;
+}
+
+/**
+ * Buscar plano verificando se o usuário pode gerenciá-lo
+ * Regional gerencia apenas os planos da sua cidade; planos globais são exclusivos de master/admin
+ */
+async function findPlanForManagement(id: string, context: AuthContext) {
+  const plan = await prisma.rentalPlan.findUnique({ where: { id } });
+
+  if (!plan) {
+    throw new NotFoundError('Plano não encontrado');
+  }
+  if (!context.isMasterOrAdmin() && (!plan.city_id || plan.city_id !== context.cityId)) {
+    throw new ForbiddenError('Sem permissão para gerenciar este plano');
+  }
+
+  return plan;
+}
+
 const rentalPlansRoutes: FastifyPluginAsync = async (app) => {
   /**
    * GET /api/rental-plans
@@ -49,7 +191,8 @@ const rentalPlansRoutes: FastifyPluginAsync = async (app) => {
         type: 'object',
         properties: {
           city_id: { type: 'string', format: 'uuid', description: 'Filtrar por cidade' },
-          status: { type: 'string', description: 'Filtrar por status (ex: active)' },
+          status: { type: 'string', description: 'Filtrar por status (ex: active, archived)' },
+          available_on: { type: 'string', format: 'date', description: 'Apenas planos ativos e vigentes nesta data' },
         },
       },
       response: {
@@ -64,7 +207,7 @@ const rentalPlansRoutes: FastifyPluginAsync = async (app) => {
       },
     },
   }, async (request, reply) => {
-    const { city_id, status } = request.query as { city_id?: string; status?: string };
+    const { city_id, status, available_on } = request.query as { city_id?: string; status?: string; available_on?: string };
     const context = getContext(request);
 
     // Para master_br/admin: se city_id for passado, filtrar por essa cidade + globais
@@ -129,20 +272,449 @@ const rentalPlansRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
+    // Filtrar planos disponíveis para locações iniciadas na data (ativos e vigentes)
+    if (available_on) {
+      const date = new Date(available_on);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestError('available_on inválido');
+      }
+      plans = plans.filter(plan => rentalPlanService.isAvailable(plan, date));
+    }
+
     // Converter Decimal para number
-    const formattedPlans = plans.map(plan => ({
-      ...plan,
-      daily_rate: Number(plan.daily_rate),
-      weekly_rate: plan.weekly_rate ? Number(plan.weekly_rate) : null,
-      monthly_rate: plan.monthly_rate ? Number(plan.monthly_rate) : null,
-      deposit_amount: plan.deposit_amount ? Number(plan.deposit_amount) : null,
-    }));
+    const formattedPlans = plans.map(plan => rentalPlanService.format(plan));
 
     return reply.status(200).send({
       success: true,
       data: formattedPlans,
     });
   });
+
+  /**
+   * GET /api/rental-plans/:id
+   * Buscar plano com variantes promocionais e quantidade de locações
+   */
+  app.get('/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Buscar plano de locação por ID (com variantes promocionais)',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                ...rentalPlanResponseSchema.properties,
+                variants: { type: 'array', items: rentalPlanResponseSchema },
+                rentals_count: { type: 'number' },
+              },
+            },
+          },
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const plan = await prisma.rentalPlan.findUnique({
+      where: { id },
+      include: {
+        variants: { orderBy: { created_at: 'desc' } },
+        _count: { select: { rentals: true } },
+      },
+    });
+
+    if (!plan) {
+      throw new NotFoundError('Plano não encontrado');
+    }
+    if (!context.isMasterOrAdmin() && plan.city_id && plan.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar este plano');
+    }
+
+    const { variants, _count, ...data } = plan;
+
+    return reply.status(200).send({
+      success: true,
+      data: {
+        ...rentalPlanService.format(data as RentalPlan),
+        variants: variants.map(variant => rentalPlanService.format(variant)),
+        rentals_count: _count.rentals,
+      },
+    });
+  });
+
+  /**
+   * POST /api/rental-plans
+   * Criar plano de locação
+   * - Master BR/Admin: qualquer cidade ou plano global
+   * - Regional: sempre na sua cidade
+   */
+  app.post('/', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Criar plano de locação',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'daily_rate'],
+        properties: planBodyProperties,
+      },
+      response: {
+        201: planDataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = createPlanSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const data = body.data;
+
+    if (context.isRegional()) {
+      data.city_id = context.cityId;
+    }
+
+    validatePlanFields(data);
+
+    const plan = await prisma.rentalPlan.create({
+      data: {
+        ...toPlanData(data),
+        name: data.name,
+        daily_rate: data.daily_rate,
+        status: data.is_active === false ? 'inactive' : 'active',
+        created_by: context.userId,
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_CREATE,
+      'rental_plan',
+      plan.id,
+      undefined,
+      { name: plan.name, city_id: plan.city_id, daily_rate: Number(plan.daily_rate) }
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: rentalPlanService.format(plan),
+      message: 'Plano criado com sucesso',
+    });
+  });
+
+  /**
+   * PUT /api/rental-plans/:id
+   * Atualizar plano de locação
+   * Locações já criadas mantêm as condições congeladas na criação (plan_snapshot)
+   */
+  app.put('/:id', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Atualizar plano de locação (não altera locações já criadas)',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: planBodyProperties,
+      },
+      response: {
+        200: planDataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = updatePlanSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findPlanForManagement(id, context);
+    const data = body.data;
+
+    if (existing.archived_at) {
+      throw new BadRequestError('Plano arquivado não pode ser editado');
+    }
+    if (context.isRegional()) {
+      delete data.city_id;
+    }
+
+    validatePlanFields(data, existing);
+
+    const plan = await prisma.rentalPlan.update({
+      where: { id },
+      data: {
+        ...toPlanData(data),
+        ...(data.is_active !== undefined ? { status: data.is_active ? 'active' : 'inactive' } : {}),
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_UPDATE,
+      'rental_plan',
+      id,
+      rentalPlanService.format(existing),
+      rentalPlanService.format(plan)
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: rentalPlanService.format(plan),
+      message: 'Plano atualizado com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/rental-plans/:id/variants
+   * Criar variante promocional (ex.: primeiras semanas mais baratas) a partir do plano
+   */
+  app.post('/:id/variants', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Criar variante promocional do plano (copia as condições do plano base)',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: planBodyProperties,
+      },
+      response: {
+        201: planDataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = variantSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const base = await findPlanForManagement(id, context);
+
+    if (base.archived_at) {
+      throw new BadRequestError('Não é possível criar variantes de um plano arquivado');
+    }
+    if (base.parent_plan_id) {
+      throw new BadRequestError('Variantes devem ser criadas a partir do plano base');
+    }
+
+    validatePlanFields(body.data, base);
+
+    const {
+      id: _id, created_at: _createdAt, updated_at: _updatedAt, archived_at: _archivedAt,
+      created_by: _createdBy, status: _status, ...baseFields
+    } = base;
+
+    const variant = await prisma.rentalPlan.create({
+      data: {
+        ...baseFields,
+        ...toPlanData(body.data),
+        name: body.data.name,
+        parent_plan_id: base.id,
+        city_id: base.city_id,
+        status: body.data.is_active === false ? 'inactive' : 'active',
+        created_by: context.userId,
+      },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_CREATE,
+      'rental_plan',
+      variant.id,
+      undefined,
+      { name: variant.name, parent_plan_id: base.id, city_id: variant.city_id }
+    );
+
+    return reply.status(201).send({
+      success: true,
+      data: rentalPlanService.format(variant),
+      message: 'Variante promocional criada com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/rental-plans/:id/archive
+   * Arquivar plano (e suas variantes): deixa de ser oferecido em novas locações
+   */
+  app.post('/:id/archive', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Arquivar plano e suas variantes (locações existentes não são afetadas)',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: planDataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    const existing = await findPlanForManagement(id, context);
+
+    if (existing.archived_at) {
+      throw new BadRequestError('Plano já está arquivado');
+    }
+
+    const archivedData = { is_active: false, status: 'archived', archived_at: new Date() };
+
+    const plan = await prisma.$transaction(async (tx) => {
+      await tx.rentalPlan.updateMany({
+        where: { parent_plan_id: id, archived_at: null },
+        data: archivedData,
+      });
+
+      return tx.rentalPlan.update({
+        where: { id },
+        data: archivedData,
+      });
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_ARCHIVE,
+      'rental_plan',
+      id,
+      { status: existing.status, is_active: existing.is_active },
+      { status: plan.status, is_active: plan.is_active }
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: rentalPlanService.format(plan),
+      message: 'Plano arquivado com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/rental-plans/:id/restore
+   * Restaurar plano arquivado
+   */
+  app.post('/:id/restore', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Restaurar plano arquivado',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: planDataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    const existing = await findPlanForManagement(id, context);
+
+    if (!existing.archived_at) {
+      throw new BadRequestError('Plano não está arquivado');
+    }
+
+    const plan = await prisma.rentalPlan.update({
+      where: { id },
+      data: { is_active: true, status: 'active', archived_at: null },
+    });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_RESTORE,
+      'rental_plan',
+      id,
+      { status: existing.status },
+      { status: plan.status }
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: rentalPlanService.format(plan),
+      message: 'Plano restaurado com sucesso',
+    });
+  });
+
+  /**
+   * DELETE /api/rental-plans/:id
+   * Excluir plano sem locações nem variantes (demais casos devem ser arquivados)
+   */
+  app.delete('/:id', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Excluir plano sem locações vinculadas (planos em uso devem ser arquivados)',
+      tags: ['Planos de Locação'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    const existing = await findPlanForManagement(id, context);
+
+    const [rentalsCount, variantsCount] = await Promise.all([
+      prisma.rental.count({ where: { plan_id: id } }),
+      prisma.rentalPlan.count({ where: { parent_plan_id: id } }),
+    ]);
+
+    if (rentalsCount > 0 || variantsCount > 0) {
+      throw new ConflictError('Plano possui locações ou variantes vinculadas. Use o arquivamento.');
+    }
+
+    await prisma.rentalPlan.delete({ where: { id } });
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PLAN_DELETE,
+      'rental_plan',
+      id,
+      rentalPlanService.format(existing)
+    );
+
+    return reply.status(200).send({
+      success: true,
+      message: 'Plano excluído com sucesso',
+    });
+  });
 };
 
 export default rentalPlansRoutes;
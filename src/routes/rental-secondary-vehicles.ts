@@ -1,15 +1,17 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import axios from 'axios';
 import PDFDocument from 'pdfkit';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
-import { BadRequestError, NotFoundError, ForbiddenError, ServiceUnavailableError } from '../utils/errors.js';
+import { BadRequestError, ConflictError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
 import { logger } from '../utils/logger.js';
-import { env } from '../config/env.js';
+import { signatureService } from '../services/signature/index.js';
 import { storageService } from '../services/storageService.js';
+import { rentalClientService } from '../services/rentalClientService.js';
+import { motorcycleStatusService, RENTED_STATUSES } from '../services/motorcycleStatusService.js';
+import { motorcycleDocumentService } from '../services/motorcycleDocumentService.js';
 
 // Schemas de validacao
 const createSecondaryVehicleSchema = z.object({
@@ -88,7 +90,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
   }, async (request, reply) => {
     const context = getContext(request);
 
-    const where: any = { status: 'active' };
+    const where: any = { status: 'active', deleted_at: null };
 
     // Filtrar por contexto do usuário
     if (context.isFranchisee()) {
@@ -168,7 +170,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // Verificar se a locacao existe
     const rental = await prisma.rental.findUnique({
-      where: { id: rentalId },
+      where: { id: rentalId, deleted_at: null },
     });
 
     if (!rental) {
@@ -183,7 +185,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
       throw new ForbiddenError('Sem permissao para acessar esta locacao');
     }
 
-    const where: any = { rental_id: rentalId };
+    const where: any = { rental_id: rentalId, deleted_at: null };
     if (status) {
       where.status = status;
     }
@@ -298,7 +300,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar a locacao para obter o city_id
     const rental = await prisma.rental.findUnique({
-      where: { id: rentalId },
+      where: { id: rentalId, deleted_at: null },
       include: {
         city: true,
         motorcycle: { select: { id: true } }, // Para excluir a moto principal
@@ -331,7 +333,8 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
     const motosEmLocacaoAtiva = await prisma.rental.findMany({
       where: {
         status: 'active',
-        city_id: rental.city_id
+        city_id: rental.city_id,
+        deleted_at: null
       },
       select: { motorcycle_plate: true }
     });
@@ -342,6 +345,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
     const motosComoSecundario = await prisma.rentalSecondaryVehicle.findMany({
       where: {
         status: 'active',
+        deleted_at: null,
         rental: { city_id: rental.city_id }
       },
       include: { motorcycle: { select: { placa: true } } }
@@ -455,7 +459,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: {
           select: {
@@ -561,7 +565,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // 1. Verificar se locacao existe e esta ativa
     const rental = await prisma.rental.findUnique({
-      where: { id: rentalId },
+      where: { id: rentalId, deleted_at: null },
       include: {
         city: { select: { id: true, name: true } },
         franchisee: { select: { id: true, fantasy_name: true } },
@@ -597,9 +601,8 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
     }
 
     // 3. Verificar se moto esta disponivel
-    if (motorcycle.status !== 'active') {
-      throw new BadRequestError(`Motocicleta nao disponivel. Status atual: ${motorcycle.status}`);
-    }
+    motorcycleStatusService.assertTransition(motorcycle.status as string, 'alugada', { source: 'secondary_vehicle' });
+    await motorcycleDocumentService.assertRentable(motorcycle.id);
 
     // 4. Verificar se moto e da mesma cidade
     if (motorcycle.city_id !== rental.city_id) {
@@ -619,7 +622,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // 6. Verificar se ja existe veiculo secundario ativo nesta locacao (apenas 1 permitido)
     const existingActive = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { rental_id: rentalId, status: 'active' },
+      where: { rental_id: rentalId, status: 'active', deleted_at: null },
     });
 
     if (existingActive) {
@@ -630,7 +633,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // 7. Verificar se esta moto ja nao esta vinculada a esta locacao
     const existingMoto = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { rental_id: rentalId, motorcycle_id, status: 'active' },
+      where: { rental_id: rentalId, motorcycle_id, status: 'active', deleted_at: null },
     });
 
     if (existingMoto) {
@@ -670,41 +673,15 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
         },
       });
 
-      // 2. Atualizar status da moto para 'alugada'
-      await tx.motorcycle.update({
-        where: { id: motorcycle_id },
-        data: {
-          status: 'alugada',
-          data_ultima_mov: new Date(),
-        },
-      });
-
-      // 3. Criar registro de movimento na aba Gestão de Motos
-      const dataCriacaoAntiga = motorcycle.data_ultima_mov
-        ? new Date(new Date(motorcycle.data_ultima_mov).getTime() - 86400000)
-        : new Date(new Date().getTime() - 86400000);
-
-      await tx.motorcycle.create({
-        data: {
-          placa: motorcycle.placa,
-          chassi: motorcycle.chassi,
-          renavam: motorcycle.renavam,
-          modelo: motorcycle.modelo,
-          marca: motorcycle.marca,
-          ano: motorcycle.ano,
-          cor: motorcycle.cor,
-          quilometragem: motorcycle.quilometragem,
-          status: 'alugada',
-          codigo_cs: motorcycle.codigo_cs,
-          tipo: motorcycle.tipo,
-          valor_semanal: motorcycle.valor_semanal,
-          data_ultima_mov: new Date(),
-          data_criacao: dataCriacaoAntiga,
-          city_id: motorcycle.city_id,
-          franchisee_id: motorcycle.franchisee_id,
-          observacoes: `Aditivo - Veículo reserva vinculado à locação. Motivo: ${motivo || 'Manutenção'}`,
-        },
+      // 2. Atualizar status da moto para 'alugada' (movimento); já alugada = ocupada depois da validação
+      const { changed } = await motorcycleStatusService.transition(tx, motorcycle_id, 'alugada', {
+        reason: `Aditivo - Veículo reserva vinculado à locação. Motivo: ${motivo || 'Manutenção'}`,
+        userId: context.userId,
+        source: 'secondary_vehicle',
       });
+      if (!changed) {
+        throw new ConflictError(`Moto ${motorcycle.placa} não está mais disponível`);
+      }
 
       return secondary;
     });
@@ -768,7 +745,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar veiculo secundario
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: true,
         motorcycle: true,
@@ -814,44 +791,13 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
       });
 
       // 2. Liberar a moto (voltar para 'active')
-      await tx.motorcycle.update({
-        where: { id: secondaryVehicle.motorcycle_id },
-        data: {
-          status: 'active',
-          data_ultima_mov: new Date(),
-        },
+      await motorcycleStatusService.transition(tx, secondaryVehicle.motorcycle_id, 'active', {
+        reason: 'Aditivo encerrado - Veículo reserva devolvido e disponível',
+        userId: context.userId,
+        source: 'secondary_vehicle',
+        fromStatuses: RENTED_STATUSES,
       });
 
-      // 3. Criar registro de movimento na aba Gestão de Motos
-      if (secondaryVehicle.motorcycle) {
-        const moto = secondaryVehicle.motorcycle;
-        const dataCriacaoAntiga = moto.data_ultima_mov
-          ? new Date(new Date(moto.data_ultima_mov).getTime() - 86400000)
-          : new Date(new Date().getTime() - 86400000);
-
-        await tx.motorcycle.create({
-          data: {
-            placa: moto.placa,
-            chassi: moto.chassi,
-            renavam: moto.renavam,
-            modelo: moto.modelo,
-            marca: moto.marca,
-            ano: moto.ano,
-            cor: moto.cor,
-            quilometragem: moto.quilometragem,
-            status: 'active',
-            codigo_cs: moto.codigo_cs,
-            tipo: moto.tipo,
-            valor_semanal: moto.valor_semanal,
-            data_ultima_mov: new Date(),
-            data_criacao: dataCriacaoAntiga,
-            city_id: moto.city_id,
-            franchisee_id: moto.franchisee_id,
-            observacoes: `Aditivo encerrado - Veículo reserva devolvido e disponível`,
-          },
-        });
-      }
-
       return updated;
     });
 
@@ -915,7 +861,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
 
     // Buscar veiculo secundario
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: true,
         motorcycle: true,
@@ -958,12 +904,11 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
       });
 
       // 2. Liberar a moto (voltar para 'active')
-      await tx.motorcycle.update({
-        where: { id: secondaryVehicle.motorcycle_id },
-        data: {
-          status: 'active',
-          data_ultima_mov: new Date(),
-        },
+      await motorcycleStatusService.transition(tx, secondaryVehicle.motorcycle_id, 'active', {
+        reason: 'Aditivo cancelado - Veículo reserva liberado',
+        userId: context.userId,
+        source: 'secondary_vehicle',
+        fromStatuses: RENTED_STATUSES,
       });
 
       return updated;
@@ -1027,7 +972,7 @@ const rentalSecondaryVehiclesRoutes: FastifyPluginAsync = async (app) => {
     const { rentalId, id } = request.params as { rentalId: string; id: string };
 
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: {
           include: {
@@ -1265,7 +1210,7 @@ CPF:`;
 
     // Buscar veiculo secundario com todos os dados necessarios
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: {
           include: {
@@ -1319,39 +1264,10 @@ CPF:`;
     const locadorEndereco = secondaryVehicle.rental?.franchisee?.endereco || '___________________________________';
     const locadorCidade = secondaryVehicle.rental?.city?.name || '_______________';
 
-    // Buscar dados completos do cliente na tabela clients (para obter CNH e endereço)
-    let clientData: {
-      cnh_number?: string | null;
-      address?: string | null;
-      number?: string | null;
-      city?: string | null;
-      state?: string | null;
-      zip_code?: string | null;
-    } | null = null;
-    if (secondaryVehicle.rental?.client_cpf) {
-      // Limpar CPF para busca (remover formatação)
-      const cpfLimpo = secondaryVehicle.rental.client_cpf.replace(/\D/g, '');
-      const cpfFormatado = secondaryVehicle.rental.client_cpf;
-
-      // Buscar pelo CPF (com ou sem formatação)
-      clientData = await prisma.client.findFirst({
-        where: {
-          OR: [
-            { cpf: cpfLimpo },
-            { cpf: cpfFormatado },
-            { cpf: { contains: cpfLimpo } },
-          ],
-        },
-        select: {
-          cnh_number: true,
-          address: true,
-          number: true,
-          city: true,
-          state: true,
-          zip_code: true,
-        },
-      });
-    }
+    // Dados completos do cliente vinculado à locação (para obter CNH e endereço)
+    const clientData = secondaryVehicle.rental
+      ? await rentalClientService.findForRental(secondaryVehicle.rental)
+      : null;
 
     // Montar endereço completo do cliente
     const buildClientAddress = (): string => {
@@ -1599,7 +1515,7 @@ CPF:`;
     const { termo_aditivo_url } = request.body as { termo_aditivo_url: string };
 
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
     });
 
     if (!secondaryVehicle) {
@@ -1676,7 +1592,7 @@ CPF:`;
     };
 
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
     });
 
     if (!secondaryVehicle) {
@@ -1711,12 +1627,12 @@ CPF:`;
 
   /**
    * POST /api/rentals/:rentalId/secondary-vehicles/:id/send-for-signature
-   * Enviar termo aditivo para assinatura via PlugSign
+   * Enviar termo aditivo para assinatura (PlugSign ou BeSign, conforme a cidade)
    */
   app.post('/:rentalId/secondary-vehicles/:id/send-for-signature', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Enviar termo aditivo para assinatura via PlugSign (Cliente + Franqueado)',
+      description: 'Enviar termo aditivo para assinatura (PlugSign ou BeSign, conforme a cidade) (Cliente + Franqueado)',
       tags: ['Veiculos Secundarios'],
       security: [{ bearerAuth: [] }],
       params: {
@@ -1788,7 +1704,7 @@ CPF:`;
 
     // Buscar veiculo secundario
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: {
           include: {
@@ -1815,230 +1731,70 @@ CPF:`;
       throw new BadRequestError('Este termo aditivo ja foi enviado para assinatura. ID: ' + secondaryVehicle.signature_request_id);
     }
 
-    // Buscar token do PlugSign
-    let apiToken: string | null = null;
-
-    if (env.PLUGSIGN_API_KEY && env.PLUGSIGN_API_KEY.length >= 50) {
-      apiToken = env.PLUGSIGN_API_KEY;
-      logger.info('PlugSign (Termo Aditivo): usando token do .env');
-    }
-
-    if (!apiToken && secondaryVehicle.rental?.city_id) {
-      const city = await prisma.city.findUnique({
-        where: { id: secondaryVehicle.rental.city_id },
-        select: { plugsign_token: true, name: true },
-      });
-
-      if (city?.plugsign_token && city.plugsign_token.length >= 50) {
-        apiToken = city.plugsign_token;
-        logger.info({ cidade: city.name }, 'PlugSign (Termo Aditivo): usando token da cidade');
-      }
-    }
-
-    if (!apiToken) {
-      const appUser = await prisma.appUser.findUnique({
-        where: { id: user.userId },
-        select: { city_id: true },
-      });
-
-      if (appUser?.city_id) {
-        const userCity = await prisma.city.findUnique({
-          where: { id: appUser.city_id },
-          select: { plugsign_token: true, name: true },
-        });
-
-        if (userCity?.plugsign_token && userCity.plugsign_token.length >= 50) {
-          apiToken = userCity.plugsign_token;
-          logger.info({ cidade: userCity.name }, 'PlugSign (Termo Aditivo): usando token da cidade do usuario');
-        }
-      }
-    }
-
-    if (!apiToken) {
-      throw new ServiceUnavailableError('Token PlugSign nao encontrado');
-    }
-
-    if (!env.PLUGSIGN_API_URL) {
-      throw new ServiceUnavailableError('PlugSign API URL nao configurada');
-    }
-
-    try {
-      // Baixar o PDF e converter para BASE64
-      logger.info({ pdfUrl }, 'Baixando PDF do termo aditivo');
-
-      const pdfResponse = await axios.get(pdfUrl, {
-        responseType: 'arraybuffer',
-        timeout: 30000,
-      });
-
-      const pdfBase64 = Buffer.from(pdfResponse.data).toString('base64');
-
-      // Preparar payload para o PlugSign
-      const filename = `termo_aditivo_${secondaryVehicle.motorcycle?.placa || id}.pdf`;
-      const plugSignPayload: Record<string, any> = {
-        file: `data:application/pdf;name=${filename};base64,${pdfBase64}`,
-        name: `Termo Aditivo - ${secondaryVehicle.motorcycle?.placa || 'Veiculo Secundario'}`,
-        email: signers.map(s => s.email),
-        message: message || `Por favor, assine o Termo Aditivo de adicao de veiculo secundario (${secondaryVehicle.motorcycle?.placa}) a locacao.`,
-      };
-
-      if (deadline_at) {
-        plugSignPayload.deadline_at = deadline_at;
-      }
+    const provider = await signatureService.getProvider({
+      cityId: secondaryVehicle.rental?.city_id,
+      userId: user.userId,
+    });
 
-      logger.info({ id, signersCount: signers.length }, 'Enviando termo aditivo para PlugSign');
-
-      const baseUrl = env.PLUGSIGN_API_URL!.endsWith('/api')
-        ? env.PLUGSIGN_API_URL
-        : `${env.PLUGSIGN_API_URL}/api`;
-      const uploadUrl = `${baseUrl}/files/upload/requests`;
-
-      const response = await axios.post(
-        uploadUrl,
-        plugSignPayload,
-        {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          },
-          timeout: 60000,
-        }
-      );
+    // Baixar o PDF e enviar para o provedor de assinatura
+    logger.info({ pdfUrl, provider: provider.name }, 'Baixando PDF do termo aditivo');
+    const pdf = await signatureService.fetchPdf(pdfUrl);
 
-      const plugSignResponse = response.data;
-
-      // Log completo da resposta do PlugSign para debug
-      logger.info({
-        plugSignResponse: JSON.stringify(plugSignResponse),
-        dataKeys: plugSignResponse.data ? Object.keys(plugSignResponse.data) : [],
-        rootKeys: Object.keys(plugSignResponse),
-        // Log campos específicos para identificar o document_key
-        possibleDocKeys: {
-          'data.document': plugSignResponse.data?.document, // CAMPO PRINCIPAL!
-          'document': plugSignResponse.document,
-          'data.document_key': plugSignResponse.data?.document_key,
-          'data.file_key': plugSignResponse.data?.file_key,
-          'data.file?.key': plugSignResponse.data?.file?.key,
-          'data.file?.document_key': plugSignResponse.data?.file?.document_key,
-          'data.files[0]?.key': plugSignResponse.data?.files?.[0]?.key,
-          'data.files[0]?.document_key': plugSignResponse.data?.files?.[0]?.document_key,
-          'document_key': plugSignResponse.document_key,
-          'file_key': plugSignResponse.file_key,
-          'data.key': plugSignResponse.data?.key,
-          'data.id': plugSignResponse.data?.id,
-        }
-      }, 'PlugSign: resposta completa');
-
-      // Extrair IDs da resposta - PlugSign pode retornar em diferentes formatos
-      const requestId = plugSignResponse.data?.request_key ||
-                        plugSignResponse.data?.request_id ||
-                        plugSignResponse.data?.id ||
-                        plugSignResponse.request_key ||
-                        plugSignResponse.key ||
-                        plugSignResponse.id;
-
-      // A chave do documento para download - CRITICAL: buscar em todos os locais possíveis
-      // IMPORTANTE: O PlugSign usa o campo 'document' para a chave de download do arquivo!
-      const documentKey = plugSignResponse.data?.document || // Campo principal!
-                          plugSignResponse.document ||
-                          plugSignResponse.data?.document_key ||
-                          plugSignResponse.data?.file_key ||
-                          plugSignResponse.data?.file?.key ||
-                          plugSignResponse.data?.file?.document_key ||
-                          plugSignResponse.data?.files?.[0]?.key ||
-                          plugSignResponse.data?.files?.[0]?.document_key ||
-                          plugSignResponse.document_key ||
-                          plugSignResponse.file_key ||
-                          plugSignResponse.data?.key ||
-                          null; // NAO usar fallback para requestId - queremos saber se está undefined
-
-      if (!requestId) {
-        logger.error({ response: plugSignResponse }, 'PlugSign nao retornou um ID de documento');
-        throw new BadRequestError('PlugSign nao retornou um ID de documento valido');
-      }
+    logger.info({ id, signersCount: signers.length }, 'Enviando termo aditivo para assinatura');
 
-      // Converter para string (PlugSign pode retornar número ou string)
-      const signatureRequestIdStr = String(requestId);
-      const documentKeyStr = documentKey ? String(documentKey) : signatureRequestIdStr;
-
-      // IMPORTANTE: Logar se não encontrou document_key separado
-      if (!documentKey) {
-        logger.warn({
-          requestId: signatureRequestIdStr,
-          message: 'PlugSign NAO retornou document_key separado! Usando requestId como fallback.',
-          response: JSON.stringify(plugSignResponse),
-        }, 'PlugSign: document_key nao encontrado na resposta');
-      }
-
-      logger.info({
-        requestId: signatureRequestIdStr,
-        documentKey: documentKeyStr,
-        documentKeyFound: !!documentKey,
-      }, 'PlugSign: IDs extraidos');
+    const result = await provider.sendDocument({
+      pdf,
+      filename: `termo_aditivo_${secondaryVehicle.motorcycle?.placa || id}.pdf`,
+      name: `Termo Aditivo - ${secondaryVehicle.motorcycle?.placa || 'Veiculo Secundario'}`,
+      signers,
+      message: message || `Por favor, assine o Termo Aditivo de adicao de veiculo secundario (${secondaryVehicle.motorcycle?.placa}) a locacao.`,
+      deadlineAt: deadline_at,
+    });
 
-      // Atualizar o veiculo secundario com os IDs do PlugSign
-      const updatedSecondaryVehicle = await prisma.rentalSecondaryVehicle.update({
-        where: { id },
-        data: {
-          signature_request_id: signatureRequestIdStr,
-          document_key: documentKeyStr,
-          termo_status: 'pending_signature',
-        },
-        include: {
-          motorcycle: {
-            select: {
-              id: true,
-              placa: true,
-              modelo: true,
-              marca: true,
-            },
+    // Atualizar o veiculo secundario com os IDs do provedor
+    const updatedSecondaryVehicle = await prisma.rentalSecondaryVehicle.update({
+      where: { id },
+      data: {
+        signature_request_id: result.requestId,
+        document_key: result.documentKey,
+        termo_status: 'pending_signature',
+      },
+      include: {
+        motorcycle: {
+          select: {
+            id: true,
+            placa: true,
+            modelo: true,
+            marca: true,
           },
         },
-      });
-
-      logger.info({
-        id,
-        signatureRequestId: signatureRequestIdStr,
-      }, 'Termo aditivo enviado para assinatura com sucesso');
+      },
+    });
 
-      return reply.status(200).send({
-        success: true,
-        data: {
-          secondaryVehicle: updatedSecondaryVehicle,
-          signature_request_id: signatureRequestIdStr,
-          plugsign_response: plugSignResponse,
-        },
-        message: 'Termo aditivo enviado para assinatura com sucesso',
-      });
-    } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        logger.error({
-          status: error.response?.status,
-          data: error.response?.data,
-          message: error.message,
-        }, 'Erro ao enviar termo aditivo para PlugSign');
-
-        const errorMessage = error.response?.data?.message ||
-                            error.response?.data?.error ||
-                            'Erro ao comunicar com o PlugSign';
-
-        throw new BadRequestError(`Erro PlugSign: ${errorMessage}`);
-      }
+    logger.info({
+      id,
+      signatureRequestId: result.requestId,
+    }, 'Termo aditivo enviado para assinatura com sucesso');
 
-      logger.error({ error }, 'Erro inesperado ao enviar termo aditivo para assinatura');
-      throw error;
-    }
+    return reply.status(200).send({
+      success: true,
+      data: {
+        secondaryVehicle: updatedSecondaryVehicle,
+        signature_request_id: result.requestId,
+        plugsign_response: result.raw as Record<string, unknown>,
+      },
+      message: 'Termo aditivo enviado para assinatura com sucesso',
+    });
   });
 
   /**
    * GET /api/rentals/:rentalId/secondary-vehicles/:id/download-signed
-   * Baixar o termo aditivo assinado do PlugSign
+   * Baixar o termo aditivo assinado do provedor de assinatura
    */
   app.get('/:rentalId/secondary-vehicles/:id/download-signed', {
     preHandler: [authMiddleware, rbac()],
     schema: {
-      description: 'Baixar o termo aditivo assinado do PlugSign',
+      description: 'Baixar o termo aditivo assinado do provedor de assinatura',
       tags: ['Veiculos Secundarios'],
       security: [{ bearerAuth: [] }],
       params: {
@@ -2066,7 +1822,7 @@ CPF:`;
 
     // Buscar veiculo secundario
     const secondaryVehicle = await prisma.rentalSecondaryVehicle.findFirst({
-      where: { id, rental_id: rentalId },
+      where: { id, rental_id: rentalId, deleted_at: null },
       include: {
         rental: {
           include: { city: true },
@@ -2089,293 +1845,48 @@ CPF:`;
       return reply.redirect(secondaryVehicle.signed_file_url);
     }
 
-    // Buscar token do PlugSign
-    let apiToken: string | null = null;
-
-    if (env.PLUGSIGN_API_KEY && env.PLUGSIGN_API_KEY.length >= 50) {
-      apiToken = env.PLUGSIGN_API_KEY;
-    } else if (secondaryVehicle.rental?.city_id) {
-      const city = await prisma.city.findUnique({
-        where: { id: secondaryVehicle.rental.city_id },
-        select: { plugsign_token: true },
-      });
-      if (city?.plugsign_token && city.plugsign_token.length >= 50) {
-        apiToken = city.plugsign_token;
-      }
-    }
-
-    if (!apiToken) {
-      throw new ServiceUnavailableError('Token PlugSign nao encontrado');
-    }
+    const provider = await signatureService.getProvider({
+      cityId: secondaryVehicle.rental?.city_id,
+      userId: user.userId,
+    });
 
-    const requestId = secondaryVehicle.signature_request_id;
-    const documentKey = secondaryVehicle.document_key || requestId;
+    const documentKey = secondaryVehicle.document_key || secondaryVehicle.signature_request_id;
     const placaMoto = secondaryVehicle.motorcycle?.placa || '';
 
     logger.info({
       secondaryVehicleId: id,
-      requestId,
+      requestId: secondaryVehicle.signature_request_id,
       documentKey,
       placaMoto,
+      provider: provider.name,
     }, 'Iniciando download do documento assinado');
 
-    // Lista de endpoints para tentar download
-    const downloadEndpoints: string[] = [];
-    let fileKeyFromList: string | null = null;
-
-    // ESTRATEGIA 1: Listar ARQUIVOS (files) para encontrar o document_key correto
-    try {
-      const filesUrl = 'https://app.plugsign.com.br/api/files';
-      logger.info({ filesUrl }, 'PlugSign: listando arquivos');
-
-      const filesResponse = await axios.get(filesUrl, {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Accept': 'application/json',
-        },
-        timeout: 30000,
-      });
+    const { buffer, documentKey: discoveredKey, status } = await provider.downloadSigned({
+      requestId: secondaryVehicle.signature_request_id,
+      documentKey,
+      searchHints: [placaMoto, 'termo aditivo', 'termo_aditivo'],
+    });
 
-      const files = filesResponse.data?.data || filesResponse.data || [];
-
-      if (Array.isArray(files) && files.length > 0) {
-        logger.info({ totalFiles: files.length }, 'PlugSign: arquivos listados');
-
-        for (const file of files) {
-          const fileId = String(file.id || '');
-          const fileKey = file.key || file.document_key || file.file_key || '';
-          const fileName = file.name || file.document_name || file.file_name || '';
-          const fileRequestId = String(file.request_id || file.requestId || '');
-
-          // Verificar se e o arquivo correto (por request_id, nome ou placa)
-          if (fileRequestId === requestId ||
-              fileId === requestId ||
-              (placaMoto && fileName.toLowerCase().includes(placaMoto.toLowerCase())) ||
-              fileName.toLowerCase().includes('termo aditivo') ||
-              fileName.toLowerCase().includes('termo_aditivo')) {
-
-            logger.info({
-              foundFile: { id: fileId, key: fileKey, name: fileName, request_id: fileRequestId }
-            }, 'PlugSign: arquivo encontrado na lista');
-
-            // Usar o document_key ou key do arquivo
-            if (fileKey) {
-              fileKeyFromList = String(fileKey);
-              // Adicionar no inicio da lista de endpoints (prioridade)
-              downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKeyFromList}`);
-              logger.info({ documentKey: fileKeyFromList }, 'PlugSign: document_key extraido do arquivo');
-            }
-
-            // Extrair URL de download se existir
-            const downloadUrl = file.download_url || file.signed_url || file.url;
-            if (downloadUrl) {
-              downloadEndpoints.unshift(downloadUrl);
-            }
-
-            break;
-          }
-        }
-
-        if (!fileKeyFromList) {
-          const fileNames = files.map((f: any) => ({
-            id: f.id,
-            key: f.key || f.document_key,
-            name: f.name || f.document_name,
-            request_id: f.request_id,
-          }));
-          logger.info({ fileNames, searchingFor: { requestId, placaMoto } }, 'PlugSign: arquivos disponiveis (nenhum correspondente)');
-        }
-      }
-    } catch (filesError) {
-      logger.warn({ error: (filesError as any).message }, 'PlugSign: nao foi possivel listar arquivos');
+    // Atualizar document_key descoberto e status de assinatura no banco
+    const updateData: Record<string, unknown> = {};
+    if (discoveredKey && discoveredKey !== secondaryVehicle.document_key) {
+      updateData.document_key = discoveredKey;
     }
-
-    // ESTRATEGIA 2: Listar REQUESTS para encontrar o file_key
-    if (!fileKeyFromList) {
-      try {
-        const requestsUrl = 'https://app.plugsign.com.br/api/requests';
-        logger.info({ requestsUrl }, 'PlugSign: listando requests');
-
-        const requestsResponse = await axios.get(requestsUrl, {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Accept': 'application/json',
-          },
-          timeout: 30000,
-        });
-
-        const requests = requestsResponse.data?.data || requestsResponse.data || [];
-
-        if (Array.isArray(requests) && requests.length > 0) {
-          logger.info({ totalRequests: requests.length }, 'PlugSign: requests listados');
-
-          for (const req of requests) {
-            const reqId = String(req.id || req.key || req.request_key || '');
-            const reqName = req.name || req.document_name || '';
-
-            if (reqId === requestId ||
-                (placaMoto && reqName.toLowerCase().includes(placaMoto.toLowerCase()))) {
-
-              logger.info({ foundRequest: JSON.stringify(req) }, 'PlugSign: request encontrado');
-
-              // IMPORTANTE: O campo 'document' contém a chave do arquivo para download!
-              const fk = req.document || req.file_key || req.document_key || req.files?.[0]?.key || req.files?.[0]?.document_key;
-              if (fk) {
-                fileKeyFromList = String(fk);
-                downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKeyFromList}`);
-                logger.info({ documentKey: fileKeyFromList }, 'PlugSign: document_key extraido do request (campo document)');
-
-                // Atualizar o document_key no banco para não precisar buscar na lista novamente
-                if (fileKeyFromList !== documentKey) {
-                  await prisma.rentalSecondaryVehicle.update({
-                    where: { id },
-                    data: { document_key: fileKeyFromList },
-                  });
-                  logger.info({ id, oldKey: documentKey, newKey: fileKeyFromList }, 'PlugSign: document_key atualizado no banco');
-                }
-              }
-              break;
-            }
-          }
-        }
-      } catch (listError) {
-        logger.warn({ error: (listError as any).message }, 'PlugSign: nao foi possivel listar requests');
-      }
+    if (status === 'signed' && secondaryVehicle.termo_status !== 'signed') {
+      updateData.termo_status = 'signed';
+      updateData.signed_at = new Date();
     }
-
-    // ESTRATEGIA 3: Obter info do request especifico para encontrar URL do documento assinado
-    let isDocumentSigned = false;
-    try {
-      const infoUrl = `https://app.plugsign.com.br/api/requests/${requestId}`;
-      logger.info({ infoUrl }, 'PlugSign: obtendo info do request');
-
-      const infoResponse = await axios.get(infoUrl, {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Accept': 'application/json',
-        },
-        timeout: 30000,
+    if (Object.keys(updateData).length > 0) {
+      await prisma.rentalSecondaryVehicle.update({
+        where: { id },
+        data: updateData,
       });
-
-      logger.info({
-        status: infoResponse.status,
-        data: JSON.stringify(infoResponse.data).substring(0, 500),
-      }, 'PlugSign: info do request');
-
-      // Extrair URL de download da resposta se existir
-      const data = infoResponse.data?.data || infoResponse.data;
-
-      // Verificar status da assinatura
-      const signatureStatus = (data?.status || data?.signature_status || '').toLowerCase();
-      logger.info({ signatureStatus }, 'PlugSign: status da assinatura');
-
-      // Verificar se o documento foi assinado
-      // PlugSign pode usar diferentes valores para indicar assinatura completa
-      isDocumentSigned = ['signed', 'completed', 'finished', 'done', 'assinado', 'complete'].includes(signatureStatus);
-
-      if (!isDocumentSigned && signatureStatus === 'pending') {
-        logger.info({ signatureStatus }, 'PlugSign: documento ainda nao foi assinado');
-        throw new BadRequestError('O documento ainda nao foi assinado. Aguarde a assinatura de todos os signatarios.');
-      }
-
-      // Procurar URL do documento assinado
-      const signedFileUrl = data?.signed_file_url ||
-                            data?.signed_url ||
-                            data?.signed_document_url ||
-                            data?.download_url ||
-                            data?.file_url;
-
-      if (signedFileUrl) {
-        logger.info({ signedFileUrl }, 'PlugSign: URL do arquivo assinado encontrada');
-        downloadEndpoints.unshift(signedFileUrl);
-      }
-
-      // Extrair file_key se existir
-      const fileKey = data?.file_key || data?.document || data?.files?.[0]?.key || data?.files?.[0]?.document_key;
-      if (fileKey && fileKey !== documentKey) {
-        logger.info({ fileKey }, 'PlugSign: file_key encontrado no request');
-        downloadEndpoints.unshift(`https://app.plugsign.com.br/api/files/download/${fileKey}`);
-
-        // Atualizar o document_key no banco
-        await prisma.rentalSecondaryVehicle.update({
-          where: { id },
-          data: { document_key: String(fileKey) },
-        });
-      }
-
-      // Se documento foi assinado, atualizar status no banco
-      if (isDocumentSigned && secondaryVehicle.termo_status !== 'signed') {
-        await prisma.rentalSecondaryVehicle.update({
-          where: { id },
-          data: {
-            termo_status: 'signed',
-            signed_at: new Date(),
-          },
-        });
-        logger.info({ id }, 'PlugSign: status atualizado para signed no banco');
-      }
-    } catch (infoError) {
-      // Se for BadRequestError (documento não assinado), propagar o erro
-      if (infoError instanceof BadRequestError) {
-        throw infoError;
-      }
-      logger.warn({ error: (infoError as any).message }, 'PlugSign: nao foi possivel obter info do request');
     }
 
-    // Adicionar endpoints padrão - PRIORIZAR os endpoints de documento ASSINADO
-    downloadEndpoints.push(
-      // Endpoints especificos para documento assinado (maior prioridade)
-      `https://app.plugsign.com.br/api/requests/${requestId}/file/signed`,
-      `https://app.plugsign.com.br/api/requests/${requestId}/files/signed`,
-      `https://app.plugsign.com.br/api/files/${documentKey}/signed`,
-      `https://app.plugsign.com.br/api/files/download/${documentKey}-signed`,
-      `https://app.plugsign.com.br/api/files/${documentKey}-signed/download`,
-      // Endpoints de download geral (fallback)
-      `https://app.plugsign.com.br/api/requests/${requestId}/download`,
-      `https://app.plugsign.com.br/api/requests/${requestId}/pdf`,
-      `https://app.plugsign.com.br/api/files/download/${documentKey}`,
-      `https://app.plugsign.com.br/api/files/${documentKey}/download`,
-      `https://app.plugsign.com.br/api/documents/${requestId}/download`,
-      `https://app.plugsign.com.br/api/documents/${requestId}/pdf`,
-    );
-
-    // Tentar cada endpoint de download
-    for (const endpoint of downloadEndpoints) {
-      try {
-        logger.info({ endpoint }, 'PlugSign: tentando download do termo aditivo');
-
-        const response = await axios.get(endpoint, {
-          headers: {
-            'Authorization': `Bearer ${apiToken}`,
-            'Accept': 'application/pdf, application/octet-stream',
-          },
-          responseType: 'arraybuffer',
-          timeout: 60000,
-        });
-
-        // Verificar se e um PDF valido
-        const buffer = Buffer.from(response.data);
-        if (buffer.length > 4 && buffer.toString('utf8', 0, 4) === '%PDF') {
-          logger.info({ endpoint, size: buffer.length }, 'PlugSign: download do termo aditivo bem-sucedido');
-
-          reply.header('Content-Type', 'application/pdf');
-          reply.header('Content-Disposition', `attachment; filename="termo_aditivo_assinado_${secondaryVehicle.motorcycle?.placa || id}.pdf"`);
-
-          return reply.send(buffer);
-        }
-
-        logger.warn({ endpoint }, 'PlugSign: resposta nao e um PDF valido');
-      } catch (error) {
-        const axiosError = error as any;
-        logger.info({
-          endpoint,
-          status: axiosError.response?.status,
-          message: axiosError.message,
-        }, 'PlugSign: endpoint falhou');
-      }
-    }
+    reply.header('Content-Type', 'application/pdf');
+    reply.header('Content-Disposition', `attachment; filename="termo_aditivo_assinado_${placaMoto || id}.pdf"`);
 
-    throw new BadRequestError('Nao foi possivel baixar o documento assinado. Verifique se o documento foi assinado.');
+    return reply.send(buffer);
   });
 };
 
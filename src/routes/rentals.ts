@@ -1,12 +1,27 @@
 import { FastifyPluginAsync } from 'fastify';
+import { Prisma, RentalPlan } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { auditService, AuditActions } from '../middleware/audit.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { realtimeService } from '../websocket/index.js';
 import { getContext, getUser } from '../utils/context.js';
+import { identifierSchema, optionalIdentifierSchema } from '../utils/identifiers.js';
+import { AuthContext } from '../types/index.js';
+import { rentalService, CreateRentalInput } from '../services/rentalService.js';
+import { rentalChargeService } from '../services/rentalChargeService.js';
+import { pricingService } from '../services/pricingService.js';
+import { rentalPlanService } from '../services/rentalPlanService.js';
+import { rentalPauseService } from '../services/rentalPauseService.js';
+import { rentalRenewalService } from '../services/rentalRenewalService.js';
+import { overdueReturnService } from '../services/overdueReturnService.js';
+import { rentalClientService } from '../services/rentalClientService.js';
+import { rentalArchiveService } from '../services/rentalArchiveService.js';
+import { motorcycleStatusService, RENTED_STATUSES } from '../services/motorcycleStatusService.js';
+import { motorcycleDocumentService } from '../services/motorcycleDocumentService.js';
 
 // Helper para validar datas
 function isValidDate(date: Date | null | undefined): boolean {
@@ -20,6 +35,8 @@ const rentalResponseSchema = {
   type: 'object',
   properties: {
     id: { type: 'string', format: 'uuid' },
+    client_id: { type: 'string', format: 'uuid', nullable: true },
+    client_snapshot: { type: 'object', nullable: true, additionalProperties: true },
     client_name: { type: 'string' },
     client_cpf: { type: 'string' },
     client_email: { type: 'string', format: 'email', nullable: true },
@@ -50,13 +67,19 @@ const rentalResponseSchema = {
     deposit_amount: { type: 'number', nullable: true },
     total_days: { type: 'number', nullable: true },
     total_amount: { type: 'number', nullable: true },
+    pricing_breakdown: { type: 'object', nullable: true, additionalProperties: true },
     lead_source: { type: 'string', enum: ['instagram_proprio', 'indicacao', 'espontaneo', 'google'], nullable: true },
     payment_status: { type: 'string', nullable: true },
+    return_overdue_since: { type: ['string', 'null'], format: 'date-time', nullable: true },
+    return_overdue_reason: { type: 'string', nullable: true },
+    late_fee_days: { type: 'number', nullable: true },
+    late_fee_amount: { type: 'number', nullable: true },
     notes: { type: 'string', nullable: true },
     status: { type: 'string', enum: ['active', 'completed', 'cancelled', 'paused'] },
     created_by: { type: 'string', format: 'uuid', nullable: true },
     created_at: { type: ['string', 'null'], format: 'date-time', nullable: true },
     updated_at: { type: ['string', 'null'], format: 'date-time', nullable: true },
+    client: { type: 'object', nullable: true, additionalProperties: true },
     motorcycle: { type: 'object', nullable: true, additionalProperties: true },
     franchisee: { type: 'object', nullable: true, additionalProperties: true },
     city: { type: 'object', nullable: true, additionalProperties: true },
@@ -95,11 +118,13 @@ const errorResponseSchema = {
 };
 
 // Schemas de validação
+// Com client_id os dados do cliente vêm do cadastro; sem ele, nome/CPF/telefone são obrigatórios
 const createRentalSchema = z.object({
-  client_name: z.string().min(2, 'Nome do cliente é obrigatório'),
-  client_cpf: z.string().min(11, 'CPF é obrigatório'),
+  client_id: z.string().uuid('ID do cliente inválido').optional().nullable(),
+  client_name: z.string().min(2, 'Nome do cliente é obrigatório').optional(),
+  client_cpf: identifierSchema('cpf_cnpj').optional(),
   client_email: z.string().email().optional().nullable(),
-  client_phone: z.string().min(8, 'Telefone é obrigatório'),
+  client_phone: z.string().min(8, 'Telefone é obrigatório').optional(),
   client_address: z.string().optional().nullable(),
   client_address_street: z.string().optional().nullable(),
   client_address_number: z.string().optional().nullable(),
@@ -108,7 +133,7 @@ const createRentalSchema = z.object({
   client_address_zip_code: z.string().optional().nullable(),
   driver_id: z.string().uuid().optional().nullable(),
   driver_name: z.string().optional().nullable(),
-  driver_cpf: z.string().optional().nullable(),
+  driver_cpf: optionalIdentifierSchema('cpf'),
   driver_phone: z.string().optional().nullable(),
   driver_cnh: z.string().optional().nullable(),
   driver_address_street: z.string().optional().nullable(),
@@ -131,13 +156,243 @@ const createRentalSchema = z.object({
   notes: z.string().optional().nullable(),
 });
 
+// Status não é editável aqui: pausa, retomada, finalização e cancelamento têm rotas próprias
 const updateRentalSchema = createRentalSchema.partial().extend({
-  status: z.enum(['active', 'completed', 'cancelled', 'paused']).optional(),
   km_final: z.number().int().min(0).optional().nullable(),
   total_days: z.number().int().min(0).optional().nullable(),
   total_amount: z.number().min(0).optional().nullable(),
 });
 
+const dateSchema = z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/));
+
+const completeRentalSchema = z.object({
+  km_final: z.number().int().min(0).optional().nullable(),
+  notes: z.string().optional().nullable(),
+  return_date: dateSchema.optional().nullable(),
+  discount_amount: z.number().min(0).optional().nullable(),
+  discount_percentage: z.number().min(0).max(100).optional().nullable(),
+});
+
+const quoteSchema = z.object({
+  plan_id: z.string().uuid().optional().nullable(),
+  daily_rate: z.number().positive('Valor da diária deve ser positivo').optional().nullable(),
+  start_date: dateSchema,
+  end_date: dateSchema,
+  return_date: dateSchema.optional().nullable(),
+  km_inicial: z.number().int().min(0).optional().nullable(),
+  km_final: z.number().int().min(0).optional().nullable(),
+  deposit_amount: z.number().min(0).optional().nullable(),
+  discount_amount: z.number().min(0).optional().nullable(),
+  discount_percentage: z.number().min(0).max(100).optional().nullable(),
+}).refine(data => data.plan_id || data.daily_rate, {
+  message: 'Informe o plano ou o valor da diária',
+});
+
+const pauseRentalSchema = z.object({
+  reason: z.string().min(1, 'Motivo da pausa é obrigatório'),
+  expected_return_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data prevista de retorno inválida (YYYY-MM-DD)'),
+});
+
+const overdueReturnsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  city_id: z.string().uuid().optional(),
+  franchisee_id: z.string().uuid().optional(),
+  reason: z.enum(['past_end_date', 'motorcycle_not_returned']).optional(),
+});
+
+const archivedRentalsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  city_id: z.string().uuid().optional(),
+  franchisee_id: z.string().uuid().optional(),
+});
+
+const purgeArchivedSchema = z.object({
+  dry_run: z.boolean().default(true),
+});
+
+const clientBackfillSchema = z.object({
+  dry_run: z.boolean().default(true),
+  franchisee_id: z.string().uuid('ID do franqueado inválido').optional(),
+});
+
+const extendRentalSchema = z.object({
+  type: z.enum(['extension', 'renewal']).default('extension'),
+  new_end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Nova data de término inválida (YYYY-MM-DD)'),
+  plan_id: z.string().uuid('ID do plano inválido').optional().nullable(),
+  daily_rate: z.number().positive('Valor da diária deve ser positivo').optional().nullable(),
+  template_id: z.string().uuid('ID do template inválido').optional().nullable(),
+  contract_data: z.record(z.any()).optional(),
+  notes: z.string().optional().nullable(),
+});
+
+const extendRentalBodySchema = {
+  type: 'object',
+  required: ['new_end_date'],
+  properties: {
+    type: { type: 'string', enum: ['extension', 'renewal'], description: 'Prorrogação (mesmo plano e diária) ou renovação (permite novo plano/diária)' },
+    new_end_date: { type: 'string', format: 'date', description: 'Nova data de término (YYYY-MM-DD)' },
+    plan_id: { type: 'string', format: 'uuid', nullable: true, description: 'Novo plano (apenas renovação)' },
+    daily_rate: { type: 'number', nullable: true, description: 'Nova diária (apenas renovação)' },
+    template_id: { type: 'string', format: 'uuid', nullable: true, description: 'Template do aditivo (padrão: template publicado do tipo Anexo)' },
+    contract_data: { type: 'object', additionalProperties: true, description: 'Dados adicionais do aditivo' },
+    notes: { type: 'string', nullable: true, description: 'Observações do termo' },
+  },
+};
+
+const rentalTermResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    rental_id: { type: 'string', format: 'uuid' },
+    version: { type: 'number' },
+    type: { type: 'string', enum: ['original', 'extension', 'renewal'] },
+    start_date: { type: 'string', format: 'date' },
+    end_date: { type: 'string', format: 'date', nullable: true },
+    total_days: { type: 'number', nullable: true },
+    daily_rate: { type: 'number' },
+    plan_id: { type: 'string', format: 'uuid', nullable: true },
+    plan_snapshot: { type: 'object', nullable: true, additionalProperties: true },
+    amount: { type: 'number', nullable: true },
+    pricing_breakdown: { type: 'object', nullable: true, additionalProperties: true },
+    charges: { type: 'object', nullable: true, additionalProperties: true },
+    contract_id: { type: 'string', format: 'uuid', nullable: true },
+    contract: { type: 'object', nullable: true, additionalProperties: true },
+    notes: { type: 'string', nullable: true },
+    created_by: { type: 'string', format: 'uuid', nullable: true },
+    created_at: { type: 'string', format: 'date-time' },
+  },
+};
+
+const rentalPauseResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    rental_id: { type: 'string', format: 'uuid' },
+    reason: { type: 'string' },
+    paused_at: { type: 'string', format: 'date' },
+    expected_return_date: { type: 'string', format: 'date' },
+    resumed_at: { type: 'string', format: 'date', nullable: true },
+    paused_days: { type: 'number', nullable: true },
+    previous_motorcycle_status: { type: 'string', nullable: true },
+    suspended_payments: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    suspended_recorrentes: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    reissued_payments: { type: 'array', nullable: true, items: { type: 'object', additionalProperties: true } },
+    status: { type: 'string', enum: ['active', 'resumed'] },
+    created_by: { type: 'string', format: 'uuid', nullable: true },
+    resumed_by: { type: 'string', format: 'uuid', nullable: true },
+    created_at: { type: 'string', format: 'date-time' },
+  },
+};
+
+const pricingBreakdownSchema = {
+  type: 'object',
+  properties: {
+    plan_name: { type: 'string', nullable: true },
+    days: { type: 'number' },
+    contracted_days: { type: 'number', nullable: true },
+    paused_days: { type: 'number' },
+    billed_days: { type: 'number' },
+    late_days: { type: 'number' },
+    unused_days: { type: 'number' },
+    km_driven: { type: 'number', nullable: true },
+    km_allowance: { type: 'number', nullable: true },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          unit_price: { type: 'number' },
+          amount: { type: 'number' },
+        },
+      },
+    },
+    subtotal: { type: 'number' },
+    discount: { type: 'number' },
+    total: { type: 'number' },
+    deposit_amount: { type: 'number', nullable: true },
+    warnings: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const completeRentalBodySchema = {
+  type: 'object',
+  properties: {
+    km_final: { type: 'number', minimum: 0, description: 'Quilometragem final' },
+    notes: { type: 'string', description: 'Observações finais' },
+    return_date: { type: 'string', description: 'Data da devolução (padrão: hoje)' },
+    discount_amount: { type: 'number', minimum: 0, description: 'Desconto em valor' },
+    discount_percentage: { type: 'number', minimum: 0, maximum: 100, description: 'Desconto percentual sobre o subtotal' },
+  },
+};
+
+/**
+ * Calcular o valor de finalização da locação pelo motor de precificação
+ */
+function priceRentalCompletion(
+  rental: {
+    daily_rate: unknown;
+    start_date: Date;
+    end_date: Date | null;
+    km_inicial: number | null;
+    paused_days: number;
+    deposit_amount: unknown;
+    plan_snapshot: unknown;
+    plan: RentalPlan | null;
+  },
+  body: z.infer<typeof completeRentalSchema>
+) {
+  const returnDate = body.return_date ? new Date(body.return_date) : new Date();
+  if (!isValidDate(returnDate) || returnDate < new Date(rental.start_date)) {
+    throw new BadRequestError('Data de devolução inválida');
+  }
+
+  const breakdown = pricingService.calculate({
+    dailyRate: Number(rental.daily_rate),
+    plan: rentalPlanService.resolveForRental(rental),
+    startDate: new Date(rental.start_date),
+    endDate: rental.end_date ? new Date(rental.end_date) : null,
+    returnDate,
+    pausedDays: rental.paused_days,
+    kmInicial: rental.km_inicial,
+    kmFinal: body.km_final,
+    depositAmount: rental.deposit_amount !== null && rental.deposit_amount !== undefined ? Number(rental.deposit_amount) : null,
+    discountAmount: body.discount_amount,
+    discountPercentage: body.discount_percentage,
+  });
+
+  return { returnDate, breakdown };
+}
+
+/**
+ * Buscar locação verificando o acesso do usuário (prorrogação e histórico de termos)
+ */
+async function findRentalForExtension(id: string, context: AuthContext) {
+  const rental = await prisma.rental.findUnique({
+    where: { id, deleted_at: null },
+    select: { id: true, franchisee_id: true, city_id: true, end_date: true, plan_id: true, daily_rate: true },
+  });
+
+  if (!rental) {
+    throw new NotFoundError('Locação não encontrada');
+  }
+
+  if (!context.isMasterOrAdmin()) {
+    if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+    if (context.isRegional() && rental.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+  }
+
+  return rental;
+}
+
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
@@ -146,6 +401,7 @@ const querySchema = z.object({
   city_id: z.string().uuid().optional(),
   motorcycle_id: z.string().uuid().optional(),
   motorcycle_plate: z.string().optional(),
+  client_id: z.string().uuid().optional(),
   client_cpf: z.string().optional(),
   start_date_from: z.string().optional(),
   start_date_to: z.string().optional(),
@@ -174,6 +430,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
           city_id: { type: 'string', format: 'uuid', description: 'ID da cidade' },
           motorcycle_id: { type: 'string', format: 'uuid', description: 'ID da motocicleta' },
           motorcycle_plate: { type: 'string', description: 'Placa da motocicleta' },
+          client_id: { type: 'string', format: 'uuid', description: 'ID do cliente' },
           client_cpf: { type: 'string', description: 'CPF do cliente' },
           start_date_from: { type: 'string', format: 'date', description: 'Data início (de)' },
           start_date_to: { type: 'string', format: 'date', description: 'Data início (até)' },
@@ -202,14 +459,14 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
 
     const {
       page, limit, status, franchisee_id, city_id,
-      motorcycle_id, motorcycle_plate, client_cpf, start_date_from, start_date_to,
+      motorcycle_id, motorcycle_plate, client_id, client_cpf, start_date_from, start_date_to,
       orderBy, orderDir
     } = query.data;
 
     const context = getContext(request);
 
-    // Construir filtros
-    const where: any = {};
+    // Construir filtros (locações arquivadas ficam fora das listagens)
+    const where: any = { deleted_at: null };
 
     // Aplicar filtro baseado no role do usuário
     const roleFilter = context.getFranchiseeFilter();
@@ -221,6 +478,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     if (city_id) where.city_id = city_id;
     if (motorcycle_id) where.motorcycle_id = motorcycle_id;
     if (motorcycle_plate) where.motorcycle_plate = motorcycle_plate;
+    if (client_id) where.client_id = client_id;
     if (client_cpf) where.client_cpf = { contains: client_cpf };
 
     if (start_date_from || start_date_to) {
@@ -304,8 +562,9 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const rental = await prisma.rental.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
+        client: true,
         motorcycle: true,
         franchisee: true,
         city: true,
@@ -347,6 +606,97 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * POST /api/rentals/quote
+   * Simular o valor de uma locação antes de criá-la (orçamento do atendente)
+   */
+  app.post('/quote', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Simular o valor de uma locação pelo plano (melhor faixa tarifária, mínimo de dias, multas, km excedente e descontos)',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['start_date', 'end_date'],
+        properties: {
+          plan_id: { type: ['string', 'null'], format: 'uuid', description: 'ID do plano' },
+          daily_rate: { type: ['number', 'null'], minimum: 0, description: 'Valor da diária (padrão: diária do plano)' },
+          start_date: { type: 'string', description: 'Data de início' },
+          end_date: { type: 'string', description: 'Data prevista de devolução' },
+          return_date: { type: ['string', 'null'], description: 'Data de devolução simulada (padrão: end_date)' },
+          km_inicial: { type: ['number', 'null'], minimum: 0 },
+          km_final: { type: ['number', 'null'], minimum: 0 },
+          deposit_amount: { type: ['number', 'null'], minimum: 0 },
+          discount_amount: { type: ['number', 'null'], minimum: 0 },
+          discount_percentage: { type: ['number', 'null'], minimum: 0, maximum: 100 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: pricingBreakdownSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = quoteSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const data = body.data;
+    const context = getContext(request);
+
+    const plan = data.plan_id
+      ? await prisma.rentalPlan.findUnique({ where: { id: data.plan_id } })
+      : null;
+
+    if (data.plan_id && !plan) {
+      throw new NotFoundError('Plano não encontrado');
+    }
+    if (plan?.city_id && !context.isMasterOrAdmin() && plan.city_id !== context.cityId) {
+      throw new ForbiddenError('Plano não disponível para a sua cidade');
+    }
+
+    const startDate = new Date(data.start_date);
+    if (plan && isValidDate(startDate)) {
+      rentalPlanService.assertAvailable(plan, startDate);
+    }
+    const endDate = new Date(data.end_date);
+    const returnDate = data.return_date ? new Date(data.return_date) : endDate;
+    if (!isValidDate(startDate) || !isValidDate(endDate) || !isValidDate(returnDate)) {
+      throw new BadRequestError('Datas inválidas');
+    }
+    if (endDate < startDate || returnDate < startDate) {
+      throw new BadRequestError('Data de devolução deve ser posterior à data de início');
+    }
+
+    const breakdown = pricingService.calculate({
+      dailyRate: data.daily_rate || Number(plan!.daily_rate),
+      plan,
+      startDate,
+      endDate,
+      returnDate,
+      kmInicial: data.km_inicial,
+      kmFinal: data.km_final,
+      depositAmount: data.deposit_amount,
+      discountAmount: data.discount_amount,
+      discountPercentage: data.discount_percentage,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: breakdown,
+    });
+  });
+
   /**
    * POST /api/rentals
    * Criar nova locação
@@ -359,8 +709,9 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       security: [{ bearerAuth: [] }],
       body: {
         type: 'object',
-        required: ['client_name', 'client_phone', 'client_cpf', 'motorcycle_id', 'franchisee_id', 'start_date', 'daily_rate'],
+        required: ['motorcycle_id', 'franchisee_id', 'start_date', 'daily_rate'],
         properties: {
+          client_id: { type: ['string', 'null'], format: 'uuid', description: 'ID do cliente (dados copiados do cadastro na assinatura)' },
           client_name: { type: 'string', minLength: 2, description: 'Nome do cliente' },
           client_cpf: { type: 'string', minLength: 11, description: 'CPF do cliente' },
           client_email: { type: ['string', 'null'], format: 'email', description: 'Email do cliente' },
@@ -402,6 +753,14 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
           properties: {
             success: { type: 'boolean' },
             data: rentalResponseSchema,
+            charges: {
+              type: 'object',
+              nullable: true,
+              description: 'Cobranças Asaas agendadas (locações com plano); consulte em GET /api/asaas-payments/rental/:rentalId',
+              properties: {
+                queued: { type: 'boolean' },
+              },
+            },
           },
         },
         400: errorResponseSchema,
@@ -428,90 +787,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       data.city_id = context.cityId;
     }
 
-    // Verificar se a moto existe e está disponível
-    const motorcycle = await prisma.motorcycle.findUnique({
-      where: { id: data.motorcycle_id },
-    });
-
-    if (!motorcycle) {
-      throw new NotFoundError('Motocicleta não encontrada');
-    }
-
-    if (motorcycle.status !== 'active') {
-      throw new BadRequestError(`Motocicleta não disponível. Status atual: ${motorcycle.status}`);
-    }
-
-    // Verificar se o franqueado existe
-    const franchisee = await prisma.franchisee.findUnique({
-      where: { id: data.franchisee_id },
-    });
-
-    if (!franchisee) {
-      throw new NotFoundError('Franqueado não encontrado');
-    }
-
-    // Criar locação em transação
-    const rental = await prisma.$transaction(async (tx) => {
-      // Criar a locação
-      const newRental = await tx.rental.create({
-        data: {
-          client_name: data.client_name,
-          client_cpf: data.client_cpf,
-          client_email: data.client_email,
-          client_phone: data.client_phone,
-          client_address: data.client_address,
-          client_address_street: data.client_address_street,
-          client_address_number: data.client_address_number,
-          client_address_city: data.client_address_city,
-          client_address_state: data.client_address_state,
-          client_address_zip_code: data.client_address_zip_code,
-          driver_id: data.driver_id || null,
-          driver_name: data.driver_name || null,
-          driver_cpf: data.driver_cpf || null,
-          driver_phone: data.driver_phone || null,
-          driver_cnh: data.driver_cnh || null,
-          driver_address_street: data.driver_address_street || null,
-          driver_address_number: data.driver_address_number || null,
-          driver_address_city: data.driver_address_city || null,
-          driver_address_state: data.driver_address_state || null,
-          driver_address_zip_code: data.driver_address_zip_code || null,
-          motorcycle_id: data.motorcycle_id,
-          motorcycle_plate: motorcycle.placa,
-          franchisee_id: data.franchisee_id,
-          city_id: data.city_id || franchisee.city_id,
-          plan_id: data.plan_id,
-          attendant_id: context.userId,
-          created_by: context.userId,
-          start_date: new Date(data.start_date),
-          end_date: data.end_date ? new Date(data.end_date) : null,
-          km_inicial: data.km_inicial,
-          daily_rate: data.daily_rate,
-          deposit_amount: data.deposit_amount,
-          total_days: data.total_days,
-          total_amount: data.total_amount,
-          lead_source: data.lead_source,
-          notes: data.notes,
-          status: 'active',
-        } as any,
-        include: {
-          motorcycle: true,
-          franchisee: true,
-          city: true,
-          driver: true,
-        },
-      });
-
-      // Atualizar status da moto
-      await tx.motorcycle.update({
-        where: { id: data.motorcycle_id },
-        data: {
-          status: 'alugada',
-          data_ultima_mov: new Date(),
-        },
-      });
-
-      return newRental;
-    });
+    const rental = await rentalService.create(data as CreateRentalInput, context);
 
     await auditService.logFromRequest(
       request,
@@ -530,9 +806,12 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       });
     }
 
+    const charges = rentalService.queueInitialCharges(rental, context.userId);
+
     return reply.status(201).send({
       success: true,
       data: rental,
+      charges,
     });
   });
 
@@ -556,6 +835,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       body: {
         type: 'object',
         properties: {
+          client_id: { type: ['string', 'null'], format: 'uuid' },
           client_name: { type: ['string', 'null'], minLength: 2 },
           client_cpf: { type: ['string', 'null'], minLength: 11 },
           client_email: { type: ['string', 'null'], format: 'email' },
@@ -590,7 +870,6 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
           total_amount: { type: ['number', 'null'], minimum: 0 },
           lead_source: { type: ['string', 'null'], enum: ['instagram_proprio', 'indicacao', 'espontaneo', 'google', null] },
           notes: { type: ['string', 'null'] },
-          status: { type: 'string', enum: ['active', 'completed', 'cancelled', 'paused'] },
         },
       },
       response: {
@@ -609,6 +888,11 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
+
+    if ((request.body as { status?: unknown } | null)?.status !== undefined) {
+      throw new BadRequestError('Status da locação não é alterado aqui: use /pause, /resume, /complete ou /cancel');
+    }
+
     const body = updateRentalSchema.safeParse(request.body);
 
     if (!body.success) {
@@ -618,7 +902,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const existingRental = await prisma.rental.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: { motorcycle: true },
     });
 
@@ -635,30 +919,109 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
 
     const data = body.data;
 
-    // Se estiver mudando de moto
+    // Prazo e valor de locação em andamento só mudam pela prorrogação (parcelas, aditivo e histórico de prazos)
+    if (['active', 'paused'].includes(existingRental.status as string)) {
+      const endDate = data.end_date ? new Date(data.end_date).getTime() : null;
+      const totalAmount = existingRental.total_amount === null ? null : Number(existingRental.total_amount);
+
+      if (
+        (data.end_date !== undefined && endDate !== (existingRental.end_date?.getTime() ?? null))
+        || (data.total_days !== undefined && data.total_days !== existingRental.total_days)
+        || (data.total_amount !== undefined && data.total_amount !== totalAmount)
+      ) {
+        throw new BadRequestError('Prazo e valor de locação em andamento são alterados em /extend (prorrogação ou renovação)');
+      }
+    }
+
+    // Troca de moto: só em locação ativa, pela máquina de estados (antiga volta a disponível, nova vai para alugada)
+    let newMotorcycle: { id: string; placa: string } | null = null;
     if (data.motorcycle_id && data.motorcycle_id !== existingRental.motorcycle_id) {
-      const newMotorcycle = await prisma.motorcycle.findUnique({
+      if (existingRental.status !== 'active') {
+        throw new BadRequestError('A moto só pode ser trocada em locações ativas');
+      }
+
+      const motorcycle = await prisma.motorcycle.findUnique({
         where: { id: data.motorcycle_id },
+        select: { id: true, placa: true, status: true },
       });
 
-      if (!newMotorcycle || newMotorcycle.status !== 'active') {
+      if (!motorcycle || motorcycle.status !== 'active') {
         throw new BadRequestError('Nova motocicleta não disponível');
       }
+      await motorcycleDocumentService.assertRentable(motorcycle.id);
+      newMotorcycle = motorcycle;
     }
 
-    const rental = await prisma.rental.update({
-      where: { id },
-      data: {
-        ...data,
-        start_date: data.start_date ? new Date(data.start_date) : undefined,
-        end_date: data.end_date ? new Date(data.end_date) : undefined,
-      },
-      include: {
-        motorcycle: true,
-        franchisee: true,
-        city: true,
-        driver: true,
-      },
+    // Troca de plano: validar o novo plano e congelar suas condições
+    let planSnapshot: any;
+    if (data.plan_id !== undefined && data.plan_id !== existingRental.plan_id) {
+      planSnapshot = Prisma.DbNull;
+      if (data.plan_id) {
+        const plan = await prisma.rentalPlan.findUnique({ where: { id: data.plan_id } });
+        if (!plan) {
+          throw new NotFoundError('Plano não encontrado');
+        }
+        rentalPlanService.assertAvailable(
+          plan,
+          data.start_date ? new Date(data.start_date) : existingRental.start_date,
+          data.city_id || existingRental.city_id
+        );
+        planSnapshot = rentalPlanService.snapshot(plan);
+      }
+    }
+
+    // Troca de cliente: copiar os dados do novo cadastro e congelá-los na locação
+    let clientSnapshot: any;
+    if (data.client_id !== undefined && data.client_id !== existingRental.client_id) {
+      clientSnapshot = Prisma.DbNull;
+      if (data.client_id) {
+        const client = await rentalClientService.resolveForRental(data.client_id, context);
+        Object.assign(data, rentalClientService.toRentalFields(client));
+        clientSnapshot = rentalClientService.snapshot(client);
+      }
+    }
+
+    const rental = await prisma.$transaction(async (tx) => {
+      if (newMotorcycle) {
+        const reason = `Troca de moto da locação de ${existingRental.client_name}: ${existingRental.motorcycle_plate} por ${newMotorcycle.placa}`;
+
+        const occupied = await motorcycleStatusService.transition(tx, newMotorcycle.id, 'alugada', {
+          reason,
+          userId: context.userId,
+          source: 'rental',
+          fromStatuses: ['active'],
+        });
+        // Alugada por outra locação entre a validação e a troca
+        if (!occupied.changed) {
+          throw new BadRequestError('Nova motocicleta não disponível');
+        }
+
+        await motorcycleStatusService.transition(tx, existingRental.motorcycle_id, 'active', {
+          reason,
+          userId: context.userId,
+          source: 'rental',
+          fromStatuses: RENTED_STATUSES,
+        });
+      }
+
+      return tx.rental.update({
+        where: { id },
+        data: {
+          ...data,
+          motorcycle_plate: newMotorcycle ? newMotorcycle.placa : undefined,
+          plan_snapshot: planSnapshot,
+          client_snapshot: clientSnapshot,
+          start_date: data.start_date ? new Date(data.start_date) : undefined,
+          end_date: data.end_date ? new Date(data.end_date) : undefined,
+        },
+        include: {
+          client: true,
+          motorcycle: true,
+          franchisee: true,
+          city: true,
+          driver: true,
+        },
+      });
     });
 
     await auditService.logFromRequest(
@@ -686,12 +1049,12 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
 
   /**
    * DELETE /api/rentals/:id
-   * Excluir locação
+   * Excluir (arquivar) locação
    */
   app.delete('/:id', {
     preHandler: [authMiddleware, rbac({ allowedRoles: ['admin', 'master_br', 'regional'] })],
     schema: {
-      description: 'Excluir locação',
+      description: 'Excluir locação (arquivada junto com vistorias, distratos e veículos secundários; restaurável dentro do prazo de retenção)',
       tags: ['Locações'],
       security: [{ bearerAuth: [] }],
       params: {
@@ -707,6 +1070,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
           properties: {
             success: { type: 'boolean' },
             message: { type: 'string' },
+            restorable_until: { type: 'string', format: 'date-time' },
           },
         },
         401: errorResponseSchema,
@@ -719,7 +1083,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const rental = await prisma.rental.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: { motorcycle: true },
     });
 
@@ -734,45 +1098,8 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    // Se a locação está ativa, liberar a moto
-    if (rental.status === 'active' && rental.motorcycle) {
-      await prisma.motorcycle.update({
-        where: { id: rental.motorcycle_id },
-        data: {
-          status: 'active',
-          data_ultima_mov: new Date(),
-        },
-      });
-    }
-
-    // Excluir registros relacionados e a locação em uma transação
-    await prisma.$transaction(async (tx) => {
-      // Excluir vistorias relacionadas
-      await tx.vistoria.deleteMany({
-        where: { rental_id: id },
-      });
-
-      // Excluir distratos relacionados
-      await tx.distrato.deleteMany({
-        where: { rental_id: id },
-      });
-
-      // Excluir veículos secundários relacionados
-      await tx.rentalSecondaryVehicle.deleteMany({
-        where: { rental_id: id },
-      });
-
-      // Desassociar contratos gerados (não excluir, apenas remover a referência)
-      await tx.generatedContract.updateMany({
-        where: { rental_id: id },
-        data: { rental_id: null },
-      });
-
-      // Excluir a locação
-      await tx.rental.delete({
-        where: { id },
-      });
-    });
+    // Arquivar (soft delete); a exclusão definitiva só ocorre no expurgo após o prazo de retenção
+    const archived = await rentalArchiveService.archive(id, context.userId);
 
     await auditService.logFromRequest(
       request,
@@ -780,37 +1107,41 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       'rental',
       id,
       { client_name: rental.client_name, motorcycle_plate: rental.motorcycle_plate },
-      undefined
+      { deleted_at: archived.deleted_at, restorable_until: archived.restorable_until }
     );
 
+    // Emitir evento realtime
+    if (realtimeService) {
+      realtimeService.emitRentalChange(rental.franchisee_id, rental.city_id, {
+        type: 'DELETE',
+        data: { id: rental.id },
+      });
+    }
+
     return reply.status(200).send({
       success: true,
-      message: 'Locação excluída com sucesso',
+      message: 'Locação arquivada com sucesso',
+      restorable_until: archived.restorable_until,
     });
   });
 
   /**
-   * POST /api/rentals/:id/complete
-   * Finalizar locação
+   * GET /api/rentals/archived
+   * Listar locações arquivadas (exclusões) com o prazo de restauração
    */
-  app.post('/:id/complete', {
-    preHandler: [authMiddleware, rbac()],
+  app.get('/archived', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
     schema: {
-      description: 'Finalizar locação',
+      description: 'Listar locações arquivadas com o prazo de restauração',
       tags: ['Locações'],
       security: [{ bearerAuth: [] }],
-      params: {
-        type: 'object',
-        required: ['id'],
-        properties: {
-          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
-        },
-      },
-      body: {
+      querystring: {
         type: 'object',
         properties: {
-          km_final: { type: 'number', minimum: 0, description: 'Quilometragem final' },
-          notes: { type: 'string', description: 'Observações finais' },
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          city_id: { type: 'string', format: 'uuid' },
+          franchisee_id: { type: 'string', format: 'uuid' },
         },
       },
       response: {
@@ -818,29 +1149,283 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: rentalResponseSchema,
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            retention_days: { type: 'number' },
+            pagination: paginationSchema,
           },
         },
         400: errorResponseSchema,
         401: errorResponseSchema,
         403: errorResponseSchema,
-        404: errorResponseSchema,
       },
     },
   }, async (request, reply) => {
-    const { id } = request.params as { id: string };
-    const { km_final, notes } = request.body as { km_final?: number; notes?: string };
-    const context = getContext(request);
+    const query = archivedRentalsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
 
-    const rental = await prisma.rental.findUnique({
-      where: { id },
-      include: { motorcycle: true },
+    const result = await rentalArchiveService.listArchived({
+      page: query.data.page,
+      limit: query.data.limit,
+      cityId: query.data.city_id,
+      franchiseeId: query.data.franchisee_id,
     });
 
-    if (!rental) {
-      throw new NotFoundError('Locação não encontrada');
-    }
-
+    return reply.status(200).send({
+      success: true,
+      data: result.data,
+      retention_days: env.RENTAL_ARCHIVE_RETENTION_DAYS,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/rentals/archived/purge
+   * Expurgar definitivamente as locações arquivadas há mais que o prazo de retenção
+   */
+  app.post('/archived/purge', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Expurgar definitivamente locações arquivadas fora do prazo de retenção (dry_run padrão)',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          dry_run: { type: 'boolean', default: true, description: 'Apenas listar as locações elegíveis, sem excluir' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                dry_run: { type: 'boolean' },
+                retention_days: { type: 'number' },
+                purge_before: { type: 'string', format: 'date-time' },
+                eligible: { type: 'number' },
+                purged: { type: 'number' },
+                rental_ids: { type: 'array', items: { type: 'string' } },
+                errors: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = purgeArchivedSchema.safeParse(request.body || {});
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const result = await rentalArchiveService.purge({ dryRun: body.data.dry_run });
+
+    if (!result.dry_run && result.purged > 0) {
+      await auditService.logFromRequest(
+        request,
+        AuditActions.RENTAL_PURGE,
+        'rental',
+        undefined,
+        { rental_ids: result.rental_ids },
+        { purged: result.purged, purge_before: result.purge_before }
+      );
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/restore
+   * Restaurar locação arquivada (dentro do prazo de retenção)
+   */
+  app.post('/:id/restore', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Restaurar locação arquivada junto com vistorias, distratos e veículos secundários',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: rentalResponseSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const rental = await rentalArchiveService.restore(id, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_RESTORE,
+      'rental',
+      id,
+      undefined,
+      { client_name: rental.client_name, motorcycle_plate: rental.motorcycle_plate }
+    );
+
+    // Emitir evento realtime
+    if (realtimeService) {
+      realtimeService.emitRentalChange(rental.franchisee_id, rental.city_id, {
+        type: 'INSERT',
+        data: rental,
+      });
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: rental,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/complete/preview
+   * Simular o valor de finalização da locação (sem alterar dados)
+   */
+  app.post('/:id/complete/preview', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Simular o valor de finalização da locação com detalhamento por item',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      body: completeRentalBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: pricingBreakdownSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = completeRentalSchema.safeParse(request.body || {});
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id, deleted_at: null },
+      include: { plan: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    if (!context.isMasterOrAdmin()) {
+      if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+        throw new ForbiddenError('Sem permissão para acessar esta locação');
+      }
+    }
+
+    const { breakdown } = priceRentalCompletion(rental, body.data);
+
+    return reply.status(200).send({
+      success: true,
+      data: breakdown,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/complete
+   * Finalizar locação
+   */
+  app.post('/:id/complete', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Finalizar locação (valor calculado pelo plano; parcelas futuras canceladas e acerto contra o que foi cobrado)',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      body: completeRentalBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: rentalResponseSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = completeRentalSchema.safeParse(request.body || {});
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const { km_final, notes } = body.data;
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id, deleted_at: null },
+      include: { motorcycle: true, plan: true, franchisee: { select: { asaas_token: true } } },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
     if (rental.status !== 'active') {
       throw new BadRequestError('Apenas locações ativas podem ser finalizadas');
     }
@@ -864,22 +1449,27 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       }
     }
 
-    // Calcular dias e valor total
-    const startDate = new Date(rental.start_date);
-    const endDate = new Date();
-    const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const totalAmount = totalDays * Number(rental.daily_rate);
+    // Calcular dias e valor total pelo plano da locação
+    const { returnDate, breakdown } = priceRentalCompletion(rental, body.data);
+
+    const { updatedRental, closed, settlement } = await prisma.$transaction(async (tx) => {
+      // Parcelas com vencimento a partir da devolução são canceladas; o acerto usa o que continua cobrado
+      const closed = await rentalChargeService.closeCharges(tx, id, returnDate);
+      const settlement = closed.charged > 0 && rental.franchisee_id
+        ? await rentalChargeService.settle(tx, rental, breakdown.total, closed.charged, returnDate, context.userId)
+        : null;
 
-    const updatedRental = await prisma.$transaction(async (tx) => {
       // Atualizar locação
       const updated = await tx.rental.update({
         where: { id },
         data: {
           status: 'completed',
-          end_date: endDate,
+          end_date: returnDate,
+          actual_return_date: returnDate,
           km_final,
-          total_days: totalDays,
-          total_amount: totalAmount,
+          total_days: breakdown.days,
+          total_amount: breakdown.total,
+          pricing_breakdown: { ...breakdown, settlement } as any,
           notes: notes || rental.notes,
         },
         include: {
@@ -890,23 +1480,32 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       });
 
       // Liberar a moto
-      await tx.motorcycle.update({
-        where: { id: rental.motorcycle_id },
-        data: {
-          status: 'active',
-          data_ultima_mov: new Date(),
-          quilometragem: km_final || rental.motorcycle.quilometragem,
-        },
+      await motorcycleStatusService.transition(tx, rental.motorcycle_id, 'active', {
+        reason: `Devolução da locação de ${rental.client_name}`,
+        userId: context.userId,
+        source: 'rental',
+        fromStatuses: [...RENTED_STATUSES, 'recolhida'],
+        data: { quilometragem: km_final || rental.motorcycle.quilometragem },
       });
 
-      return updated;
+      return { updatedRental: updated, closed, settlement };
     });
 
+    await rentalChargeService.cancelRemoteCharges(closed.cancelled, rental.franchisee?.asaas_token);
+
     await auditService.logFromRequest(
       request,
       AuditActions.RENTAL_COMPLETE,
       'rental',
-      id
+      id,
+      null,
+      {
+        total_days: breakdown.days,
+        total_amount: breakdown.total,
+        discount: breakdown.discount,
+        cancelled_charges: closed.cancelled.length,
+        settlement_balance: settlement?.balance ?? null,
+      }
     );
 
     // Emitir evento realtime
@@ -966,8 +1565,8 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const rental = await prisma.rental.findUnique({
-      where: { id },
-      include: { motorcycle: true },
+      where: { id, deleted_at: null },
+      include: { motorcycle: true, franchisee: { select: { asaas_token: true } } },
     });
 
     if (!rental) {
@@ -983,7 +1582,10 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       throw new ForbiddenError('Apenas administradores podem cancelar locações');
     }
 
-    const updatedRental = await prisma.$transaction(async (tx) => {
+    const { updatedRental, closed } = await prisma.$transaction(async (tx) => {
+      // Parcelas ainda não vencidas são canceladas junto com os lançamentos
+      const closed = await rentalChargeService.closeCharges(tx, id, new Date());
+
       // Atualizar locação
       const updated = await tx.rental.update({
         where: { id },
@@ -999,24 +1601,25 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
       });
 
       // Liberar a moto
-      await tx.motorcycle.update({
-        where: { id: rental.motorcycle_id },
-        data: {
-          status: 'active',
-          data_ultima_mov: new Date(),
-        },
+      await motorcycleStatusService.transition(tx, rental.motorcycle_id, 'active', {
+        reason: reason ? `Locação cancelada: ${reason}` : 'Locação cancelada',
+        userId: context.userId,
+        source: 'rental',
+        fromStatuses: [...RENTED_STATUSES, 'recolhida'],
       });
 
-      return updated;
+      return { updatedRental: updated, closed };
     });
 
+    await rentalChargeService.cancelRemoteCharges(closed.cancelled, rental.franchisee?.asaas_token);
+
     await auditService.logFromRequest(
       request,
       AuditActions.RENTAL_CANCEL,
       'rental',
       id,
       undefined,
-      { reason }
+      { reason, cancelled_charges: closed.cancelled.length }
     );
 
     // Emitir evento realtime
@@ -1033,6 +1636,643 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     });
   });
 
+  /**
+   * POST /api/rentals/:id/extend/preview
+   * Simular prorrogação/renovação (valor e parcelas do período adicional)
+   */
+  app.post('/:id/extend/preview', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Simular a prorrogação ou renovação da locação sem alterar nada',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      body: extendRentalBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                type: { type: 'string' },
+                version: { type: 'number' },
+                current_end_date: { type: 'string', format: 'date' },
+                new_end_date: { type: 'string', format: 'date' },
+                additional_days: { type: 'number' },
+                daily_rate: { type: 'number' },
+                plan_id: { type: 'string', nullable: true },
+                plan_name: { type: 'string', nullable: true },
+                breakdown: pricingBreakdownSchema,
+                installments: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = extendRentalSchema.safeParse(request.body);
+    const context = getContext(request);
+
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    await findRentalForExtension(id, context);
+
+    const preview = await rentalRenewalService.preview(id, {
+      type: body.data.type,
+      new_end_date: body.data.new_end_date,
+      plan_id: body.data.plan_id,
+      daily_rate: body.data.daily_rate,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: preview,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/extend
+   * Prorrogar ou renovar locação (novas parcelas, aditivo e nova versão do termo)
+   */
+  app.post('/:id/extend', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Prorrogar ou renovar a locação: valida a moto, precifica pelo plano, emite as parcelas adicionais, gera o aditivo e registra a nova versão do termo',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      body: extendRentalBodySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: rentalResponseSchema,
+            term: rentalTermResponseSchema,
+            charges: { type: 'object', nullable: true, additionalProperties: true },
+            addendum_error: { type: 'string', nullable: true },
+            warnings: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = extendRentalSchema.safeParse(request.body);
+    const context = getContext(request);
+
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const rental = await findRentalForExtension(id, context);
+
+    const result = await rentalRenewalService.extend(id, {
+      type: body.data.type,
+      new_end_date: body.data.new_end_date,
+      plan_id: body.data.plan_id,
+      daily_rate: body.data.daily_rate,
+      template_id: body.data.template_id,
+      contract_data: body.data.contract_data,
+      notes: body.data.notes,
+    }, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_EXTEND,
+      'rental',
+      id,
+      { end_date: rental.end_date, plan_id: rental.plan_id, daily_rate: Number(rental.daily_rate) },
+      {
+        type: body.data.type,
+        version: result.term.version,
+        end_date: result.rental.end_date,
+        plan_id: result.rental.plan_id,
+        daily_rate: Number(result.rental.daily_rate),
+        amount: Number(result.term.amount),
+        contract_id: result.term.contract_id,
+      }
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: result.rental,
+      term: result.term,
+      charges: result.charges,
+      addendum_error: result.addendum_error,
+      warnings: result.warnings,
+    });
+  });
+
+  /**
+   * GET /api/rentals/:id/terms
+   * Histórico versionado dos prazos da locação
+   */
+  app.get('/:id/terms', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar as versões do termo da locação (original, prorrogações e renovações com os aditivos)',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: rentalTermResponseSchema },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    await findRentalForExtension(id, context);
+
+    const terms = await rentalRenewalService.listTerms(id);
+
+    return reply.status(200).send({
+      success: true,
+      data: terms,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/pause
+   * Pausar locação (suspende cobranças futuras e recorrentes até a retomada)
+   */
+  app.post('/:id/pause', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Pausar locação: suspende as parcelas futuras no Asaas e os lançamentos recorrentes da moto e move a moto para recolhida',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      body: {
+        type: 'object',
+        required: ['reason', 'expected_return_date'],
+        properties: {
+          reason: { type: 'string', description: 'Motivo da pausa' },
+          expected_return_date: { type: 'string', format: 'date', description: 'Data prevista de retomada (YYYY-MM-DD)' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: rentalPauseResponseSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = pauseRentalSchema.safeParse(request.body);
+    const context = getContext(request);
+
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const rental = await prisma.rental.findUnique({
+      where: { id, deleted_at: null },
+      select: { id: true, franchisee_id: true, city_id: true, status: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    // Verificar permissão
+    if (!context.isMasterOrAdmin()) {
+      if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+        throw new ForbiddenError('Sem permissão para pausar esta locação');
+      }
+      if (context.isRegional() && rental.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para pausar esta locação');
+      }
+    }
+
+    const pause = await rentalPauseService.pause(id, {
+      reason: body.data.reason,
+      expected_return_date: body.data.expected_return_date,
+    }, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_PAUSE,
+      'rental',
+      id,
+      { status: rental.status },
+      {
+        status: 'paused',
+        reason: pause.reason,
+        expected_return_date: body.data.expected_return_date,
+        suspended_payments: (pause.suspended_payments as unknown[]).length,
+        suspended_recorrentes: (pause.suspended_recorrentes as unknown[]).length,
+      }
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: pause,
+    });
+  });
+
+  /**
+   * POST /api/rentals/:id/resume
+   * Retomar locação pausada (estende o prazo e reemite as parcelas suspensas)
+   */
+  app.post('/:id/resume', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Retomar locação pausada: estende end_date pelos dias em pausa, reemite as parcelas suspensas com vencimento deslocado e reativa os recorrentes',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: rentalResponseSchema,
+            paused_days: { type: 'number' },
+            reissued_payments: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id, deleted_at: null },
+      select: { id: true, franchisee_id: true, city_id: true, end_date: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    // Verificar permissão
+    if (!context.isMasterOrAdmin()) {
+      if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+        throw new ForbiddenError('Sem permissão para retomar esta locação');
+      }
+      if (context.isRegional() && rental.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para retomar esta locação');
+      }
+    }
+
+    const result = await rentalPauseService.resume(id, context.userId);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.RENTAL_RESUME,
+      'rental',
+      id,
+      { status: 'paused', end_date: rental.end_date },
+      {
+        status: 'active',
+        end_date: result.rental.end_date,
+        paused_days: result.paused_days,
+        reissued_payments: result.reissued_payments.length,
+      }
+    );
+
+    return reply.status(200).send({
+      success: true,
+      data: result.rental,
+      paused_days: result.paused_days,
+      reissued_payments: result.reissued_payments,
+    });
+  });
+
+  /**
+   * GET /api/rentals/:id/pauses
+   * Histórico de pausas da locação
+   */
+  app.get('/:id/pauses', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar o histórico de pausas da locação',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid', description: 'ID da locação' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: rentalPauseResponseSchema },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+
+    const rental = await prisma.rental.findUnique({
+      where: { id, deleted_at: null },
+      select: { id: true, franchisee_id: true, city_id: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    // Verificar permissão
+    if (!context.isMasterOrAdmin()) {
+      if (context.isFranchisee() && rental.franchisee_id !== context.franchiseeId) {
+        throw new ForbiddenError('Sem permissão para acessar esta locação');
+      }
+      if (context.isRegional() && rental.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para acessar esta locação');
+      }
+    }
+
+    const pauses = await prisma.rentalPause.findMany({
+      where: { rental_id: id },
+      orderBy: { created_at: 'desc' },
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: pauses,
+    });
+  });
+
+  /**
+   * GET /api/rentals/overdue-returns
+   * Listar devoluções em atraso (end_date vencido ou moto não devolvida)
+   */
+  app.get('/overdue-returns', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar locações com devolução em atraso e a multa diária acumulada',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          city_id: { type: 'string', format: 'uuid', description: 'Filtrar por cidade' },
+          franchisee_id: { type: 'string', format: 'uuid', description: 'Filtrar por franqueado' },
+          reason: { type: 'string', enum: ['past_end_date', 'motorcycle_not_returned'], description: 'Motivo do atraso' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                additionalProperties: true,
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  client_name: { type: 'string' },
+                  motorcycle_plate: { type: 'string' },
+                  end_date: { type: ['string', 'null'], format: 'date-time', nullable: true },
+                  return_overdue_since: { type: 'string', format: 'date-time' },
+                  return_overdue_reason: { type: 'string', enum: ['past_end_date', 'motorcycle_not_returned'] },
+                  days_overdue: { type: 'number' },
+                  daily_late_fee: { type: 'number' },
+                  late_fee_amount: { type: 'number' },
+                },
+              },
+            },
+            total_late_fees: { type: 'number' },
+            pagination: paginationSchema,
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = overdueReturnsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+
+    // Franqueado e regional enxergam apenas a própria franquia/cidade
+    const result = await overdueReturnService.list({
+      page: query.data.page,
+      limit: query.data.limit,
+      reason: query.data.reason,
+      cityId: context.isRegional() ? context.cityId : query.data.city_id,
+      franchiseeId: context.isFranchisee() ? context.franchiseeId : query.data.franchisee_id,
+    });
+
+    return reply.status(200).send({
+      success: true,
+      data: result.data,
+      total_late_fees: result.total_late_fees,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/rentals/overdue-returns/check
+   * Executar a verificação de devoluções em atraso sob demanda
+   */
+  app.post('/overdue-returns/check', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Executar a verificação de devoluções em atraso (também roda periodicamente)',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                checked: { type: 'number' },
+                flagged: { type: 'number' },
+                newly_flagged: { type: 'number' },
+                cleared: { type: 'number' },
+                notified: { type: 'number' },
+                total_late_fees: { type: 'number' },
+                errors: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    const result = await overdueReturnService.check();
+
+    return reply.status(200).send({
+      success: true,
+      data: result,
+    });
+  });
+
+  /**
+   * POST /api/rentals/client-links/backfill
+   * Vincular locações antigas ao cadastro de clientes pelo CPF/CNPJ normalizado
+   * (dry_run padrão: apenas relatório de vínculos e conflitos)
+   */
+  app.post('/client-links/backfill', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Vincular locações sem client_id aos clientes pelo CPF/CNPJ, com relatório de conflitos',
+      tags: ['Locações'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          dry_run: { type: 'boolean', default: true, description: 'Apenas gerar o relatório, sem gravar os vínculos' },
+          franchisee_id: { type: 'string', format: 'uuid', description: 'Limitar às locações do franqueado' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                dry_run: { type: 'boolean' },
+                checked: { type: 'number' },
+                linked: { type: 'number' },
+                unmatched: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                invalid_document: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                ambiguous: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                name_mismatch: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              },
+            },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = clientBackfillSchema.safeParse(request.body || {});
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const result = await rentalClientService.backfill({
+      dryRun: body.data.dry_run,
+      franchiseeId: body.data.franchisee_id,
+    });
+
+    if (!result.dry_run) {
+      await auditService.logFromRequest(
+        request,
+        AuditActions.RENTAL_CLIENT_BACKFILL,
+        'rental',
+        undefined,
+        undefined,
+        {
+          franchisee_id: body.data.franchisee_id || null,
+          checked: result.checked,
+          linked: result.linked,
+          unmatched: result.unmatched.length,
+          invalid_document: result.invalid_document.length,
+          ambiguous: result.ambiguous.length,
+        }
+      );
+    }
+
+    return reply.status(200).send({
+      success: true,
+      data: result,
+    });
+  });
+
   /**
    * GET /api/rentals/all
    * Listar todas as locações sem paginação (para Dashboard)
@@ -1065,7 +2305,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
   }, async (request, reply) => {
     const { city_id, slim } = request.query as { city_id?: string; slim?: string };
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { deleted_at: null };
 
     // Aplicar filtro baseado no role
     const roleFilter = context.getFranchiseeFilter();
@@ -1224,7 +2464,7 @@ const rentalsRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     const context = getContext(request);
-    const filter = context.getFranchiseeFilter();
+    const filter = { ...context.getFranchiseeFilter(), deleted_at: null };
 
     const [total, active, completed, cancelled] = await Promise.all([
       prisma.rental.count({ where: filter }),
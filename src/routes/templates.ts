@@ -2,6 +2,12 @@ import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../config/database.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
+import { contractService } from '../services/contractService.js';
+import { normalizeVariables, resolveVariables, templateVariablesSchema } from '../services/contractVariables.js';
+import { templateService } from '../services/templateService.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { getContext } from '../utils/context.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors.js';
 
 const templatesRoutes: FastifyPluginAsync = async (app) => {
   /**
@@ -94,10 +100,13 @@ const templatesRoutes: FastifyPluginAsync = async (app) => {
         properties: {
           contract_type_id: { type: 'string' },
           name: { type: 'string' },
-          version: { type: 'string' },
           title: { type: 'string' },
           content: { type: 'object', additionalProperties: true },
-          variables: { type: 'array', items: { type: 'string' } },
+          variables: {
+            type: 'array',
+            description: 'Variáveis do template: { key, label, type, required, source, default } (strings aceitas no formato legado)',
+            items: {},
+          },
           is_active: { type: 'boolean' },
           is_default: { type: 'boolean' },
         },
@@ -121,6 +130,13 @@ const templatesRoutes: FastifyPluginAsync = async (app) => {
 
     console.log('📋 [TEMPLATES] Criando template:', body.name);
 
+    // Validar declaração de variáveis
+    const variables = templateVariablesSchema.safeParse(body.variables || []);
+    if (!variables.success) {
+      const issue = variables.error.errors[0];
+      throw new BadRequestError(`Variável inválida (${issue.path.join('.')}): ${issue.message}`);
+    }
+
     // Buscar ou criar tipo de contrato padrão se não fornecido
     let contractTypeId = body.contract_type_id;
     if (!contractTypeId || contractTypeId.includes('default')) {
@@ -148,10 +164,11 @@ const templatesRoutes: FastifyPluginAsync = async (app) => {
       data: {
         contract_type_id: contractTypeId,
         name: body.name,
-        version: body.version || '1.0',
+        version: '0',
+        status: 'draft',
         title: body.title,
         content: body.content || {},
-        variables: body.variables || [],
+        variables: variables.data,
         is_active: body.is_active ?? true,
         is_default: body.is_default ?? false,
       },
@@ -228,6 +245,9 @@ const templatesRoutes: FastifyPluginAsync = async (app) => {
       },
     });
 
+    // Template volta a ter alterações não publicadas
+    await templateService.markDraft(id);
+
     console.log('✅ [TEMPLATES] Cláusula criada:', clause.id);
 
     return reply.send({
@@ -492,6 +512,504 @@ const templatesRoutes: FastifyPluginAsync = async (app) => {
       data: clauses,
     });
   });
+
+  /**
+   * PUT /api/templates/:id
+   * Atualizar rascunho do template (versões publicadas não são alteradas)
+   */
+  app.put('/:id', {
+    preHandler: [authMiddleware, rbac(['master_br', 'regional'])],
+    schema: {
+      description: 'Atualizar rascunho do template',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          title: { type: 'string' },
+          content: { type: 'object', additionalProperties: true },
+          variables: { type: 'array', items: {} },
+          is_active: { type: 'boolean' },
+          is_default: { type: 'boolean' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as any;
+
+    const existing = await prisma.contractTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundError('Template não encontrado');
+    }
+
+    const updateData: any = {};
+    if (body.name !== undefined) updateData.name = body.name;
+    if (body.title !== undefined) updateData.title = body.title;
+    if (body.content !== undefined) updateData.content = body.content;
+    if (body.is_active !== undefined) updateData.is_active = body.is_active;
+    if (body.is_default !== undefined) updateData.is_default = body.is_default;
+
+    if (body.variables !== undefined) {
+      const variables = templateVariablesSchema.safeParse(body.variables);
+      if (!variables.success) {
+        const issue = variables.error.errors[0];
+        throw new BadRequestError(`Variável inválida (${issue.path.join('.')}): ${issue.message}`);
+      }
+      updateData.variables = variables.data;
+    }
+
+    // Alterações de texto tornam o template um rascunho até nova publicação
+    if (updateData.title !== undefined || updateData.content !== undefined || updateData.variables !== undefined) {
+      updateData.status = 'draft';
+    }
+
+    const template = await prisma.contractTemplate.update({
+      where: { id },
+      data: updateData,
+      include: {
+        contract_type: true,
+      },
+    });
+
+    console.log('✅ [TEMPLATES] Template atualizado:', template.id, template.name);
+
+    return reply.send({
+      success: true,
+      data: template,
+    });
+  });
+
+  /**
+   * PUT /api/templates/:id/clauses/:clauseId
+   * Atualizar cláusula do rascunho
+   */
+  app.put('/:id/clauses/:clauseId', {
+    preHandler: [authMiddleware, rbac(['master_br', 'regional'])],
+    schema: {
+      description: 'Atualizar cláusula do rascunho do template',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+          clauseId: { type: 'string', description: 'ID da cláusula' },
+        },
+        required: ['id', 'clauseId'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          clause_number: { type: 'string' },
+          title: { type: 'string' },
+          content: { type: 'string' },
+          order_index: { type: 'number' },
+          is_required: { type: 'boolean' },
+          variables: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id, clauseId } = request.params as { id: string; clauseId: string };
+    const body = request.body as any;
+
+    const existing = await prisma.contractClause.findFirst({
+      where: { id: clauseId, template_id: id },
+    });
+    if (!existing) {
+      throw new NotFoundError('Cláusula não encontrada');
+    }
+
+    const clause = await prisma.contractClause.update({
+      where: { id: clauseId },
+      data: {
+        clause_number: body.clause_number,
+        title: body.title,
+        content: body.content,
+        order_index: body.order_index,
+        is_required: body.is_required,
+        variables: body.variables,
+      },
+    });
+
+    await templateService.markDraft(id);
+
+    console.log('✅ [TEMPLATES] Cláusula atualizada:', clause.id);
+
+    return reply.send({
+      success: true,
+      data: clause,
+    });
+  });
+
+  /**
+   * DELETE /api/templates/:id/clauses/:clauseId
+   * Remover cláusula do rascunho
+   */
+  app.delete('/:id/clauses/:clauseId', {
+    preHandler: [authMiddleware, rbac(['master_br', 'regional'])],
+    schema: {
+      description: 'Remover cláusula do rascunho do template',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+          clauseId: { type: 'string', description: 'ID da cláusula' },
+        },
+        required: ['id', 'clauseId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id, clauseId } = request.params as { id: string; clauseId: string };
+
+    const existing = await prisma.contractClause.findFirst({
+      where: { id: clauseId, template_id: id },
+    });
+    if (!existing) {
+      throw new NotFoundError('Cláusula não encontrada');
+    }
+
+    await prisma.contractClause.delete({ where: { id: clauseId } });
+    await templateService.markDraft(id);
+
+    return reply.send({
+      success: true,
+      message: 'Cláusula removida do rascunho',
+    });
+  });
+
+  /**
+   * POST /api/templates/:id/publish
+   * Publicar rascunho como nova versão imutável
+   */
+  app.post('/:id/publish', {
+    preHandler: [authMiddleware, rbac(['master_br', 'regional'])],
+    schema: {
+      description: 'Publicar o rascunho do template como nova versão imutável',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          notes: { type: 'string', description: 'Notas da versão' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { notes } = (request.body || {}) as { notes?: string };
+    const context = getContext(request);
+
+    const version = await templateService.publish(id, context.userId, notes);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.TEMPLATE_PUBLISH,
+      'contract_template',
+      id,
+      null,
+      { version_number: version.version_number, notes: version.notes }
+    );
+
+    return reply.send({
+      success: true,
+      data: version,
+      message: `Versão ${version.version_number} publicada com sucesso`,
+    });
+  });
+
+  /**
+   * GET /api/templates/:id/versions
+   * Listar versões publicadas do template
+   */
+  app.get('/:id/versions', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar versões publicadas do template',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                additionalProperties: true,
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const versions = await prisma.contractTemplateVersion.findMany({
+      where: { template_id: id },
+      select: {
+        id: true,
+        template_id: true,
+        version_number: true,
+        title: true,
+        notes: true,
+        published_by: true,
+        published_at: true,
+        _count: { select: { contracts: true } },
+      },
+      orderBy: { version_number: 'desc' },
+    });
+
+    return reply.send({
+      success: true,
+      data: versions,
+    });
+  });
+
+  /**
+   * GET /api/templates/:id/versions/diff?from=1&to=2
+   * Comparar duas versões, cláusula por cláusula
+   */
+  app.get('/:id/versions/diff', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Comparar duas versões publicadas do template cláusula por cláusula',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'integer', minimum: 1, description: 'Versão de origem' },
+          to: { type: 'integer', minimum: 1, description: 'Versão de destino' },
+        },
+        required: ['from', 'to'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { from, to } = request.query as { from: number; to: number };
+
+    const diff = await templateService.diff(id, from, to);
+
+    return reply.send({
+      success: true,
+      data: diff,
+    });
+  });
+
+  /**
+   * GET /api/templates/:id/versions/:versionNumber
+   * Buscar snapshot de uma versão publicada
+   */
+  app.get('/:id/versions/:versionNumber', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Buscar snapshot de uma versão publicada do template',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+          versionNumber: { type: 'integer', minimum: 1, description: 'Número da versão' },
+        },
+        required: ['id', 'versionNumber'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id, versionNumber } = request.params as { id: string; versionNumber: number };
+
+    const version = await templateService.getVersion(id, versionNumber);
+
+    return reply.send({
+      success: true,
+      data: version,
+    });
+  });
+
+  /**
+   * GET /api/templates/:id/variables
+   * Listar variáveis do template (e resolver para uma locação, se informada)
+   */
+  app.get('/:id/variables', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar variáveis do template e pré-visualizar a resolução para uma locação',
+      tags: ['Templates'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID do template' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          rental_id: { type: 'string', description: 'ID da locação para resolver os valores' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                variables: { type: 'array', items: { type: 'object', additionalProperties: true } },
+                values: { type: 'object', additionalProperties: true },
+                errors: { type: 'object', additionalProperties: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { rental_id } = request.query as { rental_id?: string };
+
+    const template = await prisma.contractTemplate.findUnique({
+      where: { id },
+      select: { id: true, variables: true },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Template não encontrado');
+    }
+
+    const variables = normalizeVariables(template.variables);
+
+    if (!rental_id) {
+      return reply.send({
+        success: true,
+        data: { variables, values: {}, errors: {} },
+      });
+    }
+
+    const sources = await contractService.loadSources(rental_id);
+
+    // Verificar permissao
+    const context = getContext(request);
+    if (context.isFranchisee() && sources.rental?.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+    if (context.isRegional() && sources.rental?.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para acessar esta locação');
+    }
+    const { values, errors } = resolveVariables(variables, sources);
+
+    return reply.send({
+      success: true,
+      data: { variables, values, errors },
+    });
+  });
 };
 
 export default templatesRoutes;
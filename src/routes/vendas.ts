@@ -5,6 +5,7 @@ import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
+import { identifierSchema } from '../utils/identifiers.js';
 
 // Swagger Schemas
 const vendaResponseSchema = {
@@ -45,7 +46,7 @@ const createVendaSchema = z.object({
   status: z.enum(['PAGO', 'PAGANDO', 'PENDENTE']).default('PENDENTE'),
   entregue: z.boolean().default(false),
   franqueado: z.string(),
-  cnpj: z.string(),
+  cnpj: identifierSchema('cnpj'),
   razao_social: z.string(),
   quantidade: z.number().int().min(0).default(0),
   marca: z.string(),
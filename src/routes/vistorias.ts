@@ -5,6 +5,7 @@ import { authMiddleware } from '../middleware/auth.js';
 import { rbac } from '../middleware/rbac.js';
 import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
 import { getContext } from '../utils/context.js';
+import { optionalIdentifierSchema } from '../utils/identifiers.js';
 
 // Swagger Schemas
 const vistoriaResponseSchema = {
@@ -24,6 +25,8 @@ const vistoriaResponseSchema = {
     locadora: { type: 'string', nullable: true },
     locatario: { type: 'string', nullable: true },
     observations: { type: 'string', nullable: true },
+    damage_description: { type: 'string', nullable: true },
+    damage_amount: { type: 'number', nullable: true },
     data_hora: { type: 'string', format: 'date-time', nullable: true },
     photo_1_path: { type: 'string', nullable: true },
     photo_2_path: { type: 'string', nullable: true },
@@ -92,15 +95,19 @@ const createVistoriaSchema = z.object({
   franchisee_id: z.string().uuid().optional().nullable(),
   client_id: z.string().uuid().optional().nullable(),
   inspection_type: z.enum(['entrada', 'saida', 'periodica']),
-  placa: z.string().optional().nullable(),
+  placa: optionalIdentifierSchema('placa'),
   locadora: z.string().optional().nullable(),
   locatario: z.string().optional().nullable(),
   observations: z.string().optional().nullable(),
+  damage_description: z.string().optional().nullable(),
+  damage_amount: z.number().min(0).optional().nullable(),
   data_hora: z.string().optional().nullable(),
 });
 
 const updateVistoriaSchema = z.object({
   observations: z.string().optional().nullable(),
+  damage_description: z.string().optional().nullable(),
+  damage_amount: z.number().min(0).optional().nullable(),
   status: z.enum(['pendente', 'aprovada', 'reprovada']).optional(),
   photo_1_path: z.string().optional().nullable(),
   photo_2_path: z.string().optional().nullable(),
@@ -170,7 +177,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
 
     const { page, limit, search, status, city_id, inspection_type, orderBy, orderDir } = query.data;
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { deleted_at: null };
 
     // Aplicar filtro baseado no role
     if (context.isRegional()) {
@@ -216,6 +223,8 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
           locadora: true,
           locatario: true,
           observations: true,
+          damage_description: true,
+          damage_amount: true,
           data_hora: true,
           photo_1_path: true,
           photo_2_path: true,
@@ -297,7 +306,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
   }, async (request, reply) => {
     const { city_id } = request.query as { city_id?: string };
     const context = getContext(request);
-    const where: any = {};
+    const where: any = { deleted_at: null };
 
     // Aplicar filtro baseado no role
     if (context.isRegional()) {
@@ -356,7 +365,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const vistoria = await prisma.vistoria.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
       include: {
         motorcycle: {
           select: { placa: true, marca: true, modelo: true },
@@ -418,6 +427,8 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
           locadora: { type: 'string' },
           locatario: { type: 'string' },
           observations: { type: 'string' },
+          damage_description: { type: 'string', description: 'Avarias constatadas' },
+          damage_amount: { type: 'number', minimum: 0, description: 'Valor das avarias (descontado da caução)' },
           data_hora: { type: 'string' },
         },
       },
@@ -506,6 +517,8 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
         type: 'object',
         properties: {
           observations: { type: 'string' },
+          damage_description: { type: 'string', description: 'Avarias constatadas' },
+          damage_amount: { type: 'number', minimum: 0, description: 'Valor das avarias (descontado da caução)' },
           status: { type: 'string', enum: ['pendente', 'aprovada', 'reprovada'] },
           photo_1_path: { type: 'string' },
           photo_2_path: { type: 'string' },
@@ -544,7 +557,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const existingVistoria = await prisma.vistoria.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
     });
 
     if (!existingVistoria) {
@@ -645,7 +658,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const vistoria = await prisma.vistoria.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
     });
 
     if (!vistoria) {
@@ -716,7 +729,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const vistoria = await prisma.vistoria.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
     });
 
     if (!vistoria) {
@@ -778,7 +791,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const { rentalId } = request.params as { rentalId: string };
 
     const vistorias = await prisma.vistoria.findMany({
-      where: { rental_id: rentalId },
+      where: { rental_id: rentalId, deleted_at: null },
       include: {
         motorcycle: {
           select: { placa: true, marca: true, modelo: true },
@@ -831,7 +844,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const { motorcycleId } = request.params as { motorcycleId: string };
 
     const vistorias = await prisma.vistoria.findMany({
-      where: { motorcycle_id: motorcycleId },
+      where: { motorcycle_id: motorcycleId, deleted_at: null },
       include: {
         motorcycle: {
           select: { placa: true, marca: true, modelo: true },
@@ -887,7 +900,7 @@ const vistoriasRoutes: FastifyPluginAsync = async (app) => {
     const context = getContext(request);
 
     const vistoria = await prisma.vistoria.findUnique({
-      where: { id },
+      where: { id, deleted_at: null },
     });
 
     if (!vistoria) {
@@ -1,18 +1,27 @@
 import { FastifyPluginAsync } from 'fastify';
 import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { env } from '../config/env.js';
 import { webhookRateLimit } from '../middleware/rateLimit.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
 import { auditService, AuditActions } from '../middleware/audit.js';
 import { logger } from '../utils/logger.js';
-import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../utils/errors.js';
 import { realtimeService } from '../websocket/index.js';
+import { whatsappInboxService } from '../services/whatsappInboxService.js';
+import { whatsappService } from '../services/whatsappService.js';
+
+// Status de cobranças encerradas localmente antes do cancelamento no Asaas
+const LOCALLY_CLOSED_STATUSES = ['RENEGOTIATED', 'SUSPENDED', 'RESCHEDULED'];
 
 // Swagger Schemas
 const webhookResponseSchema = {
   type: 'object',
   properties: {
     received: { type: 'boolean' },
+    duplicate: { type: 'boolean' },
   },
 };
 
@@ -49,13 +58,17 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
       headers: {
         type: 'object',
         properties: {
-          'x-webhook-signature': { type: 'string', description: 'HMAC signature para validação' },
+          'x-webhook-signature': { type: 'string', description: 'HMAC SHA-256 de "<timestamp>.<corpo>" (ou só do corpo sem x-webhook-timestamp); obrigatório quando WEBHOOK_SECRET está configurado' },
+          'x-webhook-id': { type: 'string', description: 'ID do evento no provedor (idempotência)' },
+          'x-webhook-timestamp': { type: 'string', description: 'Timestamp do evento, coberto pela assinatura (proteção contra replay)' },
         },
       },
       body: {
         type: 'object',
         properties: {
+          id: { type: 'string', description: 'ID do evento no provedor' },
           event: { type: 'string', description: 'Tipo do evento (document.signed, document.refused, document.expired, document.viewed)' },
+          timestamp: { type: ['string', 'number'], description: 'Data/hora do evento' },
           data: {
             type: 'object',
             properties: {
@@ -74,26 +87,72 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
     },
   }, async (request, reply) => {
     const payload = request.body as any;
+    const rawBody = (request as any).rawBody as Buffer | undefined;
+    const timestampHeader = request.headers['x-webhook-timestamp'] as string | undefined;
 
-    // Validar HMAC se configurado
+    // Validar HMAC: com WEBHOOK_SECRET configurado a assinatura é obrigatória
+    // e cobre o timestamp do header ("<timestamp>.<corpo>"); sem header vale o timestamp do corpo assinado
     if (env.WEBHOOK_SECRET) {
-      const signature = request.headers['x-webhook-signature'] as string;
-      const rawBody = (request as any).rawBody;
-
-      if (rawBody && signature) {
-        const expectedSignature = crypto
-          .createHmac('sha256', env.WEBHOOK_SECRET)
-          .update(rawBody)
-          .digest('hex');
-
-        if (signature !== expectedSignature) {
-          logger.warn('Invalid webhook signature');
-          throw new UnauthorizedError('Assinatura inválida');
-        }
+      const signature = request.headers['x-webhook-signature'] as string | undefined;
+      const signedContent = rawBody && timestampHeader
+        ? Buffer.concat([Buffer.from(`${timestampHeader}.`), rawBody])
+        : rawBody;
+
+      if (!signedContent || !signature || !isValidHmac(signedContent, signature, env.WEBHOOK_SECRET)) {
+        logger.warn({ hasSignature: !!signature, hasTimestamp: !!timestampHeader }, 'Invalid webhook signature');
+        throw new UnauthorizedError('Assinatura inválida');
+      }
+    }
+
+    // Rejeitar eventos fora da janela de tolerância (replay); com segredo o timestamp é obrigatório
+    const eventTimestamp = resolveEventTimestamp(timestampHeader, payload);
+    if (!eventTimestamp && env.WEBHOOK_SECRET) {
+      logger.warn('Signature webhook without timestamp');
+      throw new UnauthorizedError('Timestamp do evento obrigatório');
+    }
+    if (eventTimestamp) {
+      const driftSeconds = Math.abs(Date.now() - eventTimestamp.getTime()) / 1000;
+      if (driftSeconds > env.SIGNATURE_WEBHOOK_TOLERANCE_SECONDS) {
+        logger.warn({ eventTimestamp, driftSeconds }, 'Signature webhook outside tolerance window');
+        throw new UnauthorizedError('Evento fora da janela de tolerância');
       }
     }
 
-    logger.info({ event: payload.event, data: payload.data }, 'Signature webhook received');
+    const eventId = resolveEventId(request.headers['x-webhook-id'], payload, rawBody);
+
+    // Idempotência: evento já processado não é aplicado novamente
+    const existingEvent = await prisma.signatureEvent.findUnique({
+      where: { event_id: eventId },
+    });
+
+    if (existingEvent?.processed) {
+      logger.info({ eventId }, 'Signature webhook already processed, skipping');
+      return reply.status(200).send({ received: true, duplicate: true });
+    }
+
+    logger.info({ eventId, event: payload.event, data: payload.data }, 'Signature webhook received');
+
+    let signatureEvent = existingEvent;
+    if (!signatureEvent) {
+      try {
+        signatureEvent = await prisma.signatureEvent.create({
+          data: {
+            event_id: eventId,
+            event_type: String(payload.event || 'unknown'),
+            document_key: extractDocumentKey(payload),
+            event_data: payload,
+            event_timestamp: eventTimestamp,
+          },
+        });
+      } catch (error) {
+        // Entrega concorrente do mesmo evento já registrou (e processa) o evento
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          logger.info({ eventId }, 'Signature webhook delivered concurrently, skipping');
+          return reply.status(200).send({ received: true, duplicate: true });
+        }
+        throw error;
+      }
+    }
 
     await auditService.log({
       action: AuditActions.SIGNATURE_WEBHOOK,
@@ -102,39 +161,139 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
       ipAddress: request.ip,
     });
 
-    // Processar evento baseado no tipo
-    try {
-      switch (payload.event) {
-        case 'document.signed':
-        case 'signed':
-          await handleDocumentSigned(payload);
-          break;
+    // Erros ficam registrados no evento (reprocessável); não retornar erro para o provider
+    await processSignatureEvent(signatureEvent.id);
 
-        case 'document.refused':
-        case 'refused':
-          await handleDocumentRefused(payload);
-          break;
+    return reply.status(200).send({ received: true });
+  });
 
-        case 'document.expired':
-        case 'expired':
-          await handleDocumentExpired(payload);
-          break;
+  /**
+   * GET /api/webhooks/signature/events
+   * Listar eventos de assinatura recebidos
+   */
+  app.get('/signature/events', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Listar eventos recebidos pelo webhook de assinatura',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          processed: { type: 'string', enum: ['true', 'false'], description: 'Filtrar por processados/com falha' },
+          document_key: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                totalPages: { type: 'number' },
+              },
+            },
+          },
+        },
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { page = 1, limit = 20, processed, document_key } = request.query as {
+      page?: number;
+      limit?: number;
+      processed?: string;
+      document_key?: string;
+    };
+
+    const where: any = {};
+    if (processed) where.processed = processed === 'true';
+    if (document_key) where.document_key = document_key;
+
+    const [events, total] = await Promise.all([
+      prisma.signatureEvent.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+      }),
+      prisma.signatureEvent.count({ where }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: events,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  });
 
-        case 'document.viewed':
-        case 'viewed':
-          // Apenas log, sem ação
-          logger.info({ documentKey: payload.data?.document_key }, 'Document viewed');
-          break;
+  /**
+   * POST /api/webhooks/signature/events/:id/reprocess
+   * Reprocessar evento de assinatura com falha
+   */
+  app.post('/signature/events/:id/reprocess', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Reprocessar um evento de assinatura que falhou',
+      tags: ['Webhooks'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', additionalProperties: true },
+            message: { type: 'string' },
+          },
+        },
+        400: errorResponseSchema,
+        401: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
 
-        default:
-          logger.warn({ event: payload.event }, 'Unknown webhook event');
-      }
-    } catch (error) {
-      logger.error({ error, payload }, 'Error processing webhook');
-      // Não retornar erro para o provider, apenas logar
+    const signatureEvent = await prisma.signatureEvent.findUnique({
+      where: { id },
+    });
+
+    if (!signatureEvent) {
+      throw new NotFoundError('Evento não encontrado');
+    }
+    if (signatureEvent.processed) {
+      throw new BadRequestError('Evento já processado');
     }
 
-    return reply.status(200).send({ received: true });
+    const updated = await processSignatureEvent(id);
+
+    return reply.send({
+      success: updated.processed,
+      data: updated,
+      message: updated.processed ? 'Evento reprocessado com sucesso' : `Falha ao reprocessar: ${updated.error_message}`,
+    });
   });
 
   /**
@@ -149,11 +308,16 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
       body: {
         type: 'object',
         properties: {
-          event: { type: 'string', description: 'Tipo do evento (messages.upsert, connection.update, qr.updated)' },
+          event: { type: 'string', description: 'Tipo do evento (messages.upsert, messages.update, connection.update, qr.updated)' },
           instance: { type: 'string', description: 'Nome da instância' },
+          apikey: { type: 'string', description: 'Token da instância (deve ser igual ao apikey cadastrado)' },
           data: {
-            type: 'object',
+            type: ['object', 'array'],
             properties: {
+              key: { type: 'object', description: 'Identificação da mensagem (remoteJid, fromMe, id)' },
+              keyId: { type: 'string', description: 'ID da mensagem (messages.update)' },
+              status: { type: ['string', 'number'], description: 'Status de entrega (messages.update)' },
+              pushName: { type: 'string', description: 'Nome do contato' },
               message: { type: 'object', description: 'Dados da mensagem' },
               state: { type: 'string', description: 'Estado da conexão' },
               qr: { type: 'string', description: 'QR Code' },
@@ -163,11 +327,18 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
       },
       response: {
         200: webhookResponseSchema,
+        401: errorResponseSchema,
       },
     },
   }, async (request, reply) => {
     const payload = request.body as any;
 
+    // Só a própria instância (apikey cadastrado) ou quem conhece o segredo pode gravar mensagens e status
+    if (!await isAuthorizedEvolutionWebhook(request.headers['x-webhook-secret'], payload)) {
+      logger.warn({ instance: payload?.instance, event: payload?.event, ip: request.ip }, 'Unauthorized evolution webhook');
+      throw new UnauthorizedError('Webhook não autorizado');
+    }
+
     logger.info({ event: payload.event }, 'Evolution webhook received');
 
     await auditService.log({
@@ -185,6 +356,11 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
           await handleEvolutionMessage(payload);
           break;
 
+        case 'messages.update':
+          // Status de entrega das mensagens enviadas
+          await handleEvolutionMessageUpdate(payload);
+          break;
+
         case 'connection.update':
           // Atualização de conexão
           await handleEvolutionConnectionUpdate(payload);
@@ -298,7 +474,10 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
         'PAYMENT_DUNNING_REQUESTED': 'OVERDUE',
       };
 
-      const newStatus = statusMap[event] || asaasPayment.status;
+      // Cobranças canceladas pela própria API (renegociação/pausa) mantêm o status interno
+      const newStatus = event === 'PAYMENT_DELETED' && LOCALLY_CLOSED_STATUSES.includes(asaasPayment.status)
+        ? asaasPayment.status
+        : statusMap[event] || asaasPayment.status;
 
       // Preparar dados de atualização
       const updateData: any = { status: newStatus };
@@ -391,156 +570,449 @@ const webhooksRoutes: FastifyPluginAsync = async (app) => {
   });
 };
 
+interface SignatureDocumentRef {
+  entityType: 'generated_contract' | 'deposit_receipt' | 'distrato';
+  entityId: string;
+  label: string;
+  status: string;
+  createdBy: string | null;
+  franchiseeId: string | null;
+}
+
 /**
- * Handler para documento assinado
+ * Validar HMAC SHA-256 do conteúdo assinado (aceita prefixo "sha256=")
  */
-async function handleDocumentSigned(payload: any): Promise<void> {
-  const documentKey = payload.data?.document_key ||
-                      payload.document_key ||
-                      payload.data?.batch_id;
+function isValidHmac(content: Buffer, signature: string, secret: string): boolean {
+  const expected = crypto.createHmac('sha256', secret).update(content).digest('hex');
+  const received = signature.replace(/^sha256=/, '');
 
-  if (!documentKey) {
-    logger.warn('Document signed webhook without document_key');
-    return;
+  if (received.length !== expected.length) {
+    return false;
   }
 
-  const signedAt = payload.data?.signed_at ? new Date(payload.data.signed_at) : new Date();
+  return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Comparação de segredos em tempo constante
+ */
+function safeEqual(received: unknown, expected: string): boolean {
+  if (typeof received !== 'string' || received.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Webhook da Evolution autorizado: header x-webhook-secret igual a EVOLUTION_WEBHOOK_SECRET
+ * ou apikey do payload igual ao apikey cadastrado da instância
+ */
+async function isAuthorizedEvolutionWebhook(secretHeader: unknown, payload: any): Promise<boolean> {
+  if (env.EVOLUTION_WEBHOOK_SECRET && safeEqual(secretHeader, env.EVOLUTION_WEBHOOK_SECRET)) {
+    return true;
+  }
+
+  if (!payload?.instance || !payload?.apikey) {
+    return false;
+  }
+
+  const instance = await prisma.evolutionInstance.findUnique({
+    where: { instance_name: String(payload.instance) },
+    select: { apikey: true },
+  });
+
+  return !!instance?.apikey && safeEqual(payload.apikey, instance.apikey);
+}
+
+/**
+ * Timestamp do evento (header, coberto pela assinatura, ou payload); aceita ISO, segundos ou milissegundos
+ */
+function resolveEventTimestamp(header: unknown, payload: any): Date | null {
+  const raw = header || payload?.timestamp;
+  if (raw === undefined || raw === null || raw === '') {
+    return null;
+  }
+
+  const numeric = Number(raw);
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(raw));
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * ID do evento para idempotência: header, id do payload ou hash do corpo
+ */
+function resolveEventId(header: unknown, payload: any, rawBody?: Buffer): string {
+  const explicit = header || payload?.id || payload?.event_id;
+  if (explicit) {
+    return String(explicit);
+  }
 
-  // Tentar atualizar em generated_contracts
-  const contract = await prisma.generatedContract.updateMany({
+  const body = rawBody || Buffer.from(JSON.stringify(payload ?? {}));
+  return `sha256:${crypto.createHash('sha256').update(body).digest('hex')}`;
+}
+
+function extractDocumentKey(payload: any): string | null {
+  return payload?.data?.document_key || payload?.document_key || payload?.data?.batch_id || null;
+}
+
+/**
+ * Localizar o documento (contrato, comprovante de caução ou distrato) do evento
+ */
+async function findSignatureDocuments(documentKey: string): Promise<SignatureDocumentRef[]> {
+  const contracts = await prisma.generatedContract.findMany({
     where: {
       OR: [
         { signature_request_id: documentKey },
+        { document_key: documentKey },
         { batch_id: documentKey },
       ],
     },
-    data: {
-      status: 'signed',
-      signed_at: signedAt,
+    select: {
+      id: true,
+      contract_number: true,
+      status: true,
+      created_by: true,
+      rental: { select: { franchisee_id: true } },
     },
   });
 
-  if (contract.count > 0) {
-    logger.info({ documentKey, count: contract.count }, 'Contract(s) marked as signed');
-
-    // Emitir evento realtime
-    if (realtimeService) {
-      const updatedContract = await prisma.generatedContract.findFirst({
-        where: {
-          OR: [
-            { signature_request_id: documentKey },
-            { batch_id: documentKey },
-          ],
-        },
-        include: { rental: { include: { franchisee: true } } },
-      });
-
-      if (updatedContract?.rental?.franchisee_id) {
-        realtimeService.emitContractChange(updatedContract.rental.franchisee_id, {
-          type: 'UPDATE',
-          table: 'generated_contracts',
-          data: updatedContract,
-          timestamp: new Date().toISOString(),
-        });
-      }
-    }
-    return;
+  if (contracts.length > 0) {
+    return contracts.map((contract) => ({
+      entityType: 'generated_contract',
+      entityId: contract.id,
+      label: `Contrato ${contract.contract_number}`,
+      status: contract.status,
+      createdBy: contract.created_by,
+      franchiseeId: contract.rental?.franchisee_id || null,
+    }));
   }
 
-  // Tentar atualizar em deposit_receipts
-  const receipt = await prisma.depositReceipt.updateMany({
-    where: { signature_request_id: documentKey },
-    data: { status: 'signed' },
+  const receipts = await prisma.depositReceipt.findMany({
+    where: {
+      OR: [
+        { signature_request_id: documentKey },
+        { document_key: documentKey },
+      ],
+    },
+    select: { id: true, receipt_number: true, status: true, created_by: true, franchisee_id: true },
   });
 
-  if (receipt.count > 0) {
-    logger.info({ documentKey, count: receipt.count }, 'Deposit receipt(s) marked as signed');
-    return;
+  if (receipts.length > 0) {
+    return receipts.map((receipt) => ({
+      entityType: 'deposit_receipt',
+      entityId: receipt.id,
+      label: `Comprovante de caução ${receipt.receipt_number || ''}`.trim(),
+      status: receipt.status,
+      createdBy: receipt.created_by,
+      franchiseeId: receipt.franchisee_id,
+    }));
   }
 
-  // Tentar atualizar em distratos
-  const distrato = await prisma.distrato.updateMany({
-    where: { signature_request_id: documentKey },
-    data: {
-      status: 'signed',
-      signed_at: signedAt,
+  const distratos = await prisma.distrato.findMany({
+    where: {
+      OR: [
+        { signature_request_id: documentKey },
+        { document_key: documentKey },
+      ],
     },
+    select: { id: true, placa: true, status: true, franchisee_id: true },
   });
 
-  if (distrato.count > 0) {
-    logger.info({ documentKey, count: distrato.count }, 'Distrato(s) marked as signed');
+  return distratos.map((distrato) => ({
+    entityType: 'distrato',
+    entityId: distrato.id,
+    label: `Distrato ${distrato.placa}`,
+    status: distrato.status,
+    createdBy: null,
+    franchiseeId: distrato.franchisee_id,
+  }));
+}
+
+/**
+ * Processar um evento registrado, gravando o resultado (processed/error_message)
+ */
+async function processSignatureEvent(eventId: string) {
+  const signatureEvent = await prisma.signatureEvent.findUniqueOrThrow({
+    where: { id: eventId },
+  });
+
+  const payload = signatureEvent.event_data as any;
+  let documents: SignatureDocumentRef[] = [];
+
+  try {
+    switch (signatureEvent.event_type) {
+      case 'document.signed':
+      case 'signed':
+        documents = await handleDocumentSigned(payload);
+        break;
+
+      case 'document.refused':
+      case 'refused':
+        documents = await handleDocumentRefused(payload);
+        break;
+
+      case 'document.expired':
+      case 'expired':
+        documents = await handleDocumentExpired(payload);
+        break;
+
+      case 'document.viewed':
+      case 'viewed':
+        documents = await handleDocumentViewed(payload);
+        break;
+
+      default:
+        logger.warn({ event: signatureEvent.event_type }, 'Unknown webhook event');
+    }
+
+    return prisma.signatureEvent.update({
+      where: { id: eventId },
+      data: {
+        processed: true,
+        attempts: { increment: 1 },
+        error_message: null,
+        processed_at: new Date(),
+        entity_type: documents[0]?.entityType || null,
+        entity_id: documents[0]?.entityId || null,
+      },
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message, eventId, event: signatureEvent.event_type }, 'Error processing webhook');
+
+    return prisma.signatureEvent.update({
+      where: { id: eventId },
+      data: {
+        processed: false,
+        attempts: { increment: 1 },
+        error_message: error.message || 'Erro desconhecido',
+      },
+    });
+  }
+}
+
+/**
+ * Emitir alteração de contrato via realtime
+ */
+function emitContractUpdate(document: SignatureDocumentRef, data: unknown) {
+  if (realtimeService && document.entityType === 'generated_contract' && document.franchiseeId) {
+    realtimeService.emitContractChange(document.franchiseeId, {
+      type: 'UPDATE',
+      table: 'generated_contracts',
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Notificar o criador do documento
+ */
+function notifyCreator(
+  document: SignatureDocumentRef,
+  notification: { type: 'info' | 'success' | 'warning' | 'error'; title: string; message: string }
+) {
+  if (realtimeService && document.createdBy) {
+    realtimeService.emitNotification(document.createdBy, {
+      ...notification,
+      data: { entity_type: document.entityType, entity_id: document.entityId },
+    });
+  }
+}
+
+/**
+ * Handler para documento assinado
+ */
+async function handleDocumentSigned(payload: any): Promise<SignatureDocumentRef[]> {
+  const documentKey = extractDocumentKey(payload);
+
+  if (!documentKey) {
+    logger.warn('Document signed webhook without document_key');
+    return [];
+  }
+
+  const documents = await findSignatureDocuments(documentKey);
+  if (documents.length === 0) {
+    throw new Error(`Documento não encontrado para a chave ${documentKey}`);
+  }
+
+  const signedAt = payload.data?.signed_at ? new Date(payload.data.signed_at) : new Date();
+  const ids = documents.map(document => document.entityId);
+
+  switch (documents[0].entityType) {
+    case 'generated_contract':
+      await prisma.generatedContract.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'signed', signed_at: signedAt },
+      });
+      for (const document of documents) {
+        emitContractUpdate(document, { id: document.entityId, status: 'signed', signed_at: signedAt });
+      }
+      break;
+
+    case 'deposit_receipt':
+      await prisma.depositReceipt.updateMany({
+        where: { id: { in: ids }, status: { not: 'refunded' } },
+        data: { status: 'signed', signed_at: signedAt },
+      });
+      break;
+
+    case 'distrato':
+      await prisma.distrato.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'signed', signed_at: signedAt },
+      });
+      break;
   }
+
+  logger.info({ documentKey, entityType: documents[0].entityType, count: ids.length }, 'Document(s) marked as signed');
+
+  return documents;
 }
 
 /**
  * Handler para documento recusado
  */
-async function handleDocumentRefused(payload: any): Promise<void> {
-  const documentKey = payload.data?.document_key || payload.document_key;
+async function handleDocumentRefused(payload: any): Promise<SignatureDocumentRef[]> {
+  const documentKey = extractDocumentKey(payload);
   const reason = payload.data?.reason || 'Não informado';
 
   if (!documentKey) {
     logger.warn('Document refused webhook without document_key');
-    return;
+    return [];
   }
 
-  // Atualizar status para cancelled
-  await prisma.generatedContract.updateMany({
-    where: {
-      OR: [
-        { signature_request_id: documentKey },
-        { batch_id: documentKey },
-      ],
-    },
-    data: { status: 'cancelled' },
-  });
+  const documents = await findSignatureDocuments(documentKey);
+  if (documents.length === 0) {
+    throw new Error(`Documento não encontrado para a chave ${documentKey}`);
+  }
 
-  await prisma.depositReceipt.updateMany({
-    where: { signature_request_id: documentKey },
-    data: { status: 'cancelled' },
-  });
+  const ids = documents.map(document => document.entityId);
 
-  await prisma.distrato.updateMany({
-    where: { signature_request_id: documentKey },
-    data: { status: 'cancelled' },
-  });
+  switch (documents[0].entityType) {
+    case 'generated_contract':
+      await prisma.generatedContract.updateMany({ where: { id: { in: ids } }, data: { status: 'cancelled' } });
+      for (const document of documents) {
+        emitContractUpdate(document, { id: document.entityId, status: 'cancelled' });
+      }
+      break;
+
+    case 'deposit_receipt':
+      await prisma.depositReceipt.updateMany({ where: { id: { in: ids } }, data: { status: 'cancelled' } });
+      break;
+
+    case 'distrato':
+      await prisma.distrato.updateMany({ where: { id: { in: ids } }, data: { status: 'cancelled' } });
+      break;
+  }
+
+  for (const document of documents) {
+    notifyCreator(document, {
+      type: 'error',
+      title: 'Assinatura recusada',
+      message: `${document.label} foi recusado. Motivo: ${reason}`,
+    });
+  }
 
   logger.info({ documentKey, reason }, 'Document marked as refused/cancelled');
+
+  return documents;
 }
 
 /**
  * Handler para documento expirado
+ * Contratos e comprovantes aguardando assinatura passam para "expired" e podem ser reenviados
  */
-async function handleDocumentExpired(payload: any): Promise<void> {
-  const documentKey = payload.data?.document_key || payload.document_key;
+async function handleDocumentExpired(payload: any): Promise<SignatureDocumentRef[]> {
+  const documentKey = extractDocumentKey(payload);
 
   if (!documentKey) {
     logger.warn('Document expired webhook without document_key');
-    return;
+    return [];
   }
 
-  // Não alterar status, apenas logar
-  // Documentos expirados podem ser re-enviados
-  logger.info({ documentKey }, 'Document expired');
+  const documents = await findSignatureDocuments(documentKey);
+  const pending = documents.filter(document => document.status === 'sent');
+  const ids = pending.map(document => document.entityId);
+
+  if (ids.length > 0) {
+    if (pending[0].entityType === 'generated_contract') {
+      await prisma.generatedContract.updateMany({ where: { id: { in: ids } }, data: { status: 'expired' } });
+      for (const document of pending) {
+        emitContractUpdate(document, { id: document.entityId, status: 'expired' });
+      }
+    } else if (pending[0].entityType === 'deposit_receipt') {
+      await prisma.depositReceipt.updateMany({ where: { id: { in: ids } }, data: { status: 'expired' } });
+    }
+  }
+
+  for (const document of pending) {
+    notifyCreator(document, {
+      type: 'warning',
+      title: 'Assinatura expirada',
+      message: `${document.label} expirou sem assinatura. Reenvie o documento para o signatário.`,
+    });
+  }
+
+  logger.info({ documentKey, count: pending.length }, 'Document expired');
+
+  return documents;
+}
+
+/**
+ * Handler para documento visualizado
+ */
+async function handleDocumentViewed(payload: any): Promise<SignatureDocumentRef[]> {
+  const documentKey = extractDocumentKey(payload);
+
+  if (!documentKey) {
+    logger.warn('Document viewed webhook without document_key');
+    return [];
+  }
+
+  const documents = await findSignatureDocuments(documentKey);
+  const viewer = payload.data?.signer?.name || payload.data?.signer_name || payload.data?.email;
+
+  for (const document of documents) {
+    notifyCreator(document, {
+      type: 'info',
+      title: 'Documento visualizado',
+      message: `${document.label} foi visualizado${viewer ? ` por ${viewer}` : ''}.`,
+    });
+  }
+
+  logger.info({ documentKey }, 'Document viewed');
+
+  return documents;
 }
 
 /**
  * Handler para mensagens do Evolution
+ * Grava as mensagens na caixa de entrada (conversa por instância + telefone)
  */
 async function handleEvolutionMessage(payload: any): Promise<void> {
-  const message = payload.data?.message;
-  const instance = payload.instance;
-
-  if (!message) return;
+  const stored = await whatsappInboxService.handleUpsert(payload);
 
   logger.info({
-    instance,
-    from: message.from,
-    type: message.type,
+    instance: payload.instance,
+    stored: stored.length,
   }, 'WhatsApp message received');
+}
 
-  // Aqui você pode implementar lógica de processamento de mensagens
-  // Por exemplo, salvar em uma tabela de mensagens, disparar automações, etc.
+/**
+ * Handler para atualização de status das mensagens do Evolution
+ * Registra entregue/lida/falha nas mensagens enviadas
+ */
+async function handleEvolutionMessageUpdate(payload: any): Promise<void> {
+  const updated = await whatsappService.updateDeliveryStatus(payload);
+
+  logger.info({
+    instance: payload.instance,
+    updated,
+  }, 'WhatsApp message status updated');
 }
 
 /**
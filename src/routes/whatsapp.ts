@@ -0,0 +1,739 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { rbac } from '../middleware/rbac.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { whatsappInboxService } from '../services/whatsappInboxService.js';
+import { whatsappService, WHATSAPP_TEMPLATE_KEYS, WhatsappTemplateKey } from '../services/whatsappService.js';
+import { getContext } from '../utils/context.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.js';
+
+const dataResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'object', additionalProperties: true },
+    message: { type: 'string' },
+  },
+};
+
+const paginationSchema = {
+  type: 'object',
+  properties: {
+    total: { type: 'number' },
+    page: { type: 'number' },
+    limit: { type: 'number' },
+    totalPages: { type: 'number' },
+  },
+};
+
+const paginatedResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    pagination: paginationSchema,
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    code: { type: 'string' },
+  },
+};
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid', description: 'ID da conversa' },
+  },
+  required: ['id'],
+};
+
+// Schemas de validação
+const conversationQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  instance_id: z.string().uuid().optional(),
+  client_id: z.string().uuid().optional(),
+  lead_id: z.string().uuid().optional(),
+  unread: z.coerce.boolean().optional(),
+  search: z.string().optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+const messageQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+const sendMessageSchema = z.object({
+  conversation_id: z.string().uuid().optional(),
+  phone: z.string().min(8, 'Telefone inválido').optional(),
+  email: z.string().email('Email inválido').optional(),
+  name: z.string().optional(),
+  subject: z.string().optional(),
+  text: z.string().min(1, 'Texto é obrigatório').max(4096),
+  city_id: z.string().uuid().optional(),
+}).refine(data => data.conversation_id || data.phone || data.email, {
+  message: 'Informe a conversa, o telefone ou o email do destinatário',
+});
+
+const sendNotificationSchema = z.object({
+  template: z.enum(WHATSAPP_TEMPLATE_KEYS as [WhatsappTemplateKey, ...WhatsappTemplateKey[]]),
+  entity_id: z.string().uuid('ID do registro inválido'),
+  phone: z.string().min(8, 'Telefone inválido').optional(),
+  email: z.string().email('Email inválido').optional(),
+});
+
+const templateSchema = z.object({
+  body: z.string().min(1, 'Texto do modelo é obrigatório').max(4096),
+  city_id: z.string().uuid().optional(),
+});
+
+const outboundQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(['pending', 'sent', 'delivered', 'read', 'failed']).optional(),
+  channel: z.enum(['whatsapp', 'email']).optional(),
+  template: z.string().optional(),
+  entity_type: z.string().optional(),
+  entity_id: z.string().uuid().optional(),
+  city_id: z.string().uuid().optional(),
+});
+
+const linkSchema = z.object({
+  client_id: z.string().uuid().optional().nullable(),
+  lead_id: z.string().uuid().optional().nullable(),
+}).refine(data => data.client_id !== undefined || data.lead_id !== undefined, {
+  message: 'Informe o cliente ou o lead',
+});
+
+/**
+ * Buscar conversa verificando se o usuário tem acesso
+ * - Regional: conversas da sua cidade / Franqueado: conversas dos seus clientes e leads
+ */
+async function findConversationForUser(conversationId: string, context: AuthContext) {
+  const conversation = await prisma.whatsappConversation.findUnique({
+    where: { id: conversationId },
+  });
+
+  if (!conversation) {
+    throw new NotFoundError('Conversa não encontrada');
+  }
+  if (context.isFranchisee() && conversation.franchisee_id !== context.franchiseeId) {
+    throw new ForbiddenError('Sem permissão para acessar esta conversa');
+  }
+  if (context.isRegional() && conversation.city_id !== context.cityId) {
+    throw new ForbiddenError('Sem permissão para acessar esta conversa');
+  }
+
+  return conversation;
+}
+
+/**
+ * Cidade do modelo: a do usuário (regional/franqueado) ou a informada (master/admin)
+ */
+function resolveTemplateCity(cityId: string | undefined, context: AuthContext) {
+  const resolved = context.isMasterOrAdmin() ? cityId : context.cityId;
+  if (!resolved) {
+    throw new BadRequestError('city_id é obrigatório');
+  }
+  return resolved;
+}
+
+const whatsappRoutes: FastifyPluginAsync = async (app) => {
+  /**
+   * GET /api/whatsapp/conversations
+   * Caixa de entrada: conversas mais recentes primeiro
+   */
+  app.get('/conversations', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar conversas do WhatsApp (mais recentes primeiro)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          instance_id: { type: 'string', format: 'uuid' },
+          client_id: { type: 'string', format: 'uuid' },
+          lead_id: { type: 'string', format: 'uuid' },
+          unread: { type: 'boolean', description: 'Apenas conversas com mensagens não lidas' },
+          search: { type: 'string', description: 'Busca por telefone ou nome do contato/cliente/lead' },
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = conversationQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, instance_id, client_id, lead_id, unread, search, city_id } = query.data;
+    const context = getContext(request);
+
+    const result = await whatsappInboxService.listConversations({
+      cityId: context.isMasterOrAdmin() ? city_id : context.isRegional() ? context.cityId : undefined,
+      franchiseeId: context.isFranchisee() ? context.franchiseeId : undefined,
+      instanceId: instance_id,
+      clientId: client_id,
+      leadId: lead_id,
+      unread,
+      search,
+      page,
+      limit,
+    });
+
+    return reply.send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * GET /api/whatsapp/conversations/:id
+   * Buscar conversa com cliente/lead vinculado
+   */
+  app.get('/conversations/:id', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Buscar conversa com o cliente/lead vinculado',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: dataResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    await findConversationForUser(id, context);
+
+    const conversation = await prisma.whatsappConversation.findUnique({
+      where: { id },
+      include: {
+        instance: { select: { id: true, instance_name: true, phone_number: true, status: true } },
+        client: { select: { id: true, full_name: true, cpf: true, cnpj: true, phone: true, email: true } },
+        lead: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            source: true,
+            assignee: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    return reply.send({ success: true, data: conversation });
+  });
+
+  /**
+   * GET /api/whatsapp/conversations/:id/messages
+   * Mensagens da conversa (mais recentes primeiro)
+   */
+  app.get('/conversations/:id/messages', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Mensagens da conversa (mais recentes primeiro)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const query = messageQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    await findConversationForUser(id, context);
+
+    const result = await whatsappInboxService.listMessages(id, query.data);
+
+    return reply.send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/whatsapp/conversations/:id/read
+   * Marcar conversa como lida
+   */
+  app.post('/conversations/:id/read', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Marcar conversa como lida (zera o contador de não lidas)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      response: {
+        200: dataResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const context = getContext(request);
+    await findConversationForUser(id, context);
+
+    const conversation = await whatsappInboxService.markRead(id);
+
+    return reply.send({ success: true, data: conversation });
+  });
+
+  /**
+   * PATCH /api/whatsapp/conversations/:id/link
+   * Vincular conversa a um cliente e/ou lead
+   */
+  app.patch('/conversations/:id/link', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Vincular manualmente a conversa a um cliente e/ou lead (null remove o vínculo)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: idParamsSchema,
+      body: {
+        type: 'object',
+        properties: {
+          client_id: { type: ['string', 'null'], format: 'uuid' },
+          lead_id: { type: ['string', 'null'], format: 'uuid' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = linkSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const existing = await findConversationForUser(id, context);
+
+    const conversation = await whatsappInboxService.link(id, body.data, context);
+
+    await auditService.logFromRequest(
+      request,
+      AuditActions.WHATSAPP_CONVERSATION_LINK,
+      'whatsapp_conversation',
+      id,
+      { client_id: existing.client_id, lead_id: existing.lead_id },
+      { client_id: conversation.client_id, lead_id: conversation.lead_id }
+    );
+
+    return reply.send({
+      success: true,
+      data: conversation,
+      message: 'Conversa vinculada com sucesso',
+    });
+  });
+
+  /**
+   * POST /api/whatsapp/messages
+   * Enviar mensagem de texto (resposta na conversa ou para um telefone)
+   */
+  app.post('/messages', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Enviar mensagem pelo WhatsApp da cidade (sem instância conectada, envia por email quando informado)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['text'],
+        properties: {
+          conversation_id: { type: 'string', format: 'uuid', description: 'Responder na conversa (usa a instância da conversa)' },
+          phone: { type: 'string' },
+          email: { type: 'string', format: 'email', description: 'Destino do email de fallback' },
+          name: { type: 'string' },
+          subject: { type: 'string', description: 'Assunto do email de fallback' },
+          text: { type: 'string', minLength: 1, maxLength: 4096 },
+          city_id: { type: 'string', format: 'uuid', description: 'Obrigatório para master/admin sem conversa' },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = sendMessageSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const { conversation_id, phone, email, name, subject, text, city_id } = body.data;
+
+    let target: { instance_id?: string; phone?: string; city_id?: string | null; franchisee_id?: string | null; name?: string | null };
+    if (conversation_id) {
+      const conversation = await findConversationForUser(conversation_id, context);
+      target = {
+        instance_id: conversation.instance_id,
+        phone: conversation.phone,
+        city_id: conversation.city_id,
+        franchisee_id: conversation.franchisee_id,
+        name: conversation.contact_name,
+      };
+    } else {
+      const cityId = context.isMasterOrAdmin() ? city_id : context.cityId;
+      if (!cityId) {
+        throw new BadRequestError('city_id é obrigatório');
+      }
+      target = {
+        phone,
+        city_id: cityId,
+        franchisee_id: context.isFranchisee() ? context.franchiseeId : null,
+      };
+    }
+
+    const message = await whatsappService.send({
+      ...target,
+      email,
+      name: name || target.name,
+      subject,
+      text,
+      created_by: context.userId,
+    });
+
+    await auditService.logFromRequest(request, AuditActions.WHATSAPP_MESSAGE_SEND, 'outbound_message', message.id, null, message);
+
+    return reply.status(201).send({
+      success: true,
+      data: message,
+      message: message.status === 'pending' ? 'Mensagem na fila de envio' : 'Mensagem enviada',
+    });
+  });
+
+  /**
+   * POST /api/whatsapp/notifications
+   * Enviar notificação de um modelo (cobrança, PIX, contrato, manutenção)
+   */
+  app.post('/notifications', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Enviar notificação a partir de um modelo: payment_due e pix_payment (cobrança Asaas), contract_ready (contrato gerado) e maintenance_scheduled (ordem de serviço)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['template', 'entity_id'],
+        properties: {
+          template: { type: 'string', enum: WHATSAPP_TEMPLATE_KEYS },
+          entity_id: { type: 'string', format: 'uuid', description: 'ID da cobrança, do contrato ou da OS' },
+          phone: { type: 'string', description: 'Substitui o telefone do locatário' },
+          email: { type: 'string', format: 'email', description: 'Substitui o email do locatário' },
+        },
+      },
+      response: {
+        201: dataResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const body = sendNotificationSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const prepared = await whatsappService.prepareNotification(body.data.template, body.data.entity_id);
+
+    if (context.isFranchisee() && prepared.franchisee_id !== context.franchiseeId) {
+      throw new ForbiddenError('Sem permissão para notificar este registro');
+    }
+    if (context.isRegional() && prepared.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para notificar este registro');
+    }
+
+    const message = await whatsappService.sendNotification(prepared, {
+      phone: body.data.phone,
+      email: body.data.email,
+      created_by: context.userId,
+    });
+
+    await auditService.logFromRequest(request, AuditActions.WHATSAPP_MESSAGE_SEND, 'outbound_message', message.id, null, message);
+
+    return reply.status(201).send({
+      success: true,
+      data: message,
+      message: message.status === 'pending' ? 'Notificação na fila de envio' : 'Notificação enviada',
+    });
+  });
+
+  /**
+   * GET /api/whatsapp/templates
+   * Modelos de mensagem da cidade
+   */
+  app.get('/templates', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Modelos de mensagem da cidade (texto personalizado ou padrão) e variáveis disponíveis',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const { city_id } = request.query as { city_id?: string };
+    const context = getContext(request);
+
+    const templates = await whatsappService.getTemplates(context.isMasterOrAdmin() ? city_id : context.cityId);
+
+    return reply.send({ success: true, data: templates });
+  });
+
+  /**
+   * PUT /api/whatsapp/templates/:key
+   * Personalizar o texto de um modelo na cidade
+   */
+  app.put('/templates/:key', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Personalizar o texto de um modelo na cidade (variáveis no formato {{nome}})',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', enum: WHATSAPP_TEMPLATE_KEYS },
+        },
+        required: ['key'],
+      },
+      body: {
+        type: 'object',
+        required: ['body'],
+        properties: {
+          body: { type: 'string', minLength: 1, maxLength: 4096 },
+          city_id: { type: 'string', format: 'uuid', description: 'Obrigatório para master/admin' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { key } = request.params as { key: WhatsappTemplateKey };
+    const body = templateSchema.safeParse(request.body);
+    if (!body.success) {
+      throw new BadRequestError(body.error.errors[0].message);
+    }
+
+    const context = getContext(request);
+    const cityId = resolveTemplateCity(body.data.city_id, context);
+    const previous = await prisma.whatsappTemplate.findUnique({
+      where: { city_id_key: { city_id: cityId, key } },
+    });
+
+    const template = await whatsappService.setTemplate(cityId, key, body.data.body, context.userId);
+
+    await auditService.logFromRequest(request, AuditActions.WHATSAPP_TEMPLATE_UPDATE, 'whatsapp_template', template.id, previous, template);
+
+    return reply.send({
+      success: true,
+      data: template,
+      message: 'Modelo atualizado com sucesso',
+    });
+  });
+
+  /**
+   * DELETE /api/whatsapp/templates/:key
+   * Voltar o modelo da cidade para o texto padrão
+   */
+  app.delete('/templates/:key', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin', 'regional'])],
+    schema: {
+      description: 'Voltar o modelo da cidade para o texto padrão',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', enum: WHATSAPP_TEMPLATE_KEYS },
+        },
+        required: ['key'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          city_id: { type: 'string', format: 'uuid', description: 'Obrigatório para master/admin' },
+        },
+      },
+      response: {
+        200: dataResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const { key } = request.params as { key: WhatsappTemplateKey };
+    const { city_id } = request.query as { city_id?: string };
+    const context = getContext(request);
+    const cityId = resolveTemplateCity(city_id, context);
+
+    const previous = await prisma.whatsappTemplate.findUnique({
+      where: { city_id_key: { city_id: cityId, key } },
+    });
+    if (previous) {
+      await whatsappService.resetTemplate(cityId, key);
+      await auditService.logFromRequest(request, AuditActions.WHATSAPP_TEMPLATE_UPDATE, 'whatsapp_template', previous.id, previous, null);
+    }
+
+    return reply.send({
+      success: true,
+      message: 'Modelo restaurado para o texto padrão',
+    });
+  });
+
+  /**
+   * GET /api/whatsapp/outbound
+   * Envios (WhatsApp e email de fallback) com status de entrega
+   */
+  app.get('/outbound', {
+    preHandler: [authMiddleware, rbac()],
+    schema: {
+      description: 'Listar envios com status de entrega (pending, sent, delivered, read, failed)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'number', minimum: 1, default: 1 },
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 20 },
+          status: { type: 'string', enum: ['pending', 'sent', 'delivered', 'read', 'failed'] },
+          channel: { type: 'string', enum: ['whatsapp', 'email'] },
+          template: { type: 'string' },
+          entity_type: { type: 'string', description: 'asaas_payment, generated_contract ou ordem_servico' },
+          entity_id: { type: 'string', format: 'uuid' },
+          city_id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: paginatedResponseSchema,
+        400: errorResponseSchema,
+      },
+    },
+  }, async (request, reply) => {
+    const query = outboundQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      throw new BadRequestError(query.error.errors[0].message);
+    }
+
+    const { page, limit, status, channel, template, entity_type, entity_id, city_id } = query.data;
+    const context = getContext(request);
+
+    const result = await whatsappService.listOutbound({
+      cityId: context.isMasterOrAdmin() ? city_id : context.isRegional() ? context.cityId : undefined,
+      franchiseeId: context.isFranchisee() ? context.franchiseeId : undefined,
+      status,
+      channel,
+      template,
+      entityType: entity_type,
+      entityId: entity_id,
+      page,
+      limit,
+    });
+
+    return reply.send({
+      success: true,
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: Math.ceil(result.total / result.limit),
+      },
+    });
+  });
+
+  /**
+   * POST /api/whatsapp/outbound/process
+   * Processar a fila de envios manualmente
+   */
+  app.post('/outbound/process', {
+    preHandler: [authMiddleware, rbac(['master_br', 'admin'])],
+    schema: {
+      description: 'Processar a fila de envios pendentes (respeitando o limite por minuto de cada instância)',
+      tags: ['WhatsApp'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: dataResponseSchema,
+      },
+    },
+  }, async (_request, reply) => {
+    const result = await whatsappService.processQueue();
+
+    return reply.send({ success: true, data: result });
+  });
+};
+
+export default whatsappRoutes;
@@ -0,0 +1,324 @@
+import { prisma } from '../config/database.js';
+import { asaasService, AsaasPaymentResponse } from './asaasService.js';
+import { realtimeService } from '../websocket/index.js';
+import { ConflictError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { withJobLock } from '../utils/jobLock.js';
+
+// Status internos ainda sujeitos a mudança no Asaas
+const NON_FINAL_STATUSES = ['PENDING', 'OVERDUE', 'CONFIRMED'];
+
+// Status da cobrança no Asaas -> status interno (mesma convenção do webhook)
+const STATUS_MAP: Record<string, string> = {
+  PENDING: 'PENDING',
+  AWAITING_RISK_ANALYSIS: 'PENDING',
+  APPROVED_BY_RISK_ANALYSIS: 'PENDING',
+  CONFIRMED: 'CONFIRMED',
+  RECEIVED: 'RECEIVED',
+  RECEIVED_IN_CASH: 'RECEIVED',
+  DUNNING_RECEIVED: 'RECEIVED',
+  OVERDUE: 'OVERDUE',
+  DUNNING_REQUESTED: 'OVERDUE',
+  REFUNDED: 'REFUNDED',
+  REFUND_REQUESTED: 'REFUNDED',
+  REFUND_IN_PROGRESS: 'REFUNDED',
+  CHARGEBACK_REQUESTED: 'CANCELLED',
+  CHARGEBACK_DISPUTE: 'CANCELLED',
+  AWAITING_CHARGEBACK_REVERSAL: 'CANCELLED',
+};
+
+export type ReconciliationTrigger = 'manual' | 'schedule';
+
+export interface ReconciliationOptions {
+  franchiseeId?: string;
+  dryRun?: boolean;
+  trigger?: ReconciliationTrigger;
+  userId?: string | null;
+}
+
+export interface ReconciliationDiscrepancy {
+  payment_id: string;
+  asaas_payment_id: string;
+  rental_id: string;
+  franchisee_id: string;
+  installment_number: number;
+  local_status: string;
+  remote_status: string | null;
+  new_status: string | null;
+  local_value: number;
+  remote_value: number | null;
+  action: 'updated' | 'would_update' | 'value_mismatch' | 'error';
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  run_id: string | null;
+  trigger: ReconciliationTrigger;
+  dry_run: boolean;
+  checked: number;
+  updated: number;
+  errors: number;
+  // Cobranças de franqueados sem asaas_token (não consultadas)
+  skipped: number;
+  financeiro_marked_paid: number;
+  discrepancies: ReconciliationDiscrepancy[];
+  started_at: string;
+  finished_at: string;
+}
+
+const toDate = (value?: string | null) => (value ? new Date(`${value}T12:00:00`) : null);
+
+export class AsaasReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Conciliar os pagamentos não finalizados com o status atual no Asaas
+   * - Corrige status divergentes (webhook perdido ou fora de ordem)
+   * - Registra um AsaasPaymentEvent sintético para cada correção
+   * - Marca o financeiro vinculado como pago quando a cobrança foi recebida
+   * Uma execução por vez entre todos os processos da API (manual ou agendada)
+   */
+  async reconcile(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    const report = await withJobLock('asaas_reconciliation', () => this.runReconcile(options));
+    if (!report) {
+      throw new ConflictError('Conciliação com o Asaas já em andamento');
+    }
+    return report;
+  }
+
+  private async runReconcile(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    const trigger = options.trigger || 'manual';
+    const dryRun = !!options.dryRun;
+    const startedAt = new Date();
+
+    const payments = await prisma.asaasPayment.findMany({
+      where: {
+        status: { in: NON_FINAL_STATUSES },
+        ...(options.franchiseeId ? { franchisee_id: options.franchiseeId } : {}),
+      },
+      orderBy: { due_date: 'asc' },
+    });
+
+    // Cobranças são emitidas na conta Asaas de cada franqueado
+    const franchiseeIds = [...new Set(payments.map(payment => payment.franchisee_id))];
+    const franchisees = await prisma.franchisee.findMany({
+      where: { id: { in: franchiseeIds } },
+      select: { id: true, asaas_token: true },
+    });
+    const tokens = new Map(franchisees.map(franchisee => [franchisee.id, franchisee.asaas_token]));
+
+    // Sem asaas_token a consulta cairia na chave master do .env (outra conta): cobranças ignoradas
+    const withoutToken = franchiseeIds.filter(id => !tokens.get(id));
+    if (withoutToken.length > 0) {
+      logger.warn({ franchiseeIds: withoutToken }, 'Asaas reconciliation: franchisees without asaas_token skipped');
+    }
+
+    const report: ReconciliationReport = {
+      run_id: null,
+      trigger,
+      dry_run: dryRun,
+      checked: 0,
+      updated: 0,
+      errors: 0,
+      skipped: 0,
+      financeiro_marked_paid: 0,
+      discrepancies: [],
+      started_at: startedAt.toISOString(),
+      finished_at: startedAt.toISOString(),
+    };
+
+    for (const payment of payments) {
+      const apiKey = tokens.get(payment.franchisee_id);
+      if (!apiKey) {
+        report.skipped++;
+        continue;
+      }
+
+      report.checked++;
+
+      const base = {
+        payment_id: payment.id,
+        asaas_payment_id: payment.asaas_payment_id,
+        rental_id: payment.rental_id,
+        franchisee_id: payment.franchisee_id,
+        installment_number: payment.installment_number,
+        local_status: payment.status,
+        local_value: Number(payment.valor),
+      };
+
+      let remote: AsaasPaymentResponse;
+      try {
+        remote = await asaasService.getPayment(payment.asaas_payment_id, apiKey);
+      } catch (error: any) {
+        report.errors++;
+        report.discrepancies.push({
+          ...base,
+          remote_status: null,
+          new_status: null,
+          remote_value: null,
+          action: 'error',
+          error: error.message,
+        });
+        continue;
+      }
+
+      const newStatus = remote.deleted ? 'CANCELLED' : STATUS_MAP[remote.status] || payment.status;
+      const remoteValue = Number(remote.value);
+
+      if (newStatus === payment.status) {
+        // Valor alterado diretamente no Asaas não é corrigido automaticamente
+        if (remoteValue !== base.local_value) {
+          report.discrepancies.push({
+            ...base,
+            remote_status: remote.status,
+            new_status: null,
+            remote_value: remoteValue,
+            action: 'value_mismatch',
+          });
+        }
+        continue;
+      }
+
+      const discrepancy: ReconciliationDiscrepancy = {
+        ...base,
+        remote_status: remote.status,
+        new_status: newStatus,
+        remote_value: remoteValue,
+        action: dryRun ? 'would_update' : 'updated',
+      };
+      report.discrepancies.push(discrepancy);
+
+      if (dryRun) {
+        continue;
+      }
+
+      try {
+        const paid = newStatus === 'RECEIVED' || newStatus === 'CONFIRMED';
+        const updateData: any = { status: newStatus, updated_at: new Date() };
+        if (paid) {
+          updateData.paid_at = toDate(remote.clientPaymentDate || remote.paymentDate) || new Date();
+          updateData.paid_value = remote.value;
+        }
+
+        await prisma.asaasPayment.update({
+          where: { id: payment.id },
+          data: updateData,
+        });
+
+        if (newStatus === 'RECEIVED' && payment.financeiro_id) {
+          await prisma.financeiro.update({
+            where: { id: payment.financeiro_id },
+            data: { pago: true },
+          });
+          report.financeiro_marked_paid++;
+        }
+
+        await prisma.asaasPaymentEvent.create({
+          data: {
+            asaas_payment_id: payment.id,
+            event_type: `RECONCILIATION_${newStatus}`,
+            event_data: {
+              source: 'reconciliation',
+              trigger,
+              previous_status: payment.status,
+              payment: remote,
+            } as any,
+            asaas_payment_external_id: payment.asaas_payment_id,
+            webhook_id: null,
+            processed: true,
+          },
+        });
+
+        if (realtimeService) {
+          realtimeService.emitFinanceiroChange(payment.franchisee_id, {
+            type: 'UPDATE',
+            table: 'asaas_payments',
+            data: { ...payment, ...updateData },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        report.updated++;
+      } catch (error: any) {
+        report.errors++;
+        discrepancy.action = 'error';
+        discrepancy.error = error.message;
+      }
+    }
+
+    const finishedAt = new Date();
+    report.finished_at = finishedAt.toISOString();
+
+    const run = await prisma.asaasReconciliationRun.create({
+      data: {
+        trigger,
+        dry_run: dryRun,
+        checked: report.checked,
+        updated: report.updated,
+        errors: report.errors,
+        report: report as any,
+        started_by: options.userId || null,
+        started_at: startedAt,
+        finished_at: finishedAt,
+      },
+    });
+    report.run_id = run.id;
+
+    logger.info({
+      runId: run.id,
+      trigger,
+      dryRun,
+      checked: report.checked,
+      updated: report.updated,
+      errors: report.errors,
+      skipped: report.skipped,
+    }, 'Asaas reconciliation finished');
+
+    return report;
+  }
+
+  /**
+   * Iniciar a conciliação periódica (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      // Evita execuções sobrepostas quando a conciliação demora mais que o intervalo
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.reconcile({ trigger: 'schedule' });
+      } catch (error: any) {
+        if (error instanceof ConflictError) {
+          logger.info('Scheduled Asaas reconciliation skipped: another run in progress');
+        } else {
+          logger.error({ error: error.message }, 'Scheduled Asaas reconciliation failed');
+        }
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes }, 'Asaas reconciliation scheduled');
+  }
+
+  /**
+   * Parar a conciliação periódica
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const asaasReconciliationService = new AsaasReconciliationService();
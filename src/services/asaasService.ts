@@ -0,0 +1,163 @@
+import { env } from '../config/env.js';
+import { ServiceUnavailableError } from '../utils/errors.js';
+
+export interface AsaasCustomerInput {
+  name: string;
+  cpfCnpj: string;
+  email?: string | null;
+  phone?: string | null;
+  postalCode?: string | null;
+  addressNumber?: string | null;
+}
+
+export interface AsaasSplit {
+  walletId: string;
+  percentualValue?: number;
+  fixedValue?: number;
+}
+
+export interface AsaasPaymentInput {
+  customer: string;
+  billingType: 'BOLETO' | 'PIX' | 'CREDIT_CARD' | 'UNDEFINED';
+  value: number;
+  dueDate: string;
+  description?: string;
+  externalReference?: string;
+  split?: AsaasSplit[];
+}
+
+export interface AsaasPaymentResponse {
+  id: string;
+  customer: string;
+  status: string;
+  value: number;
+  netValue?: number;
+  dueDate: string;
+  paymentDate?: string | null;
+  clientPaymentDate?: string | null;
+  invoiceUrl?: string;
+  bankSlipUrl?: string | null;
+  externalReference?: string | null;
+  deleted?: boolean;
+}
+
+export class AsaasService {
+  /**
+   * Chamada à API do Asaas
+   * apiKey: token da conta que emite a cobrança (padrão: conta principal do .env)
+   */
+  async fetch<T>(endpoint: string, method = 'GET', body?: unknown, apiKey?: string | null): Promise<T> {
+    const token = apiKey || env.ASAAS_API_KEY;
+
+    if (!env.ASAAS_API_URL || !token) {
+      throw new ServiceUnavailableError('Configuração do Asaas não encontrada (ASAAS_API_URL / ASAAS_API_KEY)');
+    }
+
+    const url = `${env.ASAAS_API_URL}${endpoint}`;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          access_token: token,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(env.ASAAS_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      if (error?.name === 'TimeoutError') {
+        throw new ServiceUnavailableError(`Asaas não respondeu em ${env.ASAAS_REQUEST_TIMEOUT_MS}ms (${method} ${endpoint})`);
+      }
+      throw error;
+    }
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      const errMsg =
+        (data as any)?.errors?.map((e: any) => e.description).join(', ') ||
+        'Erro desconhecido na API do Asaas';
+      throw new Error(errMsg);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Buscar cliente pelo CPF/CNPJ ou criar um novo
+   */
+  async findOrCreateCustomer(input: AsaasCustomerInput, apiKey?: string | null): Promise<string> {
+    const cpfCnpj = input.cpfCnpj.replace(/\D/g, '');
+
+    const searchRes = await this.fetch<{ data: { id: string }[] }>(`/customers?cpfCnpj=${cpfCnpj}`, 'GET', undefined, apiKey);
+    if (searchRes.data && searchRes.data.length > 0) {
+      return searchRes.data[0].id;
+    }
+
+    const phone = input.phone ? input.phone.replace(/\D/g, '') : undefined;
+    const customer = await this.fetch<{ id: string }>('/customers', 'POST', {
+      name: input.name,
+      cpfCnpj,
+      email: input.email || undefined,
+      phone,
+      mobilePhone: phone,
+      postalCode: input.postalCode ? input.postalCode.replace(/\D/g, '') : undefined,
+      addressNumber: input.addressNumber || undefined,
+    }, apiKey);
+
+    return customer.id;
+  }
+
+  /**
+   * Criar cobrança
+   */
+  async createPayment(input: AsaasPaymentInput, apiKey?: string | null): Promise<AsaasPaymentResponse> {
+    return this.fetch<AsaasPaymentResponse>('/payments', 'POST', input, apiKey);
+  }
+
+  /**
+   * Buscar cobrança (não excluída) pela referência externa
+   * Usada antes de criar para não duplicar uma cobrança já emitida em uma tentativa anterior
+   */
+  async findPaymentByExternalReference(externalReference: string, apiKey?: string | null): Promise<AsaasPaymentResponse | null> {
+    const res = await this.fetch<{ data: AsaasPaymentResponse[] }>(
+      `/payments?externalReference=${encodeURIComponent(externalReference)}`, 'GET', undefined, apiKey
+    );
+    return res.data?.find(payment => !payment.deleted) || null;
+  }
+
+  /**
+   * Consultar cobrança
+   */
+  async getPayment(paymentId: string, apiKey?: string | null): Promise<AsaasPaymentResponse> {
+    return this.fetch<AsaasPaymentResponse>(`/payments/${paymentId}`, 'GET', undefined, apiKey);
+  }
+
+  /**
+   * Excluir (cancelar) cobrança
+   */
+  async deletePayment(paymentId: string, apiKey?: string | null): Promise<{ deleted: boolean; id: string }> {
+    return this.fetch<{ deleted: boolean; id: string }>(`/payments/${paymentId}`, 'DELETE', undefined, apiKey);
+  }
+
+  /**
+   * Linha digitável do boleto
+   */
+  async getBoletoIdentificationField(paymentId: string, apiKey?: string | null) {
+    return this.fetch<{ identificationField: string; barCode: string }>(
+      `/payments/${paymentId}/identificationField`, 'GET', undefined, apiKey
+    );
+  }
+
+  /**
+   * QR Code PIX da cobrança
+   */
+  async getPixQrCode(paymentId: string, apiKey?: string | null) {
+    return this.fetch<{ encodedImage: string; payload: string }>(
+      `/payments/${paymentId}/pixQrCode`, 'GET', undefined, apiKey
+    );
+  }
+}
+
+export const asaasService = new AsaasService();
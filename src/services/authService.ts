@@ -18,6 +18,7 @@ import {
   ConflictError
 } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { normalizeCnpj } from '../utils/identifiers.js';
 import { nanoid } from 'nanoid';
 import { emailService } from './emailService.js';
 
@@ -540,7 +541,7 @@ export class AuthService {
    * Buscar franqueado por CNPJ (público - para login por CNPJ)
    */
   async findFranchiseeByCnpj(cnpj: string): Promise<any> {
-    const cleanCnpj = cnpj.replace(/\D/g, '');
+    const cleanCnpj = normalizeCnpj(cnpj);
 
     const franchisee = await prisma.franchisee.findFirst({
       where: { cnpj: cleanCnpj },
@@ -0,0 +1,370 @@
+import PDFDocument from 'pdfkit';
+import { prisma } from '../config/database.js';
+import { storageService } from './storageService.js';
+import { templateService, TemplateClauseSnapshot } from './templateService.js';
+import { rentalClientService } from './rentalClientService.js';
+import { BadRequestError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  ContractSources,
+  formatBRL,
+  formatCNPJ,
+  formatCPF,
+  formatDateBR,
+  normalizeVariables,
+  resolveVariables,
+} from './contractVariables.js';
+
+const BLANK = '___________________________________';
+
+export interface GenerateContractInput {
+  templateId: string;
+  rentalId: string;
+  cityId?: string | null;
+  templateVersionNumber?: number;
+  contractData?: Record<string, any>;
+  userId?: string | null;
+}
+
+interface RenderClause {
+  clause_number: string;
+  title: string;
+  content: string;
+}
+
+interface RenderContractInput {
+  title: string;
+  contractNumber: string;
+  content: unknown;
+  clauses: RenderClause[];
+  data: Record<string, string>;
+}
+
+/**
+ * Converter HTML simples (editor de templates) em texto puro
+ */
+const htmlToText = (value: string): string => {
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Achatar objeto aninhado em chaves com ponto (ex: locatario.nome)
+ */
+const flatten = (obj: Record<string, any>, prefix = ''): Record<string, string> => {
+  const result: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(obj || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      Object.assign(result, flatten(value, path));
+    } else if (value !== null && value !== undefined) {
+      result[path] = value instanceof Date ? formatDateBR(value) : String(value);
+    }
+  }
+
+  return result;
+};
+
+export class ContractService {
+  /**
+   * Substituir placeholders {{variavel}} pelos valores informados
+   */
+  mergeVariables(text: string, data: Record<string, string>): string {
+    return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => {
+      const value = data[key];
+      return value !== undefined && value !== '' ? value : BLANK;
+    });
+  }
+
+  /**
+   * Extrair os blocos de texto do conteúdo JSON do template
+   * Aceita string ou objeto com header/body/text/footer
+   */
+  extractContentBlocks(content: unknown): { header: string; body: string; footer: string } {
+    if (typeof content === 'string') {
+      return { header: '', body: htmlToText(content), footer: '' };
+    }
+
+    const obj = (content || {}) as Record<string, unknown>;
+    const asText = (value: unknown) => (typeof value === 'string' ? htmlToText(value) : '');
+
+    return {
+      header: asText(obj.header),
+      body: asText(obj.body) || asText(obj.text) || asText(obj.html) || asText(obj.content),
+      footer: asText(obj.footer),
+    };
+  }
+
+  /**
+   * Carregar as entidades usadas na resolução das variáveis
+   * (locação, cliente, motorista, franqueado, moto, cidade e plano)
+   */
+  async loadSources(rentalId: string): Promise<ContractSources> {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: {
+        motorcycle: true,
+        franchisee: true,
+        city: true,
+        plan: true,
+        driver: true,
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    // Dados completos do cliente vinculado (CNH, RG, endereço)
+    const client = await rentalClientService.findForRental(rental);
+
+    const { motorcycle, franchisee, city, plan, driver, ...rentalFields } = rental;
+
+    return {
+      rental: rentalFields,
+      client,
+      driver,
+      franchisee,
+      motorcycle,
+      city,
+      plan,
+    };
+  }
+
+  /**
+   * Montar os dados padrão do contrato (placeholders sem declaração no template)
+   */
+  buildRentalData(sources: ContractSources): Record<string, string> {
+    const { client, driver, franchisee, motorcycle, city, plan } = sources as Record<string, any>;
+    const rental = sources.rental as Record<string, any>;
+    const cpfLimpo = String(rental.client_cpf || '').replace(/\D/g, '');
+
+    const clientAddress = [
+      rental.client_address_street || client?.address,
+      (rental.client_address_number || client?.number) && `nº ${rental.client_address_number || client?.number}`,
+      rental.client_address_city || client?.city,
+      rental.client_address_state || client?.state,
+    ].filter(Boolean).join(', ') || rental.client_address || '';
+
+    const documento = cpfLimpo.length === 14 ? formatCNPJ(cpfLimpo) : formatCPF(rental.client_cpf);
+
+    return {
+      numero_contrato: '',
+      data_atual: formatDateBR(new Date()),
+      cidade: city?.name || '',
+
+      locador_nome: franchisee?.company_name || franchisee?.fantasy_name || '',
+      locador_nome_fantasia: franchisee?.fantasy_name || '',
+      locador_cnpj: franchisee?.cnpj ? formatCNPJ(franchisee.cnpj) : '',
+      locador_endereco: franchisee?.endereco || '',
+      locador_responsavel: franchisee?.nome_responsavel || '',
+
+      locatario_nome: client?.razao_social || rental.client_name,
+      locatario_cpf: documento,
+      locatario_rg: client?.rg || '',
+      locatario_cnh: client?.cnh_number || rental.driver_cnh || '',
+      locatario_email: rental.client_email || client?.email || '',
+      locatario_telefone: rental.client_phone || client?.phone || '',
+      locatario_endereco: clientAddress,
+      locatario_cep: rental.client_address_zip_code || client?.zip_code || '',
+
+      motorista_nome: driver?.full_name || rental.driver_name || '',
+      motorista_cpf: driver?.cpf || rental.driver_cpf ? formatCPF(driver?.cpf || rental.driver_cpf) : '',
+      motorista_cnh: driver?.cnh_number || rental.driver_cnh || '',
+
+      moto_placa: motorcycle?.placa || rental.motorcycle_plate,
+      moto_marca: motorcycle?.marca || '',
+      moto_modelo: motorcycle?.modelo || '',
+      moto_ano: motorcycle?.ano ? String(motorcycle.ano) : '',
+      moto_cor: motorcycle?.cor || '',
+      moto_chassi: motorcycle?.chassi || '',
+      moto_renavam: motorcycle?.renavam || '',
+      moto_km: rental.km_inicial !== null && rental.km_inicial !== undefined ? String(rental.km_inicial) : '',
+
+      plano_nome: plan?.name || '',
+      data_inicio: formatDateBR(rental.start_date),
+      data_fim: rental.end_date ? formatDateBR(rental.end_date) : '',
+      total_dias: rental.total_days ? String(rental.total_days) : '',
+      valor_diaria: formatBRL(rental.daily_rate),
+      valor_total: rental.total_amount ? formatBRL(rental.total_amount) : '',
+      valor_caucao: rental.deposit_amount ? formatBRL(rental.deposit_amount) : '',
+    };
+  }
+
+  /**
+   * Renderizar o PDF do contrato (conteúdo do template + cláusulas ordenadas)
+   */
+  async renderPdf(input: RenderContractInput): Promise<Buffer> {
+    const { header, body, footer } = this.extractContentBlocks(input.content);
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    // Buffer para armazenar o PDF
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    // Promise para aguardar finalizacao do PDF
+    const pdfPromise = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    // Título
+    doc.font('Helvetica-Bold').fontSize(14)
+      .text(this.mergeVariables(input.title, input.data).toUpperCase(), { align: 'center' });
+    doc.font('Helvetica').fontSize(9)
+      .text(`Contrato nº ${input.contractNumber}`, { align: 'center' });
+    doc.moveDown(1.5);
+
+    doc.fontSize(10);
+
+    if (header) {
+      doc.font('Helvetica').text(this.mergeVariables(header, input.data), { align: 'justify' });
+      doc.moveDown();
+    }
+
+    if (body) {
+      doc.font('Helvetica').text(this.mergeVariables(body, input.data), { align: 'justify' });
+      doc.moveDown();
+    }
+
+    // Cláusulas
+    for (const clause of input.clauses) {
+      const heading = [clause.clause_number, clause.title].filter(Boolean).join(' - ');
+      doc.font('Helvetica-Bold').text(this.mergeVariables(heading, input.data).toUpperCase());
+      doc.moveDown(0.3);
+      doc.font('Helvetica').text(this.mergeVariables(htmlToText(clause.content), input.data), { align: 'justify' });
+      doc.moveDown();
+    }
+
+    if (footer) {
+      doc.font('Helvetica').text(this.mergeVariables(footer, input.data), { align: 'justify' });
+      doc.moveDown();
+    }
+
+    // Local, data e assinaturas
+    doc.moveDown();
+    doc.text(`${input.data.cidade || '_______________'}, ${input.data.data_atual}.`, { align: 'right' });
+    doc.moveDown(3);
+
+    doc.text(BLANK, { align: 'center' });
+    doc.text(`LOCADOR: ${input.data.locador_nome || ''}`, { align: 'center' });
+    doc.moveDown(2);
+
+    doc.text(BLANK, { align: 'center' });
+    doc.text(`LOCATÁRIO: ${input.data.locatario_nome || ''}`, { align: 'center' });
+
+    // Finalizar documento
+    doc.end();
+
+    return pdfPromise;
+  }
+
+  /**
+   * Gerar contrato: mescla template + cláusulas + dados da locação,
+   * renderiza o PDF, envia para o storage e registra o GeneratedContract
+   */
+  async generate(input: GenerateContractInput) {
+    const template = await prisma.contractTemplate.findUnique({
+      where: { id: input.templateId },
+      select: { id: true },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Template não encontrado');
+    }
+
+    // O contrato é gerado sempre a partir de uma versão publicada (snapshot imutável)
+    const version = input.templateVersionNumber
+      ? await templateService.getVersion(template.id, input.templateVersionNumber)
+      : await templateService.getLatestVersion(template.id);
+
+    if (!version) {
+      throw new BadRequestError('Template sem versão publicada. Publique o template antes de gerar contratos');
+    }
+
+    const clauses = (version.clauses as unknown as TemplateClauseSnapshot[])
+      .slice()
+      .sort((a, b) => a.order_index - b.order_index);
+
+    // Gerar número do contrato
+    const contractNumber = `CT-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+
+    // Resolver variáveis declaradas no template; recusar se faltar algo obrigatório
+    const sources = await this.loadSources(input.rentalId);
+    const { values, errors } = resolveVariables(
+      normalizeVariables(version.variables),
+      sources,
+      input.contractData || {}
+    );
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Dados do contrato incompletos ou inválidos', errors);
+    }
+
+    // Dados da locação + dados enviados + variáveis declaradas (maior prioridade)
+    const data: Record<string, string> = {
+      ...this.buildRentalData(sources),
+      ...flatten(input.contractData || {}),
+      ...values,
+      numero_contrato: contractNumber,
+    };
+
+    const pdfBuffer = await this.renderPdf({
+      title: version.title,
+      contractNumber,
+      content: version.content,
+      clauses,
+      data,
+    });
+
+    const uploadResult = await storageService.upload(
+      pdfBuffer,
+      'contratos',
+      `contrato_${contractNumber}.pdf`,
+      'application/pdf'
+    );
+
+    const contract = await prisma.generatedContract.create({
+      data: {
+        template_id: template.id,
+        template_version_id: version.id,
+        rental_id: input.rentalId,
+        city_id: input.cityId || null,
+        contract_number: contractNumber,
+        contract_data: data,
+        pdf_url: uploadResult.url,
+        status: 'generated',
+        created_by: input.userId || null,
+      },
+      include: {
+        template: true,
+        template_version: true,
+      },
+    });
+
+    logger.info({
+      contractId: contract.id,
+      rentalId: input.rentalId,
+      templateId: template.id,
+      templateVersion: version.version_number,
+      pdfUrl: uploadResult.url,
+    }, 'Contrato gerado com sucesso');
+
+    return contract;
+  }
+}
+
+export const contractService = new ContractService();
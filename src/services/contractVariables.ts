@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { TemplateVariable, TemplateVariableType } from '../types/index.js';
+import { isValidCnpj, isValidCpf, isValidCpfCnpj, normalizeCnpj, normalizeCpf, normalizeCpfCnpj } from '../utils/identifiers.js';
+
+/**
+ * Motor de variáveis dos templates de contrato
+ *
+ * Cada template declara seus placeholders em ContractTemplate.variables:
+ *   { key, label, type, required, source, default }
+ * O valor é resolvido (em ordem) a partir do contract_data enviado,
+ * da entidade indicada em `source` (ex: "client.cnh_number") e do `default`.
+ * Templates antigos com variables como array de strings continuam aceitos
+ * (tratados como texto opcional).
+ */
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['text', 'cpf', 'cnpj', 'cpf_cnpj', 'brl', 'date', 'number'];
+
+export const TEMPLATE_VARIABLE_SOURCES = ['rental', 'client', 'driver', 'franchisee', 'motorcycle', 'city', 'plan'] as const;
+
+export const templateVariableSchema = z.union([
+  z.string().min(1),
+  z.object({
+    key: z.string().regex(/^[\w.]+$/, 'Chave de variável inválida (use letras, números, _ ou .)'),
+    label: z.string().optional(),
+    type: z.enum(['text', 'cpf', 'cnpj', 'cpf_cnpj', 'brl', 'date', 'number']).default('text'),
+    required: z.boolean().default(true),
+    source: z.string()
+      .refine(
+        (value) => TEMPLATE_VARIABLE_SOURCES.includes(value.split('.')[0] as any) && value.split('.').length >= 2,
+        { message: `Origem inválida. Use <entidade>.<campo> com entidade em: ${TEMPLATE_VARIABLE_SOURCES.join(', ')}` }
+      )
+      .optional(),
+    default: z.string().optional(),
+  }),
+]);
+
+export const templateVariablesSchema = z.array(templateVariableSchema);
+
+// Entidades disponíveis para resolução das variáveis
+export type ContractSources = Partial<Record<typeof TEMPLATE_VARIABLE_SOURCES[number], Record<string, any> | null>>;
+
+// Funcoes de formatacao
+export const formatDateBR = (date: Date | null | undefined): string => {
+  if (!date) return '___/___/______';
+  return new Intl.DateTimeFormat('pt-BR', { timeZone: 'UTC' }).format(new Date(date));
+};
+
+export const formatCPF = (cpf: string | null | undefined): string => {
+  if (!cpf) return '___.___.___-__';
+  const cleaned = cpf.replace(/\D/g, '');
+  if (cleaned.length !== 11) return cpf;
+  return `${cleaned.slice(0, 3)}.${cleaned.slice(3, 6)}.${cleaned.slice(6, 9)}-${cleaned.slice(9)}`;
+};
+
+export const formatCNPJ = (cnpj: string | null | undefined): string => {
+  if (!cnpj) return '__.___.___/____-__';
+  const cleaned = normalizeCnpj(cnpj);
+  if (cleaned.length !== 14) return cnpj;
+  return `${cleaned.slice(0, 2)}.${cleaned.slice(2, 5)}.${cleaned.slice(5, 8)}/${cleaned.slice(8, 12)}-${cleaned.slice(12)}`;
+};
+
+export const formatBRL = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'R$ ______';
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+};
+
+/**
+ * Normalizar a declaração de variáveis (aceita o formato legado: array de strings)
+ */
+export function normalizeVariables(raw: unknown): TemplateVariable[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((item): TemplateVariable | null => {
+      if (typeof item === 'string') {
+        return { key: item, label: item, type: 'text', required: false };
+      }
+      if (item && typeof item === 'object' && typeof (item as any).key === 'string') {
+        const v = item as Partial<TemplateVariable>;
+        return {
+          key: v.key!,
+          label: v.label || v.key!,
+          type: TEMPLATE_VARIABLE_TYPES.includes(v.type as TemplateVariableType) ? v.type! : 'text',
+          required: v.required ?? true,
+          source: v.source,
+          default: v.default,
+        };
+      }
+      return null;
+    })
+    .filter((v): v is TemplateVariable => v !== null);
+}
+
+/**
+ * Ler valor aninhado (ex: "client.cnh_number" ou "locatario.nome")
+ */
+function getPath(obj: Record<string, any> | null | undefined, path: string): unknown {
+  return path.split('.').reduce<any>((acc, part) => (acc === null || acc === undefined ? undefined : acc[part]), obj);
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Converter número em formato brasileiro ("1.234,56") ou numérico
+ */
+function parseNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  return Number(normalized.replace(/[^\d.-]/g, ''));
+}
+
+/**
+ * Converter data (Date, ISO ou dd/mm/aaaa)
+ */
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  const text = String(value).trim();
+  const br = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const date = br ? new Date(`${br[3]}-${br[2]}-${br[1]}T00:00:00Z`) : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validar e formatar um valor conforme o tipo da variável
+ */
+export function formatVariable(type: TemplateVariableType, raw: unknown): { value?: string; error?: string } {
+  switch (type) {
+    case 'cpf': {
+      const cpf = normalizeCpf(String(raw));
+      if (!isValidCpf(cpf)) return { error: 'CPF inválido' };
+      return { value: formatCPF(cpf) };
+    }
+    case 'cnpj': {
+      const cnpj = normalizeCnpj(String(raw));
+      if (!isValidCnpj(cnpj)) return { error: 'CNPJ inválido' };
+      return { value: formatCNPJ(cnpj) };
+    }
+    case 'cpf_cnpj': {
+      const document = normalizeCpfCnpj(String(raw));
+      if (!isValidCpfCnpj(document)) return { error: 'CPF/CNPJ inválido' };
+      return { value: document.length === 11 ? formatCPF(document) : formatCNPJ(document) };
+    }
+    case 'brl': {
+      const amount = parseNumber(raw);
+      if (isNaN(amount)) return { error: 'Valor monetário inválido' };
+      return { value: formatBRL(amount) };
+    }
+    case 'number': {
+      const amount = parseNumber(raw);
+      if (isNaN(amount)) return { error: 'Número inválido' };
+      return { value: String(amount) };
+    }
+    case 'date': {
+      const date = parseDate(raw);
+      if (!date) return { error: 'Data inválida' };
+      return { value: formatDateBR(date) };
+    }
+    default:
+      return { value: raw instanceof Date ? formatDateBR(raw) : String(raw).trim() };
+  }
+}
+
+/**
+ * Resolver as variáveis declaradas de um template
+ * Retorna os valores formatados e a lista de erros por campo
+ */
+export function resolveVariables(
+  declarations: TemplateVariable[],
+  sources: ContractSources,
+  contractData: Record<string, any> = {}
+): { values: Record<string, string>; errors: Record<string, string[]> } {
+  const values: Record<string, string> = {};
+  const errors: Record<string, string[]> = {};
+
+  for (const variable of declarations) {
+    let raw = getPath(contractData, variable.key);
+    if (isEmpty(raw) && variable.source) {
+      raw = getPath(sources as Record<string, any>, variable.source);
+    }
+    if (isEmpty(raw) && variable.default !== undefined) {
+      raw = variable.default;
+    }
+
+    if (isEmpty(raw)) {
+      if (variable.required) {
+        errors[variable.key] = [`${variable.label} é obrigatório`];
+      }
+      continue;
+    }
+
+    const { value, error } = formatVariable(variable.type, raw);
+    if (error) {
+      errors[variable.key] = [`${variable.label}: ${error}`];
+      continue;
+    }
+
+    values[variable.key] = value!;
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,658 @@
+import { Client, DealStage, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AuthContext, LeadSource } from '../types/index.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { parseIdentifier } from '../utils/identifiers.js';
+import { realtimeService } from '../websocket/index.js';
+import { rentalService } from './rentalService.js';
+import { rentalClientService } from './rentalClientService.js';
+
+// Origens de lead (mesmas opções de lead_source da locação)
+export const LEAD_SOURCES: LeadSource[] = ['instagram_proprio', 'indicacao', 'espontaneo', 'google'];
+
+// Leads ainda em atendimento (contam para a distribuição entre atendentes)
+export const OPEN_LEAD_STATUSES = ['new', 'contacted', 'qualified'];
+
+export type CrmActivityType =
+  | 'call'
+  | 'whatsapp'
+  | 'visit'
+  | 'email'
+  | 'note'
+  | 'stage_change'
+  | 'assignment'
+  | 'conversion';
+
+// Interações registradas pelo atendente (as demais são geradas pelo sistema)
+export const MANUAL_ACTIVITY_TYPES = ['call', 'whatsapp', 'visit', 'email', 'note'] as const;
+
+export interface DealStageInput {
+  key: string;
+  name: string;
+  probability: number;
+  is_won?: boolean;
+  is_lost?: boolean;
+}
+
+export interface ActivityInput {
+  lead_id?: string | null;
+  deal_id?: string | null;
+  type: CrmActivityType;
+  description?: string | null;
+  metadata?: Record<string, unknown> | null;
+  occurred_at?: Date;
+  franchisee_id?: string | null;
+  city_id?: string | null;
+  created_by?: string | null;
+}
+
+export interface ConvertDealInput {
+  client_id?: string | null;
+  client?: {
+    full_name?: string;
+    cpf?: string | null;
+    cnpj?: string | null;
+    is_pj?: boolean;
+    razao_social?: string | null;
+    rg?: string | null;
+    phone?: string;
+    email?: string | null;
+    address?: string | null;
+    number?: string | null;
+    city?: string | null;
+    state?: string | null;
+    zip_code?: string | null;
+    cnh_number?: string | null;
+  };
+  motorcycle_id: string;
+  plan_id?: string | null;
+  start_date: string;
+  end_date?: string | null;
+  daily_rate: number;
+  deposit_amount?: number | null;
+  km_inicial?: number | null;
+  notes?: string | null;
+}
+
+export interface FunnelFilters {
+  cityId?: string;
+  franchiseeId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface FunnelRow {
+  source: string;
+  leads: number;
+  contacted: number;
+  qualified: number;
+  with_deal: number;
+  won: number;
+  lost: number;
+  open: number;
+  conversion_rate: number;
+  won_value: number;
+}
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+const STAGE_KEY_PATTERN = /^[a-z0-9_]+$/;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const percentage = (part: number, total: number) => (total > 0 ? round2((part / total) * 100) : 0);
+
+export class CrmService {
+  /**
+   * Etapas do funil da cidade (ou as etapas padrão quando a cidade não tem funil próprio)
+   */
+  async getStages(cityId?: string | null): Promise<DealStage[]> {
+    if (cityId) {
+      const cityStages = await prisma.dealStage.findMany({
+        where: { city_id: cityId },
+        orderBy: { order_index: 'asc' },
+      });
+      if (cityStages.length > 0) {
+        return cityStages;
+      }
+    }
+
+    return prisma.dealStage.findMany({
+      where: { city_id: null },
+      orderBy: { order_index: 'asc' },
+    });
+  }
+
+  /**
+   * Buscar uma etapa válida para o funil da cidade
+   */
+  async getStage(cityId: string | null | undefined, key: string): Promise<DealStage> {
+    const stages = await this.getStages(cityId);
+    const stage = stages.find(item => item.key === key);
+    if (!stage) {
+      throw new BadRequestError(`Etapa "${key}" não existe no funil ${cityId ? 'da cidade' : 'padrão'}`);
+    }
+    return stage;
+  }
+
+  /**
+   * Configurar as etapas do funil de uma cidade (substitui as etapas atuais)
+   * - Exatamente uma etapa de ganho e ao menos uma de perda
+   * - Etapas removidas não podem ter oportunidades da cidade
+   */
+  async setStages(cityId: string, stages: DealStageInput[]) {
+    const keys = stages.map(stage => stage.key);
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestError('Chaves de etapa repetidas');
+    }
+    const invalidKey = keys.find(key => !STAGE_KEY_PATTERN.test(key));
+    if (invalidKey) {
+      throw new BadRequestError(`Chave de etapa inválida: "${invalidKey}" (use letras minúsculas, números e _)`);
+    }
+    if (stages.filter(stage => stage.is_won).length !== 1) {
+      throw new BadRequestError('O funil precisa de exatamente uma etapa de ganho (is_won)');
+    }
+    if (!stages.some(stage => stage.is_lost)) {
+      throw new BadRequestError('O funil precisa de ao menos uma etapa de perda (is_lost)');
+    }
+    if (stages.some(stage => stage.is_won && stage.is_lost)) {
+      throw new BadRequestError('Uma etapa não pode ser de ganho e de perda ao mesmo tempo');
+    }
+
+    const orphanDeals = await prisma.deal.groupBy({
+      by: ['stage'],
+      where: { city_id: cityId, stage: { notIn: keys } },
+      _count: { _all: true },
+    });
+    if (orphanDeals.length > 0) {
+      const summary = orphanDeals.map(item => `${item.stage} (${item._count._all})`).join(', ');
+      throw new ConflictError(`Existem oportunidades em etapas removidas: ${summary}`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.dealStage.deleteMany({ where: { city_id: cityId } });
+      await tx.dealStage.createMany({
+        data: stages.map((stage, index) => ({
+          city_id: cityId,
+          key: stage.key,
+          name: stage.name,
+          order_index: index + 1,
+          probability: stage.probability,
+          is_won: stage.is_won || false,
+          is_lost: stage.is_lost || false,
+        })),
+      });
+
+      return tx.dealStage.findMany({
+        where: { city_id: cityId },
+        orderBy: { order_index: 'asc' },
+      });
+    });
+  }
+
+  /**
+   * Registrar uma interação no histórico do lead/oportunidade
+   */
+  async logActivity(input: ActivityInput, db: DbClient = prisma) {
+    const activity = await db.crmActivity.create({
+      data: {
+        lead_id: input.lead_id || null,
+        deal_id: input.deal_id || null,
+        type: input.type,
+        description: input.description || null,
+        metadata: (input.metadata as Prisma.InputJsonValue) || undefined,
+        occurred_at: input.occurred_at || new Date(),
+        franchisee_id: input.franchisee_id || null,
+        city_id: input.city_id || null,
+        created_by: input.created_by || null,
+      },
+    });
+
+    // Contato manual com o lead atualiza o último contato e tira o lead de "novo"
+    if (input.lead_id && (MANUAL_ACTIVITY_TYPES as readonly string[]).includes(input.type) && input.type !== 'note') {
+      await db.lead.updateMany({
+        where: { id: input.lead_id },
+        data: { last_contact_at: activity.occurred_at },
+      });
+      await db.lead.updateMany({
+        where: { id: input.lead_id, status: 'new' },
+        data: { status: 'contacted' },
+      });
+    }
+
+    return activity;
+  }
+
+  /**
+   * Atendente com menos leads em aberto entre os usuários ativos do franqueado (ou da cidade)
+   */
+  async pickAssignee(franchiseeId?: string | null, cityId?: string | null): Promise<string | null> {
+    if (!franchiseeId && !cityId) {
+      return null;
+    }
+
+    const users = await prisma.appUser.findMany({
+      where: {
+        status: 'active',
+        role: { in: ['franchisee', 'regional'] },
+        ...(franchiseeId ? { franchisee_id: franchiseeId } : { city_id: cityId }),
+      },
+      select: {
+        id: true,
+        _count: { select: { assigned_leads: { where: { status: { in: OPEN_LEAD_STATUSES } } } } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    if (users.length === 0) {
+      return null;
+    }
+
+    return users.reduce((best, user) =>
+      user._count.assigned_leads < best._count.assigned_leads ? user : best
+    ).id;
+  }
+
+  /**
+   * Validar o atendente escolhido para o lead/oportunidade (ativo e da mesma cidade)
+   */
+  async assertAssignee(userId: string, cityId?: string | null) {
+    const user = await prisma.appUser.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, status: true, city_id: true, role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('Atendente não encontrado');
+    }
+    if (user.status !== 'active') {
+      throw new BadRequestError('Atendente não está ativo');
+    }
+    if (cityId && user.city_id && user.city_id !== cityId && !['master_br', 'admin'].includes(user.role)) {
+      throw new BadRequestError('Atendente não pertence à cidade do lead');
+    }
+
+    return user;
+  }
+
+  /**
+   * Atribuir lead a um atendente (registra a atividade e notifica o atendente)
+   */
+  async assignLead(leadId: string, assigneeId: string, userId?: string | null) {
+    const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+    if (!lead) {
+      throw new NotFoundError('Lead não encontrado');
+    }
+
+    const assignee = await this.assertAssignee(assigneeId, lead.city_id);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.lead.update({
+        where: { id: leadId },
+        data: { assigned_to: assignee.id },
+        include: { assignee: { select: { id: true, name: true, email: true } } },
+      });
+
+      await this.logActivity({
+        lead_id: leadId,
+        type: 'assignment',
+        description: `Lead atribuído a ${assignee.name || 'atendente'}`,
+        metadata: { previous_assignee: lead.assigned_to, assigned_to: assignee.id },
+        franchisee_id: lead.franchisee_id,
+        city_id: lead.city_id,
+        created_by: userId,
+      }, tx);
+
+      return result;
+    });
+
+    this.notifyAssignee(assignee.id, updated);
+
+    return updated;
+  }
+
+  /**
+   * Notificar o atendente sobre um lead atribuído a ele
+   */
+  notifyAssignee(assigneeId: string, lead: { id: string; name: string; phone: string; source: string | null }) {
+    if (!realtimeService) {
+      return;
+    }
+
+    realtimeService.emitNotification(assigneeId, {
+      type: 'info',
+      title: 'Novo lead',
+      message: `${lead.name} (${lead.phone}) foi atribuído a você`,
+      data: { lead_id: lead.id, source: lead.source },
+    });
+  }
+
+  /**
+   * Mover oportunidade de etapa
+   * - Probabilidade passa a ser a da etapa (salvo quando informada)
+   * - Etapa de ganho/perda marca won_at/lost_at (perda exige motivo)
+   */
+  async moveDealStage(
+    dealId: string,
+    input: { stage: string; probability?: number | null; lost_reason?: string | null },
+    userId?: string | null
+  ) {
+    const deal = await prisma.deal.findUnique({ where: { id: dealId } });
+    if (!deal) {
+      throw new NotFoundError('Oportunidade não encontrada');
+    }
+    if (deal.rental_id) {
+      throw new ConflictError('Oportunidade já convertida em locação');
+    }
+
+    const stage = await this.getStage(deal.city_id, input.stage);
+    if (stage.key === deal.stage) {
+      throw new BadRequestError('Oportunidade já está nesta etapa');
+    }
+    if (stage.is_lost && !input.lost_reason) {
+      throw new BadRequestError('Informe o motivo da perda');
+    }
+
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.deal.update({
+        where: { id: dealId },
+        data: {
+          stage: stage.key,
+          probability: input.probability ?? stage.probability,
+          stage_changed_at: now,
+          won_at: stage.is_won ? now : null,
+          lost_at: stage.is_lost ? now : null,
+          lost_reason: stage.is_lost ? input.lost_reason : null,
+        },
+      });
+
+      await this.logActivity({
+        lead_id: deal.lead_id,
+        deal_id: deal.id,
+        type: 'stage_change',
+        description: `Etapa alterada de "${deal.stage}" para "${stage.key}"`,
+        metadata: { from: deal.stage, to: stage.key, lost_reason: input.lost_reason || null },
+        franchisee_id: deal.franchisee_id,
+        city_id: deal.city_id,
+        created_by: userId,
+      }, tx);
+
+      if (deal.lead_id && stage.is_lost) {
+        // Lead só é perdido quando não há outra oportunidade em aberto
+        const openDeals = await tx.deal.count({
+          where: { lead_id: deal.lead_id, id: { not: deal.id }, won_at: null, lost_at: null },
+        });
+        if (openDeals === 0) {
+          await tx.lead.updateMany({
+            where: { id: deal.lead_id, status: { in: OPEN_LEAD_STATUSES } },
+            data: { status: 'lost', lost_reason: input.lost_reason },
+          });
+        }
+      } else if (deal.lead_id) {
+        await tx.lead.updateMany({
+          where: { id: deal.lead_id, status: { in: ['new', 'contacted'] } },
+          data: { status: 'qualified' },
+        });
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Cliente da conversão: o informado, um cadastro existente com o mesmo CPF/CNPJ ou um novo cadastro
+   */
+  private async resolveClient(
+    input: ConvertDealInput,
+    lead: { name: string; phone: string; email: string | null } | null,
+    franchiseeId: string,
+    cityId: string | null,
+    context: AuthContext
+  ): Promise<{ client: Client; created: boolean }> {
+    if (input.client_id) {
+      return { client: await rentalClientService.resolveForRental(input.client_id, context), created: false };
+    }
+
+    const data = input.client || {};
+    const cpf = parseIdentifier('cpf_cnpj', data.cpf, 'CPF');
+    const cnpj = parseIdentifier('cpf_cnpj', data.cnpj, 'CNPJ');
+
+    if (cpf && cpf.length !== 11) {
+      throw new BadRequestError('CPF inválido');
+    }
+    if (cnpj && cnpj.length !== 14) {
+      throw new BadRequestError('CNPJ inválido');
+    }
+    if (data.is_pj ? !cnpj : !cpf) {
+      throw new BadRequestError(data.is_pj ? 'CNPJ do cliente é obrigatório' : 'CPF do cliente é obrigatório');
+    }
+
+    const existing = await prisma.client.findFirst({
+      where: data.is_pj ? { cnpj } : { cpf },
+    });
+    if (existing) {
+      if (!context.isMasterOrAdmin() && existing.city_id && existing.city_id !== context.cityId) {
+        throw new ForbiddenError('Cliente com este documento pertence a outra cidade');
+      }
+      return { client: existing, created: false };
+    }
+
+    const fullName = data.full_name || lead?.name;
+    const phone = data.phone || lead?.phone;
+    if (!fullName || !phone) {
+      throw new BadRequestError('Nome e telefone do cliente são obrigatórios');
+    }
+
+    const client = await prisma.client.create({
+      data: {
+        full_name: fullName,
+        cpf,
+        cnpj,
+        is_pj: data.is_pj || false,
+        razao_social: data.razao_social || null,
+        rg: data.rg || null,
+        phone,
+        email: data.email || lead?.email || null,
+        address: data.address || null,
+        number: data.number || null,
+        city: data.city || null,
+        state: data.state || null,
+        zip_code: data.zip_code || null,
+        cnh_number: data.cnh_number || null,
+        franchisee_id: franchiseeId,
+        city_id: cityId,
+      },
+    });
+
+    return { client, created: true };
+  }
+
+  /**
+   * Converter oportunidade ganha em cliente + locação
+   * - Cliente informado, encontrado pelo documento ou criado a partir do lead
+   * - Locação criada pelo fluxo padrão (moto disponível, plano vigente, termo original)
+   *   com lead_source preenchido pela origem do lead
+   * - Oportunidade vai para a etapa de ganho e o lead para "converted"
+   * A oportunidade é reivindicada e a locação criada na mesma transação: conversões concorrentes
+   * da mesma oportunidade resultam em uma única locação
+   */
+  async convertDeal(dealId: string, input: ConvertDealInput, context: AuthContext) {
+    const deal = await prisma.deal.findUnique({
+      where: { id: dealId },
+      include: { lead: true },
+    });
+    if (!deal) {
+      throw new NotFoundError('Oportunidade não encontrada');
+    }
+    if (deal.rental_id) {
+      throw new ConflictError('Oportunidade já convertida em locação');
+    }
+    if (deal.lost_at) {
+      throw new BadRequestError('Oportunidade perdida não pode ser convertida');
+    }
+
+    const stages = await this.getStages(deal.city_id);
+    const wonStage = stages.find(stage => stage.is_won);
+    if (!wonStage) {
+      throw new BadRequestError('Funil sem etapa de ganho configurada');
+    }
+
+    const franchiseeId = deal.franchisee_id || deal.lead?.franchisee_id || context.franchiseeId;
+    if (!franchiseeId) {
+      throw new BadRequestError('Oportunidade sem franqueado para a locação');
+    }
+    const cityId = deal.city_id || deal.lead?.city_id || null;
+
+    const { client, created } = await this.resolveClient(input, deal.lead, franchiseeId, cityId, context);
+
+    const leadSource = deal.lead?.source && LEAD_SOURCES.includes(deal.lead.source as LeadSource) ? deal.lead.source : null;
+
+    const now = new Date();
+    const { updatedDeal, rental } = await prisma.$transaction(async (tx) => {
+      // Reivindicar a oportunidade antes de criar a locação (trava a linha até o commit)
+      const claimed = await tx.deal.updateMany({
+        where: { id: deal.id, rental_id: null, lost_at: null },
+        data: {
+          stage: wonStage.key,
+          probability: wonStage.probability,
+          stage_changed_at: now,
+          won_at: now,
+          client_id: client.id,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictError('Oportunidade já convertida em locação');
+      }
+
+      const newRental = await rentalService.create({
+        client_id: client.id,
+        motorcycle_id: input.motorcycle_id,
+        franchisee_id: franchiseeId,
+        city_id: cityId,
+        plan_id: input.plan_id,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        daily_rate: input.daily_rate,
+        deposit_amount: input.deposit_amount,
+        km_inicial: input.km_inicial,
+        lead_source: leadSource,
+        notes: input.notes,
+      }, context, tx);
+
+      const result = await tx.deal.update({
+        where: { id: deal.id },
+        data: { rental_id: newRental.id },
+      });
+
+      if (deal.lead_id) {
+        await tx.lead.update({
+          where: { id: deal.lead_id },
+          data: { status: 'converted', converted_at: now, client_id: client.id },
+        });
+      }
+
+      await this.logActivity({
+        lead_id: deal.lead_id,
+        deal_id: deal.id,
+        type: 'conversion',
+        description: `Convertido em locação da moto ${newRental.motorcycle_plate}`,
+        metadata: { client_id: client.id, client_created: created, rental_id: newRental.id },
+        franchisee_id: franchiseeId,
+        city_id: cityId,
+        created_by: context.userId,
+      }, tx);
+
+      return { updatedDeal: result, rental: newRental };
+    });
+
+    const charges = rentalService.queueInitialCharges(rental, context.userId);
+
+    return { deal: updatedDeal, client, client_created: created, rental, charges };
+  }
+
+  /**
+   * Funil de conversão por origem do lead
+   * contatado → qualificado → com oportunidade → ganho (leads criados no período)
+   */
+  async funnelReport(filters: FunnelFilters = {}) {
+    const leads = await prisma.lead.findMany({
+      where: {
+        ...(filters.cityId ? { city_id: filters.cityId } : {}),
+        ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+        ...(filters.from || filters.to
+          ? { created_at: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+          : {}),
+      },
+      select: {
+        source: true,
+        status: true,
+        last_contact_at: true,
+        deals: { select: { won_at: true, value: true } },
+      },
+    });
+
+    const rows = new Map<string, FunnelRow>();
+    const rowFor = (source: string) => {
+      if (!rows.has(source)) {
+        rows.set(source, {
+          source,
+          leads: 0,
+          contacted: 0,
+          qualified: 0,
+          with_deal: 0,
+          won: 0,
+          lost: 0,
+          open: 0,
+          conversion_rate: 0,
+          won_value: 0,
+        });
+      }
+      return rows.get(source)!;
+    };
+
+    for (const source of LEAD_SOURCES) {
+      rowFor(source);
+    }
+
+    for (const lead of leads) {
+      const row = rowFor(lead.source && LEAD_SOURCES.includes(lead.source as LeadSource) ? lead.source : 'sem_origem');
+      const hasDeal = lead.deals.length > 0;
+      const won = lead.status === 'converted' || lead.deals.some(deal => deal.won_at);
+
+      row.leads++;
+      if (lead.status !== 'new' || lead.last_contact_at || hasDeal) row.contacted++;
+      if (lead.status === 'qualified' || hasDeal || won) row.qualified++;
+      if (hasDeal) row.with_deal++;
+      if (won) row.won++;
+      if (lead.status === 'lost') row.lost++;
+      if (OPEN_LEAD_STATUSES.includes(lead.status)) row.open++;
+      row.won_value = round2(row.won_value + lead.deals
+        .filter(deal => deal.won_at)
+        .reduce((sum, deal) => sum + Number(deal.value || 0), 0));
+    }
+
+    const data = [...rows.values()].map(row => ({
+      ...row,
+      conversion_rate: percentage(row.won, row.leads),
+    }));
+
+    const totals = data.reduce((acc, row) => ({
+      leads: acc.leads + row.leads,
+      contacted: acc.contacted + row.contacted,
+      qualified: acc.qualified + row.qualified,
+      with_deal: acc.with_deal + row.with_deal,
+      won: acc.won + row.won,
+      lost: acc.lost + row.lost,
+      open: acc.open + row.open,
+      won_value: round2(acc.won_value + row.won_value),
+    }), { leads: 0, contacted: 0, qualified: 0, with_deal: 0, won: 0, lost: 0, open: 0, won_value: 0 });
+
+    return {
+      by_source: data,
+      totals: { ...totals, conversion_rate: percentage(totals.won, totals.leads) },
+    };
+  }
+}
+
+export const crmService = new CrmService();
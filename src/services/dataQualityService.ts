@@ -0,0 +1,203 @@
+import { prisma } from '../config/database.js';
+import {
+  IdentifierKind,
+  hasValidVinCheckDigit,
+  isValidIdentifier,
+  normalizeIdentifier,
+} from '../utils/identifiers.js';
+
+export type DataQualityEntity = 'motorcycle' | 'client' | 'client_driver' | 'franchisee' | 'venda' | 'rastreador';
+
+// invalid: não passa na validação; not_normalized: válido, mas gravado formatado (ex.: com pontos/hífen)
+// duplicate: mesmo identificador normalizado em mais de um registro; check_digit: dígito verificador do VIN não confere
+export type DataQualityIssueType = 'invalid' | 'not_normalized' | 'duplicate' | 'check_digit';
+
+export interface DataQualityIssue {
+  entity: DataQualityEntity;
+  id: string;
+  label: string;
+  field: string;
+  value: string;
+  normalized: string;
+  issue: DataQualityIssueType;
+  duplicate_ids?: string[];
+}
+
+export interface DataQualityFilters {
+  cityId?: string;
+  entity?: DataQualityEntity;
+}
+
+interface CheckedRecord {
+  id: string;
+  label: string;
+  values: Partial<Record<string, string | null>>;
+}
+
+// Campos verificados por entidade (duplicidade só onde o identificador deveria ser único)
+const ENTITY_FIELDS: Record<DataQualityEntity, { field: string; kind: IdentifierKind; unique?: boolean }[]> = {
+  motorcycle: [
+    { field: 'placa', kind: 'placa' },
+    { field: 'chassi', kind: 'chassi' },
+    { field: 'renavam', kind: 'renavam', unique: true },
+  ],
+  client: [
+    { field: 'cpf', kind: 'cpf', unique: true },
+    { field: 'cnpj', kind: 'cnpj', unique: true },
+    { field: 'cpf_responsavel', kind: 'cpf' },
+  ],
+  client_driver: [{ field: 'cpf', kind: 'cpf' }],
+  franchisee: [
+    { field: 'cnpj', kind: 'cnpj', unique: true },
+    { field: 'cpf', kind: 'cpf' },
+  ],
+  venda: [{ field: 'cnpj', kind: 'cnpj' }],
+  rastreador: [
+    { field: 'cnpj', kind: 'cnpj' },
+    { field: 'chassi', kind: 'chassi' },
+    { field: 'placa', kind: 'placa' },
+  ],
+};
+
+/**
+ * Qualidade dos identificadores já gravados (placa, chassi, RENAVAM, CPF e CNPJ)
+ * Lista os registros inválidos, gravados fora do formato normalizado ou duplicados
+ */
+export class DataQualityService {
+  async identifierReport(filters: DataQualityFilters = {}) {
+    const entities = filters.entity
+      ? [filters.entity]
+      : (Object.keys(ENTITY_FIELDS) as DataQualityEntity[]);
+
+    const summary: Partial<Record<DataQualityEntity, { checked: number; issues: Record<DataQualityIssueType, number> }>> = {};
+    const issues: DataQualityIssue[] = [];
+
+    for (const entity of entities) {
+      // Rastreadores não têm cidade: só entram no relatório geral
+      if (entity === 'rastreador' && filters.cityId) {
+        continue;
+      }
+
+      const records = await this.loadRecords(entity, filters.cityId);
+      const entityIssues = this.checkRecords(entity, records);
+
+      summary[entity] = {
+        checked: records.length,
+        issues: {
+          invalid: entityIssues.filter(i => i.issue === 'invalid').length,
+          not_normalized: entityIssues.filter(i => i.issue === 'not_normalized').length,
+          duplicate: entityIssues.filter(i => i.issue === 'duplicate').length,
+          check_digit: entityIssues.filter(i => i.issue === 'check_digit').length,
+        },
+      };
+      issues.push(...entityIssues);
+    }
+
+    return { generated_at: new Date().toISOString(), summary, issues };
+  }
+
+  private checkRecords(entity: DataQualityEntity, records: CheckedRecord[]): DataQualityIssue[] {
+    const issues: DataQualityIssue[] = [];
+
+    for (const { field, kind, unique } of ENTITY_FIELDS[entity]) {
+      const byValue = new Map<string, CheckedRecord[]>();
+
+      for (const record of records) {
+        const value = record.values[field];
+        if (!value || !value.trim()) {
+          continue;
+        }
+
+        const normalized = normalizeIdentifier(kind, value);
+        const base = { entity, id: record.id, label: record.label, field, value, normalized };
+
+        if (!isValidIdentifier(kind, normalized)) {
+          issues.push({ ...base, issue: 'invalid' });
+          continue;
+        }
+        if (value !== normalized) {
+          issues.push({ ...base, issue: 'not_normalized' });
+        }
+        if (kind === 'chassi' && !hasValidVinCheckDigit(normalized)) {
+          issues.push({ ...base, issue: 'check_digit' });
+        }
+
+        byValue.set(normalized, [...(byValue.get(normalized) || []), record]);
+      }
+
+      if (!unique) {
+        continue;
+      }
+
+      for (const [normalized, duplicates] of byValue) {
+        if (duplicates.length < 2) {
+          continue;
+        }
+        for (const record of duplicates) {
+          issues.push({
+            entity,
+            id: record.id,
+            label: record.label,
+            field,
+            value: record.values[field]!,
+            normalized,
+            issue: 'duplicate',
+            duplicate_ids: duplicates.filter(d => d.id !== record.id).map(d => d.id),
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private async loadRecords(entity: DataQualityEntity, cityId?: string): Promise<CheckedRecord[]> {
+    const city = cityId ? { city_id: cityId } : {};
+
+    switch (entity) {
+      case 'motorcycle': {
+        const rows = await prisma.motorcycle.findMany({
+          where: city,
+          select: { id: true, placa: true, chassi: true, renavam: true, modelo: true },
+        });
+        return rows.map(r => ({ id: r.id, label: `${r.placa} - ${r.modelo}`, values: r }));
+      }
+      case 'client': {
+        const rows = await prisma.client.findMany({
+          where: city,
+          select: { id: true, full_name: true, cpf: true, cnpj: true, cpf_responsavel: true },
+        });
+        return rows.map(r => ({ id: r.id, label: r.full_name, values: r }));
+      }
+      case 'client_driver': {
+        const rows = await prisma.clientDriver.findMany({
+          where: cityId ? { client: { city_id: cityId } } : {},
+          select: { id: true, full_name: true, cpf: true },
+        });
+        return rows.map(r => ({ id: r.id, label: r.full_name, values: r }));
+      }
+      case 'franchisee': {
+        const rows = await prisma.franchisee.findMany({
+          where: city,
+          select: { id: true, fantasy_name: true, company_name: true, cnpj: true, cpf: true },
+        });
+        return rows.map(r => ({ id: r.id, label: r.fantasy_name || r.company_name || r.id, values: r }));
+      }
+      case 'venda': {
+        const rows = await prisma.venda.findMany({
+          where: city,
+          select: { id: true, razao_social: true, cnpj: true },
+        });
+        return rows.map(r => ({ id: r.id, label: r.razao_social, values: r }));
+      }
+      case 'rastreador': {
+        const rows = await prisma.rastreador.findMany({
+          select: { id: true, empresa: true, cnpj: true, chassi: true, placa: true },
+        });
+        return rows.map(r => ({ id: r.id, label: r.placa || r.empresa || r.id, values: r }));
+      }
+    }
+  }
+}
+
+export const dataQualityService = new DataQualityService();
@@ -0,0 +1,749 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { auditService, AuditActions } from '../middleware/audit.js';
+import { asaasService } from './asaasService.js';
+import { rentalChargeService } from './rentalChargeService.js';
+import { motorcycleStatusService } from './motorcycleStatusService.js';
+import { realtimeService } from '../websocket/index.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+// Regra aplicada às cidades sem regra cadastrada
+export const DEFAULT_DELINQUENCY_RULE = {
+  grace_days: 3,
+  min_overdue_installments: 1,
+  min_overdue_amount: 0,
+  include_financeiro: true,
+  block_motorcycle: true,
+  is_active: true,
+};
+
+// Status de cobrança Asaas ainda em aberto
+const OPEN_PAYMENT_STATUSES = ['PENDING', 'OVERDUE'];
+
+// Status da moto que o motor pode mover para inadimplente
+const BLOCKABLE_MOTORCYCLE_STATUSES = ['alugada', 'renegociado'];
+
+export interface DelinquencyRuleValues {
+  grace_days: number;
+  min_overdue_installments: number;
+  min_overdue_amount: number;
+  include_financeiro: boolean;
+  block_motorcycle: boolean;
+  is_active: boolean;
+}
+
+export interface DebtItem {
+  source: 'asaas' | 'financeiro';
+  financeiro_id: string | null;
+  asaas_payment_id: string | null;
+  asaas_external_id: string | null;
+  description: string;
+  due_date: string;
+  valor: number;
+  days_overdue: number;
+}
+
+export interface RentalDebt {
+  items: DebtItem[];
+  total: number;
+  delinquent_items: number;
+  delinquent_total: number;
+  max_days_overdue: number;
+}
+
+export interface EvaluationResult {
+  evaluated: number;
+  marked_delinquent: number;
+  regularized: number;
+  renegotiations_completed: number;
+  errors: { rental_id: string; error: string }[];
+}
+
+export interface RenegotiationInput {
+  installments: number;
+  first_due_date: string;
+  interval_days?: number;
+  down_payment?: number;
+  discount?: number;
+  notes?: string | null;
+}
+
+interface ScheduleItem {
+  number: number;
+  due_date: string;
+  valor: number;
+  financeiro_id: string | null;
+  asaas_payment_id: string | null;
+  charge_error?: string;
+}
+
+type RentalForEvaluation = {
+  id: string;
+  franchisee_id: string | null;
+  city_id: string | null;
+  motorcycle_id: string;
+  motorcycle_plate: string;
+  client_name: string;
+  start_date: Date;
+  payment_status: string | null;
+};
+
+type RenegotiationRental = Prisma.RentalGetPayload<{
+  include: {
+    franchisee: { select: { id: true; asaas_token: true; royalties_percentage: true } };
+    city: { select: { asaas_wallet_id: true } };
+  };
+}>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+const startOfToday = () => new Date(`${toDateOnly(new Date())}T00:00:00.000Z`);
+const daysBetween = (from: Date, to: Date) => Math.floor((to.getTime() - from.getTime()) / 86400000);
+
+export class DelinquencyService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Regra de inadimplência da cidade (padrão quando não cadastrada)
+   */
+  async getRule(cityId: string | null): Promise<DelinquencyRuleValues> {
+    const rule = cityId
+      ? await prisma.delinquencyRule.findUnique({ where: { city_id: cityId } })
+      : null;
+
+    if (!rule) {
+      return { ...DEFAULT_DELINQUENCY_RULE };
+    }
+
+    return {
+      grace_days: rule.grace_days,
+      min_overdue_installments: rule.min_overdue_installments,
+      min_overdue_amount: Number(rule.min_overdue_amount),
+      include_financeiro: rule.include_financeiro,
+      block_motorcycle: rule.block_motorcycle,
+      is_active: rule.is_active,
+    };
+  }
+
+  /**
+   * Débitos vencidos da locação
+   * - Cobranças Asaas em aberto com vencimento passado
+   * - Entradas não pagas do Financeiro (mesmo franqueado, placa e locatário) sem cobrança Asaas vinculada
+   * Apenas débitos com atraso acima da carência contam para a inadimplência
+   */
+  async getRentalDebt(rental: RentalForEvaluation, rule: Pick<DelinquencyRuleValues, 'grace_days' | 'include_financeiro'>): Promise<RentalDebt> {
+    const today = startOfToday();
+
+    const payments = await prisma.asaasPayment.findMany({
+      where: { rental_id: rental.id },
+      orderBy: { due_date: 'asc' },
+    });
+
+    const items: DebtItem[] = payments
+      .filter(payment => OPEN_PAYMENT_STATUSES.includes(payment.status) && payment.due_date < today)
+      .map(payment => ({
+        source: 'asaas' as const,
+        financeiro_id: payment.financeiro_id,
+        asaas_payment_id: payment.id,
+        asaas_external_id: payment.asaas_payment_id,
+        description: `Parcela ${payment.installment_number}`,
+        due_date: toDateOnly(payment.due_date),
+        valor: Number(payment.valor),
+        days_overdue: daysBetween(payment.due_date, today),
+      }));
+
+    if (rule.include_financeiro && rental.franchisee_id) {
+      // Lançamentos com cobrança Asaas são acompanhados pelo status da cobrança
+      const linkedIds = payments.map(payment => payment.financeiro_id).filter(Boolean) as string[];
+
+      const entries = await prisma.financeiro.findMany({
+        where: {
+          franchisee_id: rental.franchisee_id,
+          tipo: 'entrada',
+          pago: false,
+          status: 'ativo',
+          placa: rental.motorcycle_plate,
+          locatario: rental.client_name,
+          data: { gte: rental.start_date, lt: today },
+          ...(linkedIds.length > 0 ? { id: { notIn: linkedIds } } : {}),
+        },
+        orderBy: { data: 'asc' },
+      });
+
+      for (const entry of entries) {
+        items.push({
+          source: 'financeiro',
+          financeiro_id: entry.id,
+          asaas_payment_id: null,
+          asaas_external_id: null,
+          description: entry.descricao,
+          due_date: toDateOnly(entry.data),
+          valor: Number(entry.valor),
+          days_overdue: daysBetween(entry.data, today),
+        });
+      }
+    }
+
+    items.sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+    const delinquent = items.filter(item => item.days_overdue > rule.grace_days);
+
+    return {
+      items,
+      total: round2(items.reduce((sum, item) => sum + item.valor, 0)),
+      delinquent_items: delinquent.length,
+      delinquent_total: round2(delinquent.reduce((sum, item) => sum + item.valor, 0)),
+      max_days_overdue: items.reduce((max, item) => Math.max(max, item.days_overdue), 0),
+    };
+  }
+
+  /**
+   * Verificar se os débitos caracterizam inadimplência pela regra da cidade
+   */
+  isDelinquent(debt: RentalDebt, rule: DelinquencyRuleValues): boolean {
+    return rule.is_active
+      && debt.delinquent_items > 0
+      && debt.delinquent_items >= rule.min_overdue_installments
+      && debt.delinquent_total >= rule.min_overdue_amount;
+  }
+
+  /**
+   * Avaliar as locações ativas e aplicar o estado de inadimplência
+   * - Inadimplente: locação + moto movidas para inadimplente (com MotorcycleMovement)
+   * - Regularizada: locação volta para em_dia e a moto para alugada
+   * - Renegociação quitada: renegociação concluída e moto volta para alugada
+   */
+  async evaluate(options: { cityId?: string; franchiseeId?: string; userId?: string | null } = {}): Promise<EvaluationResult> {
+    const rentals = await prisma.rental.findMany({
+      where: {
+        status: 'active',
+        deleted_at: null,
+        ...(options.cityId ? { city_id: options.cityId } : {}),
+        ...(options.franchiseeId ? { franchisee_id: options.franchiseeId } : {}),
+      },
+      select: {
+        id: true,
+        franchisee_id: true,
+        city_id: true,
+        motorcycle_id: true,
+        motorcycle_plate: true,
+        client_name: true,
+        start_date: true,
+        payment_status: true,
+      },
+    });
+
+    const rules = new Map<string, DelinquencyRuleValues>();
+    const result: EvaluationResult = {
+      evaluated: 0,
+      marked_delinquent: 0,
+      regularized: 0,
+      renegotiations_completed: 0,
+      errors: [],
+    };
+
+    for (const rental of rentals) {
+      result.evaluated++;
+
+      try {
+        const ruleKey = rental.city_id || 'default';
+        if (!rules.has(ruleKey)) {
+          rules.set(ruleKey, await this.getRule(rental.city_id));
+        }
+        const rule = rules.get(ruleKey)!;
+
+        const debt = await this.getRentalDebt(rental, rule);
+        const delinquent = this.isDelinquent(debt, rule);
+
+        if (delinquent && rental.payment_status !== 'inadimplente') {
+          await this.markDelinquent(rental, debt, rule, options.userId);
+          result.marked_delinquent++;
+        } else if (!delinquent && rental.payment_status === 'inadimplente') {
+          await this.regularize(rental, options.userId);
+          result.regularized++;
+        } else if (rental.payment_status === 'renegociado' && await this.completeRenegotiationIfPaid(rental, options.userId)) {
+          result.renegotiations_completed++;
+        }
+      } catch (error: any) {
+        logger.error({ rentalId: rental.id, error: error.message }, 'Erro ao avaliar inadimplência da locação');
+        result.errors.push({ rental_id: rental.id, error: error.message });
+      }
+    }
+
+    logger.info({
+      evaluated: result.evaluated,
+      markedDelinquent: result.marked_delinquent,
+      regularized: result.regularized,
+      renegotiationsCompleted: result.renegotiations_completed,
+      errors: result.errors.length,
+    }, 'Delinquency evaluation finished');
+
+    return result;
+  }
+
+  /**
+   * Mover locação (e moto, se a regra bloquear) para inadimplente
+   */
+  private async markDelinquent(rental: RentalForEvaluation, debt: RentalDebt, rule: DelinquencyRuleValues, userId?: string | null) {
+    const reason = `Inadimplência automática: ${debt.delinquent_items} débito(s) em atraso (R$ ${debt.delinquent_total.toFixed(2)})`;
+
+    const motorcycleStatus = await prisma.$transaction(async (tx) => {
+      await tx.rental.update({
+        where: { id: rental.id },
+        data: { payment_status: 'inadimplente', delinquent_since: new Date() },
+      });
+
+      // Renegociação em andamento com parcelas em atraso é considerada quebrada
+      await tx.rentalRenegotiation.updateMany({
+        where: { rental_id: rental.id, status: 'active' },
+        data: { status: 'broken' },
+      });
+
+      return rule.block_motorcycle
+        ? this.moveMotorcycle(tx, rental.motorcycle_id, BLOCKABLE_MOTORCYCLE_STATUSES, 'inadimplente', reason, userId)
+        : null;
+    });
+
+    await auditService.log({
+      userId: userId || undefined,
+      action: AuditActions.RENTAL_DELINQUENT,
+      entityType: 'rental',
+      entityId: rental.id,
+      oldData: { payment_status: rental.payment_status },
+      newData: { payment_status: 'inadimplente', reason, debt_total: debt.delinquent_total },
+    });
+
+    this.notify(rental, 'inadimplente', motorcycleStatus, {
+      title: 'Locação inadimplente',
+      message: `${rental.client_name} (${rental.motorcycle_plate}): ${reason}`,
+      debt,
+    });
+  }
+
+  /**
+   * Retirar a locação do estado inadimplente após quitação dos débitos
+   */
+  private async regularize(rental: RentalForEvaluation, userId?: string | null) {
+    const reason = 'Débitos regularizados';
+
+    const motorcycleStatus = await prisma.$transaction(async (tx) => {
+      await tx.rental.update({
+        where: { id: rental.id },
+        data: { payment_status: 'em_dia', delinquent_since: null },
+      });
+
+      return this.moveMotorcycle(tx, rental.motorcycle_id, ['inadimplente'], 'alugada', reason, userId);
+    });
+
+    await auditService.log({
+      userId: userId || undefined,
+      action: AuditActions.RENTAL_REGULARIZED,
+      entityType: 'rental',
+      entityId: rental.id,
+      oldData: { payment_status: rental.payment_status },
+      newData: { payment_status: 'em_dia' },
+    });
+
+    this.notify(rental, 'em_dia', motorcycleStatus, {
+      title: 'Locação regularizada',
+      message: `${rental.client_name} (${rental.motorcycle_plate}): ${reason}`,
+    });
+  }
+
+  /**
+   * Concluir a renegociação ativa quando todas as parcelas estão pagas
+   */
+  private async completeRenegotiationIfPaid(rental: RentalForEvaluation, userId?: string | null): Promise<boolean> {
+    const renegotiation = await prisma.rentalRenegotiation.findFirst({
+      where: { rental_id: rental.id, status: 'active' },
+      orderBy: { created_at: 'desc' },
+    });
+
+    if (!renegotiation) {
+      return false;
+    }
+
+    const schedule = renegotiation.schedule as unknown as ScheduleItem[];
+    // Parcelas ainda não emitidas (emissão após o commit interrompida) contam como em aberto
+    if (schedule.some(item => !item.financeiro_id)) {
+      return false;
+    }
+
+    const financeiroIds = schedule.map(item => item.financeiro_id);
+    const unpaid = await prisma.financeiro.count({
+      where: { id: { in: financeiroIds }, pago: false },
+    });
+
+    if (unpaid > 0) {
+      return false;
+    }
+
+    const reason = 'Renegociação quitada';
+
+    const motorcycleStatus = await prisma.$transaction(async (tx) => {
+      await tx.rentalRenegotiation.update({
+        where: { id: renegotiation.id },
+        data: { status: 'completed' },
+      });
+      await tx.rental.update({
+        where: { id: rental.id },
+        data: { payment_status: 'em_dia' },
+      });
+
+      return this.moveMotorcycle(tx, rental.motorcycle_id, ['renegociado'], 'alugada', reason, userId);
+    });
+
+    this.notify(rental, 'em_dia', motorcycleStatus, {
+      title: 'Renegociação quitada',
+      message: `${rental.client_name} (${rental.motorcycle_plate}): ${reason}`,
+    });
+
+    return true;
+  }
+
+  /**
+   * Renegociar os débitos vencidos da locação em um novo cronograma de parcelas
+   * - Débitos originais ficam como renegociados (snapshot em renegotiated_items)
+   * - Parcelas emitidas no Asaas quando o franqueado tem conta configurada, só após o commit
+   * - Locação e moto passam para renegociado
+   */
+  async renegotiate(rentalId: string, input: RenegotiationInput, userId?: string | null) {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: {
+        franchisee: { select: { id: true, asaas_token: true, royalties_percentage: true } },
+        city: { select: { asaas_wallet_id: true } },
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (rental.status !== 'active') {
+      throw new BadRequestError('Apenas locações ativas podem ser renegociadas');
+    }
+    if (!rental.franchisee) {
+      throw new BadRequestError('Locação sem franqueado');
+    }
+
+    // Todos os débitos vencidos entram na renegociação, independente da carência
+    const debt = await this.getRentalDebt(rental, { grace_days: 0, include_financeiro: true });
+    if (debt.items.length === 0) {
+      throw new BadRequestError('Locação não possui débitos vencidos para renegociar');
+    }
+
+    const discount = round2(input.discount || 0);
+    const downPayment = round2(input.down_payment || 0);
+    const intervalDays = input.interval_days || 7;
+    const totalAmount = round2(debt.total - discount);
+
+    if (totalAmount <= 0) {
+      throw new BadRequestError('Desconto não pode ser maior ou igual ao débito');
+    }
+    if (downPayment >= totalAmount) {
+      throw new BadRequestError('Entrada deve ser menor que o valor renegociado');
+    }
+
+    const today = toDateOnly(new Date());
+    if (input.first_due_date < today) {
+      throw new BadRequestError('Primeiro vencimento não pode estar no passado');
+    }
+
+    // Cronograma: entrada (parcela 0, vencimento hoje) + parcelas iguais com ajuste de centavos na última
+    const financed = round2(totalAmount - downPayment);
+    const installmentValue = Math.floor((financed / input.installments) * 100) / 100;
+    const planned: { number: number; due_date: string; valor: number }[] = [];
+
+    if (downPayment > 0) {
+      planned.push({ number: 0, due_date: today, valor: downPayment });
+    }
+    for (let number = 1; number <= input.installments; number++) {
+      const dueDate = new Date(`${input.first_due_date}T12:00:00.000Z`);
+      dueDate.setUTCDate(dueDate.getUTCDate() + (number - 1) * intervalDays);
+      planned.push({
+        number,
+        due_date: toDateOnly(dueDate),
+        valor: number === input.installments
+          ? round2(financed - installmentValue * (input.installments - 1))
+          : installmentValue,
+      });
+    }
+
+    const asaasItems = debt.items.filter(item => item.source === 'asaas');
+    const financeiroIds = [...new Set(debt.items.map(item => item.financeiro_id).filter(Boolean))] as string[];
+    const reason = `Renegociação de R$ ${totalAmount.toFixed(2)} em ${input.installments} parcela(s)`;
+
+    const { renegotiation, motorcycleStatus } = await prisma.$transaction(async (tx) => {
+      // Cobranças e lançamentos originais ficam registrados como renegociados (mantidos no histórico)
+      if (asaasItems.length > 0) {
+        const updated = await tx.asaasPayment.updateMany({
+          where: { id: { in: asaasItems.map(item => item.asaas_payment_id!) }, status: { in: OPEN_PAYMENT_STATUSES } },
+          data: { status: 'RENEGOTIATED', updated_at: new Date() },
+        });
+        // Pagamento ou outra renegociação entre o cálculo do débito e o commit
+        if (updated.count !== asaasItems.length) {
+          throw new ConflictError('Débitos da locação foram alterados durante a renegociação, tente novamente');
+        }
+      }
+      if (financeiroIds.length > 0) {
+        const renegotiated = await tx.financeiro.updateMany({
+          where: { id: { in: financeiroIds }, status: 'ativo', pago: false },
+          data: { status: 'renegociado' },
+        });
+        if (renegotiated.count !== financeiroIds.length) {
+          throw new ConflictError('Débitos da locação foram alterados durante a renegociação, tente novamente');
+        }
+      }
+
+      await tx.rentalRenegotiation.updateMany({
+        where: { rental_id: rental.id, status: 'active' },
+        data: { status: 'replaced' },
+      });
+
+      // Cronograma sem lançamentos: as parcelas são emitidas depois do commit
+      const created = await tx.rentalRenegotiation.create({
+        data: {
+          rental_id: rental.id,
+          franchisee_id: rental.franchisee_id,
+          city_id: rental.city_id,
+          original_debt: debt.total,
+          discount,
+          down_payment: downPayment,
+          total_amount: totalAmount,
+          installments_count: input.installments,
+          interval_days: intervalDays,
+          first_due_date: new Date(input.first_due_date),
+          schedule: planned.map(item => ({ ...item, financeiro_id: null, asaas_payment_id: null })) as any,
+          renegotiated_items: debt.items as any,
+          notes: input.notes || null,
+          created_by: userId || null,
+        },
+      });
+
+      await tx.rental.update({
+        where: { id: rental.id },
+        data: { payment_status: 'renegociado', delinquent_since: null },
+      });
+
+      const status = await this.moveMotorcycle(tx, rental.motorcycle_id, ['alugada', 'inadimplente'], 'renegociado', reason, userId);
+
+      return { renegotiation: created, motorcycleStatus: status };
+    });
+
+    const apiKey = rental.franchisee.asaas_token;
+
+    // Cancelar no Asaas as cobranças substituídas para o cliente não pagar em duplicidade
+    for (const item of asaasItems) {
+      await asaasService.deletePayment(item.asaas_external_id!, apiKey).catch((error) => {
+        logger.warn({ paymentId: item.asaas_external_id, error: error.message }, 'Falha ao cancelar cobrança renegociada no Asaas');
+      });
+    }
+
+    const schedule = await this.issueSchedule(rental, planned, input.installments, userId);
+    const updatedRenegotiation = await prisma.rentalRenegotiation.update({
+      where: { id: renegotiation.id },
+      data: { schedule: schedule as any },
+    });
+
+    this.notify(rental, 'renegociado', motorcycleStatus, {
+      title: 'Locação renegociada',
+      message: `${rental.client_name} (${rental.motorcycle_plate}): ${reason}`,
+    });
+
+    return updatedRenegotiation;
+  }
+
+  /**
+   * Emitir as parcelas da renegociação (Asaas quando o franqueado tem conta, senão só no Financeiro)
+   * Executado após o commit da renegociação: nenhuma cobrança nova existe sem a renegociação gravada
+   */
+  private async issueSchedule(
+    rental: RenegotiationRental,
+    planned: { number: number; due_date: string; valor: number }[],
+    installments: number,
+    userId?: string | null
+  ): Promise<ScheduleItem[]> {
+    const apiKey = rental.franchisee.asaas_token;
+    const royaltiesPercentage = rental.franchisee.royalties_percentage ? Number(rental.franchisee.royalties_percentage) : 0;
+    const walletId = rental.city?.asaas_wallet_id;
+    const customerId = apiKey
+      ? await rentalChargeService.findOrCreateCustomer(rental, apiKey).catch((error) => {
+          logger.warn({ rentalId: rental.id, error: error.message }, 'Renegociação: cliente Asaas indisponível, parcelas lançadas apenas no Financeiro');
+          return null;
+        })
+      : null;
+
+    // Numeração das cobranças continua após as parcelas originais da locação
+    const lastInstallment = await prisma.asaasPayment.aggregate({
+      where: { rental_id: rental.id },
+      _max: { installment_number: true },
+    });
+    let nextInstallmentNumber = (lastInstallment._max.installment_number || 0) + 1;
+
+    const schedule: ScheduleItem[] = [];
+    for (const item of planned) {
+      const description = item.number === 0
+        ? `Renegociação ${rental.motorcycle_plate} - entrada`
+        : `Renegociação ${rental.motorcycle_plate} - parcela ${item.number}/${installments}`;
+      let chargeError: string | undefined;
+
+      if (apiKey && customerId) {
+        try {
+          const payment = await rentalChargeService.issueCharge({
+            rental,
+            customerId,
+            apiKey,
+            walletId,
+            royaltiesPercentage,
+            installmentNumber: nextInstallmentNumber++,
+            dueDate: item.due_date,
+            valor: item.valor,
+            description,
+            userId,
+          });
+          schedule.push({ ...item, financeiro_id: payment.financeiro_id!, asaas_payment_id: payment.id });
+          continue;
+        } catch (error: any) {
+          logger.error({ rentalId: rental.id, installment: item.number, error: error.message }, 'Erro ao emitir parcela da renegociação no Asaas');
+          chargeError = error.message;
+        }
+      }
+
+      // Sem conta Asaas (ou falha na emissão): parcela lançada apenas no Financeiro
+      const financeiro = await prisma.financeiro.create({
+        data: {
+          franchisee_id: rental.franchisee.id,
+          tipo: 'entrada',
+          placa: rental.motorcycle_plate,
+          motorcycle_id: rental.motorcycle_id,
+          locatario: rental.client_name,
+          valor: item.valor,
+          data: new Date(item.due_date),
+          descricao: description,
+          pago: false,
+          created_by: userId || null,
+        },
+      });
+      schedule.push({ ...item, financeiro_id: financeiro.id, asaas_payment_id: null, charge_error: chargeError });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Alterar o status da moto (se estiver em um dos status esperados) e registrar a movimentação
+   * Retorna o novo status ou null quando a moto não foi alterada
+   */
+  private async moveMotorcycle(
+    tx: Parameters<Parameters<typeof prisma.$transaction>[0]>[0],
+    motorcycleId: string,
+    fromStatuses: string[],
+    toStatus: 'alugada' | 'inadimplente' | 'renegociado',
+    reason: string,
+    userId?: string | null
+  ): Promise<string | null> {
+    const motorcycle = await tx.motorcycle.findUnique({
+      where: { id: motorcycleId },
+      select: { status: true },
+    });
+
+    if (!motorcycle || !fromStatuses.includes(motorcycle.status as string)) {
+      return null;
+    }
+
+    await motorcycleStatusService.transition(tx, motorcycleId, toStatus, { reason, userId, source: 'delinquency' });
+
+    return toStatus;
+  }
+
+  /**
+   * Notificar a sala do franqueado (e cidade/admin) sobre a mudança de estado
+   */
+  private notify(
+    rental: Pick<RentalForEvaluation, 'id' | 'franchisee_id' | 'city_id' | 'motorcycle_id' | 'motorcycle_plate' | 'client_name'>,
+    paymentStatus: string,
+    motorcycleStatus: string | null,
+    alert: { title: string; message: string; debt?: RentalDebt }
+  ) {
+    if (!realtimeService || !rental.franchisee_id) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+
+    realtimeService.emitDelinquencyChange(rental.franchisee_id, rental.city_id, {
+      type: 'UPDATE',
+      table: 'rentals',
+      data: {
+        rental_id: rental.id,
+        motorcycle_id: rental.motorcycle_id,
+        motorcycle_plate: rental.motorcycle_plate,
+        client_name: rental.client_name,
+        payment_status: paymentStatus,
+        motorcycle_status: motorcycleStatus,
+        title: alert.title,
+        message: alert.message,
+        debt_total: alert.debt?.delinquent_total,
+        max_days_overdue: alert.debt?.max_days_overdue,
+      },
+      timestamp,
+    });
+
+    realtimeService.emitRentalChange(rental.franchisee_id, rental.city_id, {
+      type: 'UPDATE',
+      table: 'rentals',
+      data: { id: rental.id, payment_status: paymentStatus },
+      timestamp,
+    });
+
+    if (motorcycleStatus) {
+      realtimeService.emitMotorcycleChange(rental.franchisee_id, rental.city_id, {
+        type: 'UPDATE',
+        table: 'motorcycles',
+        data: { id: rental.motorcycle_id, status: motorcycleStatus },
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Iniciar a verificação periódica (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.evaluate();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled delinquency evaluation failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes }, 'Delinquency evaluation scheduled');
+  }
+
+  /**
+   * Parar a verificação periódica
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const delinquencyService = new DelinquencyService();
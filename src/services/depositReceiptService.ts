@@ -0,0 +1,459 @@
+import PDFDocument from 'pdfkit';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { storageService } from './storageService.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { formatBRL, formatCNPJ, formatCPF, formatDateBR } from './contractVariables.js';
+
+const BLANK = '___________________________________';
+
+export type DepositRefundReason = 'rental_completion' | 'distrato';
+
+export interface CreateDepositReceiptInput {
+  rentalId: string;
+  amount?: number;
+  paymentMethod?: string | null;
+  receivedAt?: string | null;
+  notes?: string | null;
+  userId?: string | null;
+}
+
+export interface DepositDamageItem {
+  vistoria_id: string;
+  inspection_date: Date;
+  description: string | null;
+  amount: number;
+}
+
+export interface DepositDebtItem {
+  financeiro_id: string;
+  data: Date;
+  descricao: string;
+  valor: number;
+  covered: boolean;
+}
+
+export interface DepositRefundBreakdown {
+  deposit_amount: number;
+  damages: DepositDamageItem[];
+  damage_total: number;
+  damage_deduction: number;
+  debts: DepositDebtItem[];
+  debt_total: number;
+  debt_deduction: number;
+  refund_amount: number;
+  // Valor que ultrapassa a caução e continua devido pelo locatário
+  balance_due: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class DepositReceiptService {
+  /**
+   * Próximo número de comprovante da cidade (contador atômico por cidade)
+   */
+  private async nextNumber(tx: Prisma.TransactionClient, cityId: string) {
+    const counter = await tx.depositReceiptCounter.upsert({
+      where: { city_id: cityId },
+      create: { city_id: cityId, last_number: 1 },
+      update: { last_number: { increment: 1 } },
+    });
+
+    return {
+      sequence: counter.last_number,
+      receiptNumber: `CAU-${String(counter.last_number).padStart(6, '0')}`,
+    };
+  }
+
+  /**
+   * Criar comprovante de caução para a locação e gerar o PDF
+   */
+  async create(input: CreateDepositReceiptInput) {
+    const rental = await prisma.rental.findUnique({
+      where: { id: input.rentalId, deleted_at: null },
+      select: {
+        id: true,
+        client_name: true,
+        client_cpf: true,
+        city_id: true,
+        franchisee_id: true,
+        deposit_amount: true,
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (!rental.city_id) {
+      throw new BadRequestError('A locação precisa estar vinculada a uma cidade para numerar o comprovante');
+    }
+
+    const amount = input.amount ?? (rental.deposit_amount !== null ? Number(rental.deposit_amount) : null);
+    if (amount === null || amount <= 0) {
+      throw new BadRequestError('Informe o valor da caução (a locação não possui valor de caução definido)');
+    }
+
+    const receipt = await prisma.$transaction(async (tx) => {
+      const { sequence, receiptNumber } = await this.nextNumber(tx, rental.city_id);
+
+      return tx.depositReceipt.create({
+        data: {
+          rental_id: rental.id,
+          city_id: rental.city_id,
+          franchisee_id: rental.franchisee_id,
+          client_name: rental.client_name,
+          client_cpf: rental.client_cpf,
+          amount,
+          payment_method: input.paymentMethod || null,
+          received_at: input.receivedAt ? new Date(input.receivedAt) : new Date(),
+          notes: input.notes || null,
+          sequence,
+          receipt_number: receiptNumber,
+          status: 'draft',
+          created_by: input.userId || null,
+        },
+      });
+    });
+
+    logger.info({ receiptId: receipt.id, receiptNumber: receipt.receipt_number, rentalId: rental.id }, 'Comprovante de caução criado');
+
+    return this.generatePdf(receipt.id);
+  }
+
+  /**
+   * Renderizar o PDF do comprovante e salvar no storage
+   */
+  async generatePdf(receiptId: string) {
+    const receipt = await prisma.depositReceipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        rental: {
+          select: { motorcycle_plate: true, start_date: true, end_date: true },
+        },
+        franchisee: {
+          select: { company_name: true, fantasy_name: true, cnpj: true },
+        },
+        city: {
+          select: { name: true },
+        },
+      },
+    });
+
+    if (!receipt) {
+      throw new NotFoundError('Comprovante de caução não encontrado');
+    }
+
+    const pdfBuffer = await this.renderPdf(receipt);
+
+    const uploadResult = await storageService.upload(
+      pdfBuffer,
+      'contratos',
+      `caucao_${receipt.receipt_number || receipt.id}.pdf`,
+      'application/pdf'
+    );
+
+    return prisma.depositReceipt.update({
+      where: { id: receiptId },
+      data: { pdf_url: uploadResult.url },
+    });
+  }
+
+  /**
+   * Renderizar o PDF do comprovante de caução
+   */
+  private async renderPdf(receipt: any): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    // Buffer para armazenar o PDF
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    // Promise para aguardar finalizacao do PDF
+    const pdfPromise = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const locador = receipt.franchisee?.company_name || receipt.franchisee?.fantasy_name || '';
+    const locadorCnpj = receipt.franchisee?.cnpj ? formatCNPJ(receipt.franchisee.cnpj) : '';
+
+    doc.font('Helvetica-Bold').fontSize(14)
+      .text('COMPROVANTE DE CAUÇÃO', { align: 'center' });
+    doc.font('Helvetica').fontSize(9)
+      .text(`Comprovante nº ${receipt.receipt_number || ''}`, { align: 'center' });
+    doc.moveDown(1.5);
+
+    doc.fontSize(10).font('Helvetica').text(
+      `${locador}${locadorCnpj ? `, inscrita no CNPJ sob o nº ${locadorCnpj}` : ''}, declara ter recebido de ` +
+      `${receipt.client_name}, CPF ${formatCPF(receipt.client_cpf)}, a quantia de ${formatBRL(receipt.amount)} ` +
+      'a título de caução, referente à locação da motocicleta abaixo identificada. O valor será devolvido ao ' +
+      'término da locação, descontados eventuais danos constatados na vistoria de saída e débitos em aberto.',
+      { align: 'justify' }
+    );
+    doc.moveDown();
+
+    const rows: [string, string][] = [
+      ['Valor', formatBRL(receipt.amount)],
+      ['Forma de pagamento', receipt.payment_method || '-'],
+      ['Data do recebimento', receipt.received_at ? formatDateBR(receipt.received_at) : '-'],
+      ['Placa', receipt.rental?.motorcycle_plate || '-'],
+      ['Início da locação', receipt.rental?.start_date ? formatDateBR(receipt.rental.start_date) : '-'],
+    ];
+
+    for (const [label, value] of rows) {
+      doc.font('Helvetica-Bold').text(`${label}: `, { continued: true });
+      doc.font('Helvetica').text(value);
+    }
+
+    if (receipt.notes) {
+      doc.moveDown();
+      doc.font('Helvetica-Bold').text('Observações:');
+      doc.font('Helvetica').text(receipt.notes, { align: 'justify' });
+    }
+
+    // Local, data e assinaturas
+    doc.moveDown(2);
+    doc.text(`${receipt.city?.name || '_______________'}, ${formatDateBR(new Date())}.`, { align: 'right' });
+    doc.moveDown(3);
+
+    doc.text(BLANK, { align: 'center' });
+    doc.text(`LOCADOR: ${locador}`, { align: 'center' });
+    doc.moveDown(2);
+
+    doc.text(BLANK, { align: 'center' });
+    doc.text(`LOCATÁRIO: ${receipt.client_name}`, { align: 'center' });
+
+    // Finalizar documento
+    doc.end();
+
+    return pdfPromise;
+  }
+
+  /**
+   * Calcular a devolução da caução: desconta avarias da vistoria de saída
+   * e lançamentos a receber em aberto do locatário no Financeiro
+   */
+  async calculateRefund(receiptId: string, distratoId?: string | null): Promise<DepositRefundBreakdown> {
+    const receipt = await prisma.depositReceipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        rental: {
+          select: {
+            id: true,
+            franchisee_id: true,
+            client_name: true,
+            motorcycle_plate: true,
+            start_date: true,
+          },
+        },
+      },
+    });
+
+    if (!receipt) {
+      throw new NotFoundError('Comprovante de caução não encontrado');
+    }
+    if (!receipt.rental) {
+      throw new BadRequestError('Comprovante não vinculado a uma locação');
+    }
+
+    const rental = receipt.rental;
+    const depositAmount = Number(receipt.amount);
+
+    // Avarias das vistorias de saída da locação (ou do distrato)
+    const vistorias = await prisma.vistoria.findMany({
+      where: {
+        inspection_type: 'saida',
+        damage_amount: { gt: 0 },
+        OR: [
+          { rental_id: rental.id },
+          ...(distratoId ? [{ distrato_id: distratoId }] : []),
+        ],
+      },
+      select: { id: true, inspection_date: true, damage_description: true, damage_amount: true },
+      orderBy: { inspection_date: 'asc' },
+    });
+
+    const damages: DepositDamageItem[] = vistorias.map((vistoria) => ({
+      vistoria_id: vistoria.id,
+      inspection_date: vistoria.inspection_date,
+      description: vistoria.damage_description,
+      amount: Number(vistoria.damage_amount),
+    }));
+    const damageTotal = round2(damages.reduce((sum, item) => sum + item.amount, 0));
+
+    // Débitos do locatário: entradas não pagas da mesma placa desde o início da locação
+    const lancamentos = rental.franchisee_id
+      ? await prisma.financeiro.findMany({
+          where: {
+            franchisee_id: rental.franchisee_id,
+            tipo: 'entrada',
+            pago: false,
+            status: 'ativo',
+            placa: { equals: rental.motorcycle_plate, mode: 'insensitive' },
+            locatario: { equals: rental.client_name, mode: 'insensitive' },
+            data: { gte: rental.start_date },
+          },
+          select: { id: true, data: true, descricao: true, valor: true },
+          orderBy: { data: 'asc' },
+        })
+      : [];
+
+    // Avarias primeiro; débitos são quitados integralmente, em ordem de data, enquanto houver saldo
+    const damageDeduction = Math.min(damageTotal, depositAmount);
+    let available = round2(depositAmount - damageDeduction);
+
+    const debts: DepositDebtItem[] = lancamentos.map((lancamento) => {
+      const valor = Number(lancamento.valor);
+      const covered = valor <= available;
+      if (covered) {
+        available = round2(available - valor);
+      }
+      return {
+        financeiro_id: lancamento.id,
+        data: lancamento.data,
+        descricao: lancamento.descricao,
+        valor,
+        covered,
+      };
+    });
+
+    const debtTotal = round2(debts.reduce((sum, item) => sum + item.valor, 0));
+    const debtDeduction = round2(debts.filter(item => item.covered).reduce((sum, item) => sum + item.valor, 0));
+
+    return {
+      deposit_amount: depositAmount,
+      damages,
+      damage_total: damageTotal,
+      damage_deduction: round2(damageDeduction),
+      debts,
+      debt_total: debtTotal,
+      debt_deduction: debtDeduction,
+      refund_amount: available,
+      balance_due: round2(damageTotal - damageDeduction + debtTotal - debtDeduction),
+    };
+  }
+
+  /**
+   * Registrar a devolução da caução (fim da locação ou distrato)
+   * - Débitos cobertos pela caução são baixados no Financeiro
+   * - O valor devolvido é lançado como saída no Financeiro
+   */
+  async refund(receiptId: string, options: {
+    reason: DepositRefundReason;
+    distratoId?: string | null;
+    userId?: string | null;
+  }) {
+    const receipt = await prisma.depositReceipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        rental: {
+          select: { id: true, status: true, franchisee_id: true, client_name: true, motorcycle_plate: true, motorcycle_id: true },
+        },
+      },
+    });
+
+    if (!receipt) {
+      throw new NotFoundError('Comprovante de caução não encontrado');
+    }
+    if (receipt.status === 'refunded') {
+      throw new BadRequestError('A caução deste comprovante já foi devolvida');
+    }
+    if (receipt.status === 'cancelled') {
+      throw new BadRequestError('Comprovante cancelado');
+    }
+    if (!receipt.rental) {
+      throw new BadRequestError('Comprovante não vinculado a uma locação');
+    }
+
+    if (options.reason === 'rental_completion' && receipt.rental.status !== 'completed') {
+      throw new BadRequestError('A locação precisa estar finalizada para devolver a caução');
+    }
+
+    if (options.reason === 'distrato') {
+      if (!options.distratoId) {
+        throw new BadRequestError('Informe o distrato da devolução');
+      }
+      const distrato = await prisma.distrato.findUnique({
+        where: { id: options.distratoId },
+        select: { id: true, rental_id: true },
+      });
+      if (!distrato) {
+        throw new NotFoundError('Distrato não encontrado');
+      }
+      if (distrato.rental_id && distrato.rental_id !== receipt.rental.id) {
+        throw new BadRequestError('O distrato informado pertence a outra locação');
+      }
+    }
+
+    const breakdown = await this.calculateRefund(receiptId, options.distratoId);
+    const rental = receipt.rental;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Reserva o comprovante antes dos lançamentos: devoluções simultâneas não encontram mais o status em aberto
+      const claimed = await tx.depositReceipt.updateMany({
+        where: { id: receiptId, status: { notIn: ['refunded', 'cancelled'] } },
+        data: {
+          status: 'refunded',
+          refund_reason: options.reason,
+          distrato_id: options.distratoId || null,
+          damage_deduction: breakdown.damage_deduction,
+          debt_deduction: breakdown.debt_deduction,
+          refunded_amount: breakdown.refund_amount,
+          refund_details: breakdown as any,
+          refunded_at: new Date(),
+          refunded_by: options.userId || null,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictError('A caução deste comprovante já foi devolvida ou cancelada');
+      }
+
+      const coveredIds = breakdown.debts.filter(item => item.covered).map(item => item.financeiro_id);
+      if (coveredIds.length > 0) {
+        const settled = await tx.financeiro.updateMany({
+          where: { id: { in: coveredIds }, pago: false },
+          data: { pago: true },
+        });
+        // Débito pago por outro meio entre o cálculo e o commit: o desconto da caução mudou
+        if (settled.count !== coveredIds.length) {
+          throw new ConflictError('Débitos da locação foram alterados durante a devolução, tente novamente');
+        }
+      }
+
+      if (breakdown.refund_amount > 0 && rental.franchisee_id) {
+        await tx.financeiro.create({
+          data: {
+            franchisee_id: rental.franchisee_id,
+            tipo: 'saida',
+            placa: rental.motorcycle_plate,
+            motorcycle_id: rental.motorcycle_id,
+            locatario: rental.client_name,
+            valor: breakdown.refund_amount,
+            data: new Date(),
+            descricao: `Devolução de caução ${receipt.receipt_number || ''}`.trim(),
+            pago: true,
+            created_by: options.userId || null,
+          },
+        });
+      }
+
+      return tx.depositReceipt.findUniqueOrThrow({ where: { id: receiptId } });
+    });
+
+    logger.info({
+      receiptId,
+      reason: options.reason,
+      refundAmount: breakdown.refund_amount,
+      damageDeduction: breakdown.damage_deduction,
+      debtDeduction: breakdown.debt_deduction,
+    }, 'Caução devolvida');
+
+    return { receipt: updated, breakdown };
+  }
+}
+
+export const depositReceiptService = new DepositReceiptService();
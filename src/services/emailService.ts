@@ -121,6 +121,71 @@ class EmailService {
 
     logger.info({ email }, 'Password reset email sent successfully');
   }
+
+  /**
+   * Email de notificação com texto simples (fallback das mensagens de WhatsApp)
+   */
+  async sendNotificationEmail(email: string, name: string | null, subject: string, text: string): Promise<void> {
+    const config = await this.getSmtpConfig();
+    const transporter = await this.createTransporter();
+
+    const fromEmail = config.smtp_from_email || config.smtp_user;
+    const fromName = config.smtp_from_name || 'Visiun';
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\n/g, '<br/>');
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f7;font-family:Arial,Helvetica,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f7;padding:40px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:8px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="background-color:#2D3E95;padding:32px;text-align:center;">
+              <h1 style="color:#ffffff;margin:0;font-size:24px;">Visiun</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:40px 32px;">
+              <p style="color:#555555;font-size:16px;line-height:1.6;margin:0 0 16px;">
+                Olá${name ? ` <strong>${name}</strong>` : ''},
+              </p>
+              <p style="color:#555555;font-size:16px;line-height:1.6;margin:0;word-break:break-word;">${escaped}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color:#f8f9fa;padding:24px 32px;text-align:center;">
+              <p style="color:#aaaaaa;font-size:12px;margin:0;">
+                &copy; ${new Date().getFullYear()} Visiun. Todos os direitos reservados.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+    await transporter.sendMail({
+      from: `"${fromName}" <${fromEmail}>`,
+      to: email,
+      subject,
+      text,
+      html,
+    });
+
+    logger.info({ email, subject }, 'Notification email sent successfully');
+  }
 }
 
 export const emailService = new EmailService();
@@ -0,0 +1,465 @@
+import { prisma } from '../config/database.js';
+import { BadRequestError } from '../utils/errors.js';
+import { normalizePlate } from '../utils/identifiers.js';
+import { RENTED_STATUSES } from './motorcycleStatusService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Período máximo analisado de uma vez
+const MAX_PERIOD_DAYS = 366;
+
+const CANCELLED_ORDER_STATUSES = ['cancelada', 'cancelado', 'nao_compareceu'];
+const CLOSED_ORDER_STATUSES = ['concluida', 'concluido', ...CANCELLED_ORDER_STATUSES];
+
+export type UtilizationBucket = 'rented' | 'maintenance' | 'idle' | 'unavailable';
+
+export type FleetGroupBy = 'modelo' | 'franchisee' | 'city';
+
+export interface FleetAnalyticsFilters {
+  startDate?: string;
+  endDate?: string;
+  cityId?: string;
+  franchiseeId?: string;
+  motorcycleId?: string;
+  modelo?: string;
+}
+
+export interface FleetMetrics {
+  days_in_fleet: number;
+  days: Record<UtilizationBucket, number>;
+  utilization_rate: number;
+  revenue: {
+    rentals: number;
+    other: number;
+    total: number;
+  };
+  costs: {
+    maintenance: number;
+    parts: number;
+    other: number;
+    total: number;
+  };
+  margin: number;
+  margin_rate: number | null;
+  revenue_per_day: number;
+}
+
+export interface MotorcycleAnalytics extends FleetMetrics {
+  motorcycle_id: string;
+  placa: string;
+  modelo: string;
+  marca: string | null;
+  ano: number | null;
+  status: string;
+  city_id: string | null;
+  city_name: string | null;
+  franchisee_id: string | null;
+  franchisee_name: string | null;
+  service_orders: number;
+}
+
+export interface FleetGroupAnalytics extends FleetMetrics {
+  key: string | null;
+  name: string;
+  motorcycles: number;
+  margin_per_motorcycle: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDayKey = (date: Date) => date.toISOString().split('T')[0];
+
+const dayStart = (date: Date | string) => Date.parse(`${typeof date === 'string' ? date : toDayKey(date)}T00:00:00.000Z`);
+
+const groupByMotorcycle = <T>(items: T[], getId: (item: T) => string | null | undefined) => {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const id = getId(item);
+    if (!id) continue;
+    if (!map.has(id)) map.set(id, []);
+    map.get(id)!.push(item);
+  }
+  return map;
+};
+
+/**
+ * Utilização da frota e rentabilidade por moto em um período
+ * Dias: locação (contratos e veículo secundário, sem as pausas) > OS aberta > histórico de status
+ * Receita: diária × dias locados no período + entradas do Financeiro da placa que não são cobranças de locação
+ * Custos: serviços e peças das OS abertas no período + saídas do Financeiro da placa (exceto o lançamento de aceite da OS e devoluções de caução)
+ */
+export class FleetAnalyticsService {
+  async getAnalytics(filters: FleetAnalyticsFilters = {}) {
+    const { start, end } = this.resolvePeriod(filters.startDate, filters.endDate);
+    const totalDays = Math.round((end - start) / DAY_MS) + 1;
+    const periodEnd = new Date(end + DAY_MS - 1);
+
+    const motorcycles = await prisma.motorcycle.findMany({
+      where: {
+        ...(filters.cityId && { city_id: filters.cityId }),
+        ...(filters.franchiseeId && { franchisee_id: filters.franchiseeId }),
+        ...(filters.motorcycleId && { id: filters.motorcycleId }),
+        ...(filters.modelo && { modelo: { equals: filters.modelo, mode: 'insensitive' as const } }),
+        created_at: { lte: periodEnd },
+      },
+      select: {
+        id: true,
+        placa: true,
+        modelo: true,
+        marca: true,
+        ano: true,
+        status: true,
+        city_id: true,
+        franchisee_id: true,
+        data_criacao: true,
+        created_at: true,
+        city: { select: { name: true } },
+        franchisee: { select: { fantasy_name: true, company_name: true } },
+      },
+      orderBy: { placa: 'asc' },
+    });
+
+    const ids = motorcycles.map(m => m.id);
+    const periodStartDate = new Date(start);
+    const periodEndDate = new Date(end);
+
+    const [movements, rentals, secondaryRentals, orders, acceptedOrderEntries, financeiros] = ids.length === 0
+      ? [[], [], [], [], [], []]
+      : await Promise.all([
+        prisma.motorcycleMovement.findMany({
+          where: { motorcycle_id: { in: ids }, created_at: { lte: periodEnd } },
+          select: { motorcycle_id: true, previous_status: true, new_status: true, created_at: true },
+          orderBy: { created_at: 'asc' },
+        }),
+        prisma.rental.findMany({
+          where: {
+            motorcycle_id: { in: ids },
+            deleted_at: null,
+            status: { not: 'cancelled' },
+            start_date: { lte: periodEndDate },
+            OR: [{ actual_return_date: null }, { actual_return_date: { gte: periodStartDate } }],
+          },
+          select: {
+            id: true,
+            motorcycle_id: true,
+            status: true,
+            start_date: true,
+            end_date: true,
+            actual_return_date: true,
+            daily_rate: true,
+            pauses: { select: { paused_at: true, resumed_at: true } },
+          },
+        }),
+        prisma.rentalSecondaryVehicle.findMany({
+          where: {
+            motorcycle_id: { in: ids },
+            deleted_at: null,
+            status: { not: 'cancelled' },
+            start_date: { lte: periodEndDate },
+          },
+          select: { motorcycle_id: true, status: true, start_date: true, end_date: true },
+        }),
+        prisma.ordemServico.findMany({
+          where: {
+            motorcycle_id: { in: ids },
+            data_abertura: { lte: periodEnd },
+          },
+          select: {
+            motorcycle_id: true,
+            status: true,
+            data_abertura: true,
+            data_conclusao: true,
+            updated_at: true,
+            valor_pecas: true,
+            valor_servicos: true,
+            valor_total: true,
+          },
+        }),
+        prisma.ordemServico.findMany({
+          where: { motorcycle_id: { in: ids }, financeiro_id: { not: null } },
+          select: { financeiro_id: true },
+        }),
+        prisma.financeiro.findMany({
+          where: {
+            data: { gte: periodStartDate, lte: periodEndDate },
+            status: 'ativo',
+            OR: [
+              { motorcycle_id: { in: ids } },
+              { motorcycle_id: null, placa: { not: null } },
+            ],
+          },
+          select: { id: true, motorcycle_id: true, placa: true, tipo: true, valor: true, locatario: true },
+        }),
+      ]);
+
+    const today = dayStart(new Date());
+    const clip = (interval: Interval): Interval | null => {
+      const clipped = { start: Math.max(interval.start, start), end: Math.min(interval.end, end) };
+      return clipped.start <= clipped.end ? clipped : null;
+    };
+
+    const idByPlate = new Map(motorcycles.map(m => [normalizePlate(m.placa), m.id]));
+    const acceptedOrderIds = new Set(acceptedOrderEntries.map(o => o.financeiro_id));
+
+    const movementsByMotorcycle = groupByMotorcycle(movements, m => m.motorcycle_id);
+    const rentalsByMotorcycle = groupByMotorcycle(rentals, r => r.motorcycle_id);
+    const secondaryByMotorcycle = groupByMotorcycle(secondaryRentals, s => s.motorcycle_id);
+    const ordersByMotorcycle = groupByMotorcycle(orders, o => o.motorcycle_id);
+    // Lançamentos com locatário são cobranças/devoluções da locação (já consideradas pela diária)
+    const financeirosByMotorcycle = groupByMotorcycle(
+      financeiros.filter(f => !f.locatario && !acceptedOrderIds.has(f.id)),
+      f => f.motorcycle_id || idByPlate.get(normalizePlate(f.placa)),
+    );
+
+    const result: MotorcycleAnalytics[] = motorcycles.map(motorcycle => {
+      const fleetStart = Math.max(start, dayStart(motorcycle.data_criacao || motorcycle.created_at));
+      const daysInFleet = fleetStart > end ? 0 : Math.round((end - fleetStart) / DAY_MS) + 1;
+      const buckets: UtilizationBucket[] = new Array(totalDays);
+
+      // 1. Histórico de status (status ao final de cada dia)
+      // Sem histórico, vale o status atual; se ela está locada, os dias locados vêm só dos contratos
+      const history = movementsByMotorcycle.get(motorcycle.id) || [];
+      let pointer = 0;
+      let current = history.length > 0
+        ? history[0].previous_status || history[0].new_status
+        : this.bucketForStatus(motorcycle.status) === 'rented' ? 'active' : motorcycle.status;
+      for (let day = 0; day < totalDays; day++) {
+        const dayEnd = start + (day + 1) * DAY_MS;
+        while (pointer < history.length && history[pointer].created_at.getTime() < dayEnd) {
+          current = history[pointer].new_status;
+          pointer++;
+        }
+        buckets[day] = this.bucketForStatus(current);
+      }
+
+      const fill = (interval: Interval | null, bucket: UtilizationBucket) => {
+        if (!interval) return;
+        for (let time = interval.start; time <= interval.end; time += DAY_MS) {
+          buckets[Math.round((time - start) / DAY_MS)] = bucket;
+        }
+      };
+
+      // 2. Ordens de serviço
+      let maintenanceCost = 0;
+      let partsCost = 0;
+      let serviceOrders = 0;
+      for (const order of ordersByMotorcycle.get(motorcycle.id) || []) {
+        if (CANCELLED_ORDER_STATUSES.includes(order.status || '')) {
+          continue;
+        }
+
+        const opened = dayStart(order.data_abertura!);
+        const closed = order.data_conclusao
+          ? dayStart(order.data_conclusao)
+          : CLOSED_ORDER_STATUSES.includes(order.status || '') ? dayStart(order.updated_at || order.data_abertura!) : today;
+        fill(clip({ start: opened, end: closed }), 'maintenance');
+
+        if (opened >= start) {
+          serviceOrders++;
+          const parts = Number(order.valor_pecas || 0);
+          const services = Number(order.valor_servicos || 0);
+          partsCost += parts;
+          maintenanceCost += parts || services ? services : Number(order.valor_total || 0);
+        }
+      }
+
+      // 3. Locações (a pausa não conta como dia locado nem é cobrada)
+      let rentalRevenue = 0;
+      for (const rental of rentalsByMotorcycle.get(motorcycle.id) || []) {
+        const rentalEnd = rental.actual_return_date
+          ? dayStart(rental.actual_return_date)
+          : rental.status === 'completed' && rental.end_date ? dayStart(rental.end_date) : today;
+        const interval = clip({ start: dayStart(rental.start_date), end: rentalEnd });
+        if (!interval) continue;
+
+        const paused = new Set<number>();
+        for (const pause of rental.pauses) {
+          const pauseInterval = clip({
+            start: dayStart(pause.paused_at),
+            end: pause.resumed_at ? dayStart(pause.resumed_at) - DAY_MS : today,
+          });
+          if (!pauseInterval) continue;
+          for (let time = pauseInterval.start; time <= pauseInterval.end; time += DAY_MS) {
+            paused.add(time);
+          }
+        }
+
+        let billedDays = 0;
+        for (let time = interval.start; time <= interval.end; time += DAY_MS) {
+          if (!paused.has(time)) {
+            buckets[Math.round((time - start) / DAY_MS)] = 'rented';
+            billedDays++;
+          }
+        }
+        rentalRevenue += billedDays * Number(rental.daily_rate);
+      }
+
+      for (const secondary of secondaryByMotorcycle.get(motorcycle.id) || []) {
+        const secondaryEnd = secondary.end_date && secondary.status !== 'active' ? dayStart(secondary.end_date) : today;
+        fill(clip({ start: dayStart(secondary.start_date), end: secondaryEnd }), 'rented');
+      }
+
+      // 4. Financeiro da placa
+      let otherRevenue = 0;
+      let otherCosts = 0;
+      for (const entry of financeirosByMotorcycle.get(motorcycle.id) || []) {
+        if (entry.tipo === 'entrada') {
+          otherRevenue += Number(entry.valor);
+        } else {
+          otherCosts += Number(entry.valor);
+        }
+      }
+
+      const days: Record<UtilizationBucket, number> = { rented: 0, maintenance: 0, idle: 0, unavailable: 0 };
+      for (let day = Math.round((fleetStart - start) / DAY_MS); day < totalDays; day++) {
+        days[buckets[day]]++;
+      }
+
+      return {
+        motorcycle_id: motorcycle.id,
+        placa: motorcycle.placa,
+        modelo: motorcycle.modelo,
+        marca: motorcycle.marca,
+        ano: motorcycle.ano,
+        status: motorcycle.status,
+        city_id: motorcycle.city_id,
+        city_name: motorcycle.city?.name || null,
+        franchisee_id: motorcycle.franchisee_id,
+        franchisee_name: motorcycle.franchisee?.fantasy_name || motorcycle.franchisee?.company_name || null,
+        service_orders: serviceOrders,
+        ...this.buildMetrics(daysInFleet, days, rentalRevenue, otherRevenue, maintenanceCost, partsCost, otherCosts),
+      };
+    });
+
+    return {
+      period: { start_date: toDayKey(periodStartDate), end_date: toDayKey(periodEndDate), days: totalDays },
+      totals: { motorcycles: result.length, ...this.sumMetrics(result) },
+      motorcycles: result.sort((a, b) => b.margin - a.margin),
+      by_model: this.groupBy(result, 'modelo'),
+      by_franchisee: this.groupBy(result, 'franchisee'),
+      by_city: this.groupBy(result, 'city'),
+    };
+  }
+
+  /**
+   * Agrupar as métricas por modelo, franqueado ou cidade (maior margem por moto primeiro)
+   */
+  groupBy(motorcycles: MotorcycleAnalytics[], groupBy: FleetGroupBy): FleetGroupAnalytics[] {
+    const groups = new Map<string, { key: string | null; name: string; items: MotorcycleAnalytics[] }>();
+
+    for (const motorcycle of motorcycles) {
+      const [key, name] = groupBy === 'modelo'
+        ? [motorcycle.modelo, motorcycle.modelo]
+        : groupBy === 'franchisee'
+          ? [motorcycle.franchisee_id, motorcycle.franchisee_name || 'Sem franqueado']
+          : [motorcycle.city_id, motorcycle.city_name || 'Sem cidade'];
+      const mapKey = groupBy === 'modelo' ? (key || '').toUpperCase() : key || '';
+
+      if (!groups.has(mapKey)) {
+        groups.set(mapKey, { key, name, items: [] });
+      }
+      groups.get(mapKey)!.items.push(motorcycle);
+    }
+
+    return Array.from(groups.values())
+      .map(({ key, name, items }) => {
+        const metrics = this.sumMetrics(items);
+        return {
+          key,
+          name,
+          motorcycles: items.length,
+          ...metrics,
+          margin_per_motorcycle: round2(metrics.margin / items.length),
+        };
+      })
+      .sort((a, b) => b.margin_per_motorcycle - a.margin_per_motorcycle);
+  }
+
+  private sumMetrics(items: FleetMetrics[]): FleetMetrics {
+    const sum = (pick: (item: FleetMetrics) => number) => items.reduce((total, item) => total + pick(item), 0);
+
+    return this.buildMetrics(
+      sum(i => i.days_in_fleet),
+      {
+        rented: sum(i => i.days.rented),
+        maintenance: sum(i => i.days.maintenance),
+        idle: sum(i => i.days.idle),
+        unavailable: sum(i => i.days.unavailable),
+      },
+      sum(i => i.revenue.rentals),
+      sum(i => i.revenue.other),
+      sum(i => i.costs.maintenance),
+      sum(i => i.costs.parts),
+      sum(i => i.costs.other),
+    );
+  }
+
+  private buildMetrics(
+    daysInFleet: number,
+    days: Record<UtilizationBucket, number>,
+    rentalRevenue: number,
+    otherRevenue: number,
+    maintenanceCost: number,
+    partsCost: number,
+    otherCosts: number,
+  ): FleetMetrics {
+    const revenue = rentalRevenue + otherRevenue;
+    const costs = maintenanceCost + partsCost + otherCosts;
+    const margin = revenue - costs;
+
+    return {
+      days_in_fleet: daysInFleet,
+      days,
+      utilization_rate: daysInFleet > 0 ? round2(days.rented / daysInFleet * 100) : 0,
+      revenue: {
+        rentals: round2(rentalRevenue),
+        other: round2(otherRevenue),
+        total: round2(revenue),
+      },
+      costs: {
+        maintenance: round2(maintenanceCost),
+        parts: round2(partsCost),
+        other: round2(otherCosts),
+        total: round2(costs),
+      },
+      margin: round2(margin),
+      margin_rate: revenue > 0 ? round2(margin / revenue * 100) : null,
+      revenue_per_day: daysInFleet > 0 ? round2(revenue / daysInFleet) : 0,
+    };
+  }
+
+  private bucketForStatus(status: string): UtilizationBucket {
+    if ((RENTED_STATUSES as string[]).includes(status) || status === 'relocada') return 'rented';
+    if (status === 'manutencao') return 'maintenance';
+    if (status === 'active') return 'idle';
+    return 'unavailable';
+  }
+
+  /**
+   * Período padrão: últimos 30 dias; o fim nunca passa de hoje
+   */
+  private resolvePeriod(startDate?: string, endDate?: string) {
+    const today = dayStart(new Date());
+    const end = Math.min(endDate ? dayStart(endDate) : today, today);
+    const start = startDate ? dayStart(startDate) : end - 29 * DAY_MS;
+
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      throw new BadRequestError('Período inválido');
+    }
+    if (start > end) {
+      throw new BadRequestError('start_date deve ser anterior ou igual a end_date (e não pode ser futura)');
+    }
+    if ((end - start) / DAY_MS + 1 > MAX_PERIOD_DAYS) {
+      throw new BadRequestError(`O período pode ter no máximo ${MAX_PERIOD_DAYS} dias`);
+    }
+
+    return { start, end };
+  }
+}
+
+export const fleetAnalyticsService = new FleetAnalyticsService();
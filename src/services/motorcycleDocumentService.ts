@@ -0,0 +1,512 @@
+import { MotorcycleDocument, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { motorcycleStatusService } from './motorcycleStatusService.js';
+import { formatDateBR } from './contractVariables.js';
+import { realtimeService } from '../websocket/index.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Status aplicado automaticamente à moto disponível com documento obrigatório vencido
+const BLOCKED_MOTORCYCLE_STATUS = 'indisponivel_emplacamento';
+
+/**
+ * Tipos de documento do veículo
+ * Documento obrigatório vencido impede novas locações da moto
+ */
+export const MOTORCYCLE_DOCUMENT_TYPES = {
+  licenciamento: { label: 'Licenciamento (CRLV)', mandatory: true },
+  ipva: { label: 'IPVA', mandatory: true },
+  dpvat: { label: 'DPVAT', mandatory: false },
+  seguro: { label: 'Seguro', mandatory: false },
+  vistoria: { label: 'Vistoria/Inspeção', mandatory: false },
+} as const;
+
+export type MotorcycleDocumentType = keyof typeof MOTORCYCLE_DOCUMENT_TYPES;
+
+export const MOTORCYCLE_DOCUMENT_TYPE_KEYS = Object.keys(MOTORCYCLE_DOCUMENT_TYPES) as MotorcycleDocumentType[];
+
+const MANDATORY_DOCUMENT_TYPES = MOTORCYCLE_DOCUMENT_TYPE_KEYS.filter(type => MOTORCYCLE_DOCUMENT_TYPES[type].mandatory);
+
+export type DocumentSituation = 'valid' | 'expiring' | 'expired' | 'no_expiry';
+
+export interface MotorcycleDocumentInput {
+  type?: MotorcycleDocumentType;
+  number?: string | null;
+  issue_date?: string | null;
+  expiry_date?: string | null;
+  file_url?: string | null;
+  notes?: string | null;
+}
+
+export interface ExpiringDocumentFilters {
+  days?: number;
+  cityId?: string;
+  franchiseeId?: string;
+  type?: MotorcycleDocumentType;
+  includeExpired?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface DocumentCheckResult {
+  checked: number;
+  reminders_sent: number;
+  blocked: number;
+  errors: { motorcycle_id: string; error: string }[];
+}
+
+const motorcycleSelect = {
+  id: true,
+  placa: true,
+  modelo: true,
+  status: true,
+  city_id: true,
+  franchisee_id: true,
+} satisfies Prisma.MotorcycleSelect;
+
+type DocumentWithMotorcycle = MotorcycleDocument & {
+  motorcycle: Prisma.MotorcycleGetPayload<{ select: typeof motorcycleSelect }>;
+};
+
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+const startOfToday = () => new Date(toDateOnly(new Date()));
+const parseDate = (value: string | null | undefined) =>
+  value === undefined ? undefined : value ? new Date(value) : null;
+
+export class MotorcycleDocumentService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Situação do documento na data de hoje
+   */
+  getSituation(document: Pick<MotorcycleDocument, 'expiry_date'>, today = startOfToday()): DocumentSituation {
+    if (!document.expiry_date) {
+      return 'no_expiry';
+    }
+    if (document.expiry_date < today) {
+      return 'expired';
+    }
+    const limit = new Date(today.getTime() + env.VEHICLE_DOCUMENT_REMINDER_DAYS * MS_PER_DAY);
+    return document.expiry_date <= limit ? 'expiring' : 'valid';
+  }
+
+  /**
+   * Documentos da moto (vigente de cada tipo marcado com current = true)
+   */
+  async list(motorcycleId: string) {
+    const documents = await prisma.motorcycleDocument.findMany({
+      where: { motorcycle_id: motorcycleId },
+      orderBy: [{ type: 'asc' }, { expiry_date: { sort: 'desc', nulls: 'last' } }, { created_at: 'desc' }],
+    });
+
+    const today = startOfToday();
+    const currentIds = new Set(this.pickCurrent(documents).map(document => document.id));
+
+    return documents.map(document => ({
+      ...document,
+      type_label: MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType]?.label || document.type,
+      mandatory: MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType]?.mandatory || false,
+      current: currentIds.has(document.id),
+      situation: this.getSituation(document, today),
+    }));
+  }
+
+  /**
+   * Cadastrar documento (renovação = novo documento do mesmo tipo)
+   */
+  async create(motorcycleId: string, input: MotorcycleDocumentInput, userId?: string | null) {
+    this.assertDates(input);
+
+    const document = await prisma.motorcycleDocument.create({
+      data: {
+        motorcycle_id: motorcycleId,
+        type: input.type!,
+        number: input.number || null,
+        issue_date: parseDate(input.issue_date) || null,
+        expiry_date: parseDate(input.expiry_date) || null,
+        file_url: input.file_url || null,
+        notes: input.notes || null,
+        created_by: userId || null,
+      },
+    });
+
+    await this.syncMotorcycleStatus(motorcycleId, userId);
+
+    return document;
+  }
+
+  /**
+   * Atualizar documento (nova validade reinicia o lembrete de vencimento)
+   */
+  async update(documentId: string, input: MotorcycleDocumentInput, userId?: string | null) {
+    const existing = await this.findById(documentId);
+    this.assertDates({
+      issue_date: input.issue_date !== undefined ? input.issue_date : existing.issue_date && toDateOnly(existing.issue_date),
+      expiry_date: input.expiry_date !== undefined ? input.expiry_date : existing.expiry_date && toDateOnly(existing.expiry_date),
+    });
+
+    const document = await prisma.motorcycleDocument.update({
+      where: { id: documentId },
+      data: {
+        type: input.type,
+        number: input.number,
+        issue_date: parseDate(input.issue_date),
+        expiry_date: parseDate(input.expiry_date),
+        file_url: input.file_url,
+        notes: input.notes,
+        ...(input.expiry_date !== undefined ? { expiry_reminder_sent_at: null } : {}),
+      },
+    });
+
+    await this.syncMotorcycleStatus(existing.motorcycle_id, userId);
+
+    return document;
+  }
+
+  /**
+   * Excluir documento
+   */
+  async remove(documentId: string, userId?: string | null) {
+    const existing = await this.findById(documentId);
+
+    await prisma.motorcycleDocument.delete({ where: { id: documentId } });
+    await this.syncMotorcycleStatus(existing.motorcycle_id, userId);
+
+    return existing;
+  }
+
+  async findById(documentId: string) {
+    const document = await prisma.motorcycleDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundError('Documento não encontrado');
+    }
+    return document;
+  }
+
+  /**
+   * Documentos obrigatórios vigentes já vencidos
+   * Moto sem documento cadastrado de um tipo não é bloqueada (cadastros anteriores ao controle)
+   */
+  async getExpiredMandatory(motorcycleId: string, today = startOfToday()) {
+    const documents = await prisma.motorcycleDocument.findMany({
+      where: { motorcycle_id: motorcycleId, type: { in: MANDATORY_DOCUMENT_TYPES } },
+    });
+
+    return this.pickCurrent(documents).filter(document => this.getSituation(document, today) === 'expired');
+  }
+
+  /**
+   * Impedir locação de moto com documento obrigatório vencido
+   */
+  async assertRentable(motorcycleId: string) {
+    const expired = await this.getExpiredMandatory(motorcycleId);
+
+    if (expired.length > 0) {
+      const list = expired
+        .map(document => `${MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType].label} (vencido em ${formatDateBR(document.expiry_date)})`)
+        .join(', ');
+      throw new BadRequestError(`Moto com documento obrigatório vencido: ${list}`);
+    }
+  }
+
+  /**
+   * Documentos vigentes que vencem nos próximos `days` dias (e os já vencidos, se pedido)
+   */
+  async listExpiring(filters: ExpiringDocumentFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const days = filters.days ?? env.VEHICLE_DOCUMENT_REMINDER_DAYS;
+    const today = startOfToday();
+    const until = new Date(today.getTime() + days * MS_PER_DAY);
+
+    const candidates = await prisma.motorcycleDocument.findMany({
+      where: {
+        expiry_date: filters.includeExpired ? { lte: until } : { gte: today, lte: until },
+        ...(filters.type ? { type: filters.type } : {}),
+        motorcycle: {
+          ...(filters.cityId ? { city_id: filters.cityId } : {}),
+          ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+        },
+      },
+      include: {
+        motorcycle: {
+          select: {
+            ...motorcycleSelect,
+            city: { select: { id: true, name: true } },
+            franchisee: { select: { id: true, fantasy_name: true, company_name: true } },
+          },
+        },
+      },
+      orderBy: { expiry_date: 'asc' },
+    });
+
+    const current = await this.excludeRenewed(candidates);
+
+    const data = current.slice((page - 1) * limit, page * limit).map(document => ({
+      ...document,
+      type_label: MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType]?.label || document.type,
+      mandatory: MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType]?.mandatory || false,
+      situation: this.getSituation(document, today),
+      days_left: Math.round((document.expiry_date!.getTime() - today.getTime()) / MS_PER_DAY),
+    }));
+
+    return { data, total: current.length, page, limit };
+  }
+
+  /**
+   * Verificação periódica
+   * - Lembrete único para documentos vigentes que vencem nos próximos dias
+   * - Moto disponível com documento obrigatório vencido fica indisponível para locação
+   */
+  async check(daysBefore: number = env.VEHICLE_DOCUMENT_REMINDER_DAYS): Promise<DocumentCheckResult> {
+    const today = startOfToday();
+    const until = new Date(today.getTime() + daysBefore * MS_PER_DAY);
+
+    const result: DocumentCheckResult = { checked: 0, reminders_sent: 0, blocked: 0, errors: [] };
+
+    const expiring = await this.excludeRenewed(await prisma.motorcycleDocument.findMany({
+      where: {
+        expiry_date: { gte: today, lte: until },
+        expiry_reminder_sent_at: null,
+      },
+      include: { motorcycle: { select: motorcycleSelect } },
+    }));
+    result.checked += expiring.length;
+
+    for (const document of expiring) {
+      try {
+        await this.notify(document, today);
+        await prisma.motorcycleDocument.update({
+          where: { id: document.id },
+          data: { expiry_reminder_sent_at: new Date() },
+        });
+        result.reminders_sent++;
+      } catch (error: any) {
+        logger.error({ documentId: document.id, error: error.message }, 'Erro ao enviar lembrete de vencimento de documento');
+        result.errors.push({ motorcycle_id: document.motorcycle_id, error: error.message });
+      }
+    }
+
+    const expired = await this.excludeRenewed(await prisma.motorcycleDocument.findMany({
+      where: {
+        type: { in: MANDATORY_DOCUMENT_TYPES },
+        expiry_date: { lt: today },
+        motorcycle: { status: 'active' },
+      },
+      include: { motorcycle: { select: motorcycleSelect } },
+    }));
+    const motorcycleIds = [...new Set(expired.map(document => document.motorcycle_id))];
+    result.checked += motorcycleIds.length;
+
+    for (const motorcycleId of motorcycleIds) {
+      try {
+        if (await this.syncMotorcycleStatus(motorcycleId)) {
+          result.blocked++;
+        }
+      } catch (error: any) {
+        logger.error({ motorcycleId, error: error.message }, 'Erro ao bloquear moto com documento vencido');
+        result.errors.push({ motorcycle_id: motorcycleId, error: error.message });
+      }
+    }
+
+    logger.info({
+      checked: result.checked,
+      remindersSent: result.reminders_sent,
+      blocked: result.blocked,
+      errors: result.errors.length,
+      daysBefore,
+    }, 'Motorcycle document check finished');
+
+    return result;
+  }
+
+  /**
+   * Status da moto conforme os documentos obrigatórios
+   * - Disponível com documento vencido -> indisponivel_emplacamento
+   * - Bloqueada por documento e regularizada -> disponível
+   * Retorna true quando o status foi alterado
+   */
+  async syncMotorcycleStatus(motorcycleId: string, userId?: string | null): Promise<boolean> {
+    const motorcycle = await prisma.motorcycle.findUnique({
+      where: { id: motorcycleId },
+      select: { status: true },
+    });
+
+    if (!motorcycle) {
+      return false;
+    }
+
+    const expired = await this.getExpiredMandatory(motorcycleId);
+
+    if (motorcycle.status === 'active' && expired.length > 0) {
+      const types = expired.map(document => MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType].label).join(', ');
+      const { changed, notifications } = await prisma.$transaction(tx => motorcycleStatusService.transition(tx, motorcycleId, BLOCKED_MOTORCYCLE_STATUS, {
+        reason: `Documento obrigatório vencido: ${types}`,
+        userId,
+        source: 'documents',
+        fromStatuses: ['active'],
+      }));
+      await motorcycleStatusService.notifyRegional(notifications);
+      return changed;
+    }
+
+    if (motorcycle.status === BLOCKED_MOTORCYCLE_STATUS && expired.length === 0) {
+      // Só libera o bloqueio feito pelo controle de documentos (não o manual)
+      const blockedBy = await prisma.motorcycleMovement.findFirst({
+        where: { motorcycle_id: motorcycleId, new_status: BLOCKED_MOTORCYCLE_STATUS },
+        orderBy: { created_at: 'desc' },
+        select: { source: true },
+      });
+      if (blockedBy?.source !== 'documents') {
+        return false;
+      }
+
+      const { changed, notifications } = await prisma.$transaction(tx => motorcycleStatusService.transition(tx, motorcycleId, 'active', {
+        reason: 'Documentos obrigatórios regularizados',
+        userId,
+        source: 'documents',
+        fromStatuses: [BLOCKED_MOTORCYCLE_STATUS],
+      }));
+      await motorcycleStatusService.notifyRegional(notifications);
+      return changed;
+    }
+
+    return false;
+  }
+
+  /**
+   * Iniciar a verificação periódica (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.check();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled motorcycle document check failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes, daysBefore: env.VEHICLE_DOCUMENT_REMINDER_DAYS }, 'Motorcycle document check scheduled');
+  }
+
+  /**
+   * Parar a verificação periódica
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private assertDates(input: Pick<MotorcycleDocumentInput, 'issue_date' | 'expiry_date'>) {
+    if (input.issue_date && input.expiry_date && new Date(input.expiry_date) < new Date(input.issue_date)) {
+      throw new BadRequestError('Data de validade anterior à data de emissão');
+    }
+  }
+
+  /**
+   * Documento vigente de cada tipo por moto (maior validade; sem validade vale o mais recente)
+   */
+  private pickCurrent<T extends Pick<MotorcycleDocument, 'motorcycle_id' | 'type' | 'expiry_date' | 'created_at'>>(documents: T[]): T[] {
+    const current = new Map<string, T>();
+
+    for (const document of documents) {
+      const key = `${document.motorcycle_id}:${document.type}`;
+      const existing = current.get(key);
+      if (!existing || this.isNewer(document, existing)) {
+        current.set(key, document);
+      }
+    }
+
+    return [...current.values()];
+  }
+
+  private isNewer(
+    a: Pick<MotorcycleDocument, 'expiry_date' | 'created_at'>,
+    b: Pick<MotorcycleDocument, 'expiry_date' | 'created_at'>
+  ) {
+    const aTime = a.expiry_date?.getTime() ?? Infinity;
+    const bTime = b.expiry_date?.getTime() ?? Infinity;
+    return aTime !== bTime ? aTime > bTime : a.created_at > b.created_at;
+  }
+
+  /**
+   * Descartar documentos que já foram renovados (existe outro do mesmo tipo com validade maior)
+   */
+  private async excludeRenewed<T extends MotorcycleDocument>(documents: T[]): Promise<T[]> {
+    if (documents.length === 0) {
+      return documents;
+    }
+
+    const all = await prisma.motorcycleDocument.findMany({
+      where: { motorcycle_id: { in: [...new Set(documents.map(document => document.motorcycle_id))] } },
+      select: { id: true, motorcycle_id: true, type: true, expiry_date: true, created_at: true },
+    });
+    const currentIds = new Set(this.pickCurrent(all).map(document => document.id));
+
+    return documents.filter(document => currentIds.has(document.id));
+  }
+
+  /**
+   * Avisar usuários do franqueado e regionais da cidade sobre o vencimento próximo
+   */
+  private async notify(document: DocumentWithMotorcycle, today: Date) {
+    if (!realtimeService) {
+      return;
+    }
+
+    const { motorcycle } = document;
+    const label = MOTORCYCLE_DOCUMENT_TYPES[document.type as MotorcycleDocumentType]?.label || document.type;
+    const daysLeft = Math.round((document.expiry_date!.getTime() - today.getTime()) / MS_PER_DAY);
+    const message = daysLeft === 0
+      ? `${label} da moto ${motorcycle.placa} vence hoje`
+      : `${label} da moto ${motorcycle.placa} vence em ${daysLeft} dia(s) (${formatDateBR(document.expiry_date)})`;
+
+    const recipients = await prisma.appUser.findMany({
+      where: {
+        status: 'active',
+        OR: [
+          ...(motorcycle.franchisee_id ? [{ franchisee_id: motorcycle.franchisee_id }] : []),
+          ...(motorcycle.city_id ? [{ role: 'regional', city_id: motorcycle.city_id }] : []),
+        ],
+      },
+      select: { id: true },
+    });
+
+    for (const user of recipients) {
+      realtimeService.emitNotification(user.id, {
+        type: 'warning',
+        title: 'Vencimento de documento',
+        message,
+        data: {
+          alert: 'document_expiry',
+          document_id: document.id,
+          document_type: document.type,
+          motorcycle_id: motorcycle.id,
+          motorcycle_plate: motorcycle.placa,
+          expiry_date: toDateOnly(document.expiry_date!),
+          days_left: daysLeft,
+        },
+      });
+    }
+  }
+}
+
+export const motorcycleDocumentService = new MotorcycleDocumentService();
@@ -0,0 +1,81 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { ConflictError } from '../utils/errors.js';
+import { normalizeChassi, normalizePlate } from '../utils/identifiers.js';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Cadastro único de veículos: um registro por moto (placa e chassi únicos)
+ * As mudanças de status ficam apenas em motorcycle_movements (ver motorcycleStatusService)
+ */
+export class MotorcycleRegistryService {
+  /**
+   * Placa no formato do cadastro (maiúsculas, sem hífen/espaços)
+   */
+  normalizePlate(placa: string): string {
+    return normalizePlate(placa);
+  }
+
+  /**
+   * Chassi no formato do cadastro (vazio vira null)
+   */
+  normalizeChassi(chassi: string | null | undefined): string | null | undefined {
+    if (chassi === undefined || chassi === null) {
+      return chassi;
+    }
+    return normalizeChassi(chassi) || null;
+  }
+
+  /**
+   * Buscar a moto pela placa (aceita placa com hífen ou minúsculas)
+   */
+  async findByPlate(placa: string, db: DbClient = prisma) {
+    return db.motorcycle.findUnique({
+      where: { placa: this.normalizePlate(placa) },
+    });
+  }
+
+  /**
+   * Garantir que placa/chassi não pertencem a outra moto do cadastro
+   */
+  async assertUnique(input: { placa?: string | null; chassi?: string | null }, exceptId?: string, db: DbClient = prisma) {
+    const placa = input.placa ? this.normalizePlate(input.placa) : null;
+    const chassi = this.normalizeChassi(input.chassi);
+
+    if (placa) {
+      const existing = await db.motorcycle.findUnique({ where: { placa }, select: { id: true } });
+      if (existing && existing.id !== exceptId) {
+        throw new ConflictError(`Placa ${placa} já cadastrada`);
+      }
+    }
+    if (chassi) {
+      const existing = await db.motorcycle.findUnique({ where: { chassi }, select: { id: true, placa: true } });
+      if (existing && existing.id !== exceptId) {
+        throw new ConflictError(`Chassi já cadastrado na moto ${existing.placa}`);
+      }
+    }
+  }
+
+  /**
+   * Histórico de status da moto (mais recentes primeiro)
+   */
+  async listMovements(motorcycleId: string, options: { page?: number; limit?: number } = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+
+    const [movements, total] = await Promise.all([
+      prisma.motorcycleMovement.findMany({
+        where: { motorcycle_id: motorcycleId },
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.motorcycleMovement.count({ where: { motorcycle_id: motorcycleId } }),
+    ]);
+
+    return { data: movements, total, page, limit };
+  }
+}
+
+export const motorcycleRegistryService = new MotorcycleRegistryService();
@@ -0,0 +1,409 @@
+import { Motorcycle, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { realtimeService } from '../websocket/index.js';
+import { MotorcycleStatus } from '../types/index.js';
+import { BadRequestError, InvalidStatusTransitionError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Origem da mudança de status (tela de motos ou fluxo do sistema)
+export type StatusChangeSource =
+  | 'manual'
+  | 'rental'
+  | 'secondary_vehicle'
+  | 'distrato'
+  | 'maintenance'
+  | 'delinquency'
+  | 'pause'
+  | 'archive'
+  | 'documents';
+
+export interface StatusTransitionRule {
+  to: MotorcycleStatus;
+  // Fluxos que podem fazer a transição (sem a lista, qualquer origem)
+  sources?: StatusChangeSource[];
+  requiresReason?: boolean;
+  // Boletim de ocorrência, laudo etc.
+  requiresEvidence?: boolean;
+  // Ordens de serviço abertas da moto são encerradas com este status
+  closeOpenOrders?: 'concluida' | 'cancelada';
+  notifyRegional?: boolean;
+}
+
+export interface StatusChangeOptions {
+  reason?: string | null;
+  userId?: string | null;
+  source?: StatusChangeSource;
+  evidence_url?: string | null;
+  // Só altera a moto se o status atual estiver nesta lista (senão não faz nada)
+  fromStatuses?: string[];
+  // Demais campos atualizados junto com o status (ex.: quilometragem na devolução)
+  data?: Prisma.MotorcycleUpdateInput;
+}
+
+// Aviso aos regionais da cidade, emitido só depois do commit da transação
+export interface StatusNotification {
+  city_id: string;
+  type: 'warning' | 'error';
+  title: string;
+  message: string;
+  data: { motorcycle_id: string; previous_status: string; status: string };
+}
+
+export interface StatusChangeResult {
+  motorcycle: Motorcycle;
+  previous_status: string;
+  changed: boolean;
+  // Avisos pendentes: quem chamou emite com notifyRegional() após o commit
+  notifications: StatusNotification[];
+}
+
+// Status em que a moto está com um cliente
+export const RENTED_STATUSES: MotorcycleStatus[] = ['alugada', 'inadimplente', 'renegociado'];
+
+// Status em que a OS ainda está em aberto
+const CLOSED_ORDER_STATUSES = ['concluida', 'cancelada', 'concluido', 'cancelado', 'nao_compareceu'];
+
+const UNAVAILABLE_STATUSES: MotorcycleStatus[] = ['indisponivel_rastreador', 'indisponivel_emplacamento'];
+
+const STOLEN: StatusTransitionRule = {
+  to: 'furto_roubo',
+  requiresReason: true,
+  requiresEvidence: true,
+  closeOpenOrders: 'cancelada',
+  notifyRegional: true,
+};
+
+/**
+ * Transições permitidas entre os status da moto
+ * alugada/inadimplente/renegociado só entram e saem pelos fluxos de locação
+ */
+export const MOTORCYCLE_STATUS_TRANSITIONS: Record<MotorcycleStatus, StatusTransitionRule[]> = {
+  active: [
+    { to: 'alugada', sources: ['rental', 'secondary_vehicle', 'archive'] },
+    { to: 'manutencao' },
+    { to: 'relocada', requiresReason: true },
+    { to: 'recolhida', requiresReason: true },
+    ...UNAVAILABLE_STATUSES.map(to => ({ to, requiresReason: true, notifyRegional: true })),
+    STOLEN,
+  ],
+  alugada: [
+    { to: 'active', sources: ['rental', 'secondary_vehicle', 'archive'] },
+    { to: 'inadimplente', sources: ['delinquency'] },
+    { to: 'renegociado', sources: ['delinquency'] },
+    { to: 'recolhida', requiresReason: true },
+    { to: 'manutencao', requiresReason: true },
+    STOLEN,
+  ],
+  inadimplente: [
+    { to: 'alugada', sources: ['delinquency', 'pause'] },
+    { to: 'renegociado', sources: ['delinquency'] },
+    { to: 'active', sources: ['rental', 'archive'] },
+    { to: 'recolhida', requiresReason: true },
+    STOLEN,
+  ],
+  renegociado: [
+    { to: 'alugada', sources: ['delinquency', 'pause'] },
+    { to: 'inadimplente', sources: ['delinquency'] },
+    { to: 'active', sources: ['rental', 'archive'] },
+    { to: 'recolhida', requiresReason: true },
+    STOLEN,
+  ],
+  recolhida: [
+    { to: 'active', requiresReason: true },
+    ...RENTED_STATUSES.map(to => ({ to, sources: ['pause', 'archive'] as StatusChangeSource[] })),
+    { to: 'manutencao' },
+    ...UNAVAILABLE_STATUSES.map(to => ({ to, requiresReason: true, notifyRegional: true })),
+    STOLEN,
+  ],
+  manutencao: [
+    { to: 'active', requiresReason: true, closeOpenOrders: 'concluida' },
+    { to: 'alugada', sources: ['maintenance', 'archive'] },
+    { to: 'inadimplente', sources: ['maintenance'] },
+    { to: 'renegociado', sources: ['maintenance'] },
+    { to: 'recolhida', requiresReason: true },
+    ...UNAVAILABLE_STATUSES.map(to => ({ to, requiresReason: true, notifyRegional: true })),
+    STOLEN,
+  ],
+  indisponivel_rastreador: [
+    { to: 'active', requiresReason: true, notifyRegional: true },
+    { to: 'indisponivel_emplacamento', requiresReason: true, notifyRegional: true },
+    { to: 'manutencao' },
+    { to: 'recolhida', requiresReason: true },
+    STOLEN,
+  ],
+  indisponivel_emplacamento: [
+    { to: 'active', requiresReason: true, notifyRegional: true },
+    { to: 'indisponivel_rastreador', requiresReason: true, notifyRegional: true },
+    { to: 'manutencao' },
+    { to: 'recolhida', requiresReason: true },
+    STOLEN,
+  ],
+  relocada: [
+    { to: 'active', requiresReason: true },
+    { to: 'manutencao' },
+    { to: 'recolhida', requiresReason: true },
+    STOLEN,
+  ],
+  furto_roubo: [
+    { to: 'recolhida', requiresReason: true, requiresEvidence: true, notifyRegional: true },
+  ],
+};
+
+const STATUS_LABELS: Record<MotorcycleStatus, string> = {
+  active: 'Disponível',
+  alugada: 'Alugada',
+  relocada: 'Relocada',
+  manutencao: 'Manutenção',
+  recolhida: 'Recolhida',
+  indisponivel_rastreador: 'Indisponível (rastreador)',
+  indisponivel_emplacamento: 'Indisponível (emplacamento)',
+  inadimplente: 'Inadimplente',
+  renegociado: 'Renegociado',
+  furto_roubo: 'Furto/Roubo',
+};
+
+/**
+ * Máquina de estados do status da moto
+ * Toda mudança de status passa por aqui: valida a transição, registra o
+ * movimento (motorcycle_movements) e executa os efeitos colaterais
+ */
+export class MotorcycleStatusService {
+  /**
+   * Destinos permitidos a partir de um status para a origem informada
+   */
+  allowedTransitions(from: string, source: StatusChangeSource = 'manual'): StatusTransitionRule[] {
+    const rules = MOTORCYCLE_STATUS_TRANSITIONS[from as MotorcycleStatus] || [];
+    return rules.filter(rule => !rule.sources || rule.sources.includes(source));
+  }
+
+  /**
+   * Validar a transição (lança InvalidStatusTransitionError quando não permitida)
+   */
+  assertTransition(
+    from: string,
+    to: string,
+    options: Pick<StatusChangeOptions, 'source' | 'reason' | 'evidence_url'> = {}
+  ): StatusTransitionRule {
+    const source = options.source || 'manual';
+    const allowed = this.allowedTransitions(from, source);
+    const rule = allowed.find(r => r.to === to);
+
+    if (!rule) {
+      const fromLabel = STATUS_LABELS[from as MotorcycleStatus] || from;
+      const toLabel = STATUS_LABELS[to as MotorcycleStatus] || to;
+      throw new InvalidStatusTransitionError(
+        `Moto com status "${fromLabel}" não pode ir para "${toLabel}"`,
+        from,
+        to,
+        allowed.map(r => r.to)
+      );
+    }
+
+    if (rule.requiresReason && !options.reason?.trim()) {
+      throw new BadRequestError(`Informe o motivo para mudar o status para "${STATUS_LABELS[rule.to]}"`);
+    }
+    if (rule.requiresEvidence && !options.evidence_url) {
+      throw new BadRequestError(`Anexe o comprovante (evidence_url) para mudar o status para "${STATUS_LABELS[rule.to]}"`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Mudar o status da moto seguindo o grafo de transições
+   * Sem mudança de status, apenas os demais campos são atualizados e nenhum movimento é criado
+   * Os avisos aos regionais voltam em notifications para serem emitidos após o commit
+   * A linha da moto fica travada até o fim da transação: mudanças simultâneas esperam e leem o status atualizado
+   */
+  async transition(
+    db: DbClient,
+    motorcycleId: string,
+    toStatus: string,
+    options: StatusChangeOptions = {}
+  ): Promise<StatusChangeResult> {
+    await db.$queryRaw`SELECT id FROM motorcycles WHERE id = ${motorcycleId}::uuid FOR UPDATE`;
+
+    const current = await db.motorcycle.findUnique({
+      where: { id: motorcycleId },
+    });
+
+    if (!current) {
+      throw new NotFoundError('Motocicleta não encontrada');
+    }
+
+    const previousStatus = current.status as string;
+    const skipped = options.fromStatuses && !options.fromStatuses.includes(previousStatus);
+    const changed = !skipped && previousStatus !== toStatus;
+
+    if (!changed) {
+      const motorcycle = options.data
+        ? await db.motorcycle.update({ where: { id: motorcycleId }, data: options.data })
+        : current;
+      return { motorcycle, previous_status: previousStatus, changed: false, notifications: [] };
+    }
+
+    const rule = this.assertTransition(previousStatus, toStatus, options);
+    const now = new Date();
+
+    const motorcycle = await db.motorcycle.update({
+      where: { id: motorcycleId },
+      data: {
+        ...options.data,
+        status: toStatus,
+        data_ultima_mov: now,
+      },
+    });
+
+    await db.motorcycleMovement.create({
+      data: {
+        motorcycle_id: motorcycleId,
+        previous_status: previousStatus,
+        new_status: toStatus,
+        reason: options.reason || null,
+        source: options.source || 'manual',
+        evidence_url: options.evidence_url || null,
+        created_by: options.userId || null,
+        created_at: now,
+      },
+    });
+
+    if (rule.closeOpenOrders) {
+      await db.ordemServico.updateMany({
+        where: {
+          motorcycle_id: motorcycleId,
+          status: { notIn: CLOSED_ORDER_STATUSES },
+        },
+        data: {
+          status: rule.closeOpenOrders,
+          data_conclusao: rule.closeOpenOrders === 'concluida' ? now : undefined,
+        },
+      });
+    }
+
+    const notifications = rule.notifyRegional && motorcycle.city_id
+      ? [this.buildNotification(motorcycle, previousStatus, options.reason)]
+      : [];
+
+    return { motorcycle, previous_status: previousStatus, changed: true, notifications };
+  }
+
+  /**
+   * Status para o qual a moto volta quando sai da manutenção
+   * (o status anterior à entrada em manutenção; alugada só se ainda houver locação ativa)
+   */
+  async statusAfterMaintenance(db: DbClient, motorcycleId: string): Promise<MotorcycleStatus> {
+    const [entry, activeRental] = await Promise.all([
+      db.motorcycleMovement.findFirst({
+        where: { motorcycle_id: motorcycleId, new_status: 'manutencao' },
+        orderBy: { created_at: 'desc' },
+        select: { previous_status: true },
+      }),
+      db.rental.findFirst({
+        where: { motorcycle_id: motorcycleId, status: 'active', deleted_at: null },
+        select: { id: true },
+      }),
+    ]);
+
+    const previous = entry?.previous_status as MotorcycleStatus | undefined;
+
+    if (previous && RENTED_STATUSES.includes(previous)) {
+      return activeRental ? previous : 'active';
+    }
+    return activeRental ? 'alugada' : 'active';
+  }
+
+  /**
+   * Sincronizar a moto com as ordens de serviço: OS em andamento coloca a moto em
+   * manutenção; sem OS aberta, a moto sai da manutenção
+   */
+  async syncWithServiceOrders(db: DbClient, motorcycleId: string, userId?: string | null) {
+    const motorcycle = await db.motorcycle.findUnique({
+      where: { id: motorcycleId },
+      select: { status: true },
+    });
+
+    if (!motorcycle) {
+      return null;
+    }
+
+    const openOrders = await db.ordemServico.findMany({
+      where: { motorcycle_id: motorcycleId, status: { notIn: CLOSED_ORDER_STATUSES } },
+      select: { numero_os: true, status: true },
+    });
+
+    const inProgress = openOrders.find(os => os.status === 'em_andamento');
+
+    if (inProgress && motorcycle.status !== 'manutencao') {
+      const rule = this.allowedTransitions(motorcycle.status as string, 'maintenance').find(r => r.to === 'manutencao');
+      if (!rule) {
+        return null;
+      }
+      return this.transition(db, motorcycleId, 'manutencao', {
+        reason: `OS ${inProgress.numero_os} em andamento`,
+        userId,
+        source: 'maintenance',
+      });
+    }
+
+    if (openOrders.length === 0 && motorcycle.status === 'manutencao') {
+      const toStatus = await this.statusAfterMaintenance(db, motorcycleId);
+      return this.transition(db, motorcycleId, toStatus, {
+        reason: 'Ordens de serviço encerradas',
+        userId,
+        source: 'maintenance',
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Avisar os regionais da cidade (indisponibilidade, furto/roubo)
+   * Chamar somente depois do commit da transação que mudou o status
+   */
+  async notifyRegional(notifications: StatusNotification[] | null | undefined): Promise<void> {
+    if (!realtimeService || !notifications?.length) {
+      return;
+    }
+
+    for (const notification of notifications) {
+      try {
+        const regionals = await prisma.appUser.findMany({
+          where: { status: 'active', role: 'regional', city_id: notification.city_id },
+          select: { id: true },
+        });
+
+        for (const user of regionals) {
+          realtimeService.emitNotification(user.id, {
+            type: notification.type,
+            title: notification.title,
+            message: notification.message,
+            data: notification.data,
+          });
+        }
+      } catch (error: any) {
+        logger.error({ error: error.message, motorcycleId: notification.data.motorcycle_id }, 'Erro ao notificar regionais');
+      }
+    }
+  }
+
+  /**
+   * Montar o aviso aos regionais sobre a mudança de status
+   */
+  private buildNotification(motorcycle: Motorcycle, previousStatus: string, reason?: string | null): StatusNotification {
+    const toLabel = STATUS_LABELS[motorcycle.status as MotorcycleStatus] || motorcycle.status;
+    const fromLabel = STATUS_LABELS[previousStatus as MotorcycleStatus] || previousStatus;
+
+    return {
+      city_id: motorcycle.city_id as string,
+      type: motorcycle.status === 'furto_roubo' ? 'error' : 'warning',
+      title: `Moto ${motorcycle.placa}: ${toLabel}`,
+      message: `Status alterado de "${fromLabel}" para "${toLabel}"${reason ? `: ${reason}` : ''}`,
+      data: { motorcycle_id: motorcycle.id, previous_status: previousStatus, status: motorcycle.status as string },
+    };
+  }
+}
+
+export const motorcycleStatusService = new MotorcycleStatusService();
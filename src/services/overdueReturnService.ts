@@ -0,0 +1,342 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { rentalPlanService } from './rentalPlanService.js';
+import { RENTED_STATUSES } from './motorcycleStatusService.js';
+import { formatBRL, formatDateBR } from './contractVariables.js';
+import { realtimeService } from '../websocket/index.js';
+import { logger } from '../utils/logger.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type OverdueReturnReason = 'past_end_date' | 'motorcycle_not_returned';
+
+export interface OverdueReturnFilters {
+  cityId?: string;
+  franchiseeId?: string;
+  reason?: OverdueReturnReason;
+  page?: number;
+  limit?: number;
+}
+
+export interface OverdueCheckResult {
+  checked: number;
+  flagged: number;
+  newly_flagged: number;
+  cleared: number;
+  notified: number;
+  total_late_fees: number;
+  errors: { rental_id: string; error: string }[];
+}
+
+const rentalSelect = {
+  id: true,
+  franchisee_id: true,
+  city_id: true,
+  attendant_id: true,
+  motorcycle_id: true,
+  motorcycle_plate: true,
+  client_name: true,
+  client_phone: true,
+  start_date: true,
+  end_date: true,
+  actual_return_date: true,
+  daily_rate: true,
+  status: true,
+  plan_snapshot: true,
+  plan: true,
+  return_overdue_since: true,
+  return_overdue_reason: true,
+  late_fee_days: true,
+  late_fee_amount: true,
+  overdue_notified_at: true,
+} satisfies Prisma.RentalSelect;
+
+type OverdueRental = Prisma.RentalGetPayload<{ select: typeof rentalSelect }>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+const startOfToday = () => new Date(toDateOnly(new Date()));
+
+export class OverdueReturnService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Multa diária de atraso: late_return_daily_rate do plano da locação ou a própria diária
+   * (mesma regra do motor de precificação na finalização)
+   */
+  getLateFee(rental: Pick<OverdueRental, 'daily_rate' | 'plan_snapshot' | 'plan'>, since: Date, today = startOfToday()) {
+    const plan = rentalPlanService.resolveForRental(rental);
+    const lateRate = plan?.late_return_daily_rate !== null && plan?.late_return_daily_rate !== undefined
+      ? Number(plan.late_return_daily_rate)
+      : Number(rental.daily_rate);
+    const days = Math.max(0, Math.round((today.getTime() - since.getTime()) / MS_PER_DAY));
+
+    return { days, daily_fee: lateRate, amount: round2(days * lateRate) };
+  }
+
+  /**
+   * Verificar devoluções em atraso
+   * - Locações ativas com end_date vencido
+   * - Motos ainda "alugada" cuja última locação já foi encerrada (moto nunca devolvida)
+   * Atualiza a multa acumulada, notifica atendente e franqueado (uma vez por dia)
+   * e limpa a marcação das locações regularizadas
+   */
+  async check(): Promise<OverdueCheckResult> {
+    const today = startOfToday();
+
+    const pastEndDate = await prisma.rental.findMany({
+      where: { status: 'active', end_date: { lt: today }, deleted_at: null },
+      select: rentalSelect,
+    });
+
+    // Última locação encerrada de cada moto que continua com cliente (alugada, inadimplente ou renegociado) sem locação em andamento
+    const notReturnedMotorcycles = await prisma.motorcycle.findMany({
+      where: {
+        status: { in: RENTED_STATUSES },
+        rentals: { some: { deleted_at: null }, none: { status: { in: ['active', 'paused'] }, deleted_at: null } },
+        // Moto em uso como veículo secundário de outra locação não está em atraso
+        secondaryRentals: { none: { status: 'active' } },
+      },
+      select: {
+        rentals: {
+          where: { deleted_at: null },
+          orderBy: [{ end_date: { sort: 'desc', nulls: 'last' } }, { created_at: 'desc' }],
+          take: 1,
+          select: rentalSelect,
+        },
+      },
+    });
+    const notReturned = notReturnedMotorcycles
+      .map(motorcycle => motorcycle.rentals[0])
+      .filter(Boolean);
+
+    const result: OverdueCheckResult = {
+      checked: pastEndDate.length + notReturned.length,
+      flagged: 0,
+      newly_flagged: 0,
+      cleared: 0,
+      notified: 0,
+      total_late_fees: 0,
+      errors: [],
+    };
+
+    const flaggedIds: string[] = [];
+    const candidates: [OverdueRental, OverdueReturnReason][] = [
+      ...pastEndDate.map((rental): [OverdueRental, OverdueReturnReason] => [rental, 'past_end_date']),
+      ...notReturned.map((rental): [OverdueRental, OverdueReturnReason] => [rental, 'motorcycle_not_returned']),
+    ];
+
+    for (const [rental, reason] of candidates) {
+      const since = reason === 'past_end_date'
+        ? rental.end_date
+        : rental.actual_return_date || rental.end_date || rental.start_date;
+
+      if (!since) {
+        continue;
+      }
+
+      try {
+        const fee = this.getLateFee(rental, since, today);
+        const isNew = !rental.return_overdue_since;
+        const notify = !rental.overdue_notified_at || rental.overdue_notified_at < today;
+
+        await prisma.rental.update({
+          where: { id: rental.id },
+          data: {
+            return_overdue_since: since,
+            return_overdue_reason: reason,
+            late_fee_days: fee.days,
+            late_fee_amount: fee.amount,
+            ...(notify ? { overdue_notified_at: new Date() } : {}),
+          },
+        });
+
+        if (notify) {
+          this.notify(rental, reason, since, fee);
+          result.notified++;
+        }
+
+        flaggedIds.push(rental.id);
+        result.flagged++;
+        result.total_late_fees = round2(result.total_late_fees + fee.amount);
+        if (isNew) {
+          result.newly_flagged++;
+        }
+      } catch (error: any) {
+        logger.error({ rentalId: rental.id, error: error.message }, 'Erro ao marcar devolução em atraso');
+        result.errors.push({ rental_id: rental.id, error: error.message });
+      }
+    }
+
+    // Locações finalizadas, prorrogadas ou com a moto devolvida deixam de estar em atraso
+    // (as que falharam nesta execução mantêm a marcação anterior)
+    const keptIds = [...flaggedIds, ...result.errors.map(error => error.rental_id)];
+    const cleared = await prisma.rental.updateMany({
+      where: {
+        return_overdue_since: { not: null },
+        id: { notIn: keptIds },
+      },
+      data: {
+        return_overdue_since: null,
+        return_overdue_reason: null,
+        late_fee_days: null,
+        late_fee_amount: null,
+        overdue_notified_at: null,
+      },
+    });
+    result.cleared = cleared.count;
+
+    logger.info({
+      checked: result.checked,
+      flagged: result.flagged,
+      newlyFlagged: result.newly_flagged,
+      cleared: result.cleared,
+      totalLateFees: result.total_late_fees,
+      errors: result.errors.length,
+    }, 'Overdue return check finished');
+
+    return result;
+  }
+
+  /**
+   * Listar devoluções em atraso (multa recalculada para a data atual)
+   */
+  async list(filters: OverdueReturnFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const today = startOfToday();
+
+    const where: Prisma.RentalWhereInput = {
+      return_overdue_since: { not: null },
+      deleted_at: null,
+      ...(filters.cityId ? { city_id: filters.cityId } : {}),
+      ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+      ...(filters.reason ? { return_overdue_reason: filters.reason } : {}),
+    };
+
+    const [rentals, total, totals] = await Promise.all([
+      prisma.rental.findMany({
+        where,
+        select: {
+          ...rentalSelect,
+          franchisee: { select: { id: true, fantasy_name: true, company_name: true } },
+          city: { select: { id: true, name: true } },
+          attendant: { select: { id: true, name: true } },
+        },
+        orderBy: { return_overdue_since: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.rental.count({ where }),
+      prisma.rental.aggregate({ where, _sum: { late_fee_amount: true } }),
+    ]);
+
+    const data = rentals.map(({ plan, plan_snapshot, ...rental }) => {
+      const fee = this.getLateFee({ daily_rate: rental.daily_rate, plan, plan_snapshot }, rental.return_overdue_since!, today);
+      return {
+        ...rental,
+        daily_rate: Number(rental.daily_rate),
+        days_overdue: fee.days,
+        daily_late_fee: fee.daily_fee,
+        late_fee_amount: fee.amount,
+      };
+    });
+
+    return {
+      data,
+      total,
+      total_late_fees: totals._sum.late_fee_amount ? Number(totals._sum.late_fee_amount) : 0,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Notificar atendente da locação e sala do franqueado (cidade/admin) sobre o atraso
+   */
+  private notify(
+    rental: OverdueRental,
+    reason: OverdueReturnReason,
+    since: Date,
+    fee: { days: number; daily_fee: number; amount: number }
+  ) {
+    if (!realtimeService) {
+      return;
+    }
+
+    const title = reason === 'past_end_date' ? 'Devolução em atraso' : 'Moto não devolvida';
+    const message = reason === 'past_end_date'
+      ? `${rental.client_name} (${rental.motorcycle_plate}): devolução prevista em ${formatDateBR(since)}, ${fee.days} dia(s) de atraso (${formatBRL(fee.amount)})`
+      : `${rental.client_name} (${rental.motorcycle_plate}): locação encerrada em ${formatDateBR(since)} e moto ainda consta como alugada`;
+    const data = {
+      alert: 'overdue_return',
+      reason,
+      rental_id: rental.id,
+      motorcycle_id: rental.motorcycle_id,
+      motorcycle_plate: rental.motorcycle_plate,
+      client_name: rental.client_name,
+      client_phone: rental.client_phone,
+      return_overdue_since: toDateOnly(since),
+      days_overdue: fee.days,
+      daily_late_fee: fee.daily_fee,
+      late_fee_amount: fee.amount,
+    };
+
+    if (rental.franchisee_id) {
+      realtimeService.emitRentalAlert(rental.franchisee_id, rental.city_id, {
+        type: 'UPDATE',
+        table: 'rentals',
+        data: { ...data, title, message },
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (rental.attendant_id) {
+      realtimeService.emitNotification(rental.attendant_id, {
+        type: 'warning',
+        title,
+        message,
+        data,
+      });
+    }
+  }
+
+  /**
+   * Iniciar a verificação periódica (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.check();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled overdue return check failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes }, 'Overdue return check scheduled');
+  }
+
+  /**
+   * Parar a verificação periódica
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const overdueReturnService = new OverdueReturnService();
@@ -0,0 +1,292 @@
+import { BadRequestError } from '../utils/errors.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 30;
+
+export interface PricingPlan {
+  name?: string | null;
+  daily_rate?: unknown;
+  weekly_rate?: unknown;
+  monthly_rate?: unknown;
+  minimum_days?: number | null;
+  maximum_days?: number | null;
+  deposit_amount?: unknown;
+  km_allowance_per_day?: number | null;
+  km_overage_rate?: unknown;
+  early_return_fee_percentage?: unknown;
+  late_return_daily_rate?: unknown;
+  promo_weekly_rate?: unknown;
+  promo_weeks?: number | null;
+}
+
+export interface PricingInput {
+  dailyRate: number;
+  plan?: PricingPlan | null;
+  startDate: Date;
+  // Data prevista de devolução (contratada)
+  endDate?: Date | null;
+  // Data efetiva de devolução (padrão: endDate)
+  returnDate?: Date | null;
+  // Dias em que a locação ficou pausada (descontados do período cobrado)
+  pausedDays?: number | null;
+  kmInicial?: number | null;
+  kmFinal?: number | null;
+  depositAmount?: number | null;
+  discountAmount?: number | null;
+  discountPercentage?: number | null;
+}
+
+export type PricingItemType =
+  | 'promotional_weekly'
+  | 'monthly'
+  | 'weekly'
+  | 'daily'
+  | 'late_return'
+  | 'early_return'
+  | 'km_overage'
+  | 'discount';
+
+export interface PricingItem {
+  type: PricingItemType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface PricingBreakdown {
+  plan_name: string | null;
+  days: number;
+  contracted_days: number | null;
+  paused_days: number;
+  billed_days: number;
+  late_days: number;
+  unused_days: number;
+  km_driven: number | null;
+  km_allowance: number | null;
+  items: PricingItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  deposit_amount: number | null;
+  warnings: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+const daysBetween = (from: Date, to: Date) => Math.max(1, Math.ceil((to.getTime() - from.getTime()) / MS_PER_DAY));
+
+export class PricingService {
+  /**
+   * Combinação mais barata de mensalidades, semanas e diárias para cobrir o período
+   * Uma semana (ou mês) pode cobrir menos dias quando sai mais barato que as diárias
+   */
+  bestTierCombination(days: number, dailyRate: number, weeklyRate: number | null, monthlyRate: number | null) {
+    const cost: number[] = [0];
+    const choice: ('daily' | 'weekly' | 'monthly')[] = [];
+
+    for (let day = 1; day <= days; day++) {
+      let best = cost[day - 1] + dailyRate;
+      let tier: 'daily' | 'weekly' | 'monthly' = 'daily';
+
+      if (weeklyRate !== null) {
+        const weekly = cost[Math.max(0, day - DAYS_PER_WEEK)] + weeklyRate;
+        if (weekly < best) {
+          best = weekly;
+          tier = 'weekly';
+        }
+      }
+      if (monthlyRate !== null) {
+        const monthly = cost[Math.max(0, day - DAYS_PER_MONTH)] + monthlyRate;
+        if (monthly < best) {
+          best = monthly;
+          tier = 'monthly';
+        }
+      }
+
+      cost[day] = best;
+      choice[day] = tier;
+    }
+
+    const counts = { monthly: 0, weekly: 0, daily: 0 };
+    let day = days;
+    while (day > 0) {
+      const tier = choice[day];
+      counts[tier]++;
+      day -= tier === 'monthly' ? DAYS_PER_MONTH : tier === 'weekly' ? DAYS_PER_WEEK : 1;
+    }
+
+    return { cost: round2(cost[days]), ...counts };
+  }
+
+  /**
+   * Calcular o valor da locação com detalhamento por item
+   * - Semanas promocionais do plano no início do período
+   * - Melhor faixa tarifária do plano (mensal/semanal/diária) para o restante
+   * - Mínimo de dias do plano
+   * - Devolução antecipada (multa sobre diárias não utilizadas) e atrasada (diárias extras)
+   * - Km excedente sobre a franquia diária
+   * - Dias de pausa não são cobrados (o prazo contratado já foi estendido na retomada)
+   * - Descontos (percentual sobre o subtotal + valor fixo)
+   */
+  calculate(input: PricingInput): PricingBreakdown {
+    const plan = input.plan || {};
+    const dailyRate = input.dailyRate;
+    const warnings: string[] = [];
+
+    const returnDate = input.returnDate || input.endDate;
+    if (!returnDate) {
+      throw new BadRequestError('Data de devolução não informada');
+    }
+
+    const pausedDays = input.pausedDays || 0;
+    const days = Math.max(1, daysBetween(input.startDate, returnDate) - pausedDays);
+    const contractedDays = input.endDate ? Math.max(1, daysBetween(input.startDate, input.endDate) - pausedDays) : null;
+
+    // Atraso: período contratado pela tarifa do plano + dias extras pela diária de atraso
+    const lateDays = contractedDays !== null && days > contractedDays ? days - contractedDays : 0;
+    const unusedDays = contractedDays !== null && days < contractedDays ? contractedDays - days : 0;
+    const baseDays = days - lateDays;
+
+    const minimumDays = plan.minimum_days || 0;
+    const billedDays = Math.max(baseDays, minimumDays);
+
+    if (plan.maximum_days && days > plan.maximum_days) {
+      warnings.push(`Período de ${days} dias excede o máximo de ${plan.maximum_days} dias do plano`);
+    }
+
+    const weeklyRate = toNumber(plan.weekly_rate);
+    const monthlyRate = toNumber(plan.monthly_rate);
+    const promoRate = toNumber(plan.promo_weekly_rate);
+    const promoWeeks = promoRate !== null && plan.promo_weeks
+      ? Math.min(plan.promo_weeks, Math.floor(billedDays / DAYS_PER_WEEK))
+      : 0;
+    const tiers = this.bestTierCombination(billedDays - promoWeeks * DAYS_PER_WEEK, dailyRate, weeklyRate, monthlyRate);
+    const minimumNote = billedDays > baseDays ? ` (mínimo de ${minimumDays} dias do plano)` : '';
+
+    const items: PricingItem[] = [];
+    if (promoWeeks > 0) {
+      items.push({
+        type: 'promotional_weekly',
+        description: `Semana promocional (${DAYS_PER_WEEK} dias)`,
+        quantity: promoWeeks,
+        unit_price: promoRate!,
+        amount: round2(promoWeeks * promoRate!),
+      });
+    }
+    if (tiers.monthly > 0) {
+      items.push({
+        type: 'monthly',
+        description: `Mensalidade (${DAYS_PER_MONTH} dias)${minimumNote}`,
+        quantity: tiers.monthly,
+        unit_price: monthlyRate!,
+        amount: round2(tiers.monthly * monthlyRate!),
+      });
+    }
+    if (tiers.weekly > 0) {
+      items.push({
+        type: 'weekly',
+        description: `Semana (${DAYS_PER_WEEK} dias)${minimumNote}`,
+        quantity: tiers.weekly,
+        unit_price: weeklyRate!,
+        amount: round2(tiers.weekly * weeklyRate!),
+      });
+    }
+    if (tiers.daily > 0) {
+      items.push({
+        type: 'daily',
+        description: `Diária${minimumNote}`,
+        quantity: tiers.daily,
+        unit_price: dailyRate,
+        amount: round2(tiers.daily * dailyRate),
+      });
+    }
+
+    if (lateDays > 0) {
+      const lateRate = toNumber(plan.late_return_daily_rate) ?? dailyRate;
+      items.push({
+        type: 'late_return',
+        description: 'Diárias após a data prevista de devolução',
+        quantity: lateDays,
+        unit_price: lateRate,
+        amount: round2(lateDays * lateRate),
+      });
+    }
+
+    const earlyFeePercentage = toNumber(plan.early_return_fee_percentage);
+    if (unusedDays > 0 && earlyFeePercentage) {
+      const unitPrice = round2(dailyRate * earlyFeePercentage / 100);
+      items.push({
+        type: 'early_return',
+        description: `Multa por devolução antecipada (${earlyFeePercentage}% das diárias não utilizadas)`,
+        quantity: unusedDays,
+        unit_price: unitPrice,
+        amount: round2(unusedDays * unitPrice),
+      });
+    }
+
+    let kmDriven: number | null = null;
+    let kmAllowance: number | null = null;
+    if (input.kmInicial !== null && input.kmInicial !== undefined && input.kmFinal !== null && input.kmFinal !== undefined) {
+      kmDriven = input.kmFinal - input.kmInicial;
+      if (kmDriven < 0) {
+        warnings.push('Km final menor que o km inicial');
+        kmDriven = null;
+      }
+    }
+
+    const overageRate = toNumber(plan.km_overage_rate);
+    if (plan.km_allowance_per_day && overageRate) {
+      kmAllowance = plan.km_allowance_per_day * days;
+      if (kmDriven !== null && kmDriven > kmAllowance) {
+        const excess = kmDriven - kmAllowance;
+        items.push({
+          type: 'km_overage',
+          description: `Km excedente (franquia de ${kmAllowance} km)`,
+          quantity: excess,
+          unit_price: overageRate,
+          amount: round2(excess * overageRate),
+        });
+      }
+    }
+
+    const subtotal = round2(items.reduce((sum, item) => sum + item.amount, 0));
+
+    let discount = round2(subtotal * (input.discountPercentage || 0) / 100 + (input.discountAmount || 0));
+    if (discount > subtotal) {
+      discount = subtotal;
+    }
+    if (discount > 0) {
+      items.push({
+        type: 'discount',
+        description: 'Desconto',
+        quantity: 1,
+        unit_price: -discount,
+        amount: -discount,
+      });
+    }
+
+    const depositAmount = input.depositAmount ?? toNumber(plan.deposit_amount);
+
+    return {
+      plan_name: plan.name || null,
+      days,
+      contracted_days: contractedDays,
+      paused_days: pausedDays,
+      billed_days: billedDays + lateDays,
+      late_days: lateDays,
+      unused_days: unusedDays,
+      km_driven: kmDriven,
+      km_allowance: kmAllowance,
+      items,
+      subtotal,
+      discount,
+      total: round2(subtotal - discount),
+      deposit_amount: depositAmount,
+      warnings,
+    };
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,338 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { motorcycleStatusService, RENTED_STATUSES } from './motorcycleStatusService.js';
+import { rentalChargeService } from './rentalChargeService.js';
+import { motorcycleDocumentService } from './motorcycleDocumentService.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface ArchivedRentalFilters {
+  cityId?: string;
+  franchiseeId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PurgeResult {
+  dry_run: boolean;
+  retention_days: number;
+  purge_before: string;
+  eligible: number;
+  purged: number;
+  rental_ids: string[];
+  errors: { rental_id: string; error: string }[];
+}
+
+export class RentalArchiveService {
+  /**
+   * Data a partir da qual uma locação arquivada não pode mais ser restaurada
+   */
+  getRestorableUntil(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + env.RENTAL_ARCHIVE_RETENTION_DAYS * MS_PER_DAY);
+  }
+
+  /**
+   * Arquivar locação (soft delete) junto com vistorias, distratos e veículos secundários
+   * Contratos gerados continuam vinculados; a moto de uma locação ativa é liberada
+   * Parcelas ainda não vencidas são canceladas (aqui e no Asaas) e não voltam na restauração
+   * Locação pausada precisa ser retomada antes (moto recolhida, pausa e parcelas suspensas em aberto)
+   */
+  async archive(rentalId: string, userId?: string | null) {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: { motorcycle: true, franchisee: { select: { asaas_token: true } } },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (rental.status === 'paused') {
+      throw new BadRequestError('Retome a locação pausada antes de arquivá-la');
+    }
+
+    const deletedAt = new Date();
+    const archived = { deleted_at: deletedAt, deleted_by: userId || null };
+
+    const closed = await prisma.$transaction(async (tx) => {
+      // Pausa ou arquivamento simultâneo entre a leitura e o commit
+      const claimed = await tx.rental.updateMany({
+        where: { id: rentalId, deleted_at: null, status: rental.status },
+        data: archived,
+      });
+      if (claimed.count === 0) {
+        throw new ConflictError('Locação foi alterada durante o arquivamento, tente novamente');
+      }
+
+      const closedCharges = await rentalChargeService.closeCharges(tx, rentalId, deletedAt);
+
+      // Se a locação está ativa, liberar a moto
+      if (rental.status === 'active' && rental.motorcycle) {
+        await motorcycleStatusService.transition(tx, rental.motorcycle_id, 'active', {
+          reason: 'Locação arquivada',
+          userId,
+          source: 'archive',
+          fromStatuses: [...RENTED_STATUSES, 'recolhida'],
+        });
+      }
+
+      await tx.vistoria.updateMany({
+        where: { rental_id: rentalId, deleted_at: null },
+        data: archived,
+      });
+      await tx.distrato.updateMany({
+        where: { rental_id: rentalId, deleted_at: null },
+        data: archived,
+      });
+      await tx.rentalSecondaryVehicle.updateMany({
+        where: { rental_id: rentalId, deleted_at: null },
+        data: archived,
+      });
+
+      return closedCharges;
+    });
+
+    await rentalChargeService.cancelRemoteCharges(closed.cancelled, rental.franchisee?.asaas_token);
+
+    return {
+      rental,
+      deleted_at: deletedAt,
+      restorable_until: this.getRestorableUntil(deletedAt),
+    };
+  }
+
+  /**
+   * Restaurar locação arquivada dentro do prazo de retenção
+   * Os registros arquivados junto com ela voltam a aparecer; locação ativa volta a ocupar a moto
+   * (pausada, arquivada antes do bloqueio, só volta se a moto continua recolhida e livre)
+   */
+  async restore(rentalId: string, userId?: string | null) {
+    const rental = await prisma.rental.findFirst({
+      where: { id: rentalId, deleted_at: { not: null } },
+      include: { motorcycle: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação arquivada não encontrada');
+    }
+
+    const deletedAt = rental.deleted_at!;
+    const restorableUntil = this.getRestorableUntil(deletedAt);
+    if (restorableUntil < new Date()) {
+      throw new BadRequestError(
+        `Prazo de restauração expirado em ${restorableUntil.toISOString().split('T')[0]} (${env.RENTAL_ARCHIVE_RETENTION_DAYS} dias)`
+      );
+    }
+
+    if (rental.status === 'active' || rental.status === 'paused') {
+      const expectedStatus = rental.status === 'active' ? 'active' : 'recolhida';
+      if (rental.motorcycle.status !== expectedStatus) {
+        throw new ConflictError(
+          `Moto ${rental.motorcycle_plate} está com status "${rental.motorcycle.status}" e não pode voltar para a locação`
+        );
+      }
+
+      const concurrent = await prisma.rental.findFirst({
+        where: {
+          id: { not: rental.id },
+          motorcycle_id: rental.motorcycle_id,
+          status: { in: ['active', 'paused'] },
+          deleted_at: null,
+        },
+        select: { id: true, client_name: true },
+      });
+      if (concurrent) {
+        throw new ConflictError(`Moto ${rental.motorcycle_plate} já está na locação de ${concurrent.client_name}`);
+      }
+    }
+
+    // Locação ativa volta a ocupar a moto: documentos obrigatórios precisam estar em dia
+    if (rental.status === 'active') {
+      await motorcycleDocumentService.assertRentable(rental.motorcycle_id);
+    }
+
+    const restored = { deleted_at: null, deleted_by: null };
+
+    return prisma.$transaction(async (tx) => {
+      if (rental.status === 'active') {
+        const { changed } = await motorcycleStatusService.transition(tx, rental.motorcycle_id, 'alugada', {
+          reason: 'Locação restaurada do arquivo',
+          userId,
+          source: 'archive',
+        });
+        if (!changed) {
+          throw new ConflictError(`Moto ${rental.motorcycle_plate} já está alugada e não pode voltar para a locação`);
+        }
+      }
+
+      // Apenas o que foi arquivado junto com a locação
+      await tx.vistoria.updateMany({
+        where: { rental_id: rentalId, deleted_at: deletedAt },
+        data: restored,
+      });
+      await tx.distrato.updateMany({
+        where: { rental_id: rentalId, deleted_at: deletedAt },
+        data: restored,
+      });
+      await tx.rentalSecondaryVehicle.updateMany({
+        where: { rental_id: rentalId, deleted_at: deletedAt },
+        data: restored,
+      });
+
+      return tx.rental.update({
+        where: { id: rentalId },
+        data: restored,
+        include: {
+          motorcycle: true,
+          franchisee: true,
+          city: true,
+          driver: true,
+        },
+      });
+    });
+  }
+
+  /**
+   * Listar locações arquivadas com o prazo de restauração
+   */
+  async listArchived(filters: ArchivedRentalFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const now = new Date();
+
+    const where: Prisma.RentalWhereInput = {
+      deleted_at: { not: null },
+      ...(filters.cityId ? { city_id: filters.cityId } : {}),
+      ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+    };
+
+    const [rentals, total] = await Promise.all([
+      prisma.rental.findMany({
+        where,
+        select: {
+          id: true,
+          client_name: true,
+          client_cpf: true,
+          motorcycle_id: true,
+          motorcycle_plate: true,
+          franchisee_id: true,
+          city_id: true,
+          start_date: true,
+          end_date: true,
+          status: true,
+          deleted_at: true,
+          deleted_by: true,
+          franchisee: { select: { id: true, fantasy_name: true, company_name: true } },
+          city: { select: { id: true, name: true } },
+        },
+        orderBy: { deleted_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.rental.count({ where }),
+    ]);
+
+    const data = rentals.map(rental => {
+      const restorableUntil = this.getRestorableUntil(rental.deleted_at!);
+      return {
+        ...rental,
+        restorable_until: restorableUntil,
+        restorable: restorableUntil >= now,
+      };
+    });
+
+    return { data, total, page, limit };
+  }
+
+  /**
+   * Expurgar definitivamente as locações arquivadas há mais de RENTAL_ARCHIVE_RETENTION_DAYS
+   * Remove vistorias, distratos, veículos secundários, prazos, pausas e renegociações;
+   * contratos gerados, recibos de caução e oportunidades do CRM são mantidos sem o vínculo com a locação.
+   * Com dryRun apenas lista as locações elegíveis
+   */
+  async purge(options: { dryRun?: boolean } = {}): Promise<PurgeResult> {
+    const dryRun = options.dryRun ?? true;
+    const purgeBefore = new Date(Date.now() - env.RENTAL_ARCHIVE_RETENTION_DAYS * MS_PER_DAY);
+
+    const rentals = await prisma.rental.findMany({
+      where: { deleted_at: { lt: purgeBefore } },
+      select: { id: true },
+      orderBy: { deleted_at: 'asc' },
+    });
+
+    const result: PurgeResult = {
+      dry_run: dryRun,
+      retention_days: env.RENTAL_ARCHIVE_RETENTION_DAYS,
+      purge_before: purgeBefore.toISOString(),
+      eligible: rentals.length,
+      purged: 0,
+      rental_ids: [],
+      errors: [],
+    };
+
+    if (dryRun) {
+      result.rental_ids = rentals.map(rental => rental.id);
+      return result;
+    }
+
+    for (const { id } of rentals) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const distratos = await tx.distrato.findMany({
+            where: { rental_id: id },
+            select: { id: true },
+          });
+          const distratoIds = distratos.map(distrato => distrato.id);
+
+          await tx.depositReceipt.updateMany({
+            where: { rental_id: id },
+            data: { rental_id: null },
+          });
+          if (distratoIds.length > 0) {
+            await tx.depositReceipt.updateMany({
+              where: { distrato_id: { in: distratoIds } },
+              data: { distrato_id: null },
+            });
+          }
+
+          await tx.rentalTerm.deleteMany({ where: { rental_id: id } });
+          await tx.rentalPause.deleteMany({ where: { rental_id: id } });
+          await tx.rentalRenegotiation.deleteMany({ where: { rental_id: id } });
+          await tx.vistoria.deleteMany({ where: { rental_id: id } });
+          await tx.distrato.deleteMany({ where: { rental_id: id } });
+          await tx.rentalSecondaryVehicle.deleteMany({ where: { rental_id: id } });
+
+          // Desassociar contratos gerados (não excluir, apenas remover a referência)
+          await tx.generatedContract.updateMany({
+            where: { rental_id: id },
+            data: { rental_id: null },
+          });
+          await tx.deal.updateMany({
+            where: { rental_id: id },
+            data: { rental_id: null },
+          });
+
+          await tx.rental.delete({ where: { id } });
+        });
+
+        result.purged++;
+        result.rental_ids.push(id);
+      } catch (error: any) {
+        logger.error({ rentalId: id, error: error.message }, 'Erro ao expurgar locação arquivada');
+        result.errors.push({ rental_id: id, error: error.message });
+      }
+    }
+
+    logger.info({
+      eligible: result.eligible,
+      purged: result.purged,
+      errors: result.errors.length,
+    }, 'Archived rental purge finished');
+
+    return result;
+  }
+}
+
+export const rentalArchiveService = new RentalArchiveService();
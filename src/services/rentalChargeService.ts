@@ -0,0 +1,642 @@
+import { prisma } from '../config/database.js';
+import { asaasService, AsaasPaymentResponse } from './asaasService.js';
+import { rentalPlanService } from './rentalPlanService.js';
+import { PricingPlan } from './pricingService.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { withJobLock } from '../utils/jobLock.js';
+
+const DAYS_PER_INSTALLMENT = 7;
+
+// Locações recentes verificadas pela geração periódica (cobranças que falharam ou não foram geradas)
+const PENDING_GENERATION_LOOKBACK_DAYS = 7;
+
+// Locações encerradas não recebem novas cobranças
+const CLOSED_RENTAL_STATUSES = ['completed', 'cancelled'];
+
+// Cobranças que contam como efetivamente cobradas no acerto da finalização
+// (renegociadas seguem devidas pelo cronograma da renegociação)
+const CHARGED_PAYMENT_STATUSES = ['PENDING', 'OVERDUE', 'CONFIRMED', 'RECEIVED', 'RENEGOTIATED'];
+
+type Transaction = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface RentalInstallment {
+  installment_number: number;
+  due_date: Date;
+  days: number;
+  valor: number;
+  valor_royalties: number;
+}
+
+export interface GenerateChargesResult {
+  created: number;
+  skipped: boolean;
+  reason?: string;
+  errors: { installment_number: number; error: string }[];
+}
+
+export interface ChargePeriodInput {
+  start_date: Date;
+  end_date: Date;
+  daily_rate: number;
+  plan: PricingPlan;
+  // Identificação do período na descrição da cobrança (ex: "prorrogação 2")
+  label: string;
+}
+
+interface RentalCustomerData {
+  client_name: string;
+  client_cpf: string;
+  client_email: string | null;
+  client_phone: string;
+  client_address_zip_code: string | null;
+  client_address_number: string | null;
+}
+
+export interface ClosedCharges {
+  // Cobranças canceladas localmente (a cancelar no Asaas após o commit)
+  cancelled: { id: string; asaas_payment_id: string }[];
+  // Total das parcelas da locação que continuam cobradas (pagas ou em aberto)
+  charged: number;
+}
+
+export interface RentalSettlement {
+  // Valor calculado para o período utilizado
+  total: number;
+  // Parcelas que continuam cobradas (pagas ou em aberto)
+  charged: number;
+  // Positivo: o locatário deve a diferença; negativo: crédito do locatário
+  balance: number;
+  financeiro_id: string | null;
+}
+
+export interface IssueChargeInput {
+  rental: {
+    id: string;
+    franchisee_id: string;
+    motorcycle_id: string;
+    motorcycle_plate: string;
+    client_name: string;
+  };
+  customerId: string;
+  apiKey: string;
+  walletId?: string | null;
+  royaltiesPercentage: number;
+  installmentNumber: number;
+  dueDate: string;
+  valor: number;
+  description: string;
+  userId?: string | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+
+export class RentalChargeService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Calcular as parcelas semanais da locação
+   * - Valor semanal: weekly_rate do plano ou 7 diárias
+   * - Semanas promocionais do plano (promo_weeks) cobradas pelo promo_weekly_rate
+   * - Última parcela proporcional aos dias restantes
+   * - Vencimento no início de cada semana (cobrança antecipada)
+   */
+  buildInstallments(rental: {
+    start_date: Date;
+    end_date: Date | null;
+    total_days: number | null;
+    daily_rate: unknown;
+  }, plan: PricingPlan, royaltiesPercentage: number): RentalInstallment[] {
+    const dailyRate = Number(rental.daily_rate);
+    const weeklyRate = plan.weekly_rate ? Number(plan.weekly_rate) : dailyRate * DAYS_PER_INSTALLMENT;
+    const promoRate = plan.promo_weekly_rate ? Number(plan.promo_weekly_rate) : null;
+    const promoWeeks = promoRate !== null ? plan.promo_weeks || 0 : 0;
+
+    let totalDays = rental.total_days || 0;
+    if (!totalDays && rental.end_date) {
+      totalDays = Math.ceil((rental.end_date.getTime() - rental.start_date.getTime()) / 86400000);
+    }
+    if (!totalDays) {
+      totalDays = plan.minimum_days || DAYS_PER_INSTALLMENT;
+    }
+
+    const installments: RentalInstallment[] = [];
+    let remaining = totalDays;
+    let number = 1;
+
+    while (remaining > 0) {
+      const days = Math.min(DAYS_PER_INSTALLMENT, remaining);
+      const fullWeekRate = number <= promoWeeks ? promoRate! : weeklyRate;
+      const valor = round2(days === DAYS_PER_INSTALLMENT ? fullWeekRate : dailyRate * days);
+      const dueDate = new Date(rental.start_date);
+      dueDate.setDate(dueDate.getDate() + (number - 1) * DAYS_PER_INSTALLMENT);
+
+      installments.push({
+        installment_number: number,
+        due_date: dueDate,
+        days,
+        valor,
+        valor_royalties: round2(valor * royaltiesPercentage / 100),
+      });
+
+      remaining -= days;
+      number++;
+    }
+
+    return installments;
+  }
+
+  /**
+   * Gerar as cobranças semanais (boleto + PIX) no Asaas para uma locação com plano
+   * Emitidas na conta do franqueado com split de royalties para a carteira da cidade
+   * Uma geração por locação de cada vez (lock em job_locks), em qualquer processo da API
+   */
+  async generateForRental(rentalId: string, userId?: string | null): Promise<GenerateChargesResult> {
+    const result = await withJobLock(`rental_charges:${rentalId}`, () => this.runGenerateForRental(rentalId, userId));
+    return result || { created: 0, skipped: true, reason: 'Geração de cobranças em andamento para esta locação', errors: [] };
+  }
+
+  /**
+   * Gerar as cobranças fora da requisição (a criação da locação não espera as chamadas ao Asaas)
+   * Falhas ficam no log e são refeitas pela geração periódica
+   */
+  queueForRental(rentalId: string, userId?: string | null): void {
+    setImmediate(() => {
+      this.generateForRental(rentalId, userId).catch((error) => {
+        logger.error({ rentalId, error: error.message }, 'Erro ao gerar cobranças Asaas da locação');
+      });
+    });
+  }
+
+  /**
+   * Completar as cobranças das locações ativas recentes (parcelas sem cobrança emitida)
+   */
+  async generatePending(): Promise<{ checked: number; created: number; errors: number }> {
+    const since = new Date(Date.now() - PENDING_GENERATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const rentals = await prisma.rental.findMany({
+      where: {
+        status: 'active',
+        deleted_at: null,
+        plan_id: { not: null },
+        created_at: { gte: since },
+        franchisee: { asaas_token: { not: null } },
+      },
+      select: { id: true },
+    });
+
+    const summary = { checked: rentals.length, created: 0, errors: 0 };
+    for (const rental of rentals) {
+      try {
+        const result = await this.generateForRental(rental.id);
+        summary.created += result.created;
+        summary.errors += result.errors.length;
+      } catch (error: any) {
+        summary.errors++;
+        logger.error({ rentalId: rental.id, error: error.message }, 'Erro na geração periódica de cobranças Asaas');
+      }
+    }
+
+    if (summary.created > 0 || summary.errors > 0) {
+      logger.info(summary, 'Geração periódica de cobranças Asaas concluída');
+    }
+
+    return summary;
+  }
+
+  private async runGenerateForRental(rentalId: string, userId?: string | null): Promise<GenerateChargesResult> {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: {
+        plan: true,
+        franchisee: { select: { id: true, asaas_token: true, royalties_percentage: true } },
+        city: { select: { asaas_wallet_id: true } },
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (CLOSED_RENTAL_STATUSES.includes(rental.status)) {
+      return { created: 0, skipped: true, reason: 'Locação encerrada', errors: [] };
+    }
+    // Condições do plano congeladas na criação da locação
+    const plan = rentalPlanService.resolveForRental(rental);
+    if (!plan) {
+      return { created: 0, skipped: true, reason: 'Locação sem plano', errors: [] };
+    }
+    if (!rental.franchisee) {
+      throw new BadRequestError('Locação sem franqueado');
+    }
+    if (!rental.franchisee.asaas_token) {
+      return { created: 0, skipped: true, reason: 'Franqueado sem conta Asaas configurada', errors: [] };
+    }
+
+    // Parcelas já emitidas não são geradas novamente (permite completar uma geração com falhas)
+    const existing = await prisma.asaasPayment.findMany({
+      where: { rental_id: rentalId },
+      select: { installment_number: true },
+    });
+    const existingNumbers = new Set(existing.map(payment => payment.installment_number));
+
+    const apiKey = rental.franchisee.asaas_token;
+    const royaltiesPercentage = rental.franchisee.royalties_percentage ? Number(rental.franchisee.royalties_percentage) : 0;
+    const walletId = rental.city?.asaas_wallet_id;
+
+    if (royaltiesPercentage > 0 && !walletId) {
+      logger.warn({ rentalId, cityId: rental.city_id }, 'Cidade sem asaas_wallet_id: cobranças geradas sem split de royalties');
+    }
+
+    const installments = this.buildInstallments(rental, plan, royaltiesPercentage);
+    const pending = installments.filter(installment => !existingNumbers.has(installment.installment_number));
+
+    if (pending.length === 0) {
+      return { created: 0, skipped: true, reason: 'Cobranças já geradas para esta locação', errors: [] };
+    }
+
+    const customerId = await this.findOrCreateCustomer(rental, apiKey);
+
+    const today = toDateOnly(new Date());
+    const result: GenerateChargesResult = { created: 0, skipped: false, errors: [] };
+
+    for (const installment of pending) {
+      try {
+        // Asaas não aceita vencimento no passado
+        const dueDate = toDateOnly(installment.due_date) < today ? today : toDateOnly(installment.due_date);
+
+        await this.issueCharge({
+          rental,
+          customerId,
+          apiKey,
+          walletId,
+          royaltiesPercentage,
+          installmentNumber: installment.installment_number,
+          dueDate,
+          valor: installment.valor,
+          description: `Locação ${rental.motorcycle_plate} - ${plan.name} - parcela ${installment.installment_number}/${installments.length}`,
+          userId,
+        });
+
+        result.created++;
+      } catch (error: any) {
+        logger.error({ rentalId, installment: installment.installment_number, error: error.message }, 'Erro ao gerar cobrança Asaas');
+        result.errors.push({ installment_number: installment.installment_number, error: error.message });
+      }
+    }
+
+    logger.info({ rentalId, created: result.created, errors: result.errors.length }, 'Cobranças Asaas geradas para a locação');
+
+    return result;
+  }
+
+  /**
+   * Gerar as parcelas semanais de um período adicional da locação (prorrogação/renovação)
+   * - Numeração continua após as cobranças já emitidas
+   * - Semanas promocionais do plano não se aplicam ao período adicional
+   */
+  async generateForPeriod(rentalId: string, period: ChargePeriodInput, userId?: string | null): Promise<GenerateChargesResult> {
+    const result = await withJobLock(`rental_charges:${rentalId}`, () => this.runGenerateForPeriod(rentalId, period, userId));
+    return result || { created: 0, skipped: true, reason: 'Geração de cobranças em andamento para esta locação', errors: [] };
+  }
+
+  private async runGenerateForPeriod(rentalId: string, period: ChargePeriodInput, userId?: string | null): Promise<GenerateChargesResult> {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: {
+        franchisee: { select: { id: true, asaas_token: true, royalties_percentage: true } },
+        city: { select: { asaas_wallet_id: true } },
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (!rental.franchisee) {
+      throw new BadRequestError('Locação sem franqueado');
+    }
+    if (!rental.franchisee.asaas_token) {
+      return { created: 0, skipped: true, reason: 'Franqueado sem conta Asaas configurada', errors: [] };
+    }
+
+    const apiKey = rental.franchisee.asaas_token;
+    const royaltiesPercentage = rental.franchisee.royalties_percentage ? Number(rental.franchisee.royalties_percentage) : 0;
+    const walletId = rental.city?.asaas_wallet_id;
+
+    const installments = this.buildInstallments({
+      start_date: period.start_date,
+      end_date: period.end_date,
+      total_days: null,
+      daily_rate: period.daily_rate,
+    }, { ...period.plan, promo_weeks: 0 }, royaltiesPercentage);
+
+    const lastInstallment = await prisma.asaasPayment.aggregate({
+      where: { rental_id: rentalId },
+      _max: { installment_number: true },
+    });
+    const offset = lastInstallment._max.installment_number || 0;
+
+    const customerId = await this.findOrCreateCustomer(rental, apiKey);
+
+    const today = toDateOnly(new Date());
+    const result: GenerateChargesResult = { created: 0, skipped: false, errors: [] };
+
+    for (const installment of installments) {
+      const installmentNumber = offset + installment.installment_number;
+      try {
+        const dueDate = toDateOnly(installment.due_date) < today ? today : toDateOnly(installment.due_date);
+
+        await this.issueCharge({
+          rental: { ...rental, franchisee_id: rental.franchisee.id },
+          customerId,
+          apiKey,
+          walletId,
+          royaltiesPercentage,
+          installmentNumber,
+          dueDate,
+          valor: installment.valor,
+          description: `Locação ${rental.motorcycle_plate} - ${period.plan.name || 'plano'} - ${period.label} - parcela ${installment.installment_number}/${installments.length}`,
+          userId,
+        });
+
+        result.created++;
+      } catch (error: any) {
+        logger.error({ rentalId, installment: installmentNumber, error: error.message }, 'Erro ao gerar cobrança Asaas do período adicional');
+        result.errors.push({ installment_number: installmentNumber, error: error.message });
+      }
+    }
+
+    logger.info({ rentalId, label: period.label, created: result.created, errors: result.errors.length }, 'Cobranças Asaas do período adicional geradas');
+
+    return result;
+  }
+
+  /**
+   * Buscar (ou criar) o cliente da locação na conta Asaas do franqueado
+   */
+  async findOrCreateCustomer(rental: RentalCustomerData, apiKey: string): Promise<string> {
+    return asaasService.findOrCreateCustomer({
+      name: rental.client_name,
+      cpfCnpj: rental.client_cpf,
+      email: rental.client_email,
+      phone: rental.client_phone,
+      postalCode: rental.client_address_zip_code,
+      addressNumber: rental.client_address_number,
+    }, apiKey);
+  }
+
+  /**
+   * Emitir uma cobrança no Asaas e registrar o lançamento no Financeiro + AsaasPayment
+   * Idempotente pela parcela: reaproveita o registro local ou a cobrança já emitida no Asaas (externalReference)
+   * Se a gravação local falhar, a cobrança criada nesta chamada é cancelada no Asaas
+   */
+  async issueCharge(input: IssueChargeInput) {
+    const { rental, customerId, apiKey, walletId, royaltiesPercentage, dueDate } = input;
+    const externalReference = `${rental.id}:${input.installmentNumber}`;
+
+    const existing = await prisma.asaasPayment.findFirst({
+      where: { rental_id: rental.id, installment_number: input.installmentNumber },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const reused = await asaasService.findPaymentByExternalReference(externalReference, apiKey);
+    const payment = reused || await asaasService.createPayment({
+      customer: customerId,
+      billingType: 'UNDEFINED',
+      value: input.valor,
+      dueDate,
+      description: input.description,
+      externalReference,
+      split: royaltiesPercentage > 0 && walletId
+        ? [{ walletId, percentualValue: royaltiesPercentage }]
+        : undefined,
+    }, apiKey);
+
+    if (reused) {
+      logger.warn({ rentalId: rental.id, installment: input.installmentNumber, asaasPaymentId: reused.id }, 'Cobrança já existia no Asaas, reaproveitada');
+    }
+
+    // Linha digitável e PIX são opcionais: a cobrança já existe no Asaas
+    const [boleto, pix] = await Promise.all([
+      asaasService.getBoletoIdentificationField(payment.id, apiKey).catch(() => null),
+      asaasService.getPixQrCode(payment.id, apiKey).catch(() => null),
+    ]);
+
+    try {
+      return await this.saveCharge(input, customerId, payment, boleto, pix);
+    } catch (error: any) {
+      if (!reused) {
+        await asaasService.deletePayment(payment.id, apiKey).catch((deleteError) => {
+          logger.error({ rentalId: rental.id, asaasPaymentId: payment.id, error: deleteError.message }, 'Cobrança Asaas sem registro local e não cancelada (reaproveitada na próxima tentativa)');
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lançamento no Financeiro + AsaasPayment da cobrança emitida (mesma transação)
+   */
+  private async saveCharge(
+    input: IssueChargeInput,
+    customerId: string,
+    payment: AsaasPaymentResponse,
+    boleto: { identificationField: string } | null,
+    pix: { encodedImage: string; payload: string } | null
+  ) {
+    const { rental, walletId, royaltiesPercentage, dueDate } = input;
+
+    return prisma.$transaction(async (tx) => {
+      // Trava a locação: uma finalização/cancelamento concorrente espera este registro (e o cancela)
+      const [current] = await tx.$queryRaw<{ status: string; deleted_at: Date | null }[]>`
+        SELECT status, deleted_at FROM rentals WHERE id = ${rental.id}::uuid FOR SHARE
+      `;
+      if (!current || current.deleted_at || CLOSED_RENTAL_STATUSES.includes(current.status)) {
+        throw new BadRequestError('Locação encerrada: cobrança não registrada');
+      }
+
+      const financeiro = await tx.financeiro.create({
+        data: {
+          franchisee_id: rental.franchisee_id,
+          tipo: 'entrada',
+          placa: rental.motorcycle_plate,
+          motorcycle_id: rental.motorcycle_id,
+          locatario: rental.client_name,
+          valor: input.valor,
+          data: new Date(dueDate),
+          descricao: input.description,
+          pago: false,
+          created_by: input.userId || null,
+        },
+      });
+
+      return tx.asaasPayment.create({
+        data: {
+          rental_id: rental.id,
+          franchisee_id: rental.franchisee_id,
+          financeiro_id: financeiro.id,
+          asaas_payment_id: payment.id,
+          asaas_customer_id: customerId,
+          installment_number: input.installmentNumber,
+          due_date: new Date(dueDate),
+          valor: input.valor,
+          valor_royalties: walletId ? round2(input.valor * royaltiesPercentage / 100) : 0,
+          status: payment.status || 'PENDING',
+          boleto_url: payment.bankSlipUrl || payment.invoiceUrl || null,
+          boleto_barcode: boleto?.identificationField || null,
+          pix_qrcode: pix?.encodedImage || null,
+          pix_copia_cola: pix?.payload || null,
+        },
+      });
+    });
+  }
+
+  /**
+   * Encerrar as cobranças da locação a partir de uma data (finalização/cancelamento)
+   * - Parcelas PENDING com vencimento a partir de fromDate ficam CANCELLED e os lançamentos como cancelado
+   * - Parcelas de renegociação não são canceladas (débito de períodos já utilizados)
+   * Chamado dentro da transação que encerra a locação; o cancelamento no Asaas vem depois (cancelRemoteCharges)
+   */
+  async closeCharges(tx: Transaction, rentalId: string, fromDate: Date): Promise<ClosedCharges> {
+    // Espera cobranças sendo registradas para a locação (saveCharge) antes de listar
+    await tx.$queryRaw`SELECT id FROM rentals WHERE id = ${rentalId}::uuid FOR UPDATE`;
+
+    const renegotiations = await tx.rentalRenegotiation.findMany({
+      where: { rental_id: rentalId },
+      select: { schedule: true },
+    });
+    const renegotiationPaymentIds = new Set(
+      renegotiations.flatMap(renegotiation =>
+        ((renegotiation.schedule as unknown as { asaas_payment_id: string | null }[]) || [])
+          .map(item => item.asaas_payment_id)
+          .filter(Boolean)
+      )
+    );
+
+    const payments = (await tx.asaasPayment.findMany({
+      where: { rental_id: rentalId },
+    })).filter(payment => !renegotiationPaymentIds.has(payment.id));
+
+    const fromDay = toDateOnly(fromDate);
+    const cancelled = payments.filter(payment => payment.status === 'PENDING' && toDateOnly(payment.due_date) >= fromDay);
+
+    if (cancelled.length > 0) {
+      await tx.asaasPayment.updateMany({
+        where: { id: { in: cancelled.map(payment => payment.id) } },
+        data: { status: 'CANCELLED', updated_at: new Date() },
+      });
+
+      const financeiroIds = cancelled.map(payment => payment.financeiro_id).filter(Boolean) as string[];
+      if (financeiroIds.length > 0) {
+        await tx.financeiro.updateMany({
+          where: { id: { in: financeiroIds }, pago: false },
+          data: { status: 'cancelado' },
+        });
+      }
+    }
+
+    const cancelledIds = new Set(cancelled.map(payment => payment.id));
+    const charged = round2(payments
+      .filter(payment => !cancelledIds.has(payment.id) && CHARGED_PAYMENT_STATUSES.includes(payment.status))
+      .reduce((sum, payment) => sum + Number(payment.valor), 0));
+
+    return {
+      cancelled: cancelled.map(payment => ({ id: payment.id, asaas_payment_id: payment.asaas_payment_id })),
+      charged,
+    };
+  }
+
+  /**
+   * Acerto da finalização: valor do período utilizado contra as parcelas que continuam cobradas
+   * A diferença fica lançada em aberto no Financeiro (entrada quando o locatário deve, saída quando tem crédito)
+   */
+  async settle(
+    tx: Transaction,
+    rental: IssueChargeInput['rental'],
+    total: number,
+    charged: number,
+    date: Date,
+    userId?: string | null
+  ): Promise<RentalSettlement> {
+    const balance = round2(total - charged);
+    let financeiroId: string | null = null;
+
+    if (balance !== 0) {
+      const financeiro = await tx.financeiro.create({
+        data: {
+          franchisee_id: rental.franchisee_id,
+          tipo: balance > 0 ? 'entrada' : 'saida',
+          placa: rental.motorcycle_plate,
+          motorcycle_id: rental.motorcycle_id,
+          locatario: rental.client_name,
+          valor: Math.abs(balance),
+          data: date,
+          descricao: balance > 0
+            ? `Acerto da finalização da locação ${rental.motorcycle_plate} - saldo a receber`
+            : `Acerto da finalização da locação ${rental.motorcycle_plate} - crédito do locatário`,
+          pago: false,
+          created_by: userId || null,
+        },
+      });
+      financeiroId = financeiro.id;
+    }
+
+    return { total, charged, balance, financeiro_id: financeiroId };
+  }
+
+  /**
+   * Cancelar no Asaas as cobranças encerradas localmente (falhas ficam no log)
+   */
+  async cancelRemoteCharges(payments: ClosedCharges['cancelled'], apiKey?: string | null): Promise<void> {
+    if (!apiKey) {
+      return;
+    }
+
+    for (const payment of payments) {
+      await asaasService.deletePayment(payment.asaas_payment_id, apiKey).catch((error) => {
+        logger.warn({ paymentId: payment.asaas_payment_id, error: error.message }, 'Falha ao cancelar no Asaas cobrança de locação encerrada');
+      });
+    }
+  }
+
+  /**
+   * Iniciar a geração periódica das cobranças pendentes
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.generatePending();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled Asaas charge generation failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes }, 'Asaas charge generation scheduled');
+  }
+
+  /**
+   * Parar a geração periódica
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const rentalChargeService = new RentalChargeService();
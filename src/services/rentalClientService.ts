@@ -0,0 +1,277 @@
+import { Client } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { isValidCpfCnpj, normalizeCpfCnpj } from '../utils/identifiers.js';
+import { logger } from '../utils/logger.js';
+
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface RentalClientSnapshot {
+  id: string;
+  full_name: string;
+  is_pj: boolean;
+  cpf: string | null;
+  cnpj: string | null;
+  razao_social: string | null;
+  rg: string | null;
+  phone: string;
+  email: string | null;
+  address: string | null;
+  number: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  cnh_number: string | null;
+  cnh_category: string | null;
+  cnh_expiry_date: string | null;
+  captured_at: string;
+}
+
+export interface ClientBackfillOptions {
+  dryRun?: boolean;
+  franchiseeId?: string;
+}
+
+export interface ClientBackfillResult {
+  dry_run: boolean;
+  checked: number;
+  linked: number;
+  unmatched: { rental_id: string; client_name: string; client_cpf: string }[];
+  invalid_document: { rental_id: string; client_name: string; client_cpf: string }[];
+  ambiguous: { rental_id: string; client_name: string; client_cpf: string; client_ids: string[] }[];
+  name_mismatch: { rental_id: string; client_id: string; rental_client_name: string; client_full_name: string }[];
+}
+
+type ClientCandidate = Pick<Client, 'id' | 'full_name' | 'cpf' | 'cnpj' | 'franchisee_id' | 'city_id'>;
+
+const normalizeName = (value: string | null | undefined) =>
+  (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export class RentalClientService {
+  /**
+   * CPF/CNPJ apenas com dígitos (cadastros antigos guardam o documento formatado)
+   */
+  normalizeDocument(value: string | null | undefined): string {
+    return normalizeCpfCnpj(value);
+  }
+
+  /**
+   * Dados do cliente congelados na locação no momento da assinatura
+   * Editar o cadastro depois não altera locações já criadas
+   */
+  snapshot(client: Client): RentalClientSnapshot {
+    return {
+      id: client.id,
+      full_name: client.full_name,
+      is_pj: client.is_pj,
+      cpf: client.cpf,
+      cnpj: client.cnpj,
+      razao_social: client.razao_social,
+      rg: client.rg,
+      phone: client.phone,
+      email: client.email,
+      address: client.address,
+      number: client.number,
+      city: client.city,
+      state: client.state,
+      zip_code: client.zip_code,
+      cnh_number: client.cnh_number,
+      cnh_category: client.cnh_category,
+      cnh_expiry_date: client.cnh_expiry_date ? client.cnh_expiry_date.toISOString().split('T')[0] : null,
+      captured_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Campos client_* da locação preenchidos a partir do cadastro do cliente
+   */
+  toRentalFields(client: Client) {
+    const document = client.is_pj ? client.cnpj || client.cpf : client.cpf || client.cnpj;
+    if (!document) {
+      throw new BadRequestError('Cliente não possui CPF/CNPJ cadastrado');
+    }
+
+    return {
+      client_name: client.full_name,
+      client_cpf: document,
+      client_email: client.email,
+      client_phone: client.phone,
+      client_address: [
+        client.address,
+        client.number && `nº ${client.number}`,
+        client.city,
+        client.state,
+      ].filter(Boolean).join(', ') || null,
+      client_address_street: client.address,
+      client_address_number: client.number,
+      client_address_city: client.city,
+      client_address_state: client.state,
+      client_address_zip_code: client.zip_code,
+    };
+  }
+
+  /**
+   * Buscar o cliente a ser vinculado à locação, respeitando a cidade do usuário
+   */
+  async resolveForRental(clientId: string, context: AuthContext): Promise<Client> {
+    const client = await prisma.client.findUnique({ where: { id: clientId } });
+
+    if (!client) {
+      throw new NotFoundError('Cliente não encontrado');
+    }
+
+    if (!context.isMasterOrAdmin() && client.city_id && client.city_id !== context.cityId) {
+      throw new ForbiddenError('Sem permissão para vincular este cliente');
+    }
+
+    return client;
+  }
+
+  /**
+   * Cadastro do cliente de uma locação: pelo vínculo client_id ou,
+   * em locações ainda não vinculadas, pelo CPF/CNPJ copiado na locação
+   */
+  async findForRental(rental: { client_id?: string | null; client_cpf: string }): Promise<Client | null> {
+    if (rental.client_id) {
+      return prisma.client.findUnique({ where: { id: rental.client_id } });
+    }
+
+    const document = this.normalizeDocument(rental.client_cpf);
+    if (!document) {
+      return null;
+    }
+
+    return prisma.client.findFirst({
+      where: {
+        OR: [
+          { cpf: document },
+          { cpf: rental.client_cpf },
+          { cnpj: document },
+          { cnpj: rental.client_cpf },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Vincular locações antigas aos clientes pelo CPF/CNPJ normalizado
+   * - Documento com mais de um cliente: desempata pelo franqueado e depois pela cidade da locação
+   * - Sem cliente, documento inválido ou empate não resolvido ficam no relatório para correção manual
+   * - Nome divergente é vinculado, mas listado para conferência
+   * Com dryRun nada é gravado (apenas o relatório)
+   */
+  async backfill(options: ClientBackfillOptions = {}): Promise<ClientBackfillResult> {
+    const dryRun = options.dryRun ?? true;
+
+    const clients = await prisma.client.findMany({
+      where: { OR: [{ cpf: { not: null } }, { cnpj: { not: null } }] },
+      select: { id: true, full_name: true, cpf: true, cnpj: true, franchisee_id: true, city_id: true },
+    });
+
+    const byDocument = new Map<string, ClientCandidate[]>();
+    for (const client of clients) {
+      const documents = new Set([this.normalizeDocument(client.cpf), this.normalizeDocument(client.cnpj)]);
+      for (const document of documents) {
+        if (!document) continue;
+        byDocument.set(document, [...(byDocument.get(document) || []), client]);
+      }
+    }
+
+    const result: ClientBackfillResult = {
+      dry_run: dryRun,
+      checked: 0,
+      linked: 0,
+      unmatched: [],
+      invalid_document: [],
+      ambiguous: [],
+      name_mismatch: [],
+    };
+
+    let cursor: string | undefined;
+    for (;;) {
+      const rentals = await prisma.rental.findMany({
+        where: {
+          client_id: null,
+          ...(cursor ? { id: { gt: cursor } } : {}),
+          ...(options.franchiseeId ? { franchisee_id: options.franchiseeId } : {}),
+        },
+        select: { id: true, client_name: true, client_cpf: true, franchisee_id: true, city_id: true },
+        orderBy: { id: 'asc' },
+        take: BACKFILL_BATCH_SIZE,
+      });
+
+      if (rentals.length === 0) {
+        break;
+      }
+      cursor = rentals[rentals.length - 1].id;
+      result.checked += rentals.length;
+
+      const links = new Map<string, string[]>();
+      for (const rental of rentals) {
+        const document = this.normalizeDocument(rental.client_cpf);
+        const entry = { rental_id: rental.id, client_name: rental.client_name, client_cpf: rental.client_cpf };
+
+        if (!isValidCpfCnpj(document)) {
+          result.invalid_document.push(entry);
+          continue;
+        }
+
+        let candidates = byDocument.get(document) || [];
+        if (candidates.length > 1) {
+          const sameFranchisee = candidates.filter(client => client.franchisee_id && client.franchisee_id === rental.franchisee_id);
+          candidates = sameFranchisee.length > 0 ? sameFranchisee : candidates;
+        }
+        if (candidates.length > 1) {
+          const sameCity = candidates.filter(client => client.city_id && client.city_id === rental.city_id);
+          candidates = sameCity.length > 0 ? sameCity : candidates;
+        }
+
+        if (candidates.length === 0) {
+          result.unmatched.push(entry);
+          continue;
+        }
+        if (candidates.length > 1) {
+          result.ambiguous.push({ ...entry, client_ids: candidates.map(client => client.id) });
+          continue;
+        }
+
+        const [client] = candidates;
+        if (normalizeName(client.full_name) !== normalizeName(rental.client_name)) {
+          result.name_mismatch.push({
+            rental_id: rental.id,
+            client_id: client.id,
+            rental_client_name: rental.client_name,
+            client_full_name: client.full_name,
+          });
+        }
+
+        links.set(client.id, [...(links.get(client.id) || []), rental.id]);
+        result.linked++;
+      }
+
+      if (!dryRun) {
+        for (const [clientId, rentalIds] of links) {
+          await prisma.rental.updateMany({
+            where: { id: { in: rentalIds }, client_id: null },
+            data: { client_id: clientId },
+          });
+        }
+      }
+    }
+
+    logger.info({
+      dryRun,
+      checked: result.checked,
+      linked: result.linked,
+      unmatched: result.unmatched.length,
+      invalidDocument: result.invalid_document.length,
+      ambiguous: result.ambiguous.length,
+      nameMismatch: result.name_mismatch.length,
+    }, 'Rental client backfill finished');
+
+    return result;
+  }
+}
+
+export const rentalClientService = new RentalClientService();
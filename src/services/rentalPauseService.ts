@@ -0,0 +1,451 @@
+import { prisma } from '../config/database.js';
+import { asaasService } from './asaasService.js';
+import { rentalChargeService } from './rentalChargeService.js';
+import { motorcycleStatusService } from './motorcycleStatusService.js';
+import { realtimeService } from '../websocket/index.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Status da moto de uma locação em andamento (movida para recolhida durante a pausa)
+const RENTED_MOTORCYCLE_STATUSES = ['alugada', 'inadimplente', 'renegociado'];
+const PAUSED_MOTORCYCLE_STATUS = 'recolhida';
+
+export interface PauseInput {
+  reason: string;
+  expected_return_date: string;
+}
+
+interface SuspendedPayment {
+  payment_id: string;
+  asaas_external_id: string;
+  installment_number: number;
+  due_date: string;
+  valor: number;
+  descricao: string | null;
+}
+
+interface SuspendedRecorrente {
+  id: string;
+  data_inicio: string;
+  data_fim: string | null;
+  financeiros_suspensos: number;
+}
+
+interface ReissuedPayment {
+  original_payment_id: string;
+  due_date: string;
+  valor: number;
+  financeiro_id: string;
+  asaas_payment_id: string | null;
+  charge_error?: string;
+}
+
+type Transaction = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T12:00:00.000Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateOnly(result);
+};
+
+export class RentalPauseService {
+  /**
+   * Pausar uma locação ativa
+   * - Parcelas pendentes com vencimento a partir de hoje ficam SUSPENDED (canceladas no Asaas)
+   * - Recorrentes de entrada da moto são desativados
+   * - Lançamentos das parcelas suspensas e lançamentos futuros não pagos dos recorrentes ficam como suspenso
+   * - Moto movida para recolhida (com MotorcycleMovement)
+   */
+  async pause(rentalId: string, input: PauseInput, userId?: string | null) {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: { franchisee: { select: { id: true, asaas_token: true } } },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (rental.status !== 'active') {
+      throw new BadRequestError('Apenas locações ativas podem ser pausadas');
+    }
+
+    const today = toDateOnly(new Date());
+    if (input.expected_return_date < today) {
+      throw new BadRequestError('Data prevista de retorno deve ser hoje ou uma data futura');
+    }
+
+    const payments = await prisma.asaasPayment.findMany({
+      where: { rental_id: rentalId, status: 'PENDING', due_date: { gte: new Date(today) } },
+      orderBy: { installment_number: 'asc' },
+    });
+    const paymentFinanceiroIds = payments.map(payment => payment.financeiro_id).filter(Boolean) as string[];
+    const descriptions = new Map(
+      (await prisma.financeiro.findMany({
+        where: { id: { in: paymentFinanceiroIds } },
+        select: { id: true, descricao: true },
+      })).map(financeiro => [financeiro.id, financeiro.descricao])
+    );
+
+    const suspendedPayments: SuspendedPayment[] = payments.map(payment => ({
+      payment_id: payment.id,
+      asaas_external_id: payment.asaas_payment_id,
+      installment_number: payment.installment_number,
+      due_date: toDateOnly(payment.due_date),
+      valor: Number(payment.valor),
+      descricao: payment.financeiro_id ? descriptions.get(payment.financeiro_id) || null : null,
+    }));
+
+    // Recorrentes de receita lançados para a moto da locação
+    const recorrentes = rental.franchisee_id
+      ? await prisma.lancamentoRecorrente.findMany({
+          where: {
+            franchisee_id: rental.franchisee_id,
+            tipo: 'entrada',
+            ativo: true,
+            OR: [{ motorcycle_id: rental.motorcycle_id }, { placa: rental.motorcycle_plate }],
+          },
+          include: {
+            historico: { include: { financeiro: { select: { id: true, data: true, pago: true } } } },
+          },
+        })
+      : [];
+
+    const recorrenteFinanceiroIds: string[] = [];
+    const suspendedRecorrentes: SuspendedRecorrente[] = recorrentes.map((recorrente) => {
+      const future = recorrente.historico
+        .filter(historico => !historico.financeiro.pago && toDateOnly(historico.financeiro.data) >= today)
+        .map(historico => historico.financeiro.id);
+      recorrenteFinanceiroIds.push(...future);
+
+      return {
+        id: recorrente.id,
+        data_inicio: toDateOnly(recorrente.data_inicio),
+        data_fim: recorrente.data_fim ? toDateOnly(recorrente.data_fim) : null,
+        financeiros_suspensos: future.length,
+      };
+    });
+
+    const reason = `Locação pausada: ${input.reason}`;
+
+    const { pause, previousMotorcycleStatus } = await prisma.$transaction(async (tx) => {
+      // Reserva a locação: outra pausa simultânea não encontra mais o status active
+      const claimed = await tx.rental.updateMany({
+        where: { id: rentalId, status: 'active', deleted_at: null },
+        data: { status: 'paused' },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictError('Locação já foi pausada ou alterada, atualize e tente novamente');
+      }
+
+      if (payments.length > 0) {
+        const suspended = await tx.asaasPayment.updateMany({
+          where: { id: { in: payments.map(payment => payment.id) }, status: 'PENDING' },
+          data: { status: 'SUSPENDED', updated_at: new Date() },
+        });
+        // Parcela paga ou cancelada entre a leitura e o commit
+        if (suspended.count !== payments.length) {
+          throw new ConflictError('Cobranças da locação foram alteradas durante a pausa, tente novamente');
+        }
+      }
+
+      // Mantidos no histórico, fora dos totais e das cobranças em aberto
+      const financeiroIds = [...paymentFinanceiroIds, ...recorrenteFinanceiroIds];
+      if (financeiroIds.length > 0) {
+        await tx.financeiro.updateMany({
+          where: { id: { in: financeiroIds }, pago: false },
+          data: { status: 'suspenso' },
+        });
+      }
+
+      if (recorrentes.length > 0) {
+        await tx.lancamentoRecorrente.updateMany({
+          where: { id: { in: recorrentes.map(recorrente => recorrente.id) } },
+          data: { ativo: false },
+        });
+      }
+
+      const previous = await this.moveMotorcycle(tx, rental.motorcycle_id, RENTED_MOTORCYCLE_STATUSES, PAUSED_MOTORCYCLE_STATUS, reason, userId);
+
+      const created = await tx.rentalPause.create({
+        data: {
+          rental_id: rentalId,
+          franchisee_id: rental.franchisee_id,
+          city_id: rental.city_id,
+          reason: input.reason,
+          paused_at: new Date(today),
+          expected_return_date: new Date(input.expected_return_date),
+          previous_motorcycle_status: previous,
+          suspended_payments: suspendedPayments as any,
+          suspended_recorrentes: suspendedRecorrentes as any,
+          created_by: userId || null,
+        },
+      });
+
+      return { pause: created, previousMotorcycleStatus: previous };
+    });
+
+    // Cancelar no Asaas as parcelas suspensas para o cliente não receber cobrança durante a pausa
+    const apiKey = rental.franchisee?.asaas_token;
+    if (apiKey) {
+      for (const payment of suspendedPayments) {
+        await asaasService.deletePayment(payment.asaas_external_id, apiKey).catch((error) => {
+          logger.warn({ paymentId: payment.asaas_external_id, error: error.message }, 'Falha ao cancelar cobrança suspensa no Asaas');
+        });
+      }
+    }
+
+    logger.info({
+      rentalId,
+      suspendedPayments: suspendedPayments.length,
+      suspendedRecorrentes: suspendedRecorrentes.length,
+    }, 'Locação pausada');
+
+    this.notify(rental, 'paused', previousMotorcycleStatus ? PAUSED_MOTORCYCLE_STATUS : null);
+
+    return pause;
+  }
+
+  /**
+   * Retomar uma locação pausada
+   * - Prazo (end_date) estendido pelos dias em pausa
+   * - Parcelas suspensas reemitidas com o vencimento deslocado pelo mesmo período
+   * - Recorrentes reativados a partir da retomada (data_fim estendida)
+   * - Moto volta ao status anterior à pausa
+   * A pausa é encerrada no banco antes da reemissão: as cobranças só são emitidas depois do commit,
+   * por quem encerrou a pausa (retomadas simultâneas ou repetidas não duplicam parcelas)
+   */
+  async resume(rentalId: string, userId?: string | null) {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: {
+        franchisee: { select: { id: true, asaas_token: true, royalties_percentage: true } },
+        city: { select: { asaas_wallet_id: true } },
+      },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (rental.status !== 'paused') {
+      throw new BadRequestError('Apenas locações pausadas podem ser retomadas');
+    }
+
+    const pause = await prisma.rentalPause.findFirst({
+      where: { rental_id: rentalId, status: 'active' },
+      orderBy: { created_at: 'desc' },
+    });
+
+    if (!pause) {
+      throw new NotFoundError('Pausa ativa não encontrada para esta locação');
+    }
+
+    const today = toDateOnly(new Date());
+    const pausedDays = Math.max(0, Math.round((new Date(today).getTime() - new Date(toDateOnly(pause.paused_at)).getTime()) / MS_PER_DAY));
+    const suspendedPayments = pause.suspended_payments as unknown as SuspendedPayment[];
+    const suspendedRecorrentes = pause.suspended_recorrentes as unknown as SuspendedRecorrente[];
+
+    const endDate = rental.end_date ? new Date(addDays(toDateOnly(rental.end_date), pausedDays)) : null;
+    const reason = `Locação retomada após ${pausedDays} dia(s) em pausa`;
+
+    const { updated, motorcycleStatus } = await prisma.$transaction(async (tx) => {
+      // Reserva a pausa e a locação: a segunda retomada simultânea não encontra mais o status ativo/pausado
+      const claimedPause = await tx.rentalPause.updateMany({
+        where: { id: pause.id, status: 'active' },
+        data: {
+          status: 'resumed',
+          resumed_at: new Date(today),
+          paused_days: pausedDays,
+          resumed_by: userId || null,
+        },
+      });
+      const claimedRental = await tx.rental.updateMany({
+        where: { id: rentalId, status: 'paused', deleted_at: null },
+        data: {
+          status: 'active',
+          end_date: endDate,
+          paused_days: { increment: pausedDays },
+        },
+      });
+      if (claimedPause.count === 0 || claimedRental.count === 0) {
+        throw new ConflictError('Locação já foi retomada ou alterada, atualize e tente novamente');
+      }
+
+      if (suspendedPayments.length > 0) {
+        await tx.asaasPayment.updateMany({
+          where: { id: { in: suspendedPayments.map(payment => payment.payment_id) }, status: 'SUSPENDED' },
+          data: { status: 'RESCHEDULED', updated_at: new Date() },
+        });
+      }
+
+      // Recorrentes voltam a gerar a partir da retomada (sem lançamentos do período em pausa)
+      for (const recorrente of suspendedRecorrentes) {
+        await tx.lancamentoRecorrente.update({
+          where: { id: recorrente.id },
+          data: {
+            ativo: true,
+            data_inicio: new Date(recorrente.data_inicio > today ? recorrente.data_inicio : today),
+            data_fim: recorrente.data_fim ? new Date(addDays(recorrente.data_fim, pausedDays)) : null,
+          },
+        });
+      }
+
+      const rentalUpdated = await tx.rental.findUniqueOrThrow({ where: { id: rentalId } });
+
+      const restoredStatus = pause.previous_motorcycle_status || 'alugada';
+      const moved = await this.moveMotorcycle(tx, rental.motorcycle_id, [PAUSED_MOTORCYCLE_STATUS], restoredStatus, reason, userId);
+
+      return { updated: rentalUpdated, motorcycleStatus: moved ? restoredStatus : null };
+    });
+
+    // Parcelas suspensas reemitidas após o commit
+    const apiKey = rental.franchisee?.asaas_token;
+    const royaltiesPercentage = rental.franchisee?.royalties_percentage ? Number(rental.franchisee.royalties_percentage) : 0;
+    const walletId = rental.city?.asaas_wallet_id;
+    const customerId = apiKey && suspendedPayments.length > 0
+      ? await rentalChargeService.findOrCreateCustomer(rental, apiKey).catch((error) => {
+          logger.warn({ rentalId, error: error.message }, 'Retomada: cliente Asaas indisponível, parcelas lançadas apenas no Financeiro');
+          return null;
+        })
+      : null;
+
+    // Numeração das cobranças continua após as parcelas já emitidas
+    const lastInstallment = await prisma.asaasPayment.aggregate({
+      where: { rental_id: rentalId },
+      _max: { installment_number: true },
+    });
+    let nextInstallmentNumber = (lastInstallment._max.installment_number || 0) + 1;
+
+    const reissued: ReissuedPayment[] = [];
+    for (const suspended of suspendedPayments) {
+      const shifted = addDays(suspended.due_date, pausedDays);
+      const dueDate = shifted < today ? today : shifted;
+      const description = suspended.descricao || `Locação ${rental.motorcycle_plate} - parcela ${suspended.installment_number}`;
+      let chargeError: string | undefined;
+
+      if (apiKey && customerId) {
+        try {
+          const payment = await rentalChargeService.issueCharge({
+            rental: { ...rental, franchisee_id: rental.franchisee_id! },
+            customerId,
+            apiKey,
+            walletId,
+            royaltiesPercentage,
+            installmentNumber: nextInstallmentNumber++,
+            dueDate,
+            valor: suspended.valor,
+            description,
+            userId,
+          });
+          reissued.push({
+            original_payment_id: suspended.payment_id,
+            due_date: dueDate,
+            valor: suspended.valor,
+            financeiro_id: payment.financeiro_id!,
+            asaas_payment_id: payment.id,
+          });
+          continue;
+        } catch (error: any) {
+          logger.error({ rentalId, installment: suspended.installment_number, error: error.message }, 'Erro ao reemitir parcela suspensa no Asaas');
+          chargeError = error.message;
+        }
+      }
+
+      // Sem conta Asaas (ou falha na emissão): parcela lançada apenas no Financeiro
+      const financeiro = await prisma.financeiro.create({
+        data: {
+          franchisee_id: rental.franchisee_id!,
+          tipo: 'entrada',
+          placa: rental.motorcycle_plate,
+          motorcycle_id: rental.motorcycle_id,
+          locatario: rental.client_name,
+          valor: suspended.valor,
+          data: new Date(dueDate),
+          descricao: description,
+          pago: false,
+          created_by: userId || null,
+        },
+      });
+      reissued.push({
+        original_payment_id: suspended.payment_id,
+        due_date: dueDate,
+        valor: suspended.valor,
+        financeiro_id: financeiro.id,
+        asaas_payment_id: null,
+        charge_error: chargeError,
+      });
+    }
+
+    await prisma.rentalPause.update({
+      where: { id: pause.id },
+      data: { reissued_payments: reissued as any },
+    });
+
+    logger.info({ rentalId, pausedDays, reissued: reissued.length }, 'Locação retomada');
+
+    this.notify(rental, 'active', motorcycleStatus);
+
+    return { rental: updated, paused_days: pausedDays, reissued_payments: reissued };
+  }
+
+  /**
+   * Alterar o status da moto (se estiver em um dos status esperados) e registrar a movimentação
+   * Retorna o status anterior ou null quando a moto não foi alterada
+   */
+  private async moveMotorcycle(
+    tx: Transaction,
+    motorcycleId: string,
+    fromStatuses: string[],
+    toStatus: string,
+    reason: string,
+    userId?: string | null
+  ): Promise<string | null> {
+    const motorcycle = await tx.motorcycle.findUnique({
+      where: { id: motorcycleId },
+      select: { status: true },
+    });
+
+    if (!motorcycle || !fromStatuses.includes(motorcycle.status as string)) {
+      return null;
+    }
+
+    await motorcycleStatusService.transition(tx, motorcycleId, toStatus, { reason, userId, source: 'pause' });
+
+    return motorcycle.status as string;
+  }
+
+  /**
+   * Notificar franqueado/cidade/admin sobre a pausa ou retomada
+   */
+  private notify(
+    rental: { id: string; franchisee_id: string | null; city_id: string | null; motorcycle_id: string },
+    status: string,
+    motorcycleStatus: string | null
+  ) {
+    if (!realtimeService || !rental.franchisee_id) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+
+    realtimeService.emitRentalChange(rental.franchisee_id, rental.city_id, {
+      type: 'UPDATE',
+      table: 'rentals',
+      data: { id: rental.id, status },
+      timestamp,
+    });
+
+    if (motorcycleStatus) {
+      realtimeService.emitMotorcycleChange(rental.franchisee_id, rental.city_id, {
+        type: 'UPDATE',
+        table: 'motorcycles',
+        data: { id: rental.motorcycle_id, status: motorcycleStatus },
+        timestamp,
+      });
+    }
+  }
+}
+
+export const rentalPauseService = new RentalPauseService();
@@ -0,0 +1,98 @@
+import { RentalPlan } from '@prisma/client';
+import { BadRequestError } from '../utils/errors.js';
+import { PricingPlan } from './pricingService.js';
+
+export interface RentalPlanSnapshot extends PricingPlan {
+  id: string;
+  name: string;
+  daily_rate: number;
+  captured_at: string;
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+
+export class RentalPlanService {
+  /**
+   * Converter campos Decimal do plano para number (resposta da API)
+   */
+  format<T extends RentalPlan>(plan: T) {
+    return {
+      ...plan,
+      daily_rate: Number(plan.daily_rate),
+      weekly_rate: toNumber(plan.weekly_rate),
+      monthly_rate: toNumber(plan.monthly_rate),
+      deposit_amount: toNumber(plan.deposit_amount),
+      km_overage_rate: toNumber(plan.km_overage_rate),
+      early_return_fee_percentage: toNumber(plan.early_return_fee_percentage),
+      late_return_daily_rate: toNumber(plan.late_return_daily_rate),
+      promo_weekly_rate: toNumber(plan.promo_weekly_rate),
+    };
+  }
+
+  /**
+   * Condições do plano congeladas na locação
+   * Editar o plano depois não altera locações já criadas
+   */
+  snapshot(plan: RentalPlan): RentalPlanSnapshot {
+    return {
+      id: plan.id,
+      name: plan.name,
+      daily_rate: Number(plan.daily_rate),
+      weekly_rate: toNumber(plan.weekly_rate),
+      monthly_rate: toNumber(plan.monthly_rate),
+      minimum_days: plan.minimum_days,
+      maximum_days: plan.maximum_days,
+      deposit_amount: toNumber(plan.deposit_amount),
+      km_allowance_per_day: plan.km_allowance_per_day,
+      km_overage_rate: toNumber(plan.km_overage_rate),
+      early_return_fee_percentage: toNumber(plan.early_return_fee_percentage),
+      late_return_daily_rate: toNumber(plan.late_return_daily_rate),
+      promo_weekly_rate: toNumber(plan.promo_weekly_rate),
+      promo_weeks: plan.promo_weeks,
+      captured_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Plano usado nos cálculos da locação: snapshot da criação (ou o plano atual para locações antigas)
+   */
+  resolveForRental(rental: { plan_snapshot?: unknown; plan?: RentalPlan | null }): PricingPlan | null {
+    if (rental.plan_snapshot) {
+      return rental.plan_snapshot as RentalPlanSnapshot;
+    }
+    return rental.plan || null;
+  }
+
+  /**
+   * Verificar se o plano pode ser usado em uma nova locação na data informada
+   */
+  isAvailable(plan: RentalPlan, date: Date): boolean {
+    const day = toDateOnly(date);
+
+    if (!plan.is_active || plan.archived_at || plan.status === 'archived' || plan.status === 'inactive') {
+      return false;
+    }
+    if (plan.valid_from && day < toDateOnly(plan.valid_from)) {
+      return false;
+    }
+    if (plan.valid_until && day > toDateOnly(plan.valid_until)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Validar plano para nova locação (ativo, vigente e da cidade da locação ou global)
+   */
+  assertAvailable(plan: RentalPlan, date: Date, cityId?: string | null): void {
+    if (!this.isAvailable(plan, date)) {
+      throw new BadRequestError(`Plano "${plan.name}" não está disponível para locações iniciadas em ${toDateOnly(date)}`);
+    }
+    if (plan.city_id && cityId && plan.city_id !== cityId) {
+      throw new BadRequestError(`Plano "${plan.name}" não pertence à cidade da locação`);
+    }
+  }
+}
+
+export const rentalPlanService = new RentalPlanService();
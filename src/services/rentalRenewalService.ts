@@ -0,0 +1,538 @@
+import { Prisma, RentalPlan } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { contractService } from './contractService.js';
+import { templateService } from './templateService.js';
+import { pricingService, PricingBreakdown, PricingPlan } from './pricingService.js';
+import { rentalChargeService, GenerateChargesResult, RentalInstallment } from './rentalChargeService.js';
+import { rentalPlanService } from './rentalPlanService.js';
+import { formatBRL, formatDateBR } from './contractVariables.js';
+import { realtimeService } from '../websocket/index.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Status da moto que permitem prorrogar a locação (moto ainda com o cliente e sem bloqueio)
+const EXTENDABLE_MOTORCYCLE_STATUSES = ['alugada', 'renegociado'];
+
+// Categoria do tipo de contrato usada para aditivos quando nenhum template é informado
+const ADDENDUM_CONTRACT_CATEGORY = 'annex';
+
+export interface ExtensionInput {
+  type: 'extension' | 'renewal';
+  new_end_date: string;
+  plan_id?: string | null;
+  daily_rate?: number | null;
+  template_id?: string | null;
+  contract_data?: Record<string, any>;
+  notes?: string | null;
+}
+
+export interface ExtensionPreview {
+  type: 'extension' | 'renewal';
+  version: number;
+  current_end_date: string;
+  new_end_date: string;
+  additional_days: number;
+  daily_rate: number;
+  plan_id: string | null;
+  plan_name: string | null;
+  breakdown: PricingBreakdown;
+  installments: RentalInstallment[];
+}
+
+interface PreparedExtension {
+  preview: ExtensionPreview;
+  rental: Prisma.RentalGetPayload<{ include: { plan: true } }>;
+  plan: RentalPlan | null;
+  pricingPlan: PricingPlan | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0];
+
+export class RentalRenewalService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Validar e precificar a prorrogação/renovação sem alterar nada
+   */
+  async preview(rentalId: string, input: ExtensionInput): Promise<ExtensionPreview> {
+    const { preview } = await this.prepare(rentalId, input);
+    return preview;
+  }
+
+  /**
+   * Prorrogar (mesmo plano e diária) ou renovar (novo plano/diária) a locação
+   * - Valida que a moto segue com o cliente e sem outra locação no novo período
+   * - Precifica o período adicional pelo plano e emite as parcelas no Asaas
+   * - Registra uma nova versão do termo e gera o aditivo pelo subsistema de templates
+   */
+  async extend(rentalId: string, input: ExtensionInput, userId?: string | null) {
+    const prepared = await this.prepare(rentalId, input);
+    const { preview, rental, plan } = prepared;
+
+    // Template do aditivo resolvido antes de alterar a locação (template informado precisa estar publicado)
+    const templateId = await this.resolveAddendumTemplate(input.template_id);
+
+    const renewal = input.type === 'renewal';
+    const planSnapshot = renewal && plan ? rentalPlanService.snapshot(plan) : rental.plan_snapshot;
+
+    const { updated, term } = await prisma.$transaction(async (tx) => {
+      await this.ensureOriginalTerm(tx, rental);
+
+      const rentalUpdated = await tx.rental.update({
+        where: { id: rental.id },
+        data: {
+          end_date: prepared.endDate,
+          total_days: (rental.total_days || 0) + preview.additional_days,
+          total_amount: rental.total_amount !== null
+            ? Number(rental.total_amount) + preview.breakdown.total
+            : null,
+          renewal_reminder_sent_at: null,
+          ...(renewal
+            ? {
+                daily_rate: preview.daily_rate,
+                plan_id: preview.plan_id,
+                plan_snapshot: planSnapshot ? (planSnapshot as any) : Prisma.DbNull,
+              }
+            : {}),
+        },
+      });
+
+      const created = await tx.rentalTerm.create({
+        data: {
+          rental_id: rental.id,
+          version: preview.version,
+          type: input.type,
+          start_date: prepared.startDate,
+          end_date: prepared.endDate,
+          total_days: preview.additional_days,
+          daily_rate: preview.daily_rate,
+          plan_id: preview.plan_id,
+          plan_snapshot: planSnapshot ? (planSnapshot as any) : undefined,
+          amount: preview.breakdown.total,
+          pricing_breakdown: preview.breakdown as any,
+          notes: input.notes || null,
+          created_by: userId || null,
+        },
+      });
+
+      return { updated: rentalUpdated, term: created };
+    });
+
+    // Parcelas do período adicional; falhas não desfazem a prorrogação
+    // (podem ser emitidas manualmente em /api/asaas-payments)
+    let charges: GenerateChargesResult | null = null;
+    if (prepared.pricingPlan) {
+      try {
+        charges = await rentalChargeService.generateForPeriod(rental.id, {
+          start_date: prepared.startDate,
+          end_date: prepared.endDate,
+          daily_rate: preview.daily_rate,
+          plan: prepared.pricingPlan,
+          label: `${renewal ? 'renovação' : 'prorrogação'} ${preview.version - 1}`,
+        }, userId);
+      } catch (error: any) {
+        logger.error({ rentalId, error: error.message }, 'Erro ao gerar cobranças do período adicional');
+        charges = { created: 0, skipped: false, errors: [{ installment_number: 0, error: error.message }] };
+      }
+    }
+
+    let addendum: Awaited<ReturnType<typeof contractService.generate>> | null = null;
+    let addendumError: string | null = null;
+    if (templateId) {
+      try {
+        addendum = await contractService.generate({
+          templateId,
+          rentalId: rental.id,
+          cityId: rental.city_id,
+          contractData: {
+            ...(input.contract_data || {}),
+            aditivo_numero: String(preview.version - 1),
+            aditivo_tipo: renewal ? 'Renovação' : 'Prorrogação',
+            data_fim_anterior: formatDateBR(new Date(preview.current_end_date)),
+            nova_data_fim: formatDateBR(prepared.endDate),
+            dias_adicionais: String(preview.additional_days),
+            valor_aditivo: formatBRL(preview.breakdown.total),
+          },
+          userId,
+        });
+      } catch (error: any) {
+        logger.error({ rentalId, templateId, error: error.message }, 'Erro ao gerar aditivo da locação');
+        addendumError = error.message;
+      }
+    } else {
+      addendumError = 'Nenhum template de aditivo publicado';
+    }
+
+    const finalTerm = await prisma.rentalTerm.update({
+      where: { id: term.id },
+      data: {
+        charges: charges ? (charges as any) : undefined,
+        contract_id: addendum?.id || null,
+      },
+      include: { contract: true },
+    });
+
+    logger.info({
+      rentalId,
+      type: input.type,
+      version: preview.version,
+      additionalDays: preview.additional_days,
+      charges: charges?.created ?? 0,
+      addendum: addendum?.id || null,
+    }, 'Locação prorrogada');
+
+    if (realtimeService && rental.franchisee_id) {
+      const timestamp = new Date().toISOString();
+      realtimeService.emitRentalChange(rental.franchisee_id, rental.city_id, {
+        type: 'UPDATE',
+        table: 'rentals',
+        data: updated,
+        timestamp,
+      });
+      if (addendum) {
+        realtimeService.emitContractChange(rental.franchisee_id, {
+          type: 'INSERT',
+          table: 'generated_contracts',
+          data: addendum,
+          timestamp,
+        });
+      }
+    }
+
+    return {
+      rental: updated,
+      term: finalTerm,
+      charges,
+      addendum_error: addendumError,
+      warnings: preview.breakdown.warnings,
+    };
+  }
+
+  /**
+   * Histórico versionado dos prazos da locação (inclui o termo original)
+   */
+  async listTerms(rentalId: string) {
+    const rental = await prisma.rental.findUnique({ where: { id: rentalId, deleted_at: null } });
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+
+    await this.ensureOriginalTerm(prisma, rental);
+
+    return prisma.rentalTerm.findMany({
+      where: { rental_id: rentalId },
+      include: { contract: { select: { id: true, contract_number: true, pdf_url: true, status: true, signed_at: true } } },
+      orderBy: { version: 'asc' },
+    });
+  }
+
+  /**
+   * Emitir lembretes de renovação para locações que terminam nos próximos `daysBefore` dias
+   * Cada end_date recebe um único lembrete (reiniciado ao prorrogar)
+   */
+  async sendRenewalReminders(daysBefore: number = env.RENTAL_RENEWAL_REMINDER_DAYS): Promise<{ checked: number; sent: number }> {
+    const today = new Date(toDateOnly(new Date()));
+    const limit = new Date(today.getTime() + daysBefore * MS_PER_DAY);
+
+    const rentals = await prisma.rental.findMany({
+      where: {
+        status: 'active',
+        deleted_at: null,
+        renewal_reminder_sent_at: null,
+        end_date: { gte: today, lte: limit },
+      },
+      select: {
+        id: true,
+        franchisee_id: true,
+        city_id: true,
+        attendant_id: true,
+        client_name: true,
+        motorcycle_plate: true,
+        end_date: true,
+      },
+    });
+
+    let sent = 0;
+    for (const rental of rentals) {
+      const daysLeft = Math.round((rental.end_date!.getTime() - today.getTime()) / MS_PER_DAY);
+      const message = daysLeft === 0
+        ? `Locação de ${rental.client_name} (${rental.motorcycle_plate}) termina hoje`
+        : `Locação de ${rental.client_name} (${rental.motorcycle_plate}) termina em ${daysLeft} dia(s) (${formatDateBR(rental.end_date)})`;
+
+      if (realtimeService) {
+        const data = {
+          alert: 'renewal_reminder',
+          rental_id: rental.id,
+          client_name: rental.client_name,
+          motorcycle_plate: rental.motorcycle_plate,
+          end_date: toDateOnly(rental.end_date!),
+          days_left: daysLeft,
+        };
+
+        if (rental.franchisee_id) {
+          realtimeService.emitRentalAlert(rental.franchisee_id, rental.city_id, {
+            type: 'UPDATE',
+            table: 'rentals',
+            data: { ...data, title: 'Renovação de locação', message },
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (rental.attendant_id) {
+          realtimeService.emitNotification(rental.attendant_id, {
+            type: 'info',
+            title: 'Renovação de locação',
+            message,
+            data,
+          });
+        }
+      }
+
+      await prisma.rental.update({
+        where: { id: rental.id },
+        data: { renewal_reminder_sent_at: new Date() },
+      });
+      sent++;
+    }
+
+    logger.info({ checked: rentals.length, sent, daysBefore }, 'Rental renewal reminders sent');
+
+    return { checked: rentals.length, sent };
+  }
+
+  /**
+   * Iniciar a verificação periódica de lembretes (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.sendRenewalReminders();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled rental renewal reminders failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes, daysBefore: env.RENTAL_RENEWAL_REMINDER_DAYS }, 'Rental renewal reminders scheduled');
+  }
+
+  /**
+   * Parar a verificação periódica de lembretes
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Validações e precificação comuns à simulação e à prorrogação
+   */
+  private async prepare(rentalId: string, input: ExtensionInput): Promise<PreparedExtension> {
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId, deleted_at: null },
+      include: { plan: true },
+    });
+
+    if (!rental) {
+      throw new NotFoundError('Locação não encontrada');
+    }
+    if (rental.status !== 'active') {
+      throw new BadRequestError('Apenas locações ativas podem ser prorrogadas ou renovadas');
+    }
+    if (!rental.end_date) {
+      throw new BadRequestError('Locação sem data de término. Defina o end_date antes de prorrogar');
+    }
+    if (rental.payment_status === 'inadimplente') {
+      throw new BadRequestError('Locação inadimplente não pode ser prorrogada. Regularize ou renegocie os débitos antes');
+    }
+
+    const renewal = input.type === 'renewal';
+    if (!renewal && (input.plan_id || input.daily_rate)) {
+      throw new BadRequestError('Alterar o plano ou a diária exige uma renovação (type = renewal)');
+    }
+
+    const startDate = new Date(toDateOnly(rental.end_date));
+    const endDate = new Date(input.new_end_date);
+    if (isNaN(endDate.getTime()) || endDate <= startDate) {
+      throw new BadRequestError(`Nova data de término deve ser posterior ao término atual (${toDateOnly(startDate)})`);
+    }
+
+    // Moto precisa continuar com o cliente e livre de outras locações no novo período
+    const motorcycle = await prisma.motorcycle.findUnique({
+      where: { id: rental.motorcycle_id },
+      select: { status: true, placa: true },
+    });
+    if (!motorcycle || !EXTENDABLE_MOTORCYCLE_STATUSES.includes(motorcycle.status as string)) {
+      throw new BadRequestError(`Moto ${rental.motorcycle_plate} está com status "${motorcycle?.status}" e não pode ter a locação prorrogada`);
+    }
+
+    const overlapping = await prisma.rental.findFirst({
+      where: {
+        id: { not: rental.id },
+        motorcycle_id: rental.motorcycle_id,
+        status: { in: ['active', 'paused'] },
+        deleted_at: null,
+        start_date: { lte: endDate },
+      },
+      select: { id: true, client_name: true, start_date: true },
+    });
+    if (overlapping) {
+      throw new ConflictError(
+        `Moto ${rental.motorcycle_plate} já possui outra locação (${overlapping.client_name}) a partir de ${formatDateBR(overlapping.start_date)}`
+      );
+    }
+
+    let plan: RentalPlan | null = rental.plan;
+    let pricingPlan = rentalPlanService.resolveForRental(rental);
+    let dailyRate = Number(rental.daily_rate);
+
+    if (renewal) {
+      if (input.plan_id && input.plan_id !== rental.plan_id) {
+        plan = await prisma.rentalPlan.findUnique({ where: { id: input.plan_id } });
+        if (!plan) {
+          throw new NotFoundError('Plano não encontrado');
+        }
+      }
+      // Renovação usa as condições vigentes do plano (não o snapshot da locação)
+      if (plan) {
+        rentalPlanService.assertAvailable(plan, startDate, rental.city_id);
+        pricingPlan = rentalPlanService.snapshot(plan);
+      }
+      dailyRate = input.daily_rate ?? (input.plan_id && plan ? Number(plan.daily_rate) : dailyRate);
+    }
+
+    const breakdown = pricingService.calculate({
+      dailyRate,
+      // Mínimo de dias do plano vale para o contrato (e para uma renovação), não para a prorrogação
+      plan: pricingPlan ? { ...pricingPlan, promo_weeks: 0, minimum_days: renewal ? pricingPlan.minimum_days : null } : null,
+      startDate,
+      endDate,
+      depositAmount: 0,
+    });
+
+    const installments = pricingPlan
+      ? rentalChargeService.buildInstallments(
+          { start_date: startDate, end_date: endDate, total_days: null, daily_rate: dailyRate },
+          { ...pricingPlan, promo_weeks: 0 },
+          0
+        )
+      : [];
+
+    const lastTerm = await prisma.rentalTerm.aggregate({
+      where: { rental_id: rental.id },
+      _max: { version: true },
+    });
+
+    return {
+      preview: {
+        type: input.type,
+        version: (lastTerm._max.version || 1) + 1,
+        current_end_date: toDateOnly(startDate),
+        new_end_date: toDateOnly(endDate),
+        additional_days: breakdown.days,
+        daily_rate: dailyRate,
+        plan_id: plan?.id || null,
+        plan_name: plan?.name || null,
+        breakdown,
+        installments,
+      },
+      rental,
+      plan,
+      pricingPlan,
+      startDate,
+      endDate,
+    };
+  }
+
+  /**
+   * Template do aditivo: o informado ou o padrão do tipo "annex" com versão publicada
+   */
+  private async resolveAddendumTemplate(templateId?: string | null): Promise<string | null> {
+    if (templateId) {
+      const template = await prisma.contractTemplate.findUnique({
+        where: { id: templateId },
+        select: { id: true },
+      });
+      if (!template) {
+        throw new NotFoundError('Template não encontrado');
+      }
+      if (!await templateService.getLatestVersion(template.id)) {
+        throw new BadRequestError('Template sem versão publicada. Publique o template antes de gerar aditivos');
+      }
+      return template.id;
+    }
+
+    const templates = await prisma.contractTemplate.findMany({
+      where: { is_active: true, contract_type: { category: ADDENDUM_CONTRACT_CATEGORY } },
+      orderBy: [{ is_default: 'desc' }, { updated_at: 'desc' }],
+      select: { id: true },
+    });
+
+    for (const template of templates) {
+      if (await templateService.getLatestVersion(template.id)) {
+        return template.id;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Criar o termo original (versão 1) para locações sem histórico
+   */
+  private async ensureOriginalTerm(
+    client: Prisma.TransactionClient,
+    rental: {
+      id: string;
+      start_date: Date;
+      end_date: Date | null;
+      total_days: number | null;
+      daily_rate: Prisma.Decimal;
+      plan_id: string | null;
+      plan_snapshot: Prisma.JsonValue;
+      total_amount: Prisma.Decimal | null;
+      created_by: string | null;
+    }
+  ) {
+    const existing = await client.rentalTerm.count({ where: { rental_id: rental.id } });
+    if (existing > 0) {
+      return;
+    }
+
+    await client.rentalTerm.create({
+      data: {
+        rental_id: rental.id,
+        version: 1,
+        type: 'original',
+        start_date: rental.start_date,
+        end_date: rental.end_date,
+        total_days: rental.total_days,
+        daily_rate: rental.daily_rate,
+        plan_id: rental.plan_id,
+        plan_snapshot: rental.plan_snapshot ?? undefined,
+        amount: rental.total_amount,
+        created_by: rental.created_by,
+      },
+    });
+  }
+}
+
+export const rentalRenewalService = new RentalRenewalService();
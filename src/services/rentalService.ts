@@ -0,0 +1,206 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AuthContext } from '../types/index.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { rentalChargeService } from './rentalChargeService.js';
+import { rentalClientService } from './rentalClientService.js';
+import { rentalPlanService } from './rentalPlanService.js';
+import { motorcycleStatusService } from './motorcycleStatusService.js';
+import { motorcycleDocumentService } from './motorcycleDocumentService.js';
+
+export interface CreateRentalInput {
+  client_id?: string | null;
+  client_name?: string;
+  client_cpf?: string;
+  client_email?: string | null;
+  client_phone?: string;
+  client_address?: string | null;
+  client_address_street?: string | null;
+  client_address_number?: string | null;
+  client_address_city?: string | null;
+  client_address_state?: string | null;
+  client_address_zip_code?: string | null;
+  driver_id?: string | null;
+  driver_name?: string | null;
+  driver_cpf?: string | null;
+  driver_phone?: string | null;
+  driver_cnh?: string | null;
+  driver_address_street?: string | null;
+  driver_address_number?: string | null;
+  driver_address_city?: string | null;
+  driver_address_state?: string | null;
+  driver_address_zip_code?: string | null;
+  motorcycle_id: string;
+  franchisee_id: string;
+  city_id?: string | null;
+  plan_id?: string | null;
+  start_date: string;
+  end_date?: string | null;
+  km_inicial?: number | null;
+  daily_rate: number;
+  deposit_amount?: number | null;
+  total_days?: number | null;
+  total_amount?: number | null;
+  lead_source?: string | null;
+  notes?: string | null;
+}
+
+export class RentalService {
+  /**
+   * Criar locação
+   * - Cliente do cadastro (client_id) copiado e congelado na locação, ou dados informados
+   * - Moto precisa estar disponível (active) e passa para alugada
+   * - Plano ativo e vigente, com as condições congeladas na locação
+   * - Termo original (versão 1) do histórico de prazos
+   * Com tx, a locação é gravada na transação de quem chama (ex.: conversão de oportunidade do CRM)
+   */
+  async create(data: CreateRentalInput, context: AuthContext, tx?: Prisma.TransactionClient) {
+    // Cliente do cadastro: dados congelados na locação no momento da assinatura
+    let clientSnapshot = null;
+    if (data.client_id) {
+      const client = await rentalClientService.resolveForRental(data.client_id, context);
+      Object.assign(data, rentalClientService.toRentalFields(client));
+      clientSnapshot = rentalClientService.snapshot(client);
+    } else if (!data.client_name || !data.client_cpf || !data.client_phone) {
+      throw new BadRequestError('Informe o cliente (client_id) ou nome, CPF e telefone do cliente');
+    }
+
+    // Verificar se a moto existe e está disponível
+    const motorcycle = await prisma.motorcycle.findUnique({
+      where: { id: data.motorcycle_id },
+    });
+
+    if (!motorcycle) {
+      throw new NotFoundError('Motocicleta não encontrada');
+    }
+
+    // Só motos disponíveis podem ser alugadas (máquina de estados do status)
+    motorcycleStatusService.assertTransition(motorcycle.status as string, 'alugada', { source: 'rental' });
+    await motorcycleDocumentService.assertRentable(motorcycle.id);
+
+    // Verificar se o franqueado existe
+    const franchisee = await prisma.franchisee.findUnique({
+      where: { id: data.franchisee_id },
+    });
+
+    if (!franchisee) {
+      throw new NotFoundError('Franqueado não encontrado');
+    }
+
+    // Plano precisa estar ativo e vigente; suas condições ficam congeladas na locação
+    let planSnapshot = null;
+    if (data.plan_id) {
+      const plan = await prisma.rentalPlan.findUnique({ where: { id: data.plan_id } });
+      if (!plan) {
+        throw new NotFoundError('Plano não encontrado');
+      }
+      rentalPlanService.assertAvailable(plan, new Date(data.start_date), data.city_id || franchisee.city_id);
+      planSnapshot = rentalPlanService.snapshot(plan);
+    }
+
+    // Criar locação em transação
+    const insert = async (tx: Prisma.TransactionClient) => {
+      // Criar a locação
+      const newRental = await tx.rental.create({
+        data: {
+          client_id: data.client_id || null,
+          client_snapshot: clientSnapshot || undefined,
+          client_name: data.client_name,
+          client_cpf: data.client_cpf,
+          client_email: data.client_email,
+          client_phone: data.client_phone,
+          client_address: data.client_address,
+          client_address_street: data.client_address_street,
+          client_address_number: data.client_address_number,
+          client_address_city: data.client_address_city,
+          client_address_state: data.client_address_state,
+          client_address_zip_code: data.client_address_zip_code,
+          driver_id: data.driver_id || null,
+          driver_name: data.driver_name || null,
+          driver_cpf: data.driver_cpf || null,
+          driver_phone: data.driver_phone || null,
+          driver_cnh: data.driver_cnh || null,
+          driver_address_street: data.driver_address_street || null,
+          driver_address_number: data.driver_address_number || null,
+          driver_address_city: data.driver_address_city || null,
+          driver_address_state: data.driver_address_state || null,
+          driver_address_zip_code: data.driver_address_zip_code || null,
+          motorcycle_id: data.motorcycle_id,
+          motorcycle_plate: motorcycle.placa,
+          franchisee_id: data.franchisee_id,
+          city_id: data.city_id || franchisee.city_id,
+          plan_id: data.plan_id,
+          plan_snapshot: planSnapshot || undefined,
+          attendant_id: context.userId,
+          created_by: context.userId,
+          start_date: new Date(data.start_date),
+          end_date: data.end_date ? new Date(data.end_date) : null,
+          km_inicial: data.km_inicial,
+          daily_rate: data.daily_rate,
+          deposit_amount: data.deposit_amount,
+          total_days: data.total_days,
+          total_amount: data.total_amount,
+          lead_source: data.lead_source,
+          notes: data.notes,
+          status: 'active',
+        } as any,
+        include: {
+          client: true,
+          motorcycle: true,
+          franchisee: true,
+          city: true,
+          driver: true,
+        },
+      });
+
+      // Termo original (versão 1) do histórico de prazos
+      await tx.rentalTerm.create({
+        data: {
+          rental_id: newRental.id,
+          version: 1,
+          type: 'original',
+          start_date: newRental.start_date,
+          end_date: newRental.end_date,
+          total_days: newRental.total_days,
+          daily_rate: newRental.daily_rate,
+          plan_id: newRental.plan_id,
+          plan_snapshot: planSnapshot || undefined,
+          amount: newRental.total_amount,
+          created_by: context.userId,
+        },
+      });
+
+      // Atualizar status da moto (já alugada = outra locação ocupou a moto depois da validação)
+      const { changed } = await motorcycleStatusService.transition(tx, data.motorcycle_id, 'alugada', {
+        reason: `Locação para ${newRental.client_name}`,
+        userId: context.userId,
+        source: 'rental',
+      });
+      if (!changed) {
+        throw new ConflictError(`Moto ${motorcycle.placa} não está mais disponível`);
+      }
+
+      return newRental;
+    };
+
+    return tx ? insert(tx) : prisma.$transaction(insert);
+  }
+
+  /**
+   * Agendar as cobranças semanais no Asaas fora da requisição; falhas não impedem a criação da locação
+   * (refeitas pela geração periódica ou em POST /api/asaas-payments/rental/:rentalId/generate)
+   */
+  queueInitialCharges(
+    rental: { id: string; plan_id: string | null },
+    userId?: string | null
+  ): { queued: boolean } | null {
+    if (!rental.plan_id) {
+      return null;
+    }
+
+    rentalChargeService.queueForRental(rental.id, userId);
+    return { queued: true };
+  }
+}
+
+export const rentalService = new RentalService();
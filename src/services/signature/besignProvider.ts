@@ -0,0 +1,195 @@
+import axios from 'axios';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { BadRequestError, ServiceUnavailableError } from '../../utils/errors.js';
+import {
+  DocumentStatusResult,
+  DownloadSignedInput,
+  DownloadSignedResult,
+  SendDocumentInput,
+  SendDocumentResult,
+  SignatureProvider,
+  SignatureStatus,
+  SignerStatus,
+} from './types.js';
+
+/**
+ * Mapear status do BeSign para o status comum
+ */
+function mapStatus(rawStatus: string): SignatureStatus {
+  const status = rawStatus.toLowerCase();
+  if (['signed', 'completed', 'finished', 'concluded'].includes(status)) return 'signed';
+  if (['refused', 'rejected', 'declined'].includes(status)) return 'refused';
+  if (['expired'].includes(status)) return 'expired';
+  if (['cancelled', 'canceled'].includes(status)) return 'cancelled';
+  if (['pending', 'waiting', 'in_progress', 'sent', 'running'].includes(status)) return 'pending';
+  return 'unknown';
+}
+
+export class BeSignProvider implements SignatureProvider {
+  readonly name = 'besign' as const;
+  private baseUrl: string;
+
+  constructor(private token: string) {
+    if (!env.BESIGN_API_URL) {
+      throw new ServiceUnavailableError('BeSign API URL nao configurada');
+    }
+    this.baseUrl = env.BESIGN_API_URL.replace(/\/$/, '');
+  }
+
+  private get headers() {
+    return {
+      'Authorization': `Bearer ${this.token}`,
+      'Accept': 'application/json',
+    };
+  }
+
+  private toBadRequest(error: unknown, context: string): never {
+    if (axios.isAxiosError(error)) {
+      logger.error({
+        status: error.response?.status,
+        data: error.response?.data,
+        message: error.message,
+      }, `BeSign: erro ao ${context}`);
+
+      const errorMessage = error.response?.data?.message ||
+                          error.response?.data?.error ||
+                          'Erro ao comunicar com o BeSign';
+
+      throw new BadRequestError(`Erro BeSign: ${errorMessage}`);
+    }
+    throw error;
+  }
+
+  /**
+   * Enviar documento para assinatura
+   */
+  async sendDocument(input: SendDocumentInput): Promise<SendDocumentResult> {
+    const payload = {
+      name: input.name,
+      filename: input.filename,
+      file: input.pdf.toString('base64'),
+      message: input.message,
+      deadline_at: input.deadlineAt,
+      signers: input.signers.map(signer => ({
+        name: signer.name,
+        email: signer.email,
+        cpf: signer.cpf,
+        phone: signer.phone,
+        role: signer.sign_as || 'party',
+      })),
+    };
+
+    let response;
+    try {
+      response = await axios.post(`${this.baseUrl}/documents`, payload, {
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        timeout: 60000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'enviar documento');
+    }
+
+    const data = response.data?.data || response.data;
+    const requestId = data?.id || data?.document_id || data?.key;
+
+    if (!requestId) {
+      logger.error({ response: response.data }, 'BeSign nao retornou um ID de documento');
+      throw new BadRequestError('BeSign nao retornou um ID de documento valido');
+    }
+
+    return {
+      requestId: String(requestId),
+      documentKey: String(data?.key || requestId),
+      raw: response.data,
+    };
+  }
+
+  /**
+   * Consultar status do documento
+   */
+  async getStatus(requestId: string): Promise<DocumentStatusResult> {
+    let response;
+    try {
+      response = await axios.get(`${this.baseUrl}/documents/${requestId}`, {
+        headers: this.headers,
+        timeout: 30000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'consultar status');
+    }
+
+    const data = response.data?.data || response.data;
+    const rawStatus = String(data?.status || '');
+
+    return {
+      status: mapStatus(rawStatus),
+      rawStatus,
+      signedFileUrl: data?.signed_file_url || data?.signed_url || null,
+      documentKey: data?.key || null,
+      raw: data,
+    };
+  }
+
+  /**
+   * Listar signatários e seus status
+   */
+  async listSigners(requestId: string): Promise<SignerStatus[]> {
+    const { raw } = await this.getStatus(requestId);
+    const signers = (raw as Record<string, any>)?.signers || [];
+
+    if (!Array.isArray(signers)) return [];
+
+    return signers.map((signer: any) => ({
+      name: signer.name,
+      email: signer.email,
+      status: mapStatus(String(signer.status || '')),
+      signed_at: signer.signed_at || null,
+    }));
+  }
+
+  /**
+   * Cancelar documento
+   */
+  async cancel(requestId: string): Promise<void> {
+    try {
+      await axios.post(`${this.baseUrl}/documents/${requestId}/cancel`, {}, {
+        headers: this.headers,
+        timeout: 30000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'cancelar documento');
+    }
+  }
+
+  /**
+   * Baixar documento assinado
+   */
+  async downloadSigned(input: DownloadSignedInput): Promise<DownloadSignedResult> {
+    const info = await this.getStatus(input.requestId);
+
+    if (info.status === 'pending') {
+      throw new BadRequestError('O documento ainda nao foi assinado. Aguarde a assinatura de todos os signatarios.');
+    }
+
+    const url = info.signedFileUrl || `${this.baseUrl}/documents/${input.requestId}/download?type=signed`;
+
+    let response;
+    try {
+      response = await axios.get(url, {
+        headers: { ...this.headers, 'Accept': 'application/pdf, application/octet-stream' },
+        responseType: 'arraybuffer',
+        timeout: 60000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'baixar documento assinado');
+    }
+
+    const buffer = Buffer.from(response.data);
+    if (buffer.length <= 4 || buffer.toString('utf8', 0, 4) !== '%PDF') {
+      throw new BadRequestError('Nao foi possivel baixar o documento assinado. Verifique se o documento foi assinado.');
+    }
+
+    return { buffer, documentKey: info.documentKey, status: info.status };
+  }
+}
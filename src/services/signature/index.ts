@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { ServiceUnavailableError } from '../../utils/errors.js';
+import { BeSignProvider } from './besignProvider.js';
+import { PlugSignProvider } from './plugsignProvider.js';
+import { SendDocumentResult, SignatureProvider, SignatureProviderName, SignatureSigner } from './types.js';
+
+export * from './types.js';
+
+const MIN_PLUGSIGN_TOKEN_LENGTH = 50;
+
+export class SignatureService {
+  /**
+   * Resolver token do PlugSign
+   * Ordem: token do .env (mais confiável) > token da cidade do documento > token da cidade do usuário
+   */
+  private async resolvePlugSignToken(cityId?: string | null, userId?: string | null): Promise<string> {
+    if (env.PLUGSIGN_API_KEY && env.PLUGSIGN_API_KEY.length >= MIN_PLUGSIGN_TOKEN_LENGTH) {
+      return env.PLUGSIGN_API_KEY;
+    }
+
+    if (cityId) {
+      const city = await prisma.city.findUnique({
+        where: { id: cityId },
+        select: { plugsign_token: true, name: true },
+      });
+
+      if (city?.plugsign_token && city.plugsign_token.length >= MIN_PLUGSIGN_TOKEN_LENGTH) {
+        logger.info({ cidade: city.name }, 'PlugSign: usando token da cidade');
+        return city.plugsign_token;
+      }
+    }
+
+    if (userId) {
+      const appUser = await prisma.appUser.findUnique({
+        where: { id: userId },
+        select: { city: { select: { plugsign_token: true, name: true } } },
+      });
+
+      const userCity = appUser?.city;
+      if (userCity?.plugsign_token && userCity.plugsign_token.length >= MIN_PLUGSIGN_TOKEN_LENGTH) {
+        logger.info({ cidade: userCity.name }, 'PlugSign: usando token da cidade do usuario');
+        return userCity.plugsign_token;
+      }
+    }
+
+    throw new ServiceUnavailableError('Token PlugSign nao encontrado');
+  }
+
+  /**
+   * Obter o provedor de assinatura configurado para a cidade
+   * (City.signature_provider; padrão: plugsign)
+   */
+  async getProvider(options: { cityId?: string | null; userId?: string | null } = {}): Promise<SignatureProvider> {
+    const city = options.cityId
+      ? await prisma.city.findUnique({
+          where: { id: options.cityId },
+          select: { signature_provider: true, besign_token: true },
+        })
+      : null;
+
+    const providerName = (city?.signature_provider || 'plugsign') as SignatureProviderName;
+
+    if (providerName === 'besign') {
+      const token = city?.besign_token || env.BESIGN_API_KEY;
+      if (!token) {
+        throw new ServiceUnavailableError('Token BeSign nao encontrado');
+      }
+      return new BeSignProvider(token);
+    }
+
+    const token = await this.resolvePlugSignToken(options.cityId, options.userId);
+    return new PlugSignProvider(token);
+  }
+
+  /**
+   * Baixar o PDF gerado (storage) para envio ao provedor
+   */
+  async fetchPdf(url: string): Promise<Buffer> {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: 30000,
+    });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Enviar um PDF já armazenado para assinatura pelo provedor da cidade
+   */
+  async sendStoredPdf(options: {
+    cityId?: string | null;
+    userId?: string | null;
+    pdfUrl: string;
+    filename: string;
+    name: string;
+    signers: SignatureSigner[];
+    message?: string;
+    deadlineAt?: string;
+  }): Promise<SendDocumentResult & { provider: SignatureProviderName }> {
+    const provider = await this.getProvider({ cityId: options.cityId, userId: options.userId });
+    const pdf = await this.fetchPdf(options.pdfUrl);
+
+    logger.info({ provider: provider.name, name: options.name, signersCount: options.signers.length }, 'Enviando documento para assinatura');
+
+    const result = await provider.sendDocument({
+      pdf,
+      filename: options.filename,
+      name: options.name,
+      signers: options.signers,
+      message: options.message,
+      deadlineAt: options.deadlineAt,
+    });
+
+    return { ...result, provider: provider.name };
+  }
+}
+
+export const signatureService = new SignatureService();
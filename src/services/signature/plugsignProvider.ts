@@ -0,0 +1,379 @@
+import axios from 'axios';
+import { env } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { BadRequestError } from '../../utils/errors.js';
+import {
+  DocumentStatusResult,
+  DownloadSignedInput,
+  DownloadSignedResult,
+  SendDocumentInput,
+  SendDocumentResult,
+  SignatureProvider,
+  SignatureStatus,
+  SignerStatus,
+} from './types.js';
+
+const DEFAULT_API_URL = 'https://app.plugsign.com.br/api';
+
+/**
+ * Mapear status do PlugSign para o status comum
+ * PlugSign pode usar diferentes valores para indicar assinatura completa
+ */
+function mapStatus(rawStatus: string): SignatureStatus {
+  const status = rawStatus.toLowerCase();
+  if (['signed', 'completed', 'finished', 'done', 'assinado', 'complete'].includes(status)) return 'signed';
+  if (['refused', 'rejected', 'recusado'].includes(status)) return 'refused';
+  if (['expired', 'expirado'].includes(status)) return 'expired';
+  if (['cancelled', 'canceled', 'cancelado'].includes(status)) return 'cancelled';
+  if (['pending', 'waiting', 'pendente', 'sent'].includes(status)) return 'pending';
+  return 'unknown';
+}
+
+function isPdf(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.toString('utf8', 0, 4) === '%PDF';
+}
+
+export class PlugSignProvider implements SignatureProvider {
+  readonly name = 'plugsign' as const;
+  private baseUrl: string;
+
+  constructor(private token: string) {
+    // Construir URL base correta (adiciona /api se necessário)
+    const url = (env.PLUGSIGN_API_URL || DEFAULT_API_URL).replace(/\/$/, '');
+    this.baseUrl = url.endsWith('/api') ? url : `${url}/api`;
+  }
+
+  private get headers() {
+    return {
+      'Authorization': `Bearer ${this.token}`,
+      'Accept': 'application/json',
+    };
+  }
+
+  private toBadRequest(error: unknown, context: string): never {
+    if (axios.isAxiosError(error)) {
+      logger.error({
+        status: error.response?.status,
+        data: error.response?.data,
+        message: error.message,
+      }, `PlugSign: erro ao ${context}`);
+
+      const errorMessage = error.response?.data?.message ||
+                          error.response?.data?.error ||
+                          'Erro ao comunicar com o PlugSign';
+
+      throw new BadRequestError(`Erro PlugSign: ${errorMessage}`);
+    }
+    throw error;
+  }
+
+  /**
+   * Enviar documento para assinatura - endpoint /api/files/upload/requests
+   * Formato do payload:
+   * - file: data:application/pdf;name=filename.pdf;base64,BASE64_CONTENT
+   * - name: nome do documento (string)
+   * - email: array de emails dos signatários
+   */
+  async sendDocument(input: SendDocumentInput): Promise<SendDocumentResult> {
+    const payload: Record<string, any> = {
+      file: `data:application/pdf;name=${input.filename};base64,${input.pdf.toString('base64')}`,
+      name: input.name,
+      email: input.signers.map(s => s.email),
+      message: input.message,
+    };
+
+    if (input.deadlineAt) {
+      payload.deadline_at = input.deadlineAt;
+    }
+
+    let response;
+    try {
+      response = await axios.post(`${this.baseUrl}/files/upload/requests`, payload, {
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        timeout: 60000, // Timeout maior para upload de arquivo
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'enviar documento');
+    }
+
+    const plugSignResponse = response.data;
+
+    logger.info({
+      plugSignResponse: JSON.stringify(plugSignResponse),
+      dataKeys: plugSignResponse.data ? Object.keys(plugSignResponse.data) : [],
+      rootKeys: Object.keys(plugSignResponse),
+    }, 'PlugSign: resposta completa');
+
+    // Extrair IDs da resposta - PlugSign pode retornar em diferentes formatos
+    const requestId = plugSignResponse.data?.request_key ||
+                      plugSignResponse.data?.request_id ||
+                      plugSignResponse.data?.id ||
+                      plugSignResponse.request_key ||
+                      plugSignResponse.key ||
+                      plugSignResponse.id;
+
+    // IMPORTANTE: O PlugSign usa o campo 'document' para a chave de download do arquivo!
+    const documentKey = plugSignResponse.data?.document ||
+                        plugSignResponse.document ||
+                        plugSignResponse.data?.document_key ||
+                        plugSignResponse.data?.file_key ||
+                        plugSignResponse.data?.file?.key ||
+                        plugSignResponse.data?.file?.document_key ||
+                        plugSignResponse.data?.files?.[0]?.key ||
+                        plugSignResponse.data?.files?.[0]?.document_key ||
+                        plugSignResponse.document_key ||
+                        plugSignResponse.file_key ||
+                        plugSignResponse.data?.key ||
+                        null;
+
+    if (!requestId) {
+      logger.error({ response: plugSignResponse }, 'PlugSign nao retornou um ID de documento');
+      throw new BadRequestError('PlugSign nao retornou um ID de documento valido');
+    }
+
+    // Converter para string (PlugSign pode retornar número ou string)
+    const requestIdStr = String(requestId);
+
+    if (!documentKey) {
+      logger.warn({
+        requestId: requestIdStr,
+        response: JSON.stringify(plugSignResponse),
+      }, 'PlugSign: document_key nao encontrado na resposta, usando requestId como fallback');
+    }
+
+    return {
+      requestId: requestIdStr,
+      documentKey: documentKey ? String(documentKey) : requestIdStr,
+      raw: plugSignResponse,
+    };
+  }
+
+  /**
+   * Consultar status da solicitação de assinatura
+   */
+  async getStatus(requestId: string): Promise<DocumentStatusResult> {
+    let response;
+    try {
+      response = await axios.get(`${this.baseUrl}/requests/${requestId}`, {
+        headers: this.headers,
+        timeout: 30000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'consultar status');
+    }
+
+    const data = response.data?.data || response.data;
+    const rawStatus = String(data?.status || data?.signature_status || '');
+
+    return {
+      status: mapStatus(rawStatus),
+      rawStatus,
+      signedFileUrl: data?.signed_file_url ||
+                     data?.signed_url ||
+                     data?.signed_document_url ||
+                     data?.download_url ||
+                     data?.file_url ||
+                     null,
+      documentKey: data?.file_key || data?.document || data?.files?.[0]?.key || data?.files?.[0]?.document_key || null,
+      raw: data,
+    };
+  }
+
+  /**
+   * Listar signatários e seus status
+   */
+  async listSigners(requestId: string): Promise<SignerStatus[]> {
+    const { raw } = await this.getStatus(requestId);
+    const data = raw as Record<string, any>;
+    const signers = data?.signers || data?.signatures || data?.emails || [];
+
+    if (!Array.isArray(signers)) return [];
+
+    return signers.map((signer: any) => {
+      if (typeof signer === 'string') {
+        return { email: signer, status: 'unknown' as SignatureStatus };
+      }
+      return {
+        name: signer.name,
+        email: signer.email,
+        status: mapStatus(String(signer.status || '')),
+        signed_at: signer.signed_at || null,
+      };
+    });
+  }
+
+  /**
+   * Cancelar solicitação de assinatura
+   */
+  async cancel(requestId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/requests/${requestId}`, {
+        headers: this.headers,
+        timeout: 30000,
+      });
+    } catch (error) {
+      this.toBadRequest(error, 'cancelar solicitação');
+    }
+  }
+
+  /**
+   * Baixar documento assinado
+   * O PlugSign não tem um endpoint único e estável para o arquivo assinado, então
+   * localizamos a chave do arquivo (listagem de files/requests e info do request)
+   * e tentamos os endpoints conhecidos até receber um PDF válido.
+   */
+  async downloadSigned(input: DownloadSignedInput): Promise<DownloadSignedResult> {
+    const { requestId } = input;
+    const documentKey = input.documentKey || requestId;
+    const hints = (input.searchHints || []).filter(Boolean).map(h => h.toLowerCase());
+    const matchesHint = (name: string) => hints.some(h => name.toLowerCase().includes(h));
+
+    const downloadEndpoints: string[] = [];
+    let discoveredKey: string | null = null;
+
+    // ESTRATEGIA 1: Listar ARQUIVOS (files) para encontrar o document_key correto
+    try {
+      const filesResponse = await axios.get(`${this.baseUrl}/files`, {
+        headers: this.headers,
+        timeout: 30000,
+      });
+
+      const files = filesResponse.data?.data || filesResponse.data || [];
+
+      if (Array.isArray(files)) {
+        for (const file of files) {
+          const fileId = String(file.id || '');
+          const fileKey = file.key || file.document_key || file.file_key || '';
+          const fileName = file.name || file.document_name || file.file_name || '';
+          const fileRequestId = String(file.request_id || file.requestId || '');
+
+          if (fileRequestId === requestId || fileId === requestId || matchesHint(fileName)) {
+            logger.info({ foundFile: { id: fileId, key: fileKey, name: fileName } }, 'PlugSign: arquivo encontrado na lista');
+
+            if (fileKey) {
+              discoveredKey = String(fileKey);
+              downloadEndpoints.unshift(`${this.baseUrl}/files/download/${discoveredKey}`);
+            }
+
+            const downloadUrl = file.download_url || file.signed_url || file.url;
+            if (downloadUrl) {
+              downloadEndpoints.unshift(downloadUrl);
+            }
+            break;
+          }
+        }
+      }
+    } catch (filesError) {
+      logger.warn({ error: (filesError as any).message }, 'PlugSign: nao foi possivel listar arquivos');
+    }
+
+    // ESTRATEGIA 2: Listar REQUESTS para encontrar o file_key
+    if (!discoveredKey) {
+      try {
+        const requestsResponse = await axios.get(`${this.baseUrl}/requests`, {
+          headers: this.headers,
+          timeout: 30000,
+        });
+
+        const requests = requestsResponse.data?.data || requestsResponse.data || [];
+
+        if (Array.isArray(requests)) {
+          for (const req of requests) {
+            const reqId = String(req.id || req.key || req.request_key || '');
+            const reqName = req.name || req.document_name || '';
+
+            if (reqId === requestId || matchesHint(reqName)) {
+              // IMPORTANTE: O campo 'document' contém a chave do arquivo para download!
+              const fk = req.document || req.file_key || req.document_key || req.files?.[0]?.key || req.files?.[0]?.document_key;
+              if (fk) {
+                discoveredKey = String(fk);
+                downloadEndpoints.unshift(`${this.baseUrl}/files/download/${discoveredKey}`);
+                logger.info({ documentKey: discoveredKey }, 'PlugSign: document_key extraido do request (campo document)');
+              }
+              break;
+            }
+          }
+        }
+      } catch (listError) {
+        logger.warn({ error: (listError as any).message }, 'PlugSign: nao foi possivel listar requests');
+      }
+    }
+
+    // ESTRATEGIA 3: Obter info do request especifico para encontrar URL do documento assinado
+    let info: DocumentStatusResult | null = null;
+    try {
+      info = await this.getStatus(requestId);
+    } catch (infoError) {
+      logger.warn({ error: (infoError as any).message }, 'PlugSign: nao foi possivel obter info do request');
+    }
+
+    if (info?.status === 'pending') {
+      throw new BadRequestError('O documento ainda nao foi assinado. Aguarde a assinatura de todos os signatarios.');
+    }
+
+    if (info?.signedFileUrl) {
+      downloadEndpoints.unshift(info.signedFileUrl);
+    }
+
+    if (info?.documentKey && info.documentKey !== documentKey) {
+      discoveredKey = discoveredKey || String(info.documentKey);
+      downloadEndpoints.unshift(`${this.baseUrl}/files/download/${info.documentKey}`);
+    }
+
+    // Endpoints padrão - PRIORIZAR os endpoints de documento ASSINADO
+    downloadEndpoints.push(
+      `${this.baseUrl}/requests/${requestId}/file/signed`,
+      `${this.baseUrl}/requests/${requestId}/files/signed`,
+      `${this.baseUrl}/files/${documentKey}/signed`,
+      `${this.baseUrl}/files/download/${documentKey}-signed`,
+      `${this.baseUrl}/files/${documentKey}-signed/download`,
+      `${this.baseUrl}/requests/${requestId}/download`,
+      `${this.baseUrl}/requests/${requestId}/pdf`,
+      `${this.baseUrl}/files/download/${documentKey}`,
+      `${this.baseUrl}/files/${documentKey}/download`,
+      `${this.baseUrl}/documents/${requestId}/download`,
+      `${this.baseUrl}/documents/${requestId}/pdf`,
+    );
+
+    // Tentar cada endpoint de download
+    for (const endpoint of downloadEndpoints) {
+      try {
+        const response = await axios.get(endpoint, {
+          headers: {
+            'Authorization': `Bearer ${this.token}`,
+            'Accept': 'application/pdf, application/octet-stream',
+          },
+          responseType: 'arraybuffer',
+          timeout: 60000,
+        });
+
+        const buffer = Buffer.from(response.data);
+        if (isPdf(buffer)) {
+          logger.info({ endpoint, size: buffer.length }, 'PlugSign: download bem-sucedido');
+          return { buffer, documentKey: discoveredKey, status: info?.status };
+        }
+
+        // Se nao e PDF, pode ser JSON com URL de download
+        try {
+          const jsonResponse = JSON.parse(buffer.toString());
+          const downloadUrl = jsonResponse.url || jsonResponse.download_url || jsonResponse.file_url;
+          if (downloadUrl) {
+            downloadEndpoints.push(downloadUrl);
+          }
+        } catch {
+          // Nao e JSON, ignorar
+        }
+      } catch (error) {
+        logger.info({
+          endpoint,
+          status: (error as any).response?.status,
+          message: (error as any).message,
+        }, 'PlugSign: endpoint falhou');
+      }
+    }
+
+    logger.error({ requestId, documentKey, endpointsTentados: downloadEndpoints.length }, 'PlugSign: nao foi possivel baixar o documento assinado');
+
+    throw new BadRequestError('Nao foi possivel baixar o documento assinado. Verifique se o documento foi assinado.');
+  }
+}
@@ -0,0 +1,69 @@
+export type SignatureProviderName = 'plugsign' | 'besign';
+
+export type SignatureStatus = 'pending' | 'signed' | 'refused' | 'expired' | 'cancelled' | 'unknown';
+
+export interface SignatureSigner {
+  name: string;
+  email: string;
+  cpf?: string;
+  phone?: string;
+  sign_as?: 'party' | 'witness' | 'approver';
+}
+
+export interface SignerStatus {
+  name?: string;
+  email: string;
+  status: SignatureStatus;
+  signed_at?: string | null;
+}
+
+export interface SendDocumentInput {
+  pdf: Buffer;
+  filename: string;
+  name: string;
+  signers: SignatureSigner[];
+  message?: string;
+  deadlineAt?: string;
+}
+
+export interface SendDocumentResult {
+  requestId: string;
+  documentKey: string;
+  raw: unknown;
+}
+
+export interface DocumentStatusResult {
+  status: SignatureStatus;
+  rawStatus: string;
+  signedFileUrl?: string | null;
+  documentKey?: string | null;
+  raw: unknown;
+}
+
+export interface DownloadSignedInput {
+  requestId: string;
+  documentKey?: string | null;
+  // Texto para localizar o arquivo na listagem do provedor (ex: placa, nome do documento)
+  searchHints?: string[];
+}
+
+export interface DownloadSignedResult {
+  buffer: Buffer;
+  // Chave do documento descoberta durante o download (quando diferente da salva)
+  documentKey?: string | null;
+  // Status informado pelo provedor no momento do download (quando disponível)
+  status?: SignatureStatus;
+}
+
+/**
+ * Interface comum dos provedores de assinatura eletrônica
+ */
+export interface SignatureProvider {
+  readonly name: SignatureProviderName;
+
+  sendDocument(input: SendDocumentInput): Promise<SendDocumentResult>;
+  listSigners(requestId: string): Promise<SignerStatus[]>;
+  getStatus(requestId: string): Promise<DocumentStatusResult>;
+  downloadSigned(input: DownloadSignedInput): Promise<DownloadSignedResult>;
+  cancel(requestId: string): Promise<void>;
+}
@@ -0,0 +1,179 @@
+import { prisma } from '../config/database.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+export interface TemplateClauseSnapshot {
+  clause_number: string;
+  title: string;
+  content: string;
+  order_index: number;
+  is_required: boolean;
+  variables: unknown;
+}
+
+export type ClauseDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ClauseDiff {
+  clause_number: string;
+  status: ClauseDiffStatus;
+  from: TemplateClauseSnapshot | null;
+  to: TemplateClauseSnapshot | null;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export class TemplateService {
+  /**
+   * Publicar o rascunho atual do template como nova versão imutável
+   */
+  async publish(templateId: string, userId?: string | null, notes?: string) {
+    const template = await prisma.contractTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        clauses: {
+          orderBy: { order_index: 'asc' },
+        },
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Template não encontrado');
+    }
+
+    const clauses: TemplateClauseSnapshot[] = template.clauses.map((clause) => ({
+      clause_number: clause.clause_number,
+      title: clause.title,
+      content: clause.content,
+      order_index: clause.order_index,
+      is_required: clause.is_required,
+      variables: clause.variables,
+    }));
+
+    const version = await prisma.$transaction(async (tx) => {
+      const last = await tx.contractTemplateVersion.findFirst({
+        where: { template_id: templateId },
+        orderBy: { version_number: 'desc' },
+        select: { version_number: true },
+      });
+      const versionNumber = (last?.version_number ?? 0) + 1;
+
+      const created = await tx.contractTemplateVersion.create({
+        data: {
+          template_id: templateId,
+          version_number: versionNumber,
+          title: template.title,
+          content: template.content as any,
+          variables: template.variables as any,
+          clauses: clauses as any,
+          notes: notes || null,
+          published_by: userId || null,
+        },
+      });
+
+      await tx.contractTemplate.update({
+        where: { id: templateId },
+        data: {
+          status: 'published',
+          version: String(versionNumber),
+        },
+      });
+
+      return created;
+    });
+
+    logger.info({ templateId, versionNumber: version.version_number }, 'Template publicado');
+
+    return version;
+  }
+
+  /**
+   * Marcar template como rascunho (alterações ainda não publicadas)
+   */
+  async markDraft(templateId: string) {
+    await prisma.contractTemplate.update({
+      where: { id: templateId },
+      data: { status: 'draft' },
+    });
+  }
+
+  /**
+   * Última versão publicada do template
+   */
+  async getLatestVersion(templateId: string) {
+    return prisma.contractTemplateVersion.findFirst({
+      where: { template_id: templateId },
+      orderBy: { version_number: 'desc' },
+    });
+  }
+
+  /**
+   * Buscar versão específica do template
+   */
+  async getVersion(templateId: string, versionNumber: number) {
+    const version = await prisma.contractTemplateVersion.findUnique({
+      where: {
+        template_id_version_number: {
+          template_id: templateId,
+          version_number: versionNumber,
+        },
+      },
+    });
+
+    if (!version) {
+      throw new NotFoundError(`Versão ${versionNumber} não encontrada para este template`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Comparar duas versões publicadas, cláusula por cláusula
+   * (cláusulas pareadas pelo clause_number)
+   */
+  async diff(templateId: string, fromVersion: number, toVersion: number) {
+    if (fromVersion === toVersion) {
+      throw new BadRequestError('Informe duas versões diferentes para comparar');
+    }
+
+    const [from, to] = await Promise.all([
+      this.getVersion(templateId, fromVersion),
+      this.getVersion(templateId, toVersion),
+    ]);
+
+    const fromClauses = (from.clauses as unknown as TemplateClauseSnapshot[]) || [];
+    const toClauses = (to.clauses as unknown as TemplateClauseSnapshot[]) || [];
+
+    const fromMap = new Map(fromClauses.map((clause) => [clause.clause_number, clause]));
+    const toMap = new Map(toClauses.map((clause) => [clause.clause_number, clause]));
+
+    const clauses: ClauseDiff[] = [];
+
+    for (const clause of toClauses) {
+      const previous = fromMap.get(clause.clause_number) || null;
+      let status: ClauseDiffStatus = 'added';
+      if (previous) {
+        status = previous.title === clause.title && previous.content === clause.content && sameJson(previous.variables, clause.variables)
+          ? 'unchanged'
+          : 'changed';
+      }
+      clauses.push({ clause_number: clause.clause_number, status, from: previous, to: clause });
+    }
+
+    for (const clause of fromClauses) {
+      if (!toMap.has(clause.clause_number)) {
+        clauses.push({ clause_number: clause.clause_number, status: 'removed', from: clause, to: null });
+      }
+    }
+
+    return {
+      from: { version_number: from.version_number, published_at: from.published_at },
+      to: { version_number: to.version_number, published_at: to.published_at },
+      title_changed: from.title !== to.title,
+      content_changed: !sameJson(from.content, to.content),
+      variables_changed: !sameJson(from.variables, to.variables),
+      clauses,
+    };
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,663 @@
+import { EvolutionInstance, Prisma, WhatsappConversation } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AuthContext } from '../types/index.js';
+import { ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { realtimeService } from '../websocket/index.js';
+import { crmService, OPEN_LEAD_STATUSES } from './crmService.js';
+
+export type WhatsappMessageType =
+  | 'text'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'sticker'
+  | 'location'
+  | 'contact'
+  | 'other';
+
+export interface ParsedWhatsappMessage {
+  external_id: string | null;
+  phone: string;
+  contact_name: string | null;
+  from_me: boolean;
+  type: WhatsappMessageType;
+  body: string | null;
+  media_url: string | null;
+  media_mimetype: string | null;
+  sent_at: Date;
+}
+
+export interface ConversationFilters {
+  cityId?: string;
+  franchiseeId?: string;
+  instanceId?: string;
+  clientId?: string;
+  leadId?: string;
+  unread?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+interface ContactMatch {
+  client_id: string | null;
+  lead_id: string | null;
+  franchisee_id: string | null;
+  city_id: string | null;
+}
+
+// JIDs que não são conversas individuais (grupos, status, canais)
+const IGNORED_JID_SUFFIXES = ['@g.us', '@broadcast', '@newsletter'];
+
+// Conteúdos que não viram mensagem na conversa (reações, edições, exclusões) e anexos da Evolution (mídia)
+const IGNORED_CONTENT_KEYS = [
+  'reactionMessage',
+  'protocolMessage',
+  'senderKeyDistributionMessage',
+  'messageContextInfo',
+  'mediaUrl',
+  'base64',
+];
+
+const PREVIEW_LENGTH = 120;
+
+const TYPE_LABELS: Record<WhatsappMessageType, string> = {
+  text: 'Mensagem',
+  image: 'Imagem',
+  audio: 'Áudio',
+  video: 'Vídeo',
+  document: 'Documento',
+  sticker: 'Figurinha',
+  location: 'Localização',
+  contact: 'Contato',
+  other: 'Mensagem',
+};
+
+/**
+ * Timestamp da Evolution (segundos; número, string ou Long do protobuf)
+ */
+const parseTimestamp = (value: any): Date => {
+  const seconds = typeof value === 'object' && value !== null ? Number(value.low) : Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date();
+};
+
+export class WhatsappInboxService {
+  /**
+   * Telefone apenas com dígitos
+   */
+  normalizePhone(value: string | null | undefined): string {
+    return (value || '').replace(/\D/g, '');
+  }
+
+  /**
+   * Chave de comparação do telefone: DDD + 8 últimos dígitos
+   * Ignora o DDI 55 e o nono dígito (o WhatsApp ainda entrega números antigos sem ele)
+   */
+  phoneKey(value: string | null | undefined): string {
+    let digits = this.normalizePhone(value);
+    if (digits.startsWith('55') && digits.length >= 12) {
+      digits = digits.slice(2);
+    }
+    if (digits.startsWith('0')) {
+      digits = digits.replace(/^0+/, '');
+    }
+    return digits.length >= 10 ? digits.slice(0, 2) + digits.slice(-8) : digits.slice(-8);
+  }
+
+  /**
+   * Mesmos telefones pela chave (sem DDD em um dos lados compara apenas o número)
+   */
+  samePhone(a: string | null | undefined, b: string | null | undefined): boolean {
+    const keyA = this.phoneKey(a);
+    const keyB = this.phoneKey(b);
+    if (keyA.length < 8 || keyB.length < 8) {
+      return false;
+    }
+    if (keyA.length === 10 && keyB.length === 10) {
+      return keyA === keyB;
+    }
+    return keyA.slice(-8) === keyB.slice(-8);
+  }
+
+  /**
+   * Telefone no formato nacional (DDD + número) para cadastros criados pela caixa de entrada
+   */
+  nationalPhone(value: string): string {
+    const digits = this.normalizePhone(value);
+    return digits.startsWith('55') && digits.length >= 12 ? digits.slice(2) : digits;
+  }
+
+  /**
+   * Extrair as mensagens de um evento messages.upsert
+   * Aceita o formato da Evolution v2 (key/message/pushName) e o formato simplificado (message.from/type/body)
+   */
+  parseMessages(payload: any): ParsedWhatsappMessage[] {
+    const items = Array.isArray(payload?.data) ? payload.data : [payload?.data];
+    const messages: ParsedWhatsappMessage[] = [];
+
+    for (const item of items) {
+      if (!item) continue;
+
+      if (item.key) {
+        const parsed = this.parseEvolutionMessage(item);
+        if (parsed) messages.push(parsed);
+        continue;
+      }
+
+      // Formato simplificado
+      const message = item.message;
+      const phone = this.normalizePhone(message?.from);
+      if (!phone) continue;
+
+      messages.push({
+        external_id: message.id || null,
+        phone,
+        contact_name: message.pushName || message.name || null,
+        from_me: Boolean(message.fromMe),
+        type: (Object.keys(TYPE_LABELS).includes(message.type) ? message.type : 'text') as WhatsappMessageType,
+        body: message.body || message.text || null,
+        media_url: message.mediaUrl || null,
+        media_mimetype: message.mimetype || null,
+        sent_at: parseTimestamp(message.timestamp),
+      });
+    }
+
+    return messages;
+  }
+
+  private parseEvolutionMessage(item: any): ParsedWhatsappMessage | null {
+    const key = item.key;
+    let jid: string = key.remoteJid || '';
+
+    if (IGNORED_JID_SUFFIXES.some(suffix => jid.endsWith(suffix))) {
+      return null;
+    }
+    // Contatos com identificador anônimo (@lid): usar o número real quando a Evolution informa
+    if (jid.endsWith('@lid')) {
+      jid = key.senderPn || key.remoteJidAlt || '';
+    }
+
+    const phone = this.normalizePhone(jid.split('@')[0]);
+    if (!phone) {
+      return null;
+    }
+
+    const content = item.message || {};
+    const contentKey = Object.keys(content).find(name => !IGNORED_CONTENT_KEYS.includes(name));
+    if (!contentKey) {
+      return null;
+    }
+
+    const inner = content[contentKey] || {};
+    let type: WhatsappMessageType = 'other';
+    let body: string | null = null;
+
+    switch (contentKey) {
+      case 'conversation':
+        type = 'text';
+        body = typeof inner === 'string' ? inner : null;
+        break;
+      case 'extendedTextMessage':
+        type = 'text';
+        body = inner.text || null;
+        break;
+      case 'imageMessage':
+        type = 'image';
+        body = inner.caption || null;
+        break;
+      case 'videoMessage':
+        type = 'video';
+        body = inner.caption || null;
+        break;
+      case 'audioMessage':
+        type = 'audio';
+        break;
+      case 'documentMessage':
+        type = 'document';
+        body = inner.caption || inner.fileName || null;
+        break;
+      case 'documentWithCaptionMessage':
+        type = 'document';
+        body = inner.message?.documentMessage?.caption || inner.message?.documentMessage?.fileName || null;
+        break;
+      case 'stickerMessage':
+        type = 'sticker';
+        break;
+      case 'locationMessage':
+        type = 'location';
+        body = inner.name || inner.address || `${inner.degreesLatitude},${inner.degreesLongitude}`;
+        break;
+      case 'contactMessage':
+      case 'contactsArrayMessage':
+        type = 'contact';
+        body = inner.displayName || null;
+        break;
+    }
+
+    return {
+      external_id: key.id || null,
+      phone,
+      contact_name: key.fromMe ? null : item.pushName || null,
+      from_me: Boolean(key.fromMe),
+      type,
+      body,
+      media_url: content.mediaUrl || item.mediaUrl || null,
+      media_mimetype: inner.mimetype || null,
+      sent_at: parseTimestamp(item.messageTimestamp),
+    };
+  }
+
+  /**
+   * Processar evento messages.upsert: gravar as mensagens na conversa da instância + telefone
+   */
+  async handleUpsert(payload: any) {
+    const instanceName = payload?.instance;
+    if (!instanceName) {
+      return [];
+    }
+
+    const instance = await prisma.evolutionInstance.findUnique({ where: { instance_name: instanceName } });
+    if (!instance) {
+      logger.warn({ instance: instanceName }, 'WhatsApp message for unknown Evolution instance');
+      return [];
+    }
+
+    const stored = [];
+    for (const message of this.parseMessages(payload)) {
+      try {
+        const result = await this.storeMessage(instance, message);
+        if (result) stored.push(result);
+      } catch (error: any) {
+        logger.error({ instance: instanceName, phone: message.phone, error: error.message }, 'Erro ao gravar mensagem do WhatsApp');
+      }
+    }
+
+    return stored;
+  }
+
+  /**
+   * Gravar mensagem na conversa (cria a conversa e, para números desconhecidos, o lead)
+   */
+  async storeMessage(instance: EvolutionInstance, message: ParsedWhatsappMessage) {
+    if (message.external_id) {
+      const duplicate = await prisma.whatsappMessage.findUnique({
+        where: { instance_id_external_id: { instance_id: instance.id, external_id: message.external_id } },
+        select: { id: true },
+      });
+      if (duplicate) {
+        return null;
+      }
+    }
+
+    const conversation = await this.getOrCreateConversation(instance, message);
+
+    const stored = await prisma.whatsappMessage.create({
+      data: {
+        conversation_id: conversation.id,
+        instance_id: instance.id,
+        external_id: message.external_id,
+        direction: message.from_me ? 'outbound' : 'inbound',
+        type: message.type,
+        body: message.body,
+        media_url: message.media_url,
+        media_mimetype: message.media_mimetype,
+        status: message.from_me ? 'sent' : 'received',
+        sent_at: message.sent_at,
+      },
+    });
+
+    const isLatest = !conversation.last_message_at || conversation.last_message_at <= message.sent_at;
+    const updated = await prisma.whatsappConversation.update({
+      where: { id: conversation.id },
+      data: {
+        ...(isLatest
+          ? { last_message_at: message.sent_at, last_message_preview: this.preview(message.type, message.body) }
+          : {}),
+        ...(message.from_me ? {} : { unread_count: { increment: 1 } }),
+        ...(message.contact_name ? { contact_name: message.contact_name } : {}),
+      },
+    });
+
+    this.emit(updated, 'INSERT', 'whatsapp_messages', { conversation: updated, message: stored });
+
+    return { conversation: updated, message: stored };
+  }
+
+  /**
+   * Texto exibido na lista de conversas
+   */
+  preview(type: WhatsappMessageType | string, body: string | null): string {
+    const text = body || `[${TYPE_LABELS[type as WhatsappMessageType] || 'Mensagem'}]`;
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 3)}...` : text;
+  }
+
+  /**
+   * Conversa da instância + telefone, vinculando cliente/lead pelo telefone
+   * Conversas já existentes sem cliente são revinculadas (lead convertido, cliente cadastrado depois)
+   */
+  async getOrCreateConversation(
+    instance: Pick<EvolutionInstance, 'id' | 'instance_name' | 'city_id'>,
+    message: Pick<ParsedWhatsappMessage, 'phone' | 'contact_name' | 'from_me'>
+  ): Promise<WhatsappConversation> {
+    const existing = await prisma.whatsappConversation.findUnique({
+      where: { instance_id_phone: { instance_id: instance.id, phone: message.phone } },
+    });
+
+    if (existing?.client_id) {
+      return existing;
+    }
+
+    if (existing) {
+      const match = await this.matchContact(message.phone, instance.city_id, existing.lead_id);
+      if (!match.client_id && match.lead_id === existing.lead_id) {
+        return existing;
+      }
+      return prisma.whatsappConversation.update({
+        where: { id: existing.id },
+        data: {
+          client_id: match.client_id,
+          lead_id: match.lead_id || existing.lead_id,
+          franchisee_id: match.franchisee_id || existing.franchisee_id,
+          city_id: existing.city_id || match.city_id,
+        },
+      });
+    }
+
+    let match = await this.matchContact(message.phone, instance.city_id);
+
+    // Número desconhecido escrevendo para a cidade vira lead
+    if (!match.client_id && !match.lead_id && !message.from_me) {
+      match = await this.createLead(instance, message);
+    }
+
+    try {
+      return await prisma.whatsappConversation.create({
+        data: {
+          instance_id: instance.id,
+          phone: message.phone,
+          contact_name: message.contact_name,
+          client_id: match.client_id,
+          lead_id: match.lead_id,
+          franchisee_id: match.franchisee_id,
+          city_id: instance.city_id || match.city_id,
+        },
+      });
+    } catch (error) {
+      // Mensagens simultâneas do mesmo contato: a conversa já foi criada
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.whatsappConversation.findUniqueOrThrow({
+          where: { instance_id_phone: { instance_id: instance.id, phone: message.phone } },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cliente ou lead com o mesmo telefone
+   * - Prioriza cadastros da cidade da instância
+   * - Lead convertido aponta para o cliente criado na conversão
+   */
+  async matchContact(phone: string, cityId?: string | null, currentLeadId?: string | null): Promise<ContactMatch> {
+    const last8 = this.phoneKey(phone).slice(-8);
+    const none: ContactMatch = { client_id: null, lead_id: currentLeadId || null, franchisee_id: null, city_id: null };
+    if (last8.length < 8) {
+      return none;
+    }
+
+    const inCity = <T extends { city_id: string | null }>(rows: T[]) => {
+      const sameCity = cityId ? rows.filter(row => row.city_id === cityId) : [];
+      return sameCity.length > 0 ? sameCity : rows.filter(row => !cityId || !row.city_id);
+    };
+
+    const clients = await prisma.$queryRaw<{ id: string; phone: string; phone2: string | null; franchisee_id: string | null; city_id: string | null }[]>`
+      SELECT id, phone, phone2, franchisee_id, city_id
+      FROM clients
+      WHERE right(regexp_replace(phone, '[^0-9]', '', 'g'), 8) = ${last8}
+         OR right(regexp_replace(coalesce(phone2, ''), '[^0-9]', '', 'g'), 8) = ${last8}
+      ORDER BY updated_at DESC
+    `;
+    const [client] = inCity(clients.filter(row => this.samePhone(row.phone, phone) || this.samePhone(row.phone2, phone)));
+
+    const leads = await prisma.$queryRaw<{ id: string; phone: string; status: string; client_id: string | null; franchisee_id: string | null; city_id: string | null }[]>`
+      SELECT id, phone, status, client_id, franchisee_id, city_id
+      FROM leads
+      WHERE right(regexp_replace(phone, '[^0-9]', '', 'g'), 8) = ${last8}
+      ORDER BY created_at DESC
+    `;
+    const matchingLeads = inCity(leads.filter(row => this.samePhone(row.phone, phone)));
+    const lead = matchingLeads.find(row => row.id === currentLeadId)
+      || matchingLeads.find(row => OPEN_LEAD_STATUSES.includes(row.status))
+      || matchingLeads[0];
+
+    const clientId = client?.id || lead?.client_id || null;
+    if (!clientId && !lead) {
+      return none;
+    }
+
+    return {
+      client_id: clientId,
+      lead_id: lead?.id || currentLeadId || null,
+      franchisee_id: client?.franchisee_id || lead?.franchisee_id || null,
+      city_id: client?.city_id || lead?.city_id || null,
+    };
+  }
+
+  /**
+   * Criar lead para número desconhecido na cidade da instância (distribuído para um atendente)
+   */
+  private async createLead(
+    instance: Pick<EvolutionInstance, 'instance_name' | 'city_id'>,
+    message: Pick<ParsedWhatsappMessage, 'phone' | 'contact_name'>
+  ): Promise<ContactMatch> {
+    const assigneeId = await crmService.pickAssignee(null, instance.city_id);
+    const phone = this.nationalPhone(message.phone);
+
+    const lead = await prisma.lead.create({
+      data: {
+        name: message.contact_name || phone,
+        phone,
+        city_id: instance.city_id,
+        assigned_to: assigneeId,
+        notes: `Lead criado a partir de mensagem recebida no WhatsApp (instância ${instance.instance_name})`,
+      },
+    });
+
+    if (assigneeId) {
+      await crmService.logActivity({
+        lead_id: lead.id,
+        type: 'assignment',
+        description: 'Lead atribuído automaticamente (mensagem recebida no WhatsApp)',
+        metadata: { assigned_to: assigneeId, automatic: true, instance: instance.instance_name },
+        city_id: lead.city_id,
+      });
+      crmService.notifyAssignee(assigneeId, lead);
+    }
+
+    if (realtimeService) {
+      realtimeService.emitCrmChange(null, lead.city_id, {
+        type: 'INSERT',
+        table: 'leads',
+        data: lead,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    logger.info({ leadId: lead.id, instance: instance.instance_name }, 'Lead created from WhatsApp message');
+
+    return { client_id: null, lead_id: lead.id, franchisee_id: null, city_id: lead.city_id };
+  }
+
+  /**
+   * Listar conversas (mais recentes primeiro)
+   */
+  async listConversations(filters: ConversationFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const where: Prisma.WhatsappConversationWhereInput = {
+      ...(filters.cityId ? { city_id: filters.cityId } : {}),
+      ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+      ...(filters.instanceId ? { instance_id: filters.instanceId } : {}),
+      ...(filters.clientId ? { client_id: filters.clientId } : {}),
+      ...(filters.leadId ? { lead_id: filters.leadId } : {}),
+      ...(filters.unread ? { unread_count: { gt: 0 } } : {}),
+      ...(filters.search
+        ? {
+          OR: [
+            { phone: { contains: this.normalizePhone(filters.search) || filters.search } },
+            { contact_name: { contains: filters.search, mode: 'insensitive' } },
+            { client: { full_name: { contains: filters.search, mode: 'insensitive' } } },
+            { lead: { name: { contains: filters.search, mode: 'insensitive' } } },
+          ],
+        }
+        : {}),
+    };
+
+    const [conversations, total] = await Promise.all([
+      prisma.whatsappConversation.findMany({
+        where,
+        include: {
+          instance: { select: { id: true, instance_name: true, phone_number: true } },
+          client: { select: { id: true, full_name: true, phone: true } },
+          lead: { select: { id: true, name: true, status: true, assigned_to: true } },
+        },
+        orderBy: { last_message_at: { sort: 'desc', nulls: 'last' } },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.whatsappConversation.count({ where }),
+    ]);
+
+    return { data: conversations, total, page, limit };
+  }
+
+  /**
+   * Mensagens da conversa (mais recentes primeiro)
+   */
+  async listMessages(conversationId: string, options: { page?: number; limit?: number } = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const where = { conversation_id: conversationId };
+
+    const [messages, total] = await Promise.all([
+      prisma.whatsappMessage.findMany({
+        where,
+        orderBy: { sent_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.whatsappMessage.count({ where }),
+    ]);
+
+    return { data: messages, total, page, limit };
+  }
+
+  /**
+   * Histórico de WhatsApp do cliente (todas as conversas vinculadas, em qualquer instância)
+   */
+  async listClientMessages(clientId: string, options: { page?: number; limit?: number } = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const where: Prisma.WhatsappMessageWhereInput = { conversation: { client_id: clientId } };
+
+    const [messages, total] = await Promise.all([
+      prisma.whatsappMessage.findMany({
+        where,
+        include: {
+          conversation: { select: { id: true, phone: true, contact_name: true } },
+          instance: { select: { id: true, instance_name: true, phone_number: true } },
+        },
+        orderBy: { sent_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.whatsappMessage.count({ where }),
+    ]);
+
+    return { data: messages, total, page, limit };
+  }
+
+  /**
+   * Marcar conversa como lida
+   */
+  async markRead(conversationId: string) {
+    const conversation = await prisma.whatsappConversation.update({
+      where: { id: conversationId },
+      data: { unread_count: 0 },
+    });
+
+    this.emit(conversation, 'UPDATE', 'whatsapp_conversations', conversation);
+
+    return conversation;
+  }
+
+  /**
+   * Vincular manualmente a conversa a um cliente e/ou lead
+   */
+  async link(conversationId: string, input: { client_id?: string | null; lead_id?: string | null }, context: AuthContext) {
+    let franchiseeId: string | null | undefined;
+
+    if (input.client_id) {
+      const client = await prisma.client.findUnique({
+        where: { id: input.client_id },
+        select: { id: true, franchisee_id: true, city_id: true },
+      });
+      if (!client) {
+        throw new NotFoundError('Cliente não encontrado');
+      }
+      if (!context.isMasterOrAdmin() && client.city_id && client.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para vincular este cliente');
+      }
+      franchiseeId = client.franchisee_id;
+    }
+    if (input.lead_id) {
+      const lead = await prisma.lead.findUnique({
+        where: { id: input.lead_id },
+        select: { id: true, franchisee_id: true, city_id: true },
+      });
+      if (!lead) {
+        throw new NotFoundError('Lead não encontrado');
+      }
+      if (!context.isMasterOrAdmin() && lead.city_id && lead.city_id !== context.cityId) {
+        throw new ForbiddenError('Sem permissão para vincular este lead');
+      }
+      franchiseeId = franchiseeId || lead.franchisee_id;
+    }
+
+    const conversation = await prisma.whatsappConversation.update({
+      where: { id: conversationId },
+      data: {
+        ...(input.client_id !== undefined ? { client_id: input.client_id } : {}),
+        ...(input.lead_id !== undefined ? { lead_id: input.lead_id } : {}),
+        ...(franchiseeId ? { franchisee_id: franchiseeId } : {}),
+      },
+    });
+
+    this.emit(conversation, 'UPDATE', 'whatsapp_conversations', conversation);
+
+    return conversation;
+  }
+
+  private emit(
+    conversation: Pick<WhatsappConversation, 'city_id'>,
+    type: 'INSERT' | 'UPDATE' | 'DELETE',
+    table: string,
+    data: unknown
+  ) {
+    if (!realtimeService) {
+      return;
+    }
+
+    realtimeService.emitWhatsappChange(conversation.city_id, {
+      type,
+      table,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+export const whatsappInboxService = new WhatsappInboxService();
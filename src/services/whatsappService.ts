@@ -0,0 +1,755 @@
+import { EvolutionInstance, OutboundMessage, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { BadRequestError, NotFoundError, ServiceUnavailableError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { realtimeService } from '../websocket/index.js';
+import { emailService } from './emailService.js';
+import { formatBRL, formatDateBR } from './contractVariables.js';
+import { whatsappInboxService } from './whatsappInboxService.js';
+
+export type WhatsappTemplateKey = 'payment_due' | 'pix_payment' | 'contract_ready' | 'maintenance_scheduled';
+
+export interface WhatsappTemplateDefinition {
+  name: string;
+  subject: string;
+  variables: string[];
+  body: string;
+}
+
+// Modelos padrão (cada cidade pode personalizar o texto em whatsapp_templates)
+export const DEFAULT_WHATSAPP_TEMPLATES: Record<WhatsappTemplateKey, WhatsappTemplateDefinition> = {
+  payment_due: {
+    name: 'Cobrança a vencer',
+    subject: 'Sua cobrança vence em {{vencimento}}',
+    variables: ['nome', 'valor', 'vencimento', 'parcela', 'placa', 'link_boleto'],
+    body: 'Olá {{nome}}! A parcela {{parcela}} da locação da moto {{placa}}, no valor de {{valor}}, vence em {{vencimento}}.\n\nBoleto: {{link_boleto}}',
+  },
+  pix_payment: {
+    name: 'PIX copia e cola',
+    subject: 'PIX para pagamento da parcela {{parcela}}',
+    variables: ['nome', 'valor', 'vencimento', 'parcela', 'placa', 'pix_copia_cola'],
+    body: 'Olá {{nome}}! Segue o PIX copia e cola da parcela {{parcela}} ({{valor}}, vencimento {{vencimento}}) da moto {{placa}}:\n\n{{pix_copia_cola}}',
+  },
+  contract_ready: {
+    name: 'Contrato pronto para assinatura',
+    subject: 'Contrato {{numero_contrato}} pronto para assinatura',
+    variables: ['nome', 'numero_contrato', 'placa', 'link_contrato'],
+    body: 'Olá {{nome}}! O contrato {{numero_contrato}} da locação da moto {{placa}} está pronto para assinatura. Você receberá o link de assinatura por email.\n\nContrato: {{link_contrato}}',
+  },
+  maintenance_scheduled: {
+    name: 'Manutenção agendada',
+    subject: 'Manutenção agendada para {{data}}',
+    variables: ['nome', 'placa', 'numero_os', 'data', 'oficina', 'tipo'],
+    body: 'Olá {{nome}}! A manutenção ({{tipo}}) da moto {{placa}} está agendada para {{data}} na oficina {{oficina}}. OS {{numero_os}}.',
+  },
+};
+
+export const WHATSAPP_TEMPLATE_KEYS = Object.keys(DEFAULT_WHATSAPP_TEMPLATES) as WhatsappTemplateKey[];
+
+// Estados de instância aptos a enviar (status manual ou state do connection.update)
+export const CONNECTED_INSTANCE_STATUSES = ['connected', 'open'];
+
+// Status de entrega em ordem de evolução (não regride: lida não volta para entregue)
+const DELIVERY_STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+// Status da Evolution v2 (texto) e v1 (número do protobuf)
+const EVOLUTION_STATUS_MAP: Record<string, string> = {
+  ERROR: 'failed',
+  PENDING: 'pending',
+  SERVER_ACK: 'sent',
+  DELIVERY_ACK: 'delivered',
+  READ: 'read',
+  PLAYED: 'read',
+  '0': 'failed',
+  '1': 'pending',
+  '2': 'sent',
+  '3': 'delivered',
+  '4': 'read',
+  '5': 'read',
+};
+
+const MAX_SEND_ATTEMPTS = 3;
+const QUEUE_BATCH_SIZE = 200;
+const RATE_WINDOW_MS = 60 * 1000;
+
+export interface SendMessageInput {
+  city_id?: string | null;
+  franchisee_id?: string | null;
+  instance_id?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  name?: string | null;
+  text: string;
+  subject?: string | null;
+  template?: WhatsappTemplateKey | null;
+  entity_type?: string | null;
+  entity_id?: string | null;
+  created_by?: string | null;
+}
+
+export interface PreparedNotification {
+  template: WhatsappTemplateKey;
+  entity_type: string;
+  entity_id: string;
+  franchisee_id: string | null;
+  city_id: string | null;
+  recipient: { name: string | null; phone: string | null; email: string | null };
+  variables: Record<string, string>;
+}
+
+export interface OutboundFilters {
+  cityId?: string;
+  franchiseeId?: string;
+  status?: string;
+  channel?: string;
+  template?: string;
+  entityType?: string;
+  entityId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface QueueResult {
+  checked: number;
+  sent: number;
+  deferred: number;
+  failed: number;
+  email_fallback: number;
+}
+
+type SendableInstance = Pick<EvolutionInstance, 'id' | 'instance_name' | 'city_id' | 'status' | 'apikey'>;
+
+export class WhatsappService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Substituir variáveis {{nome}} do modelo (variável sem valor fica vazia)
+   */
+  render(body: string, variables: Record<string, string | null | undefined>): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+  }
+
+  /**
+   * Modelos da cidade: texto personalizado ou o padrão do sistema
+   */
+  async getTemplates(cityId?: string | null) {
+    const custom = cityId
+      ? await prisma.whatsappTemplate.findMany({ where: { city_id: cityId } })
+      : [];
+
+    return WHATSAPP_TEMPLATE_KEYS.map(key => {
+      const override = custom.find(template => template.key === key);
+      return {
+        key,
+        ...DEFAULT_WHATSAPP_TEMPLATES[key],
+        body: override?.body || DEFAULT_WHATSAPP_TEMPLATES[key].body,
+        default_body: DEFAULT_WHATSAPP_TEMPLATES[key].body,
+        customized: Boolean(override),
+        updated_at: override?.updated_at || null,
+      };
+    });
+  }
+
+  /**
+   * Personalizar o texto de um modelo para a cidade
+   */
+  async setTemplate(cityId: string, key: WhatsappTemplateKey, body: string, userId?: string | null) {
+    const allowed = DEFAULT_WHATSAPP_TEMPLATES[key].variables;
+    const unknown = [...body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+      .map(match => match[1])
+      .filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Variáveis não disponíveis neste modelo: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    return prisma.whatsappTemplate.upsert({
+      where: { city_id_key: { city_id: cityId, key } },
+      create: { city_id: cityId, key, body, updated_by: userId || null },
+      update: { body, updated_by: userId || null },
+    });
+  }
+
+  /**
+   * Voltar o modelo da cidade para o texto padrão
+   */
+  async resetTemplate(cityId: string, key: WhatsappTemplateKey) {
+    await prisma.whatsappTemplate.deleteMany({ where: { city_id: cityId, key } });
+  }
+
+  /**
+   * Telefone no formato da Evolution (DDI 55 + DDD + número)
+   */
+  toWhatsappNumber(phone: string): string {
+    const digits = whatsappInboxService.normalizePhone(phone);
+    return digits.length === 10 || digits.length === 11 ? `55${digits}` : digits;
+  }
+
+  /**
+   * Instância conectada da cidade (a conectada mais recentemente)
+   */
+  async findInstance(cityId?: string | null): Promise<SendableInstance | null> {
+    if (!cityId) {
+      return null;
+    }
+
+    return prisma.evolutionInstance.findFirst({
+      where: { city_id: cityId, status: { in: CONNECTED_INSTANCE_STATUSES } },
+      orderBy: { last_connected_at: { sort: 'desc', nulls: 'last' } },
+    });
+  }
+
+  /**
+   * Configuração da Evolution (URL e token) da cidade ou, sem configuração própria, a padrão
+   */
+  async findEvolutionConfig(cityId?: string | null) {
+    const select = { evolution_url: true, evolution_token: true, production_url: true };
+
+    const cityConfig = cityId
+      ? await prisma.iaAgendamentoConfig.findUnique({ where: { city_id: cityId }, select })
+      : null;
+
+    return cityConfig || prisma.iaAgendamentoConfig.findFirst({
+      where: { city_id: null },
+      select,
+      orderBy: { created_at: 'asc' },
+    });
+  }
+
+  /**
+   * Reservar um envio no limite por minuto da instância
+   * A janela é contada em outbound_messages (sent_at), então vale para todos os processos e sobrevive a reinícios;
+   * o advisory lock da instância evita que duas reservas simultâneas passem do limite
+   */
+  private async tryAcquire(instanceId: string, messageId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`whatsapp_rate:${instanceId}`}))`;
+
+      const recent = await tx.outboundMessage.count({
+        where: {
+          instance_id: instanceId,
+          channel: 'whatsapp',
+          sent_at: { gte: new Date(Date.now() - RATE_WINDOW_MS) },
+        },
+      });
+
+      if (recent >= env.WHATSAPP_RATE_LIMIT_PER_MINUTE) {
+        return false;
+      }
+
+      await tx.outboundMessage.update({ where: { id: messageId }, data: { sent_at: new Date() } });
+      return true;
+    });
+  }
+
+  /**
+   * Enviar texto pela Evolution API (URL e token da configuração da cidade da instância)
+   * Retorna o key.id da mensagem
+   */
+  private async sendText(instance: SendableInstance, number: string, text: string): Promise<string | null> {
+    const config = await this.findEvolutionConfig(instance.city_id);
+
+    if (!config?.evolution_url) {
+      throw new ServiceUnavailableError('Configuração da Evolution API não encontrada');
+    }
+
+    const url = `${config.evolution_url.replace(/\/$/, '')}/message/sendText/${encodeURIComponent(instance.instance_name)}`;
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: instance.apikey || config.evolution_token,
+      },
+      body: JSON.stringify({ number, text }),
+    });
+
+    const data: any = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      const message = data?.response?.message || data?.message || data?.error || `HTTP ${res.status}`;
+      throw new Error(Array.isArray(message) ? message.map((item: any) => JSON.stringify(item)).join(', ') : String(message));
+    }
+
+    return data?.key?.id || null;
+  }
+
+  /**
+   * Enviar mensagem: WhatsApp pela instância da cidade (ou a informada) ou, sem instância conectada,
+   * email para o destinatário. Acima do limite por minuto a mensagem fica na fila (pending)
+   */
+  async send(input: SendMessageInput): Promise<OutboundMessage> {
+    const instance = input.phone
+      ? input.instance_id
+        ? await prisma.evolutionInstance.findFirst({
+          where: { id: input.instance_id, status: { in: CONNECTED_INSTANCE_STATUSES } },
+        })
+        : await this.findInstance(input.city_id)
+      : null;
+
+    const base = {
+      template: input.template || null,
+      recipient_name: input.name || null,
+      recipient_phone: input.phone ? this.toWhatsappNumber(input.phone) : null,
+      recipient_email: input.email || null,
+      subject: input.subject || null,
+      body: input.text,
+      entity_type: input.entity_type || null,
+      entity_id: input.entity_id || null,
+      franchisee_id: input.franchisee_id || null,
+      city_id: input.city_id || instance?.city_id || null,
+      created_by: input.created_by || null,
+    };
+
+    if (instance) {
+      const message = await prisma.outboundMessage.create({
+        data: { ...base, channel: 'whatsapp', instance_id: instance.id },
+      });
+      return this.dispatch(message, instance);
+    }
+
+    if (!input.email) {
+      throw new BadRequestError(
+        input.phone
+          ? 'Nenhuma instância do WhatsApp conectada e destinatário sem email para o envio alternativo'
+          : 'Informe o telefone ou o email do destinatário'
+      );
+    }
+
+    const message = await prisma.outboundMessage.create({
+      data: { ...base, channel: 'email' },
+    });
+    return this.sendEmail(message);
+  }
+
+  /**
+   * Enviar mensagem da fila pelo WhatsApp, respeitando o limite por minuto da instância
+   */
+  private async dispatch(message: OutboundMessage, instance: SendableInstance): Promise<OutboundMessage> {
+    if (!await this.tryAcquire(instance.id, message.id)) {
+      logger.debug({ instance: instance.instance_name, messageId: message.id }, 'WhatsApp rate limit reached, message queued');
+      return message;
+    }
+
+    try {
+      const externalId = await this.sendText(instance, message.recipient_phone!, message.body);
+      const sentAt = new Date();
+
+      const conversation = await this.resolveConversation(instance, message.recipient_phone!);
+      const data = {
+        conversation_id: conversation.id,
+        instance_id: instance.id,
+        external_id: externalId,
+        direction: 'outbound',
+        type: 'text',
+        body: message.body,
+        status: 'sent',
+        sent_at: sentAt,
+      };
+      // O eco fromMe do messages.upsert pode chegar antes da resposta do sendText
+      const stored = externalId
+        ? await prisma.whatsappMessage.upsert({
+          where: { instance_id_external_id: { instance_id: instance.id, external_id: externalId } },
+          create: data,
+          update: {},
+        })
+        : await prisma.whatsappMessage.create({ data });
+      const updatedConversation = await prisma.whatsappConversation.update({
+        where: { id: conversation.id },
+        data: { last_message_at: sentAt, last_message_preview: whatsappInboxService.preview('text', message.body) },
+      });
+
+      if (realtimeService) {
+        realtimeService.emitWhatsappChange(updatedConversation.city_id, {
+          type: 'INSERT',
+          table: 'whatsapp_messages',
+          data: { conversation: updatedConversation, message: stored },
+          timestamp: sentAt.toISOString(),
+        });
+      }
+
+      return prisma.outboundMessage.update({
+        where: { id: message.id },
+        data: {
+          status: 'sent',
+          external_id: externalId,
+          whatsapp_message_id: stored.id,
+          attempts: { increment: 1 },
+          error_message: null,
+          sent_at: sentAt,
+        },
+      });
+    } catch (error: any) {
+      const attempts = message.attempts + 1;
+      logger.error({ messageId: message.id, instance: instance.instance_name, attempts, error: error.message }, 'Erro ao enviar mensagem pelo WhatsApp');
+
+      return prisma.outboundMessage.update({
+        where: { id: message.id },
+        data: {
+          attempts,
+          error_message: error.message,
+          // Libera a reserva no limite por minuto
+          sent_at: null,
+          ...(attempts >= MAX_SEND_ATTEMPTS ? { status: 'failed' } : {}),
+        },
+      });
+    }
+  }
+
+  /**
+   * Conversa do destinatário na instância (reaproveita a conversa com o mesmo telefone)
+   */
+  private async resolveConversation(instance: SendableInstance, phone: string) {
+    const last8 = whatsappInboxService.phoneKey(phone).slice(-8);
+    const candidates = await prisma.whatsappConversation.findMany({
+      where: { instance_id: instance.id, phone: { endsWith: last8 } },
+      orderBy: { last_message_at: { sort: 'desc', nulls: 'last' } },
+    });
+    const existing = candidates.find(conversation => whatsappInboxService.samePhone(conversation.phone, phone));
+
+    return existing || whatsappInboxService.getOrCreateConversation(instance, {
+      phone,
+      contact_name: null,
+      from_me: true,
+    });
+  }
+
+  /**
+   * Enviar a mensagem por email (fallback sem instância conectada)
+   */
+  private async sendEmail(message: OutboundMessage): Promise<OutboundMessage> {
+    try {
+      await emailService.sendNotificationEmail(
+        message.recipient_email!,
+        message.recipient_name,
+        message.subject || 'Notificação',
+        message.body
+      );
+
+      return prisma.outboundMessage.update({
+        where: { id: message.id },
+        data: { channel: 'email', status: 'sent', attempts: { increment: 1 }, error_message: null, sent_at: new Date() },
+      });
+    } catch (error: any) {
+      logger.error({ messageId: message.id, error: error.message }, 'Erro ao enviar email de notificação');
+
+      return prisma.outboundMessage.update({
+        where: { id: message.id },
+        data: { channel: 'email', status: 'failed', attempts: { increment: 1 }, error_message: error.message },
+      });
+    }
+  }
+
+  /**
+   * Processar a fila: mensagens pendentes do WhatsApp dentro do limite de cada instância
+   * Instância desconectada: email para o destinatário ou falha
+   */
+  async processQueue(): Promise<QueueResult> {
+    const pending = await prisma.outboundMessage.findMany({
+      where: { channel: 'whatsapp', status: 'pending' },
+      include: { instance: true },
+      orderBy: { created_at: 'asc' },
+      take: QUEUE_BATCH_SIZE,
+    });
+
+    const result: QueueResult = { checked: pending.length, sent: 0, deferred: 0, failed: 0, email_fallback: 0 };
+
+    for (const { instance, ...message } of pending) {
+      if (!instance || !CONNECTED_INSTANCE_STATUSES.includes(instance.status)) {
+        if (message.recipient_email) {
+          const fallback = await this.sendEmail(message);
+          result.email_fallback++;
+          if (fallback.status === 'failed') result.failed++;
+        } else {
+          await prisma.outboundMessage.update({
+            where: { id: message.id },
+            data: { status: 'failed', error_message: 'Instância do WhatsApp desconectada' },
+          });
+          result.failed++;
+        }
+        continue;
+      }
+
+      const updated = await this.dispatch(message, instance);
+      if (updated.status === 'sent') result.sent++;
+      else if (updated.status === 'failed') result.failed++;
+      else result.deferred++;
+    }
+
+    if (result.checked > 0) {
+      logger.info({ ...result }, 'WhatsApp queue processed');
+    }
+
+    return result;
+  }
+
+  /**
+   * Atualizar status de entrega (evento messages.update da Evolution)
+   */
+  async updateDeliveryStatus(payload: any): Promise<number> {
+    const instanceName = payload?.instance;
+    const instance = instanceName
+      ? await prisma.evolutionInstance.findUnique({ where: { instance_name: instanceName }, select: { id: true } })
+      : null;
+    if (!instance) {
+      return 0;
+    }
+
+    const items = Array.isArray(payload.data) ? payload.data : [payload.data];
+    let updated = 0;
+
+    for (const item of items) {
+      const externalId = item?.keyId || item?.key?.id;
+      const rawStatus = item?.status ?? item?.update?.status;
+      const status = rawStatus !== undefined ? EVOLUTION_STATUS_MAP[String(rawStatus)] : undefined;
+      if (!externalId || !status || status === 'pending') continue;
+
+      const now = new Date();
+      const allowedFrom = status === 'failed'
+        ? ['pending', 'sent']
+        : Object.keys(DELIVERY_STATUS_RANK).filter(key => DELIVERY_STATUS_RANK[key] < DELIVERY_STATUS_RANK[status]);
+
+      await prisma.whatsappMessage.updateMany({
+        where: { instance_id: instance.id, external_id: externalId, status: { in: allowedFrom } },
+        data: { status },
+      });
+
+      const result = await prisma.outboundMessage.updateMany({
+        where: { instance_id: instance.id, external_id: externalId, status: { in: allowedFrom } },
+        data: {
+          status,
+          ...(status === 'delivered' ? { delivered_at: now } : {}),
+          ...(status === 'read' ? { read_at: now } : {}),
+          ...(status === 'failed' ? { error_message: 'Falha de entrega informada pela Evolution' } : {}),
+        },
+      });
+      updated += result.count;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Montar a notificação de um modelo a partir do registro (cobrança, contrato ou OS)
+   */
+  async prepareNotification(template: WhatsappTemplateKey, entityId: string): Promise<PreparedNotification> {
+    switch (template) {
+      case 'payment_due':
+      case 'pix_payment': {
+        const payment = await prisma.asaasPayment.findUnique({ where: { id: entityId } });
+        if (!payment) {
+          throw new NotFoundError('Cobrança não encontrada');
+        }
+        if (template === 'pix_payment' && !payment.pix_copia_cola) {
+          throw new BadRequestError('Cobrança sem PIX copia e cola');
+        }
+
+        const rental = await prisma.rental.findUnique({
+          where: { id: payment.rental_id },
+          select: { client_name: true, client_phone: true, client_email: true, motorcycle_plate: true, city_id: true },
+        });
+
+        return {
+          template,
+          entity_type: 'asaas_payment',
+          entity_id: payment.id,
+          franchisee_id: payment.franchisee_id,
+          city_id: rental?.city_id || null,
+          recipient: { name: rental?.client_name || null, phone: rental?.client_phone || null, email: rental?.client_email || null },
+          variables: {
+            nome: rental?.client_name || '',
+            valor: formatBRL(payment.valor),
+            vencimento: formatDateBR(payment.due_date),
+            parcela: String(payment.installment_number),
+            placa: rental?.motorcycle_plate || '',
+            link_boleto: payment.boleto_url || '',
+            pix_copia_cola: payment.pix_copia_cola || '',
+          },
+        };
+      }
+
+      case 'contract_ready': {
+        const contract = await prisma.generatedContract.findUnique({
+          where: { id: entityId },
+          include: {
+            rental: {
+              select: { client_name: true, client_phone: true, client_email: true, motorcycle_plate: true, franchisee_id: true, city_id: true },
+            },
+          },
+        });
+        if (!contract) {
+          throw new NotFoundError('Contrato não encontrado');
+        }
+        if (!contract.rental) {
+          throw new BadRequestError('Contrato sem locação vinculada');
+        }
+
+        return {
+          template,
+          entity_type: 'generated_contract',
+          entity_id: contract.id,
+          franchisee_id: contract.rental.franchisee_id,
+          city_id: contract.city_id || contract.rental.city_id,
+          recipient: {
+            name: contract.rental.client_name,
+            phone: contract.rental.client_phone,
+            email: contract.rental.client_email,
+          },
+          variables: {
+            nome: contract.rental.client_name,
+            numero_contrato: contract.contract_number,
+            placa: contract.rental.motorcycle_plate,
+            link_contrato: contract.pdf_url || '',
+          },
+        };
+      }
+
+      case 'maintenance_scheduled': {
+        const order = await prisma.ordemServico.findUnique({
+          where: { id: entityId },
+          include: { motorcycle: { select: { id: true, placa: true } } },
+        });
+        if (!order) {
+          throw new NotFoundError('Ordem de serviço não encontrada');
+        }
+        if (!order.data_previsao) {
+          throw new BadRequestError('Ordem de serviço sem data prevista');
+        }
+
+        // Destinatário: locatário atual da moto
+        const rental = order.motorcycle_id
+          ? await prisma.rental.findFirst({
+            where: { motorcycle_id: order.motorcycle_id, status: { in: ['active', 'paused'] }, deleted_at: null },
+            select: { client_name: true, client_phone: true, client_email: true, franchisee_id: true, city_id: true },
+            orderBy: { start_date: 'desc' },
+          })
+          : null;
+
+        const oficina = order.oficina_id
+          ? await prisma.$queryRaw<{ nome: string }[]>`SELECT nome FROM oficinas WHERE id = ${order.oficina_id}::uuid`
+          : [];
+
+        return {
+          template,
+          entity_type: 'ordem_servico',
+          entity_id: order.id,
+          franchisee_id: rental?.franchisee_id || null,
+          city_id: order.city_id || rental?.city_id || null,
+          recipient: {
+            name: rental?.client_name || order.locatario || null,
+            phone: rental?.client_phone || null,
+            email: rental?.client_email || null,
+          },
+          variables: {
+            nome: rental?.client_name || order.locatario || '',
+            placa: order.motorcycle?.placa || '',
+            numero_os: order.numero_os,
+            data: formatDateBR(order.data_previsao),
+            oficina: oficina[0]?.nome || '',
+            tipo: order.tipo_manutencao || 'manutenção',
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Enviar notificação de um modelo (texto da cidade com as variáveis do registro)
+   */
+  async sendNotification(
+    prepared: PreparedNotification,
+    overrides: { phone?: string | null; email?: string | null; created_by?: string | null } = {}
+  ): Promise<OutboundMessage> {
+    const templates = await this.getTemplates(prepared.city_id);
+    const template = templates.find(item => item.key === prepared.template)!;
+
+    return this.send({
+      city_id: prepared.city_id,
+      franchisee_id: prepared.franchisee_id,
+      phone: overrides.phone || prepared.recipient.phone,
+      email: overrides.email || prepared.recipient.email,
+      name: prepared.recipient.name,
+      text: this.render(template.body, prepared.variables),
+      subject: this.render(template.subject, prepared.variables),
+      template: prepared.template,
+      entity_type: prepared.entity_type,
+      entity_id: prepared.entity_id,
+      created_by: overrides.created_by,
+    });
+  }
+
+  /**
+   * Listar envios (mais recentes primeiro)
+   */
+  async listOutbound(filters: OutboundFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const where: Prisma.OutboundMessageWhereInput = {
+      ...(filters.cityId ? { city_id: filters.cityId } : {}),
+      ...(filters.franchiseeId ? { franchisee_id: filters.franchiseeId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.channel ? { channel: filters.channel } : {}),
+      ...(filters.template ? { template: filters.template } : {}),
+      ...(filters.entityType ? { entity_type: filters.entityType } : {}),
+      ...(filters.entityId ? { entity_id: filters.entityId } : {}),
+    };
+
+    const [messages, total] = await Promise.all([
+      prisma.outboundMessage.findMany({
+        where,
+        include: { instance: { select: { id: true, instance_name: true } } },
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.outboundMessage.count({ where }),
+    ]);
+
+    return { data: messages, total, page, limit };
+  }
+
+  /**
+   * Iniciar o processamento periódico da fila (intervalMinutes = 0 desativa)
+   */
+  startSchedule(intervalMinutes: number): void {
+    if (this.timer || intervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(async () => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = true;
+      try {
+        await this.processQueue();
+      } catch (error: any) {
+        logger.error({ error: error.message }, 'Scheduled WhatsApp queue processing failed');
+      } finally {
+        this.running = false;
+      }
+    }, intervalMinutes * 60 * 1000);
+    this.timer.unref();
+
+    logger.info({ intervalMinutes }, 'WhatsApp queue scheduled');
+  }
+
+  /**
+   * Parar o processamento periódico da fila
+   */
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const whatsappService = new WhatsappService();
@@ -131,3 +131,16 @@ export interface SignatureWebhookPayload {
     reason?: string;
   };
 }
+
+// Variáveis de template de contrato
+export type TemplateVariableType = 'text' | 'cpf' | 'cnpj' | 'cpf_cnpj' | 'brl' | 'date' | 'number';
+export type TemplateVariableSource = 'rental' | 'client' | 'driver' | 'franchisee' | 'motorcycle' | 'city' | 'plan';
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  required: boolean;
+  source?: string; // caminho "entidade.campo", ex: "client.cnh_number"
+  default?: string;
+}
@@ -44,6 +44,21 @@ export class ConflictError extends AppError {
   }
 }
 
+export class InvalidStatusTransitionError extends AppError {
+  public readonly from: string;
+  public readonly to: string;
+  public readonly allowed: string[];
+
+  constructor(message: string, from: string, to: string, allowed: string[] = []) {
+    super(message, 409, 'INVALID_STATUS_TRANSITION');
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+
+    Object.setPrototypeOf(this, InvalidStatusTransitionError.prototype);
+  }
+}
+
 export class ValidationError extends AppError {
   public readonly errors: Record<string, string[]>;
 
@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { BadRequestError } from './errors.js';
+
+/**
+ * Identificadores brasileiros de veículos e pessoas
+ * Normalização (formato gravado no banco) e validação de placa, chassi, RENAVAM, CPF e CNPJ
+ */
+
+export type IdentifierKind = 'placa' | 'chassi' | 'renavam' | 'cpf' | 'cnpj' | 'cpf_cnpj';
+
+export type PlateFormat = 'antiga' | 'mercosul';
+
+const OLD_PLATE_REGEX = /^[A-Z]{3}\d{4}$/;
+const MERCOSUL_PLATE_REGEX = /^[A-Z]{3}\d[A-Z]\d{2}$/;
+
+// VIN (ISO 3779): 17 caracteres, sem I, O e Q
+const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const VIN_TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const RENAVAM_WEIGHTS = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+const CNPJ_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+export const onlyDigits = (value: string | null | undefined) => (value || '').replace(/\D/g, '');
+
+const isRepeated = (value: string) => /^(.)\1*$/.test(value);
+
+// ========================================
+// Placa
+// ========================================
+
+/**
+ * Placa em maiúsculas, sem hífen/espaços (ABC-1D23 -> ABC1D23)
+ */
+export function normalizePlate(placa: string | null | undefined): string {
+  return (placa || '').replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+}
+
+/**
+ * Formato da placa: antiga (ABC1234) ou Mercosul (ABC1D23)
+ */
+export function getPlateFormat(placa: string | null | undefined): PlateFormat | null {
+  const normalized = normalizePlate(placa);
+  if (OLD_PLATE_REGEX.test(normalized)) return 'antiga';
+  if (MERCOSUL_PLATE_REGEX.test(normalized)) return 'mercosul';
+  return null;
+}
+
+export function isValidPlate(placa: string | null | undefined): boolean {
+  return getPlateFormat(placa) !== null;
+}
+
+/**
+ * Placa para exibição (antiga com hífen: ABC-1234; Mercosul sem: ABC1D23)
+ */
+export function formatPlate(placa: string | null | undefined): string {
+  const normalized = normalizePlate(placa);
+  return getPlateFormat(normalized) === 'antiga'
+    ? `${normalized.slice(0, 3)}-${normalized.slice(3)}`
+    : normalized;
+}
+
+// ========================================
+// Chassi (VIN)
+// ========================================
+
+export function normalizeChassi(chassi: string | null | undefined): string {
+  return (chassi || '').replace(/[\s.-]/g, '').toUpperCase();
+}
+
+/**
+ * Chassi com 17 caracteres válidos de VIN
+ * O dígito verificador (posição 9) não é exigido: fabricantes nacionais não são obrigados a usá-lo
+ */
+export function isValidChassi(chassi: string | null | undefined): boolean {
+  return VIN_REGEX.test(normalizeChassi(chassi));
+}
+
+/**
+ * Dígito verificador do VIN (posição 9) confere com o cálculo da norma
+ */
+export function hasValidVinCheckDigit(chassi: string | null | undefined): boolean {
+  const vin = normalizeChassi(chassi);
+  if (!VIN_REGEX.test(vin)) {
+    return false;
+  }
+
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : VIN_TRANSLITERATION[char];
+    return total + value * VIN_WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+
+  return vin[8] === (remainder === 10 ? 'X' : String(remainder));
+}
+
+// ========================================
+// RENAVAM
+// ========================================
+
+/**
+ * RENAVAM com 11 dígitos (os antigos, de 9 dígitos, recebem zeros à esquerda)
+ */
+export function normalizeRenavam(renavam: string | null | undefined): string {
+  const digits = onlyDigits(renavam);
+  return digits && digits.length < 11 ? digits.padStart(11, '0') : digits;
+}
+
+export function isValidRenavam(renavam: string | null | undefined): boolean {
+  const digits = normalizeRenavam(renavam);
+  if (!/^\d{11}$/.test(digits) || isRepeated(digits)) {
+    return false;
+  }
+
+  const sum = RENAVAM_WEIGHTS.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const check = (sum * 10) % 11;
+
+  return Number(digits[10]) === (check === 10 ? 0 : check);
+}
+
+// ========================================
+// CPF / CNPJ
+// ========================================
+
+export function normalizeCpf(cpf: string | null | undefined): string {
+  return onlyDigits(cpf);
+}
+
+export function isValidCpf(cpf: string | null | undefined): boolean {
+  const digits = normalizeCpf(cpf);
+  if (!/^\d{11}$/.test(digits) || isRepeated(digits)) {
+    return false;
+  }
+
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    const check = (sum * 10) % 11;
+    if (Number(digits[length]) !== (check === 10 ? 0 : check)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * CNPJ sem pontuação; aceita o CNPJ alfanumérico (12 primeiras posições com letras)
+ */
+export function normalizeCnpj(cnpj: string | null | undefined): string {
+  return (cnpj || '').replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+}
+
+export function isValidCnpj(cnpj: string | null | undefined): boolean {
+  const value = normalizeCnpj(cnpj);
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(value) || isRepeated(value)) {
+    return false;
+  }
+
+  // Valor de cada posição: código ASCII - 48 (dígitos mantêm o próprio valor)
+  const values = value.split('').map(char => char.charCodeAt(0) - 48);
+
+  for (const length of [12, 13]) {
+    const weights = CNPJ_WEIGHTS.slice(13 - length);
+    const sum = weights.reduce((total, weight, index) => total + values[index] * weight, 0);
+    const remainder = sum % 11;
+    if (values[length] !== (remainder < 2 ? 0 : 11 - remainder)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * CPF (11 dígitos) ou CNPJ (14 posições) conforme o tamanho
+ */
+export function normalizeCpfCnpj(value: string | null | undefined): string {
+  const normalized = normalizeCnpj(value);
+  return normalized.length === 11 ? normalizeCpf(normalized) : normalized;
+}
+
+export function isValidCpfCnpj(value: string | null | undefined): boolean {
+  const normalized = normalizeCpfCnpj(value);
+  return normalized.length === 11 ? isValidCpf(normalized) : isValidCnpj(normalized);
+}
+
+// ========================================
+// Genéricos
+// ========================================
+
+const IDENTIFIERS: Record<IdentifierKind, {
+  label: string;
+  normalize: (value: string | null | undefined) => string;
+  isValid: (value: string | null | undefined) => boolean;
+  message: string;
+}> = {
+  placa: { label: 'Placa', normalize: normalizePlate, isValid: isValidPlate, message: 'Placa inválida (formatos ABC1234 ou ABC1D23)' },
+  chassi: { label: 'Chassi', normalize: normalizeChassi, isValid: isValidChassi, message: 'Chassi inválido (17 caracteres, sem I, O e Q)' },
+  renavam: { label: 'RENAVAM', normalize: normalizeRenavam, isValid: isValidRenavam, message: 'RENAVAM inválido' },
+  cpf: { label: 'CPF', normalize: normalizeCpf, isValid: isValidCpf, message: 'CPF inválido' },
+  cnpj: { label: 'CNPJ', normalize: normalizeCnpj, isValid: isValidCnpj, message: 'CNPJ inválido' },
+  cpf_cnpj: { label: 'CPF/CNPJ', normalize: normalizeCpfCnpj, isValid: isValidCpfCnpj, message: 'CPF/CNPJ inválido' },
+};
+
+export function normalizeIdentifier(kind: IdentifierKind, value: string | null | undefined): string {
+  return IDENTIFIERS[kind].normalize(value);
+}
+
+export function isValidIdentifier(kind: IdentifierKind, value: string | null | undefined): boolean {
+  return IDENTIFIERS[kind].isValid(value);
+}
+
+/**
+ * Normalizar e validar um identificador (vazio vira null)
+ * Lança BadRequestError com o rótulo informado quando inválido
+ */
+export function parseIdentifier(kind: IdentifierKind, value: string | null | undefined, label?: string): string | null {
+  const normalized = IDENTIFIERS[kind].normalize(value);
+  if (!normalized) {
+    return null;
+  }
+  if (!IDENTIFIERS[kind].isValid(normalized)) {
+    throw new BadRequestError(label ? `${label} inválido` : IDENTIFIERS[kind].message);
+  }
+  return normalized;
+}
+
+/**
+ * Schema Zod obrigatório: normaliza e valida (ex.: identifierSchema('placa'))
+ */
+export function identifierSchema(kind: IdentifierKind, message = IDENTIFIERS[kind].message) {
+  const { label, normalize, isValid } = IDENTIFIERS[kind];
+  return z.string({ required_error: `${label} é obrigatório` })
+    .transform(value => normalize(value))
+    .refine(value => value.length > 0, `${label} é obrigatório`)
+    .refine(value => isValid(value), message);
+}
+
+/**
+ * Schema Zod opcional: vazio vira null, preenchido é normalizado e validado
+ */
+export function optionalIdentifierSchema(kind: IdentifierKind, message = IDENTIFIERS[kind].message) {
+  const { normalize, isValid } = IDENTIFIERS[kind];
+  return z.string()
+    .transform(value => normalize(value) || null)
+    .refine(value => value === null || isValid(value), message)
+    .optional()
+    .nullable();
+}
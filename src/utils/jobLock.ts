@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { logger } from './logger.js';
+
+/**
+ * Executar fn com exclusividade entre todos os processos da API (lease em job_locks)
+ * O lease tem validade de leaseMs e é renovado enquanto fn roda; se o processo cair, expira sozinho
+ * Nenhuma conexão fica presa durante a execução. Retorna null sem executar quando o lock já está em uso
+ */
+export async function withJobLock<T>(
+  name: string,
+  fn: () => Promise<T>,
+  leaseMs = 5 * 60 * 1000
+): Promise<T | null> {
+  const holder = crypto.randomUUID();
+
+  const acquired = await prisma.$executeRaw`
+    INSERT INTO job_locks (name, holder, locked_until)
+    VALUES (${name}, ${holder}, now() + ${leaseMs}::float8 * interval '1 millisecond')
+    ON CONFLICT (name) DO UPDATE
+      SET holder = EXCLUDED.holder, locked_until = EXCLUDED.locked_until, updated_at = now()
+      WHERE job_locks.locked_until < now()
+  `;
+
+  if (acquired === 0) {
+    return null;
+  }
+
+  const heartbeat = setInterval(() => {
+    prisma.$executeRaw`
+      UPDATE job_locks
+      SET locked_until = now() + ${leaseMs}::float8 * interval '1 millisecond', updated_at = now()
+      WHERE name = ${name} AND holder = ${holder}
+    `.then((renewed) => {
+      if (renewed === 0) {
+        logger.warn({ name }, 'Lock de execução perdido antes do fim da tarefa');
+      }
+    }).catch((error) => {
+      logger.error({ name, error: error.message }, 'Erro ao renovar lock de execução');
+    });
+  }, Math.max(1000, Math.floor(leaseMs / 3)));
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await prisma.$executeRaw`DELETE FROM job_locks WHERE name = ${name} AND holder = ${holder}`.catch((error) => {
+      logger.error({ name, error: error.message }, 'Erro ao liberar lock de execução');
+    });
+  }
+}
@@ -155,6 +155,31 @@ export class RealtimeService {
     logger.debug({ cityId, type: data.type }, 'Emitted maintenance change');
   }
 
+  /**
+   * Emitir evento de mudança no CRM (leads, oportunidades e atividades)
+   */
+  emitCrmChange(franchiseeId: string | null, cityId: string | null, data: RealtimeEvent): void {
+    if (franchiseeId) {
+      this.io.to(`franchisee:${franchiseeId}`).emit('crm:change', data);
+    }
+    if (cityId) {
+      this.io.to(`city:${cityId}`).emit('crm:change', data);
+    }
+    this.io.to('admin').emit('crm:change', data);
+    logger.debug({ franchiseeId, cityId, type: data.type, table: data.table }, 'Emitted CRM change');
+  }
+
+  /**
+   * Emitir evento de mensagem/conversa do WhatsApp (caixa de entrada da cidade)
+   */
+  emitWhatsappChange(cityId: string | null, data: RealtimeEvent): void {
+    if (cityId) {
+      this.io.to(`city:${cityId}`).emit('whatsapp:change', data);
+    }
+    this.io.to('admin').emit('whatsapp:change', data);
+    logger.debug({ cityId, type: data.type, table: data.table }, 'Emitted WhatsApp change');
+  }
+
   /**
    * Emitir evento de mudança em locação
    */
@@ -167,6 +192,30 @@ export class RealtimeService {
     logger.debug({ franchiseeId, cityId, type: data.type }, 'Emitted rental change');
   }
 
+  /**
+   * Emitir alerta operacional de locação (ex: lembrete de renovação)
+   */
+  emitRentalAlert(franchiseeId: string, cityId: string | null | undefined, data: RealtimeEvent): void {
+    this.io.to(`franchisee:${franchiseeId}`).emit('rental:alert', data);
+    if (cityId) {
+      this.io.to(`city:${cityId}`).emit('rental:alert', data);
+    }
+    this.io.to('admin').emit('rental:alert', data);
+    logger.debug({ franchiseeId, cityId, type: data.type }, 'Emitted rental alert');
+  }
+
+  /**
+   * Emitir alerta de inadimplência (entrada/saída do estado inadimplente e renegociações)
+   */
+  emitDelinquencyChange(franchiseeId: string, cityId: string | null | undefined, data: RealtimeEvent): void {
+    this.io.to(`franchisee:${franchiseeId}`).emit('delinquency:change', data);
+    if (cityId) {
+      this.io.to(`city:${cityId}`).emit('delinquency:change', data);
+    }
+    this.io.to('admin').emit('delinquency:change', data);
+    logger.debug({ franchiseeId, cityId, type: data.type }, 'Emitted delinquency change');
+  }
+
   /**
    * Emitir evento de mudança em rastreadores
    */
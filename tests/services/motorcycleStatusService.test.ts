@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  motorcycleStatusService,
+  MOTORCYCLE_STATUS_TRANSITIONS,
+  RENTED_STATUSES,
+} from '../../src/services/motorcycleStatusService.js';
+
+const { findRegionals, emitNotification } = vi.hoisted(() => ({
+  findRegionals: vi.fn(),
+  emitNotification: vi.fn(),
+}));
+
+vi.mock('../../src/config/database.js', () => ({
+  prisma: { appUser: { findMany: findRegionals } },
+}));
+vi.mock('../../src/websocket/index.js', () => ({
+  realtimeService: { emitNotification },
+}));
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Cliente do banco com apenas o que transition() usa
+const fakeDb = (status: string) => {
+  const motorcycle = { id: 'moto-1', placa: 'ABC1D23', city_id: 'city-1', status };
+  return {
+    $queryRaw: vi.fn().mockResolvedValue([{ id: motorcycle.id }]),
+    motorcycle: {
+      findUnique: vi.fn().mockResolvedValue(motorcycle),
+      update: vi.fn().mockImplementation(({ data }) => Promise.resolve({ ...motorcycle, ...data })),
+    },
+    motorcycleMovement: { create: vi.fn().mockResolvedValue({}) },
+    ordemServico: { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+  };
+};
+
+describe('motorcycleStatusService', () => {
+  beforeEach(() => {
+    findRegionals.mockReset();
+    emitNotification.mockReset();
+  });
+
+  describe('MOTORCYCLE_STATUS_TRANSITIONS', () => {
+    it('todo destino do grafo é um status conhecido', () => {
+      const statuses = Object.keys(MOTORCYCLE_STATUS_TRANSITIONS);
+      for (const rules of Object.values(MOTORCYCLE_STATUS_TRANSITIONS)) {
+        for (const rule of rules) {
+          expect(statuses).toContain(rule.to);
+        }
+      }
+    });
+
+    it('furto/roubo exige motivo e comprovante e só sai para recolhida', () => {
+      expect(() => motorcycleStatusService.assertTransition('active', 'furto_roubo', { reason: 'Furto' }))
+        .toThrow('Anexe o comprovante');
+      expect(motorcycleStatusService.assertTransition('active', 'furto_roubo', { reason: 'Furto', evidence_url: 'https://bo' }))
+        .toMatchObject({ closeOpenOrders: 'cancelada', notifyRegional: true });
+      expect(motorcycleStatusService.allowedTransitions('furto_roubo').map(rule => rule.to)).toEqual(['recolhida']);
+    });
+
+    it('exige motivo nas transições que pedem reason', () => {
+      expect(() => motorcycleStatusService.assertTransition('active', 'indisponivel_rastreador', { reason: '  ' }))
+        .toThrow('Informe o motivo');
+      expect(motorcycleStatusService.assertTransition('active', 'manutencao')).toMatchObject({ to: 'manutencao' });
+    });
+
+    it('rejeita transição fora do grafo com os destinos permitidos', () => {
+      let error: any;
+      try {
+        motorcycleStatusService.assertTransition('furto_roubo', 'active', { reason: 'Recuperada' });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toMatchObject({
+        statusCode: 409,
+        code: 'INVALID_STATUS_TRANSITION',
+        from: 'furto_roubo',
+        to: 'active',
+        allowed: ['recolhida'],
+      });
+    });
+  });
+
+  describe('RENTED_STATUSES', () => {
+    it.each(RENTED_STATUSES)('%s não pode ser definido pela tela de motos', (status) => {
+      const manual = motorcycleStatusService.allowedTransitions('active', 'manual').map(rule => rule.to);
+      expect(manual).not.toContain(status);
+      expect(() => motorcycleStatusService.assertTransition('recolhida', status)).toThrow();
+    });
+
+    it('alugada entra e sai pelos fluxos de locação', () => {
+      expect(motorcycleStatusService.assertTransition('active', 'alugada', { source: 'rental' }).to).toBe('alugada');
+      expect(motorcycleStatusService.assertTransition('alugada', 'active', { source: 'rental' }).to).toBe('active');
+      expect(() => motorcycleStatusService.assertTransition('alugada', 'active')).toThrow();
+    });
+
+    it('inadimplente e renegociado são definidos pela inadimplência', () => {
+      expect(motorcycleStatusService.assertTransition('alugada', 'inadimplente', { source: 'delinquency' }).to).toBe('inadimplente');
+      expect(motorcycleStatusService.assertTransition('inadimplente', 'renegociado', { source: 'delinquency' }).to).toBe('renegociado');
+      expect(() => motorcycleStatusService.assertTransition('alugada', 'inadimplente', { source: 'rental' })).toThrow();
+    });
+
+    it('moto com cliente pode ser recolhida ou ter furto/roubo registrado', () => {
+      for (const status of RENTED_STATUSES) {
+        const manual = motorcycleStatusService.allowedTransitions(status, 'manual').map(rule => rule.to);
+        expect(manual).toEqual(expect.arrayContaining(['recolhida', 'furto_roubo']));
+      }
+    });
+  });
+
+  describe('transition', () => {
+    it('não altera a moto quando o status atual está fora de fromStatuses', async () => {
+      const db = fakeDb('manutencao');
+
+      const result = await motorcycleStatusService.transition(db as any, 'moto-1', 'recolhida', {
+        reason: 'Distrato',
+        source: 'distrato',
+        fromStatuses: [...RENTED_STATUSES, 'active'],
+      });
+
+      expect(result).toMatchObject({ changed: false, previous_status: 'manutencao', notifications: [] });
+      expect(db.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(db.motorcycle.update).not.toHaveBeenCalled();
+      expect(db.motorcycleMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('devolve changed false quando a moto já está no status pedido', async () => {
+      const db = fakeDb('alugada');
+
+      const result = await motorcycleStatusService.transition(db as any, 'moto-1', 'alugada', { source: 'rental' });
+
+      expect(result.changed).toBe(false);
+      expect(db.motorcycleMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('registra o movimento e devolve o aviso aos regionais sem emiti-lo', async () => {
+      const db = fakeDb('active');
+
+      const result = await motorcycleStatusService.transition(db as any, 'moto-1', 'indisponivel_emplacamento', {
+        reason: 'Placa pendente',
+        userId: 'user-1',
+      });
+
+      expect(result.changed).toBe(true);
+      expect(db.motorcycleMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ previous_status: 'active', new_status: 'indisponivel_emplacamento', source: 'manual' }),
+      });
+      expect(result.notifications).toEqual([
+        expect.objectContaining({ city_id: 'city-1', type: 'warning', title: 'Moto ABC1D23: Indisponível (emplacamento)' }),
+      ]);
+      expect(findRegionals).not.toHaveBeenCalled();
+      expect(emitNotification).not.toHaveBeenCalled();
+    });
+
+    it('furto/roubo cancela as OS abertas', async () => {
+      const db = fakeDb('alugada');
+
+      const result = await motorcycleStatusService.transition(db as any, 'moto-1', 'furto_roubo', {
+        reason: 'Roubo',
+        evidence_url: 'https://bo',
+      });
+
+      expect(db.ordemServico.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'cancelada' }),
+      }));
+      expect(result.notifications[0].type).toBe('error');
+    });
+  });
+
+  describe('notifyRegional', () => {
+    it('emite o aviso para cada regional ativo da cidade', async () => {
+      findRegionals.mockResolvedValue([{ id: 'regional-1' }, { id: 'regional-2' }]);
+      const { notifications } = await motorcycleStatusService.transition(fakeDb('active') as any, 'moto-1', 'indisponivel_rastreador', {
+        reason: 'Sem sinal',
+      });
+
+      await motorcycleStatusService.notifyRegional(notifications);
+
+      expect(findRegionals).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'active', role: 'regional', city_id: 'city-1' },
+      }));
+      expect(emitNotification).toHaveBeenCalledTimes(2);
+      expect(emitNotification).toHaveBeenCalledWith('regional-1', expect.objectContaining({
+        message: 'Status alterado de "Disponível" para "Indisponível (rastreador)": Sem sinal',
+      }));
+    });
+
+    it('não consulta o banco sem avisos pendentes', async () => {
+      await motorcycleStatusService.notifyRegional([]);
+      await motorcycleStatusService.notifyRegional(undefined);
+
+      expect(findRegionals).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { pricingService } from '../../src/services/pricingService.js';
+
+const day = (date: string) => new Date(`${date}T12:00:00Z`);
+
+describe('pricingService', () => {
+  describe('bestTierCombination', () => {
+    it('usa diárias enquanto saem mais baratas que a semana', () => {
+      expect(pricingService.bestTierCombination(5, 50, 280, null)).toEqual({ cost: 250, monthly: 0, weekly: 0, daily: 5 });
+    });
+
+    it('cobra uma semana cheia quando as diárias passam do valor semanal', () => {
+      expect(pricingService.bestTierCombination(6, 50, 280, null)).toEqual({ cost: 280, monthly: 0, weekly: 1, daily: 0 });
+      expect(pricingService.bestTierCombination(7, 50, 280, null)).toEqual({ cost: 280, monthly: 0, weekly: 1, daily: 0 });
+    });
+
+    it('combina semana e diárias após a fronteira de 7 dias', () => {
+      expect(pricingService.bestTierCombination(8, 50, 280, null)).toEqual({ cost: 330, monthly: 0, weekly: 1, daily: 1 });
+    });
+
+    it('prefere a mensalidade quando cobre o período mais barato', () => {
+      expect(pricingService.bestTierCombination(30, 50, 280, 1000)).toEqual({ cost: 1000, monthly: 1, weekly: 0, daily: 0 });
+      expect(pricingService.bestTierCombination(31, 50, 280, 1000)).toEqual({ cost: 1050, monthly: 1, weekly: 0, daily: 1 });
+    });
+  });
+
+  describe('calculate', () => {
+    it('exige a data de devolução', () => {
+      expect(() => pricingService.calculate({ dailyRate: 50, startDate: day('2026-01-01') }))
+        .toThrow('Data de devolução não informada');
+    });
+
+    it('aplica o mínimo de dias do plano', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        plan: { minimum_days: 5 },
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-04'),
+      });
+
+      expect(result.days).toBe(3);
+      expect(result.billed_days).toBe(5);
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'daily', quantity: 5, amount: 250, description: 'Diária (mínimo de 5 dias do plano)' }),
+      ]);
+      expect(result.total).toBe(250);
+    });
+
+    it('cobra a multa de devolução antecipada sobre as diárias não utilizadas', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        plan: { early_return_fee_percentage: 50 },
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-15'),
+        returnDate: day('2026-01-11'),
+      });
+
+      expect(result.days).toBe(10);
+      expect(result.contracted_days).toBe(14);
+      expect(result.unused_days).toBe(4);
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'daily', quantity: 10, amount: 500 }),
+        expect.objectContaining({ type: 'early_return', quantity: 4, unit_price: 25, amount: 100 }),
+      ]);
+      expect(result.total).toBe(600);
+    });
+
+    it('sem percentual de multa no plano, a devolução antecipada cobra só os dias usados', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-15'),
+        returnDate: day('2026-01-11'),
+      });
+
+      expect(result.unused_days).toBe(4);
+      expect(result.items.map(item => item.type)).toEqual(['daily']);
+      expect(result.total).toBe(500);
+    });
+
+    it('cobra os dias de atraso pela diária de atraso do plano', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        plan: { weekly_rate: 280, late_return_daily_rate: 80 },
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-08'),
+        returnDate: day('2026-01-10'),
+      });
+
+      expect(result.late_days).toBe(2);
+      expect(result.billed_days).toBe(9);
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'weekly', quantity: 1, amount: 280 }),
+        expect.objectContaining({ type: 'late_return', quantity: 2, unit_price: 80, amount: 160 }),
+      ]);
+      expect(result.total).toBe(440);
+    });
+
+    it('desconta os dias de pausa do período cobrado e do contratado', () => {
+      const onTime = pricingService.calculate({
+        dailyRate: 50,
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-21'),
+        pausedDays: 5,
+      });
+
+      expect(onTime.days).toBe(15);
+      expect(onTime.contracted_days).toBe(15);
+      expect(onTime.paused_days).toBe(5);
+      expect(onTime.late_days).toBe(0);
+      expect(onTime.total).toBe(750);
+
+      const late = pricingService.calculate({
+        dailyRate: 50,
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-21'),
+        returnDate: day('2026-01-23'),
+        pausedDays: 5,
+      });
+
+      expect(late.days).toBe(17);
+      expect(late.late_days).toBe(2);
+      expect(late.total).toBe(850);
+    });
+
+    it('aplica as semanas promocionais antes das demais faixas', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        plan: { weekly_rate: 280, promo_weekly_rate: 200, promo_weeks: 1 },
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-15'),
+      });
+
+      expect(result.items).toEqual([
+        expect.objectContaining({ type: 'promotional_weekly', quantity: 1, amount: 200 }),
+        expect.objectContaining({ type: 'weekly', quantity: 1, amount: 280 }),
+      ]);
+      expect(result.total).toBe(480);
+    });
+
+    it('cobra o km excedente e limita o desconto ao subtotal', () => {
+      const result = pricingService.calculate({
+        dailyRate: 50,
+        plan: { km_allowance_per_day: 100, km_overage_rate: 0.5 },
+        startDate: day('2026-01-01'),
+        endDate: day('2026-01-03'),
+        kmInicial: 1000,
+        kmFinal: 1300,
+        discountAmount: 1000,
+      });
+
+      expect(result.km_driven).toBe(300);
+      expect(result.km_allowance).toBe(200);
+      expect(result.items).toContainEqual(expect.objectContaining({ type: 'km_overage', quantity: 100, amount: 50 }));
+      expect(result.subtotal).toBe(150);
+      expect(result.discount).toBe(150);
+      expect(result.total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPlate,
+  getPlateFormat,
+  hasValidVinCheckDigit,
+  isValidChassi,
+  isValidCnpj,
+  isValidCpf,
+  isValidCpfCnpj,
+  isValidPlate,
+  isValidRenavam,
+  normalizeChassi,
+  normalizeCnpj,
+  normalizeCpfCnpj,
+  normalizeRenavam,
+  parseIdentifier,
+} from '../../src/utils/identifiers.js';
+
+describe('identifiers', () => {
+  describe('CPF', () => {
+    it('aceita CPF válido com ou sem pontuação', () => {
+      expect(isValidCpf('529.982.247-25')).toBe(true);
+      expect(isValidCpf('52998224725')).toBe(true);
+    });
+
+    it('rejeita dígito verificador errado, tamanho errado e dígitos repetidos', () => {
+      expect(isValidCpf('529.982.247-26')).toBe(false);
+      expect(isValidCpf('5299822472')).toBe(false);
+      expect(isValidCpf('111.111.111-11')).toBe(false);
+    });
+  });
+
+  describe('CNPJ', () => {
+    it('aceita CNPJ numérico válido', () => {
+      expect(isValidCnpj('11.222.333/0001-81')).toBe(true);
+      expect(isValidCnpj('11222333000181')).toBe(true);
+    });
+
+    it('aceita CNPJ alfanumérico válido', () => {
+      expect(normalizeCnpj('12.abc.345/01de-35')).toBe('12ABC34501DE35');
+      expect(isValidCnpj('12.ABC.345/01DE-35')).toBe(true);
+    });
+
+    it('rejeita dígito verificador errado, letras nos dígitos verificadores e repetidos', () => {
+      expect(isValidCnpj('11.222.333/0001-82')).toBe(false);
+      expect(isValidCnpj('12.ABC.345/01DE-36')).toBe(false);
+      expect(isValidCnpj('12ABC34501DEAB')).toBe(false);
+      expect(isValidCnpj('00000000000000')).toBe(false);
+    });
+  });
+
+  describe('CPF/CNPJ', () => {
+    it('escolhe a validação pelo tamanho', () => {
+      expect(normalizeCpfCnpj('529.982.247-25')).toBe('52998224725');
+      expect(isValidCpfCnpj('529.982.247-25')).toBe(true);
+      expect(isValidCpfCnpj('11.222.333/0001-81')).toBe(true);
+      expect(isValidCpfCnpj('11.222.333/0001-80')).toBe(false);
+    });
+  });
+
+  describe('RENAVAM', () => {
+    it('aceita RENAVAM de 11 dígitos', () => {
+      expect(normalizeRenavam('12345678900')).toBe('12345678900');
+      expect(isValidRenavam('12345678900')).toBe(true);
+      expect(isValidRenavam('12345678901')).toBe(false);
+    });
+
+    it('completa o RENAVAM antigo de 9 dígitos com zeros à esquerda', () => {
+      expect(normalizeRenavam('639724558')).toBe('00639724558');
+      expect(isValidRenavam('639724558')).toBe(true);
+      expect(isValidRenavam('639724559')).toBe(false);
+    });
+
+    it('rejeita dígitos repetidos e mais de 11 dígitos', () => {
+      expect(isValidRenavam('11111111111')).toBe(false);
+      expect(isValidRenavam('123456789001')).toBe(false);
+    });
+  });
+
+  describe('Chassi (VIN)', () => {
+    it('normaliza espaços, pontos e hífens em maiúsculas', () => {
+      expect(normalizeChassi(' 1m8gdm9a.xkp-042788 ')).toBe('1M8GDM9AXKP042788');
+    });
+
+    it('exige 17 caracteres sem I, O e Q', () => {
+      expect(isValidChassi('1M8GDM9AXKP042788')).toBe(true);
+      expect(isValidChassi('1M8GDM9AXKP04278')).toBe(false);
+      expect(isValidChassi('1M8GDM9AXKP04278O')).toBe(false);
+    });
+
+    it('confere o dígito verificador (posição 9)', () => {
+      expect(hasValidVinCheckDigit('1M8GDM9AXKP042788')).toBe(true);
+      expect(hasValidVinCheckDigit('1M8GDM9A1KP042788')).toBe(false);
+    });
+
+    it('não exige o dígito verificador para considerar o chassi válido', () => {
+      expect(isValidChassi('1M8GDM9A1KP042788')).toBe(true);
+    });
+  });
+
+  describe('Placa', () => {
+    it('reconhece a placa antiga (ABC1234)', () => {
+      expect(getPlateFormat('abc-1234')).toBe('antiga');
+      expect(formatPlate('abc1234')).toBe('ABC-1234');
+    });
+
+    it('reconhece a placa Mercosul (ABC1D23)', () => {
+      expect(getPlateFormat('ABC-1D23')).toBe('mercosul');
+      expect(formatPlate('abc1d23')).toBe('ABC1D23');
+    });
+
+    it('rejeita outros formatos', () => {
+      expect(isValidPlate('AB1234')).toBe(false);
+      expect(isValidPlate('ABC12D3')).toBe(false);
+      expect(getPlateFormat('')).toBeNull();
+    });
+  });
+
+  describe('parseIdentifier', () => {
+    it('normaliza o valor válido e transforma vazio em null', () => {
+      expect(parseIdentifier('placa', 'abc-1d23')).toBe('ABC1D23');
+      expect(parseIdentifier('cpf', '')).toBeNull();
+    });
+
+    it('lança erro 400 com o rótulo informado', () => {
+      expect(() => parseIdentifier('cpf_cnpj', '123', 'CPF')).toThrow('CPF inválido');
+      expect(() => parseIdentifier('cpf_cnpj', '123', 'CPF')).toThrow(expect.objectContaining({ statusCode: 400, code: 'BAD_REQUEST' }));
+    });
+  });
+});